@@ -0,0 +1,121 @@
+#!/usr/bin/env bun
+
+import { createWriteStream } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { pipeline } from 'node:stream/promises'
+
+type Command = 'export' | 'import'
+
+interface CliOptions {
+  command: Command | null
+  dataDir: string
+  file: string
+  mode: 'merge' | 'replace'
+  includeCredentials: boolean
+}
+
+function printHelp(): void {
+  console.log(`Usage:
+  bun scripts/data-bundle.ts export --output <file> [--include-credentials] [--data-dir <directory>]
+  bun scripts/data-bundle.ts import --input <file> [--mode merge|replace] [--data-dir <directory>]
+
+Options:
+  --data-dir <directory>     Runtime data directory (default: DATA_DIR or server/runtime-data)
+  --output <file>            Where to write the export bundle (.json.gz)
+  --input <file>             Bundle to import (gzipped or plain JSON)
+  --mode <merge|replace>     Merge into existing data (default) or replace it entirely
+  --include-credentials      Keep roster password hashes in the export (left out by default)
+  --help                     Show this message
+`)
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    command: null,
+    dataDir: path.resolve(process.env.DATA_DIR ?? 'server/runtime-data'),
+    file: '',
+    mode: 'merge',
+    includeCredentials: false,
+  }
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i]
+    switch (arg) {
+      case 'export':
+      case 'import':
+        options.command = arg
+        break
+      case '--data-dir':
+        options.dataDir = path.resolve(argv[++i] ?? '')
+        break
+      case '--output':
+      case '--input':
+        options.file = path.resolve(argv[++i] ?? '')
+        break
+      case '--mode': {
+        const mode = argv[++i]
+        if (mode !== 'merge' && mode !== 'replace') {
+          throw new Error('--mode must be "merge" or "replace".')
+        }
+        options.mode = mode
+        break
+      }
+      case '--include-credentials':
+        options.includeCredentials = true
+        break
+      case '--help':
+      case '-h':
+        printHelp()
+        process.exit(0)
+      default:
+        throw new Error(`Unknown argument: ${arg}`)
+    }
+  }
+
+  if (!options.command) {
+    throw new Error('Specify a command: export or import.')
+  }
+  if (!options.file) {
+    throw new Error(options.command === 'export' ? '--output is required.' : '--input is required.')
+  }
+  return options
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  // The server modules resolve DATA_DIR when they load, so set it before importing them.
+  process.env.DATA_DIR = options.dataDir
+  const { importDataBundle, parseDataBundle, streamDataBundle } = await import('../src/server/data-bundle')
+
+  if (options.command === 'export') {
+    const { manifest, stream } = await streamDataBundle({ includeCredentials: options.includeCredentials })
+    await pipeline(stream, createWriteStream(options.file))
+    const { counts } = manifest
+    console.log(
+      `Exported ${counts.logos} logos, ${counts.contests} contests, ${counts.matches} matches, ${counts.allowedUsers} roster entries and ${counts.assets} assets to ${options.file}`,
+    )
+    return
+  }
+
+  const bundle = parseDataBundle(await readFile(options.file))
+  const summary = await importDataBundle(bundle, { mode: options.mode })
+  console.log(`Imported ${options.file} into ${options.dataDir} (${summary.mode}).`)
+  if (summary.migrated.length > 0) {
+    console.log(`  Migrated from older schema: ${summary.migrated.join(', ')}`)
+  }
+  console.log(`  Logos: ${summary.logos.added} added, ${summary.logos.updated} updated`)
+  console.log(`  Contests: ${summary.contests.added} added, ${summary.contests.updated} updated`)
+  console.log(
+    `  Votes: ${summary.votes.matchesAdded} matches added (${summary.votes.contestsAdded} new contests, ${summary.votes.contestsMerged} merged)`,
+  )
+  console.log(`  Roster: ${summary.allowedUsers.added} added; vote events: ${summary.voteEvents.added} added`)
+  console.log(`  Assets written: ${summary.assets.written}`)
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
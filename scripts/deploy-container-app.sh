@@ -11,6 +11,8 @@ ACR_NAME=${ACR_NAME:-ces3badgeacr}
 LOG_ANALYTICS_NAME=${LOG_ANALYTICS_NAME:-ces3-badge-law}
 PORT=${PORT:-80}
 DATA_DIR=${DATA_DIR:-/app/data}
+# The Container Apps ingress appends the client address to X-Forwarded-For.
+TRUSTED_PROXY_HOPS=${TRUSTED_PROXY_HOPS:-1}
 IMAGE_NAME=${IMAGE_NAME:-${APP_NAME}}
 IMAGE_TAG=${IMAGE_TAG:-$(git rev-parse --short HEAD 2>/dev/null || date +%Y%m%d%H%M%S)}
 FULL_IMAGE="${ACR_NAME}.azurecr.io/${IMAGE_NAME}:${IMAGE_TAG}"
@@ -206,6 +208,8 @@ cat >"${config_file}" <<YAML
             "value": "${PORT}"
           - "name": "DATA_DIR"
             "value": "${DATA_DIR}"
+          - "name": "TRUSTED_PROXY_HOPS"
+            "value": "${TRUSTED_PROXY_HOPS}"
         "volumeMounts":
           - "mountPath": "${DATA_DIR}"
             "volumeName": "${STORAGE_VOLUME_NAME}"
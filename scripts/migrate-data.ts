@@ -0,0 +1,89 @@
+#!/usr/bin/env bun
+
+import path from 'node:path'
+
+interface CliOptions {
+  check: boolean
+  dataDir: string
+}
+
+function printHelp(): void {
+  console.log(`Usage:
+  bun scripts/migrate-data.ts [--check] [--data-dir <directory>]
+
+Upgrades logos.json, votes.json and contests.json to the schema this release expects.
+The original files are kept in the backups folder before anything is rewritten.
+
+Options:
+  --check                    Report pending migrations without writing (exits 2 if any are pending)
+  --data-dir <directory>     Runtime data directory (default: DATA_DIR or server/runtime-data)
+  --help                     Show this message
+`)
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    check: false,
+    dataDir: path.resolve(process.env.DATA_DIR ?? 'server/runtime-data'),
+  }
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i]
+    switch (arg) {
+      case '--check':
+        options.check = true
+        break
+      case '--data-dir':
+        options.dataDir = path.resolve(argv[++i] ?? '')
+        break
+      case '--help':
+      case '-h':
+        printHelp()
+        process.exit(0)
+      default:
+        throw new Error(`Unknown argument: ${arg}`)
+    }
+  }
+
+  return options
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  // The server modules resolve DATA_DIR when they load, so set it before importing them.
+  process.env.DATA_DIR = options.dataDir
+  const { runPendingMigrations } = await import('../src/server/migrations')
+
+  const reports = await runPendingMigrations({ dryRun: options.check })
+  if (reports.length === 0) {
+    console.log(`No data files found in ${options.dataDir}.`)
+    return
+  }
+
+  let pending = 0
+  for (const report of reports) {
+    if (report.steps.length === 0 && report.fromVersion === report.toVersion) {
+      console.log(`${report.document}: up to date (v${report.toVersion})`)
+      continue
+    }
+    pending += 1
+    const verb = report.applied ? 'migrated' : 'would migrate'
+    console.log(
+      `${report.document}: ${verb} v${report.fromVersion} -> v${report.toVersion} (${report.changedFields} field changes)`,
+    )
+    for (const step of report.steps) {
+      console.log(`  v${step.from} -> v${step.to}: ${step.description}`)
+    }
+  }
+
+  if (options.check && pending > 0) {
+    process.exit(2)
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
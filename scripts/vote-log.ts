@@ -0,0 +1,97 @@
+#!/usr/bin/env bun
+
+import path from 'node:path'
+
+type Command = 'verify' | 'rotate' | 'compact'
+
+interface CliOptions {
+  command: Command | null
+  dataDir: string
+}
+
+function printHelp(): void {
+  console.log(`Usage:
+  bun scripts/vote-log.ts verify [--data-dir <directory>]
+  bun scripts/vote-log.ts rotate [--data-dir <directory>]
+  bun scripts/vote-log.ts compact [--data-dir <directory>]
+
+Commands:
+  verify                     Check segment checksums and the event hash chain (exits 1 on tampering or truncation)
+  rotate                     Move the active vote-events.ndjson into a new segment now
+  compact                    Gzip every rotated segment that is still plain text
+
+Options:
+  --data-dir <directory>     Runtime data directory (default: DATA_DIR or server/runtime-data)
+  --help                     Show this message
+`)
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    command: null,
+    dataDir: path.resolve(process.env.DATA_DIR ?? 'server/runtime-data'),
+  }
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i]
+    switch (arg) {
+      case 'verify':
+      case 'rotate':
+      case 'compact':
+        options.command = arg
+        break
+      case '--data-dir':
+        options.dataDir = path.resolve(argv[++i] ?? '')
+        break
+      case '--help':
+      case '-h':
+        printHelp()
+        process.exit(0)
+      default:
+        throw new Error(`Unknown argument: ${arg}`)
+    }
+  }
+
+  if (!options.command) {
+    throw new Error('Specify a command: verify, rotate or compact.')
+  }
+  return options
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  // The server modules resolve DATA_DIR when they load, so set it before importing them.
+  process.env.DATA_DIR = options.dataDir
+  const { compactVoteEventLog, rotateVoteEventLog, verifyVoteEventLog } = await import(
+    '../src/server/vote-event-log'
+  )
+
+  if (options.command === 'rotate' || options.command === 'compact') {
+    const manifest = options.command === 'rotate' ? await rotateVoteEventLog() : await compactVoteEventLog()
+    const compressed = manifest.segments.filter((segment) => segment.compressed).length
+    console.log(`${manifest.segments.length} segments (${compressed} gzipped), ${manifest.head.events} events in total.`)
+    return
+  }
+
+  const result = await verifyVoteEventLog()
+  console.log(`Checked ${result.events} events across ${result.segments} segments and the active file.`)
+  if (result.legacyEvents > 0) {
+    console.log(`  ${result.legacyEvents} events predate the hash chain and are not tamper-evident.`)
+  }
+  if (result.ok) {
+    console.log('Vote event log is intact.')
+    return
+  }
+  for (const issue of result.issues) {
+    const location = issue.lineNumber === null ? issue.file : `${issue.file}:${issue.lineNumber}`
+    console.error(`  [${issue.kind}] ${location} ${issue.message}`)
+  }
+  process.exit(1)
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
@@ -128,6 +128,11 @@ const server = http.createServer(async (req, res) => {
       }
     }
 
+    // Lets long-lived responses (the scoreboard stream) release their resources when the
+    // client goes away; the fetch handler otherwise never learns about the disconnect.
+    const disconnect = new AbortController()
+    res.on('close', () => disconnect.abort())
+
     const method = req.method ?? 'GET'
     const hasBody = method !== 'GET' && method !== 'HEAD'
     const request = new Request(url, {
@@ -135,7 +140,11 @@ const server = http.createServer(async (req, res) => {
       headers,
       body: hasBody ? req : undefined,
       duplex: hasBody ? 'half' : undefined,
+      signal: disconnect.signal,
     })
+    // Exposed like srvx's `request.ip`, so the app anchors X-Forwarded-For at the socket peer
+    // (see TRUSTED_PROXY_HOPS) rather than trusting whatever the client put in the header.
+    Object.defineProperty(request, 'ip', { value: req.socket.remoteAddress })
 
     if (await serveStatic(req, res)) {
       return
@@ -152,6 +161,9 @@ const server = http.createServer(async (req, res) => {
     }
 
     const readable = Readable.fromWeb(response.body)
+    // pipe() stops writing to a closed socket but leaves the source open; destroying it
+    // cancels the web stream so its cancel() cleanup runs.
+    res.on('close', () => readable.destroy())
     readable.pipe(res)
   } catch (error) {
     console.error('Request handling failed', error)
@@ -345,6 +345,24 @@ export default function Header() {
                           Contest admin
                         </Link>
                       )}
+                      {isAdmin && (
+                        <Link
+                          to="/admin/backups"
+                          onClick={() => setShowUserMenu(false)}
+                          className="flex items-center justify-between rounded-2xl px-3 py-2 transition hover:bg-white/10 hover:text-white"
+                        >
+                          Data backups
+                        </Link>
+                      )}
+                      {isAdmin && (
+                        <Link
+                          to="/admin/audit"
+                          onClick={() => setShowUserMenu(false)}
+                          className="flex items-center justify-between rounded-2xl px-3 py-2 transition hover:bg-white/10 hover:text-white"
+                        >
+                          Audit log
+                        </Link>
+                      )}
                       <button
                         type="button"
                         onClick={() => {
@@ -1,5 +1,6 @@
 import { Link } from '@tanstack/react-router'
 
+import { getLogoImageSources } from '../lib/logo-utils'
 import type { LogoEntry } from '../state/LogoLibraryContext'
 
 interface LogoCardProps {
@@ -28,10 +29,11 @@ export function LogoCard({
     <article className={wrapperClasses}>
       <div className="flex h-48 w-full items-center justify-center bg-slate-950/40">
         <img
-          src={logo.image}
+          {...getLogoImageSources(logo, '12rem')}
           alt={logo.name}
           className="max-h-full max-w-full object-contain"
           loading="lazy"
+          decoding="async"
         />
       </div>
       <div className="flex flex-1 flex-col gap-4 p-6">
@@ -1,3 +1,7 @@
+import type { HistoryRetention } from './history-retention'
+import type { RatingSettings } from './rating-engines'
+import type { ChampionSignificance, RatingInterval } from './rating-confidence'
+
 export type ContestStatus = 'draft' | 'upcoming' | 'active' | 'archived'
 
 export interface Contest {
@@ -13,6 +17,8 @@ export interface Contest {
   endsAt?: string | null
   archivedAt?: string | null
   votingOpen: boolean
+  rating: RatingSettings
+  historyRetention: HistoryRetention
 }
 
 export interface ContestLeaderboardEntry {
@@ -21,6 +27,10 @@ export interface ContestLeaderboardEntry {
   logoCodename: string
   logoImage: string
   rating: number
+  /** One standard deviation of rating uncertainty, when the contest's engine reports it. */
+  deviation: number | null
+  /** Bootstrapped 95% interval from resampling the match history; null before any votes. */
+  interval: RatingInterval | null
   wins: number
   losses: number
   matches: number
@@ -51,6 +61,7 @@ export interface ContestWithMetrics extends Contest {
   leaderboard: ContestLeaderboardEntry[]
   lastMatchAt: string | null
   championInsights?: ChampionInsights | null
+  championSignificance?: ChampionSignificance | null
 }
 
 export const DEFAULT_CONTEST_ID = 'badge-arena'
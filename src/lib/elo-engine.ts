@@ -9,6 +9,10 @@ export interface EloEntry {
   wins: number
   losses: number
   matches: number
+  /** Rating uncertainty (one standard deviation, rating points) for engines that model it. */
+  deviation?: number
+  /** Glicko-2 volatility. */
+  volatility?: number
 }
 
 export interface MatchHistoryEntry {
@@ -16,6 +20,24 @@ export interface MatchHistoryEntry {
   loserId: string
   timestamp: number
   voterHash: string | null
+  /** Artwork versions the voter was shown; absent for catalog logos and older votes. */
+  winnerVersion?: number
+  loserVersion?: number
+}
+
+function isArtworkVersion(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+/** The artwork-version fields of a history entry, leaving out anything that is not a version. */
+export function pickMatchVersions(
+  winnerVersion: unknown,
+  loserVersion: unknown,
+): Pick<MatchHistoryEntry, 'winnerVersion' | 'loserVersion'> {
+  return {
+    ...(isArtworkVersion(winnerVersion) ? { winnerVersion } : {}),
+    ...(isArtworkVersion(loserVersion) ? { loserVersion } : {}),
+  }
 }
 
 export interface EloState {
@@ -44,10 +66,33 @@ export function calculateTotalMatches(entries: Record<string, EloEntry>): number
   return Math.floor(aggregate)
 }
 
-function createPairKey(a: string, b: string): string {
+export function createPairKey(a: string, b: string): string {
   return [a, b].sort().join('|')
 }
 
+/** Identifies one recorded match, for de-duplicating histories merged from several sources. */
+export function createMatchKey(match: MatchHistoryEntry): string {
+  return `${match.timestamp}|${match.winnerId}|${match.loserId}|${match.voterHash ?? ''}`
+}
+
+export function hasVoterJudgedPair(
+  history: MatchHistoryEntry[],
+  voterHash: string | null,
+  a: string,
+  b: string,
+): boolean {
+  const normalizedHash = normalizeVoterHash(voterHash)
+  if (!normalizedHash) {
+    return false
+  }
+
+  const pairKey = createPairKey(a, b)
+  return history.some(
+    (match) =>
+      match.voterHash === normalizedHash && createPairKey(match.winnerId, match.loserId) === pairKey,
+  )
+}
+
 export function normalizeVoterHash(value: string | null | undefined): string | null {
   if (!value) {
     return null
@@ -80,12 +125,23 @@ function coerceEntry(value: unknown): EloEntry | null {
     return null
   }
 
-  return {
+  const entry: EloEntry = {
     rating,
     wins,
     losses,
     matches,
   }
+
+  const deviation = Number(record.deviation)
+  if (record.deviation !== undefined && Number.isFinite(deviation)) {
+    entry.deviation = deviation
+  }
+  const volatility = Number(record.volatility)
+  if (record.volatility !== undefined && Number.isFinite(volatility)) {
+    entry.volatility = volatility
+  }
+
+  return entry
 }
 
 function sanitizeHistory(value: unknown): MatchHistoryEntry[] {
@@ -119,6 +175,7 @@ function sanitizeHistory(value: unknown): MatchHistoryEntry[] {
       loserId,
       timestamp,
       voterHash: normalizeVoterHash(rawHash),
+      ...pickMatchVersions(record.winnerVersion, record.loserVersion),
     })
   }
 
@@ -213,16 +270,17 @@ export function applyMatch(
   winnerId: string,
   loserId: string,
   voterHash: string | null,
-  options: { timestamp?: number } = {},
+  options: { timestamp?: number; kFactor?: number } = {},
 ): EloState {
   const winner = state.entries[winnerId] ?? createEmptyEntry()
   const loser = state.entries[loserId] ?? createEmptyEntry()
+  const kFactor = options.kFactor ?? K_FACTOR
 
   const expectedWinner = expectedScore(winner.rating, loser.rating)
   const expectedLoser = expectedScore(loser.rating, winner.rating)
 
-  const winnerRating = winner.rating + K_FACTOR * (1 - expectedWinner)
-  const loserRating = loser.rating + K_FACTOR * (0 - expectedLoser)
+  const winnerRating = winner.rating + kFactor * (1 - expectedWinner)
+  const loserRating = loser.rating + kFactor * (0 - expectedLoser)
 
   const entries: Record<string, EloEntry> = {
     ...state.entries,
@@ -0,0 +1,112 @@
+import type { MatchHistoryEntry } from './elo-engine'
+
+/** Pairs compared fewer times than this are counted as thinly covered. */
+export const SPARSE_PAIR_MATCHES = 3
+
+export interface HeadToHeadLogo {
+  logoId: string
+  logoName: string
+  logoCodename: string
+  logoImage: string
+}
+
+export interface HeadToHeadCoverage {
+  logoCount: number
+  totalPairs: number
+  /** Pairs with at least one recorded match. */
+  comparedPairs: number
+  uncomparedPairs: number
+  /** Compared pairs with fewer than SPARSE_PAIR_MATCHES matches. */
+  sparsePairs: number
+  /** Share of pairs compared at least once, 0–1 (1 when there are no pairs). */
+  ratio: number
+}
+
+export interface HeadToHeadMatrix {
+  /** Row and column order, strongest first. */
+  logos: HeadToHeadLogo[]
+  /** `wins[row][column]` is how often the row logo beat the column logo. */
+  wins: number[][]
+  totalMatches: number
+  coverage: HeadToHeadCoverage
+}
+
+export interface HeadToHeadRecord {
+  wins: number
+  losses: number
+  matches: number
+  /** Row logo's share of the pair's matches; null when the pair was never compared. */
+  winRate: number | null
+}
+
+/**
+ * Tallies every pairwise result in `history` between the given logos. Matches involving a logo
+ * outside `logos` are ignored, so callers pass the active field in display order.
+ */
+export function computeHeadToHeadMatrix(
+  logos: HeadToHeadLogo[],
+  history: MatchHistoryEntry[],
+): HeadToHeadMatrix {
+  const index = new Map(logos.map((logo, position) => [logo.logoId, position]))
+  const wins = logos.map(() => logos.map(() => 0))
+  let totalMatches = 0
+
+  for (const match of history) {
+    const winner = index.get(match.winnerId)
+    const loser = index.get(match.loserId)
+    if (winner === undefined || loser === undefined || winner === loser) {
+      continue
+    }
+    wins[winner]![loser]! += 1
+    totalMatches += 1
+  }
+
+  let comparedPairs = 0
+  let sparsePairs = 0
+  for (let row = 0; row < logos.length; row += 1) {
+    for (let column = row + 1; column < logos.length; column += 1) {
+      const matches = wins[row]![column]! + wins[column]![row]!
+      if (matches > 0) {
+        comparedPairs += 1
+        if (matches < SPARSE_PAIR_MATCHES) {
+          sparsePairs += 1
+        }
+      }
+    }
+  }
+
+  const totalPairs = (logos.length * (logos.length - 1)) / 2
+  return {
+    logos,
+    wins,
+    totalMatches,
+    coverage: {
+      logoCount: logos.length,
+      totalPairs,
+      comparedPairs,
+      uncomparedPairs: totalPairs - comparedPairs,
+      sparsePairs,
+      ratio: totalPairs === 0 ? 1 : comparedPairs / totalPairs,
+    },
+  }
+}
+
+export function getHeadToHeadRecord(matrix: HeadToHeadMatrix, row: number, column: number): HeadToHeadRecord {
+  const wins = matrix.wins[row]?.[column] ?? 0
+  const losses = matrix.wins[column]?.[row] ?? 0
+  const matches = wins + losses
+  return { wins, losses, matches, winRate: matches === 0 ? null : wins / matches }
+}
+
+export function describeHeadToHeadCoverage(coverage: HeadToHeadCoverage): string {
+  if (coverage.totalPairs === 0) {
+    return 'Not enough logos to compare.'
+  }
+  const percentage = Math.round(coverage.ratio * 100)
+  if (coverage.uncomparedPairs === 0) {
+    return coverage.sparsePairs === 0
+      ? 'Every pair has been compared.'
+      : `Every pair has been compared, ${coverage.sparsePairs} of them fewer than ${SPARSE_PAIR_MATCHES} times.`
+  }
+  return `${percentage}% of pairs compared; ${coverage.uncomparedPairs} of ${coverage.totalPairs} have never met.`
+}
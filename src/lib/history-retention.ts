@@ -0,0 +1,62 @@
+import { HISTORY_LIMIT, type MatchHistoryEntry } from './elo-engine'
+
+/**
+ * How much match history a contest keeps in its live state. Matches beyond either limit move
+ * to the contest's history archive instead of being dropped.
+ */
+export interface HistoryRetention {
+  /** Newest matches kept in the live state (capped at HISTORY_LIMIT). */
+  maxMatches: number
+  /** Matches older than this many days are archived; null keeps them regardless of age. */
+  maxAgeDays: number | null
+}
+
+export const MIN_RETAINED_MATCHES = 100
+const MAX_RETENTION_DAYS = 3650
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxMatches: HISTORY_LIMIT,
+  maxAgeDays: null,
+}
+
+export function normalizeHistoryRetention(value: unknown): HistoryRetention {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_HISTORY_RETENTION }
+  }
+
+  const record = value as Record<string, unknown>
+  const maxMatches = Number(record.maxMatches)
+  const maxAgeDays = record.maxAgeDays === null || record.maxAgeDays === undefined ? null : Number(record.maxAgeDays)
+
+  return {
+    maxMatches: Number.isFinite(maxMatches)
+      ? Math.min(HISTORY_LIMIT, Math.max(MIN_RETAINED_MATCHES, Math.floor(maxMatches)))
+      : DEFAULT_HISTORY_RETENTION.maxMatches,
+    maxAgeDays:
+      maxAgeDays !== null && Number.isFinite(maxAgeDays) && maxAgeDays > 0
+        ? Math.min(MAX_RETENTION_DAYS, maxAgeDays)
+        : null,
+  }
+}
+
+/** Splits a newest-first history into what the policy keeps live and what it archives. */
+export function splitRetainedHistory(
+  history: MatchHistoryEntry[],
+  policy: HistoryRetention,
+  now = Date.now(),
+): { retained: MatchHistoryEntry[]; trimmed: MatchHistoryEntry[] } {
+  let keep = Math.min(history.length, policy.maxMatches)
+  if (policy.maxAgeDays !== null) {
+    const cutoff = now - policy.maxAgeDays * 24 * 60 * 60 * 1000
+    const firstExpired = history.findIndex((match) => match.timestamp < cutoff)
+    if (firstExpired !== -1) {
+      keep = Math.min(keep, firstExpired)
+    }
+  }
+  return { retained: history.slice(0, keep), trimmed: history.slice(keep) }
+}
+
+export function describeHistoryRetention(policy: HistoryRetention): string {
+  const count = `latest ${policy.maxMatches.toLocaleString()} matches`
+  return policy.maxAgeDays === null ? count : `${count}, up to ${policy.maxAgeDays} days old`
+}
@@ -19,6 +19,27 @@ export interface UpdateLogoInput {
   ownerAlias?: string | null
 }
 
+export type LogoRenditionFormat = 'png' | 'webp' | 'svg'
+
+/** A server-rendered encoding of a logo's artwork, served via `image?w=<width>&format=<format>`. */
+export interface LogoRendition {
+  format: LogoRenditionFormat
+  width: number
+  height: number
+  assetPath: string
+  bytes: number
+}
+
+/** One uploaded version of a logo's artwork. */
+export interface LogoRevision {
+  version: number
+  assetPath: string
+  renditions?: LogoRendition[]
+  /** When this version was uploaded. */
+  createdAt: string
+  createdBy: string | null
+}
+
 export interface LogoEntry {
   id: string
   contestId: string
@@ -27,6 +48,15 @@ export interface LogoEntry {
   description?: string
   image: string
   assetPath?: string | null
+  /** Thumbnails and alternative encodings of `assetPath`, widest first. */
+  renditions?: LogoRendition[]
+  /** Current artwork version of an uploaded logo; absent means 1. */
+  version?: number
+  /**
+   * Every artwork version, newest first, recorded once the artwork is first replaced. The first
+   * entry mirrors `assetPath` and `renditions`.
+   */
+  revisions?: LogoRevision[]
   ownerAlias: string | null
   source: LogoSource
   submittedBy?: string
@@ -84,6 +114,51 @@ export function createCatalogEntry(logo: LogoVariant, contestId: string = DEFAUL
   }
 }
 
+/**
+ * URL of an uploaded logo's artwork. `v` names the artwork version, so the URL changes (and
+ * caches miss) exactly when the artwork does, and older versions stay addressable.
+ */
+export function buildLogoImageUrl(logoId: string, version: number): string {
+  return `/api/logos/${encodeURIComponent(logoId)}/image?v=${version}`
+}
+
+/** Artwork version shown for an uploaded logo; null for catalog logos, which have no versions. */
+export function getLogoVersion(logo: Pick<LogoEntry, 'source' | 'version'>): number | null {
+  return logo.source === 'user' ? (logo.version ?? 1) : null
+}
+
+/** Image fields for one of a logo's revisions, in the shape `getLogoImageSources` takes. */
+export function getLogoRevisionImage(
+  logo: Pick<LogoEntry, 'id'>,
+  revision: LogoRevision,
+): Pick<LogoEntry, 'image' | 'renditions'> {
+  return { image: buildLogoImageUrl(logo.id, revision.version), renditions: revision.renditions }
+}
+
+export function buildLogoRenditionUrl(logo: Pick<LogoEntry, 'image'>, rendition: LogoRendition): string {
+  const separator = logo.image.includes('?') ? '&' : '?'
+  return `${logo.image}${separator}w=${rendition.width}&format=${rendition.format}`
+}
+
+/**
+ * `src`/`srcSet` for an `<img>` showing a logo, so browsers fetch the smallest WebP thumbnail
+ * that fits `sizes`. Logos without renditions (catalog entries, older uploads) use `image` alone.
+ */
+export function getLogoImageSources(
+  logo: Pick<LogoEntry, 'image' | 'renditions'>,
+  sizes: string,
+): { src: string; srcSet?: string; sizes?: string } {
+  const webp = (logo.renditions ?? []).filter((rendition) => rendition.format === 'webp')
+  if (webp.length === 0) {
+    return { src: logo.image }
+  }
+  const srcSet = [...webp]
+    .sort((a, b) => a.width - b.width)
+    .map((rendition) => `${buildLogoRenditionUrl(logo, rendition)} ${rendition.width}w`)
+    .join(', ')
+  return { src: logo.image, srcSet, sizes }
+}
+
 export function sortLogos(logos: LogoEntry[]): LogoEntry[] {
   return [...logos].sort((a, b) => {
     const aRemoved = Boolean(a.removedAt)
@@ -0,0 +1,156 @@
+import {
+  DEFAULT_RATING,
+  createEmptyEntry,
+  createPairKey,
+  normalizeVoterHash,
+  type EloEntry,
+  type EloState,
+  type Matchup,
+} from './elo-engine'
+import type { LogoEntry } from './logo-utils'
+
+// Elo entries carry no deviation, so uncertainty is approximated from match volume,
+// starting at the Glicko default and shrinking as a logo plays more matches.
+const BASE_DEVIATION = 350
+const MIN_DEVIATION = 30
+const TOP_TIER_SIZE = 3
+const TOP_TIER_BONUS = 1.5
+// Pairs within this many points at the top of the board are treated as unresolved ties.
+const TIE_MARGIN = 75
+
+export interface MatchupSelection {
+  matchup: Matchup
+  /** Expected information of the chosen pair; higher means the vote is more useful. */
+  score: number
+}
+
+export interface SelectMatchupOptions {
+  voterHash?: string | null
+  /** Pairs the voter judged that `state.history` no longer shows, e.g. archived matches. */
+  judgedPairKeys?: ReadonlySet<string>
+  /** Pair to skip (e.g. the one the voter just passed on) unless nothing else is available. */
+  avoidPairKey?: string | null
+  random?: () => number
+}
+
+function estimateDeviation(entry: EloEntry): number {
+  if (typeof entry.deviation === 'number' && Number.isFinite(entry.deviation)) {
+    return Math.max(MIN_DEVIATION, entry.deviation)
+  }
+  return Math.max(MIN_DEVIATION, BASE_DEVIATION / Math.sqrt(1 + entry.matches))
+}
+
+function winProbability(ratingA: number, ratingB: number): number {
+  return 1 / (1 + 10 ** ((ratingB - ratingA) / 400))
+}
+
+/**
+ * Scores a pair by how much a single vote is expected to teach us: outcome uncertainty
+ * (close ratings) times the combined rating variance, discounted for pairs that have
+ * already been played often and boosted for near-ties among the leaders.
+ */
+export function scoreMatchupInformation(
+  a: EloEntry,
+  b: EloEntry,
+  context: { pairMatches: number; topTier: boolean },
+): number {
+  const probability = winProbability(a.rating, b.rating)
+  const outcomeUncertainty = probability * (1 - probability)
+  const deviationA = estimateDeviation(a) / BASE_DEVIATION
+  const deviationB = estimateDeviation(b) / BASE_DEVIATION
+  let score = outcomeUncertainty * (deviationA * deviationA + deviationB * deviationB)
+  score /= 1 + context.pairMatches
+  if (context.topTier && Math.abs(a.rating - b.rating) <= TIE_MARGIN) {
+    score *= TOP_TIER_BONUS
+  }
+  return score
+}
+
+/**
+ * Picks the most informative pair the voter has not judged yet. Returns null when fewer
+ * than two logos exist or the voter has already judged every pair.
+ */
+export function selectInformativeMatchup(
+  logos: LogoEntry[],
+  state: EloState,
+  options: SelectMatchupOptions = {},
+): MatchupSelection | null {
+  if (logos.length < 2) {
+    return null
+  }
+
+  const random = options.random ?? Math.random
+  const voterHash = normalizeVoterHash(options.voterHash)
+  const pairMatches = new Map<string, number>()
+  const judgedByVoter = new Set<string>(options.judgedPairKeys)
+  for (const match of state.history) {
+    const key = createPairKey(match.winnerId, match.loserId)
+    pairMatches.set(key, (pairMatches.get(key) ?? 0) + 1)
+    if (voterHash && match.voterHash === voterHash) {
+      judgedByVoter.add(key)
+    }
+  }
+
+  const ranked = logos
+    .map((logo) => ({ logo, entry: state.entries[logo.id] ?? createEmptyEntry() }))
+    .sort((a, b) => b.entry.rating - a.entry.rating)
+  const topTier = new Set(
+    ranked
+      .filter((item) => item.entry.matches > 0 || item.entry.rating !== DEFAULT_RATING)
+      .slice(0, TOP_TIER_SIZE)
+      .map((item) => item.logo.id),
+  )
+
+  type Candidate = { first: LogoEntry; second: LogoEntry; score: number; tieBreak: number }
+  let best: Candidate | null = null
+  let avoided: Candidate | null = null
+
+  for (let i = 0; i < ranked.length; i += 1) {
+    for (let j = i + 1; j < ranked.length; j += 1) {
+      const a = ranked[i]!
+      const b = ranked[j]!
+      const key = createPairKey(a.logo.id, b.logo.id)
+      if (judgedByVoter.has(key)) {
+        continue
+      }
+
+      const candidate = {
+        first: a.logo,
+        second: b.logo,
+        score: scoreMatchupInformation(a.entry, b.entry, {
+          pairMatches: pairMatches.get(key) ?? 0,
+          topTier: topTier.has(a.logo.id) && topTier.has(b.logo.id),
+        }),
+        tieBreak: random(),
+      }
+
+      if (options.avoidPairKey && key === options.avoidPairKey) {
+        avoided = candidate
+        continue
+      }
+
+      if (
+        !best ||
+        candidate.score > best.score ||
+        (candidate.score === best.score && candidate.tieBreak > best.tieBreak)
+      ) {
+        best = candidate
+      }
+    }
+  }
+
+  const chosen = best ?? avoided
+  if (!chosen) {
+    return null
+  }
+
+  // Randomise sides so neither logo benefits from always appearing first.
+  const swap = random() < 0.5
+  return {
+    matchup: {
+      primary: swap ? chosen.second : chosen.first,
+      challenger: swap ? chosen.first : chosen.second,
+    },
+    score: chosen.score,
+  }
+}
@@ -0,0 +1,184 @@
+import type { EloState, MatchHistoryEntry } from './elo-engine'
+import type { LogoEntry } from './logo-utils'
+import type { RatingEngine } from './rating-engines'
+
+export const BOOTSTRAP_SAMPLES = 200
+export const CONFIDENCE_LEVEL = 0.95
+
+export interface RatingInterval {
+  lower: number
+  upper: number
+}
+
+export interface ChampionSignificance {
+  leaderId: string
+  runnerUpId: string
+  /** Share of bootstrap resamples in which the leader still out-rates the runner-up. */
+  probabilityAhead: number
+  significant: boolean
+  samples: number
+  confidenceLevel: number
+}
+
+export interface RatingConfidence {
+  intervals: Record<string, RatingInterval>
+  significance: ChampionSignificance | null
+}
+
+/** Small seeded PRNG so the same history always produces the same intervals. */
+function createRandom(seed: number): () => number {
+  let value = seed >>> 0
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0
+    let t = value
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function seedFromHistory(history: MatchHistoryEntry[]): number {
+  let hash = 2166136261
+  for (const match of history) {
+    const token = `${match.winnerId}>${match.loserId}@${match.timestamp}`
+    for (let index = 0; index < token.length; index += 1) {
+      hash = Math.imul(hash ^ token.charCodeAt(index), 16777619)
+    }
+  }
+  return hash >>> 0
+}
+
+function percentile(sorted: number[], ratio: number): number {
+  if (sorted.length === 0) {
+    return 0
+  }
+  const position = (sorted.length - 1) * ratio
+  const lowerIndex = Math.floor(position)
+  const upperIndex = Math.ceil(position)
+  const weight = position - lowerIndex
+  return sorted[lowerIndex]! * (1 - weight) + sorted[upperIndex]! * weight
+}
+
+export interface BootstrapOptions {
+  samples?: number
+  confidenceLevel?: number
+}
+
+/** The bootstrap as a generator that pauses after each resample, for the sync and async runners. */
+function* runBootstrap(
+  engine: RatingEngine,
+  state: EloState,
+  logos: LogoEntry[],
+  ranking: string[],
+  options: BootstrapOptions,
+): Generator<void, RatingConfidence> {
+  const samples = Math.max(1, options.samples ?? BOOTSTRAP_SAMPLES)
+  const confidenceLevel = options.confidenceLevel ?? CONFIDENCE_LEVEL
+  const history = Array.isArray(state.history) ? state.history : []
+
+  if (history.length === 0 || logos.length === 0) {
+    return { intervals: {}, significance: null }
+  }
+
+  const random = createRandom(seedFromHistory(history))
+  const ratings = new Map<string, number[]>(logos.map((logo) => [logo.id, []]))
+  const [leaderId, runnerUpId] = ranking
+  let leaderAhead = 0
+
+  for (let sample = 0; sample < samples; sample += 1) {
+    const picks: number[] = []
+    for (let index = 0; index < history.length; index += 1) {
+      picks.push(Math.floor(random() * history.length))
+    }
+    // History is stored newest-first; sorting indices ascending keeps that order.
+    picks.sort((a, b) => a - b)
+    const resampled = picks.map((index) => history[index]!)
+    const rebuilt = engine.rebuild(resampled, logos)
+
+    for (const [logoId, values] of ratings) {
+      values.push(rebuilt.entries[logoId]?.rating ?? 0)
+    }
+    if (leaderId && runnerUpId) {
+      const leaderRating = rebuilt.entries[leaderId]?.rating ?? 0
+      const runnerUpRating = rebuilt.entries[runnerUpId]?.rating ?? 0
+      if (leaderRating > runnerUpRating) {
+        leaderAhead += 1
+      }
+    }
+    yield
+  }
+
+  const tail = (1 - confidenceLevel) / 2
+  const intervals: Record<string, RatingInterval> = {}
+  for (const [logoId, values] of ratings) {
+    values.sort((a, b) => a - b)
+    intervals[logoId] = {
+      lower: percentile(values, tail),
+      upper: percentile(values, 1 - tail),
+    }
+  }
+
+  const probabilityAhead = leaderAhead / samples
+  const significance =
+    leaderId && runnerUpId
+      ? {
+          leaderId,
+          runnerUpId,
+          probabilityAhead,
+          significant: probabilityAhead >= confidenceLevel,
+          samples,
+          confidenceLevel,
+        }
+      : null
+
+  return { intervals, significance }
+}
+
+/**
+ * Bootstraps rating intervals by resampling the match history with replacement and
+ * re-rating each resample with the contest's engine. Resampled matches keep their
+ * original chronological order so sequential engines (Elo, Glicko-2) replay sensibly.
+ * Only `state.history` is resampled, so matches already moved to the archive are not included.
+ */
+export function bootstrapRatingConfidence(
+  engine: RatingEngine,
+  state: EloState,
+  logos: LogoEntry[],
+  ranking: string[],
+  options: BootstrapOptions = {},
+): RatingConfidence {
+  const steps = runBootstrap(engine, state, logos, ranking, options)
+  let step = steps.next()
+  while (!step.done) {
+    step = steps.next()
+  }
+  return step.value
+}
+
+/**
+ * Same result as bootstrapRatingConfidence, but yields to the event loop after every resample.
+ * Each resample is a full re-rating, so on a long history the whole run takes seconds and
+ * must not hold up requests in one go.
+ */
+export async function bootstrapRatingConfidenceAsync(
+  engine: RatingEngine,
+  state: EloState,
+  logos: LogoEntry[],
+  ranking: string[],
+  options: BootstrapOptions = {},
+): Promise<RatingConfidence> {
+  const steps = runBootstrap(engine, state, logos, ranking, options)
+  let step = steps.next()
+  while (!step.done) {
+    await new Promise<void>((resolve) => setTimeout(resolve, 0))
+    step = steps.next()
+  }
+  return step.value
+}
+
+export function formatRatingInterval(interval: RatingInterval | null | undefined): string | null {
+  if (!interval) {
+    return null
+  }
+  return `${Math.round(interval.lower)}–${Math.round(interval.upper)}`
+}
@@ -0,0 +1,453 @@
+import {
+  DEFAULT_RATING,
+  HISTORY_LIMIT,
+  K_FACTOR,
+  applyMatch as applyEloMatch,
+  createEmptyEntry,
+  createPairKey,
+  normalizeVoterHash,
+  type EloEntry,
+  type EloState,
+  type MatchHistoryEntry,
+} from './elo-engine'
+import type { LogoEntry } from './logo-utils'
+
+export type RatingAlgorithm = 'elo' | 'glicko2' | 'bradley-terry'
+
+export interface RatingSettings {
+  algorithm: RatingAlgorithm
+  /** Only used by the Elo engine. */
+  kFactor: number
+}
+
+export const DEFAULT_RATING_SETTINGS: RatingSettings = {
+  algorithm: 'elo',
+  kFactor: K_FACTOR,
+}
+
+export const RATING_ALGORITHMS: Array<{ id: RatingAlgorithm; label: string; description: string }> = [
+  {
+    id: 'elo',
+    label: 'Elo',
+    description: 'Classic incremental Elo with a configurable K-factor.',
+  },
+  {
+    id: 'glicko2',
+    label: 'Glicko-2',
+    description: 'Tracks a rating deviation and volatility per logo; new logos move faster.',
+  },
+  {
+    id: 'bradley-terry',
+    label: 'Bradley–Terry',
+    description: 'Maximum-likelihood fit over the retained match history; order of votes does not matter.',
+  },
+]
+
+export interface RatingEngine {
+  algorithm: RatingAlgorithm
+  label: string
+  /** Folds one match into the state, prepending it to the (capped) history. */
+  applyMatch(
+    state: EloState,
+    winnerId: string,
+    loserId: string,
+    voterHash: string | null,
+    options?: { timestamp?: number },
+  ): EloState
+  /** Recomputes every entry from a newest-first history, as stored in `EloState.history`. */
+  rebuild(history: MatchHistoryEntry[], logos: LogoEntry[]): EloState
+}
+
+const MIN_K_FACTOR = 1
+const MAX_K_FACTOR = 128
+
+function isRatingAlgorithm(value: unknown): value is RatingAlgorithm {
+  return value === 'elo' || value === 'glicko2' || value === 'bradley-terry'
+}
+
+export function normalizeRatingSettings(value: unknown): RatingSettings {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_RATING_SETTINGS }
+  }
+
+  const record = value as Record<string, unknown>
+  const algorithm = isRatingAlgorithm(record.algorithm)
+    ? record.algorithm
+    : DEFAULT_RATING_SETTINGS.algorithm
+  const kFactor = Number(record.kFactor)
+
+  return {
+    algorithm,
+    kFactor:
+      Number.isFinite(kFactor) && kFactor >= MIN_K_FACTOR && kFactor <= MAX_K_FACTOR
+        ? kFactor
+        : DEFAULT_RATING_SETTINGS.kFactor,
+  }
+}
+
+function prependHistory(
+  history: MatchHistoryEntry[],
+  winnerId: string,
+  loserId: string,
+  voterHash: string | null,
+  timestamp: number | undefined,
+): MatchHistoryEntry[] {
+  return [
+    {
+      winnerId,
+      loserId,
+      timestamp: timestamp ?? Date.now(),
+      voterHash: normalizeVoterHash(voterHash),
+    },
+    ...history,
+  ].slice(0, HISTORY_LIMIT)
+}
+
+function rebuildByFolding(
+  engine: RatingEngine,
+  history: MatchHistoryEntry[],
+  logos: LogoEntry[],
+  createEntry: () => EloEntry = createEmptyEntry,
+): EloState {
+  const entries: Record<string, EloEntry> = {}
+  for (const logo of logos) {
+    entries[logo.id] = createEntry()
+  }
+  // Fold entries only; copying the growing history on every step would make replays quadratic.
+  let current = entries
+  for (let index = history.length - 1; index >= 0; index -= 1) {
+    const match = history[index]!
+    current = engine.applyMatch({ entries: current, history: [] }, match.winnerId, match.loserId, match.voterHash, {
+      timestamp: match.timestamp,
+    }).entries
+  }
+  return {
+    entries: current,
+    history: history.slice(0, HISTORY_LIMIT).map((match) => ({
+      ...match,
+      voterHash: normalizeVoterHash(match.voterHash),
+    })),
+  }
+}
+
+function createEloEngine(kFactor: number): RatingEngine {
+  const engine: RatingEngine = {
+    algorithm: 'elo',
+    label: `Elo (K=${kFactor})`,
+    applyMatch: (state, winnerId, loserId, voterHash, options = {}) =>
+      applyEloMatch(state, winnerId, loserId, voterHash, { ...options, kFactor }),
+    rebuild: (history, logos) => rebuildByFolding(engine, history, logos),
+  }
+  return engine
+}
+
+// Glicko-2 constants from Glickman's paper; TAU constrains how fast volatility changes.
+const GLICKO_SCALE = 173.7178
+const GLICKO_DEFAULT_DEVIATION = 350
+const GLICKO_DEFAULT_VOLATILITY = 0.06
+const GLICKO_TAU = 0.5
+const GLICKO_EPSILON = 0.000001
+
+function glickoG(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI))
+}
+
+function glickoUpdate(player: EloEntry, opponent: EloEntry, score: 0 | 1): EloEntry {
+  const mu = (player.rating - DEFAULT_RATING) / GLICKO_SCALE
+  const phi = (player.deviation ?? GLICKO_DEFAULT_DEVIATION) / GLICKO_SCALE
+  const sigma = player.volatility ?? GLICKO_DEFAULT_VOLATILITY
+  const muOpponent = (opponent.rating - DEFAULT_RATING) / GLICKO_SCALE
+  const phiOpponent = (opponent.deviation ?? GLICKO_DEFAULT_DEVIATION) / GLICKO_SCALE
+
+  const g = glickoG(phiOpponent)
+  const expected = 1 / (1 + Math.exp(-g * (mu - muOpponent)))
+  const variance = 1 / (g * g * expected * (1 - expected))
+  const delta = variance * g * (score - expected)
+
+  const a = Math.log(sigma * sigma)
+  const f = (x: number) => {
+    const ex = Math.exp(x)
+    const denominator = phi * phi + variance + ex
+    return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * denominator * denominator) -
+      (x - a) / (GLICKO_TAU * GLICKO_TAU)
+  }
+
+  let lower = a
+  let upper: number
+  if (delta * delta > phi * phi + variance) {
+    upper = Math.log(delta * delta - phi * phi - variance)
+  } else {
+    let k = 1
+    while (f(a - k * GLICKO_TAU) < 0) {
+      k += 1
+    }
+    upper = a - k * GLICKO_TAU
+  }
+
+  let fLower = f(lower)
+  let fUpper = f(upper)
+  while (Math.abs(upper - lower) > GLICKO_EPSILON) {
+    const candidate = lower + ((lower - upper) * fLower) / (fUpper - fLower)
+    const fCandidate = f(candidate)
+    if (fCandidate * fUpper <= 0) {
+      lower = upper
+      fLower = fUpper
+    } else {
+      fLower /= 2
+    }
+    upper = candidate
+    fUpper = fCandidate
+  }
+
+  const nextSigma = Math.exp(lower / 2)
+  const phiStar = Math.sqrt(phi * phi + nextSigma * nextSigma)
+  const nextPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance)
+  const nextMu = mu + nextPhi * nextPhi * g * (score - expected)
+
+  return {
+    rating: nextMu * GLICKO_SCALE + DEFAULT_RATING,
+    deviation: nextPhi * GLICKO_SCALE,
+    volatility: nextSigma,
+    wins: player.wins + score,
+    losses: player.losses + (1 - score),
+    matches: player.matches + 1,
+  }
+}
+
+function createGlickoEntry(): EloEntry {
+  return {
+    ...createEmptyEntry(),
+    deviation: GLICKO_DEFAULT_DEVIATION,
+    volatility: GLICKO_DEFAULT_VOLATILITY,
+  }
+}
+
+function createGlicko2Engine(): RatingEngine {
+  const engine: RatingEngine = {
+    algorithm: 'glicko2',
+    label: 'Glicko-2',
+    applyMatch: (state, winnerId, loserId, voterHash, options = {}) => {
+      const winner = state.entries[winnerId] ?? createGlickoEntry()
+      const loser = state.entries[loserId] ?? createGlickoEntry()
+      return {
+        entries: {
+          ...state.entries,
+          [winnerId]: glickoUpdate(winner, loser, 1),
+          [loserId]: glickoUpdate(loser, winner, 0),
+        },
+        history: prependHistory(state.history, winnerId, loserId, voterHash, options.timestamp),
+      }
+    },
+    rebuild: (history, logos) => rebuildByFolding(engine, history, logos, createGlickoEntry),
+  }
+  return engine
+}
+
+const BT_MAX_ITERATIONS = 500
+/**
+ * MM sweeps per vote. One vote barely moves the optimum, so starting from the current ratings
+ * a few sweeps land close to it; a full rebuild still iterates to convergence.
+ */
+const BT_WARM_ITERATIONS = 50
+const BT_TOLERANCE = 1e-9
+// Each logo plays one virtual win and one virtual loss against a fixed-strength anchor, which
+// keeps undefeated or winless logos finite and pins the scale at DEFAULT_RATING.
+const BT_PRIOR_GAMES = 1
+const LOG10_SCALE = 400 / Math.LN10
+
+export interface BradleyTerryFitOptions {
+  /** Elo-scale ratings to start from instead of equal strengths (a warm start). */
+  initialRatings?: Record<string, number>
+  maxIterations?: number
+}
+
+/**
+ * Fits Bradley–Terry strengths with Hunter's MM algorithm and reports each logo's standard
+ * error from the diagonal of the Fisher information, both mapped onto the Elo scale.
+ */
+export function fitBradleyTerry(
+  history: MatchHistoryEntry[],
+  logoIds: string[],
+  options: BradleyTerryFitOptions = {},
+): Record<string, { rating: number; deviation: number }> {
+  const ids = new Set(logoIds)
+  for (const match of history) {
+    ids.add(match.winnerId)
+    ids.add(match.loserId)
+  }
+
+  const wins = new Map<string, number>()
+  const pairs = new Map<string, { a: string; b: string; games: number }>()
+  for (const id of ids) {
+    wins.set(id, 0)
+  }
+  for (const match of history) {
+    wins.set(match.winnerId, (wins.get(match.winnerId) ?? 0) + 1)
+    const key = createPairKey(match.winnerId, match.loserId)
+    const pair = pairs.get(key)
+    if (pair) {
+      pair.games += 1
+    } else {
+      pairs.set(key, { a: match.winnerId, b: match.loserId, games: 1 })
+    }
+  }
+
+  const strengths = new Map<string, number>()
+  for (const id of ids) {
+    const initial = options.initialRatings?.[id]
+    strengths.set(
+      id,
+      initial !== undefined && Number.isFinite(initial) ? Math.exp((initial - DEFAULT_RATING) / LOG10_SCALE) : 1,
+    )
+  }
+
+  const maxIterations = options.maxIterations ?? BT_MAX_ITERATIONS
+  for (let iteration = 0; iteration < maxIterations; iteration += 1) {
+    const denominators = new Map<string, number>()
+    for (const id of ids) {
+      const p = strengths.get(id)!
+      denominators.set(id, (2 * BT_PRIOR_GAMES) / (p + 1))
+    }
+    for (const { a, b, games } of pairs.values()) {
+      const share = games / (strengths.get(a)! + strengths.get(b)!)
+      denominators.set(a, denominators.get(a)! + share)
+      denominators.set(b, denominators.get(b)! + share)
+    }
+
+    let maxChange = 0
+    for (const id of ids) {
+      const previous = strengths.get(id)!
+      const next = ((wins.get(id) ?? 0) + BT_PRIOR_GAMES) / denominators.get(id)!
+      maxChange = Math.max(maxChange, Math.abs(Math.log(next / previous)))
+      strengths.set(id, next)
+    }
+
+    if (maxChange < BT_TOLERANCE) {
+      break
+    }
+  }
+
+  const information = new Map<string, number>()
+  for (const id of ids) {
+    const p = strengths.get(id)!
+    information.set(id, (2 * BT_PRIOR_GAMES * p) / ((p + 1) * (p + 1)))
+  }
+  for (const { a, b, games } of pairs.values()) {
+    const pa = strengths.get(a)!
+    const pb = strengths.get(b)!
+    const value = (games * pa * pb) / ((pa + pb) * (pa + pb))
+    information.set(a, information.get(a)! + value)
+    information.set(b, information.get(b)! + value)
+  }
+
+  const result: Record<string, { rating: number; deviation: number }> = {}
+  for (const id of ids) {
+    result[id] = {
+      rating: DEFAULT_RATING + LOG10_SCALE * Math.log(strengths.get(id)!),
+      deviation: LOG10_SCALE / Math.sqrt(information.get(id)!),
+    }
+  }
+  return result
+}
+
+function applyBradleyTerryFit(
+  entries: Record<string, EloEntry>,
+  history: MatchHistoryEntry[],
+  options: BradleyTerryFitOptions = {},
+): Record<string, EloEntry> {
+  const fit = fitBradleyTerry(history, Object.keys(entries), options)
+  const next: Record<string, EloEntry> = {}
+  for (const [logoId, entry] of Object.entries(entries)) {
+    const fitted = fit[logoId]
+    next[logoId] = {
+      rating: fitted?.rating ?? DEFAULT_RATING,
+      deviation: fitted?.deviation,
+      wins: entry.wins,
+      losses: entry.losses,
+      matches: entry.matches,
+    }
+  }
+  return next
+}
+
+/** Adds (or, for a match leaving the retained window, removes) one result from the tallies. */
+function tallyMatch(entries: Record<string, EloEntry>, match: MatchHistoryEntry, delta: 1 | -1) {
+  const winner = entries[match.winnerId] ?? createEmptyEntry()
+  const loser = entries[match.loserId] ?? createEmptyEntry()
+  entries[match.winnerId] = {
+    ...winner,
+    wins: Math.max(0, winner.wins + delta),
+    matches: Math.max(0, winner.matches + delta),
+  }
+  entries[match.loserId] = {
+    ...loser,
+    losses: Math.max(0, loser.losses + delta),
+    matches: Math.max(0, loser.matches + delta),
+  }
+}
+
+// Wins and losses count the retained history only, the same matches the strengths are fitted to.
+function createBradleyTerryEngine(): RatingEngine {
+  return {
+    algorithm: 'bradley-terry',
+    label: 'Bradley–Terry',
+    applyMatch: (state, winnerId, loserId, voterHash, options = {}) => {
+      const history = prependHistory(state.history, winnerId, loserId, voterHash, options.timestamp)
+      const counted: Record<string, EloEntry> = { ...state.entries }
+      tallyMatch(counted, history[0]!, 1)
+      for (const dropped of state.history.slice(HISTORY_LIMIT - 1)) {
+        tallyMatch(counted, dropped, -1)
+      }
+      const initialRatings: Record<string, number> = {}
+      for (const [logoId, entry] of Object.entries(state.entries)) {
+        initialRatings[logoId] = entry.rating
+      }
+      return {
+        entries: applyBradleyTerryFit(counted, history, { initialRatings, maxIterations: BT_WARM_ITERATIONS }),
+        history,
+      }
+    },
+    rebuild: (history, logos) => {
+      const retained = history.slice(0, HISTORY_LIMIT)
+      const counted: Record<string, EloEntry> = {}
+      for (const logo of logos) {
+        counted[logo.id] = createEmptyEntry()
+      }
+      for (const match of retained) {
+        tallyMatch(counted, match, 1)
+      }
+      return {
+        entries: applyBradleyTerryFit(counted, retained),
+        history: retained,
+      }
+    },
+  }
+}
+
+export function getRatingEngine(settings?: Partial<RatingSettings> | null): RatingEngine {
+  const normalized = normalizeRatingSettings(settings)
+  switch (normalized.algorithm) {
+    case 'glicko2':
+      return createGlicko2Engine()
+    case 'bradley-terry':
+      return createBradleyTerryEngine()
+    default:
+      return createEloEngine(normalized.kFactor)
+  }
+}
+
+export function describeRatingSettings(settings?: Partial<RatingSettings> | null): string {
+  const normalized = normalizeRatingSettings(settings)
+  if (normalized.algorithm === 'elo') {
+    return `Elo · K=${normalized.kFactor}`
+  }
+  return RATING_ALGORITHMS.find((option) => option.id === normalized.algorithm)?.label ?? normalized.algorithm
+}
+
+export function formatRatingWithUncertainty(rating: number, deviation?: number | null): string {
+  const rounded = Math.round(rating).toLocaleString()
+  if (deviation === undefined || deviation === null || !Number.isFinite(deviation)) {
+    return rounded
+  }
+  return `${rounded} ± ${Math.round(deviation).toLocaleString()}`
+}
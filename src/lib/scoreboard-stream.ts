@@ -0,0 +1,125 @@
+import {
+  createMatchKey,
+  HISTORY_LIMIT,
+  type EloEntry,
+  type EloState,
+  type MatchHistoryEntry,
+} from './elo-engine'
+
+export interface ScoreboardRatingChange {
+  logoId: string
+  ratingBefore: number
+  entry: EloEntry
+}
+
+/** A vote was committed; carries every entry the engine changed (all of them for Bradley–Terry). */
+export interface ScoreboardMatchEvent {
+  type: 'match'
+  id: number
+  contestId: string
+  match: MatchHistoryEntry
+  changes: ScoreboardRatingChange[]
+  totalMatches: number
+}
+
+/** Standings changed wholesale (reset, replay, void, re-rate); clients should refetch. */
+export interface ScoreboardResyncEvent {
+  type: 'resync'
+  id: number
+  contestId: string
+  reason: 'reset' | 'recalculated' | 'voided' | 'rebuilt' | 'missed-events'
+}
+
+export type ScoreboardEvent = ScoreboardMatchEvent | ScoreboardResyncEvent
+
+/**
+ * Folds a streamed match into local state. Idempotent, so the voter's own POST response and
+ * the broadcast of the same vote can arrive in either order.
+ */
+export function applyScoreboardMatch(state: EloState, event: ScoreboardMatchEvent): EloState {
+  const entries = { ...state.entries }
+  for (const change of event.changes) {
+    entries[change.logoId] = change.entry
+  }
+  const key = createMatchKey(event.match)
+  const history = state.history.some((match) => createMatchKey(match) === key)
+    ? state.history
+    : [event.match, ...state.history].slice(0, HISTORY_LIMIT)
+  return { entries, history }
+}
+
+/**
+ * Merges a vote-state delta (a POST response, a `since` fetch or an older history page) into
+ * local state. `entries` replaces the local map when given; matches are de-duplicated.
+ */
+export function mergeVoteDelta(
+  state: EloState,
+  delta: { entries?: Record<string, EloEntry>; history: MatchHistoryEntry[] },
+): EloState {
+  const seen = new Set(state.history.map(createMatchKey))
+  const additions = delta.history.filter((match) => !seen.has(createMatchKey(match)))
+  const history =
+    additions.length === 0
+      ? state.history
+      : [...state.history, ...additions].sort((a, b) => b.timestamp - a.timestamp).slice(0, HISTORY_LIMIT)
+  return { entries: delta.entries ?? state.entries, history }
+}
+
+/**
+ * `since` cursor for `/api/votes` covering the matches held locally: the newest timestamp and
+ * how many held matches share it, so votes recorded in that same millisecond are not skipped.
+ */
+export function buildDeltaCursor(history: MatchHistoryEntry[]): string | null {
+  const newest = history[0]?.timestamp
+  if (newest === undefined) {
+    return null
+  }
+  return `${newest}.${history.filter((match) => match.timestamp === newest).length}`
+}
+
+type ScoreboardListener = (event: ScoreboardEvent) => void
+
+interface StreamConnection {
+  source: EventSource
+  listeners: Set<ScoreboardListener>
+}
+
+const connections = new Map<string, StreamConnection>()
+
+/**
+ * Subscribes to `/api/contests/<contestId>/stream`. Subscribers for the same contest share one
+ * EventSource, which reconnects on its own and resumes from the last event id it saw.
+ */
+export function subscribeScoreboardStream(contestId: string, listener: ScoreboardListener): () => void {
+  if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+    return () => {}
+  }
+
+  let connection = connections.get(contestId)
+  if (!connection) {
+    const source = new EventSource(`/api/contests/${encodeURIComponent(contestId)}/stream`)
+    const created: StreamConnection = { source, listeners: new Set() }
+    const dispatch = (message: MessageEvent<string>) => {
+      try {
+        const event = JSON.parse(message.data) as ScoreboardEvent
+        created.listeners.forEach((entry) => entry(event))
+      } catch (error) {
+        console.error('Failed to parse scoreboard event', error)
+      }
+    }
+    source.addEventListener('match', dispatch)
+    source.addEventListener('resync', dispatch)
+    connection = created
+    connections.set(contestId, connection)
+  }
+
+  connection.listeners.add(listener)
+  const current = connection
+  return () => {
+    current.listeners.delete(listener)
+    if (current.listeners.size === 0) {
+      current.source.close()
+      connections.delete(contestId)
+    }
+  }
+}
@@ -23,17 +23,30 @@ import { Route as LogosLogoIdRouteImport } from './routes/logos.$logoId'
 import { Route as GalleryLogoIdRouteImport } from './routes/gallery.$logoId'
 import { Route as Contest_resultsContestIdRouteImport } from './routes/contest_results.$contestId'
 import { Route as ApiVotesRouteImport } from './routes/api.votes'
+import { Route as ApiSessionRouteImport } from './routes/api.session'
 import { Route as ApiLogosRouteImport } from './routes/api.logos'
 import { Route as ApiContestsRouteImport } from './routes/api.contests'
+import { Route as ApiAuditRouteImport } from './routes/api.audit'
 import { Route as ApiAllowedUsersRouteImport } from './routes/api.allowed-users'
 import { Route as AdminContestsRouteImport } from './routes/admin.contests'
+import { Route as AdminBackupsRouteImport } from './routes/admin.backups'
+import { Route as AdminAuditRouteImport } from './routes/admin.audit'
 import { Route as DemoStartServerFuncsRouteImport } from './routes/demo.start.server-funcs'
 import { Route as DemoStartApiRequestRouteImport } from './routes/demo.start.api-request'
+import { Route as ApiVotesHistoryRouteImport } from './routes/api.votes.history'
 import { Route as ApiLogosLogoIdRouteImport } from './routes/api.logos.$logoId'
 import { Route as ApiContestsContestIdRouteImport } from './routes/api.contests.$contestId'
+import { Route as ApiAdminDataBundleRouteImport } from './routes/api.admin.data-bundle'
+import { Route as ApiAdminBackupsRouteImport } from './routes/api.admin.backups'
 import { Route as ApiLogosLogoIdImageRouteImport } from './routes/api.logos.$logoId.image'
+import { Route as ApiContestsContestIdStreamRouteImport } from './routes/api.contests.$contestId.stream'
 import { Route as ApiContestsContestIdResetRouteImport } from './routes/api.contests.$contestId.reset'
+import { Route as ApiContestsContestIdReplayVerificationRouteImport } from './routes/api.contests.$contestId.replay-verification'
 import { Route as ApiContestsContestIdRecalculateEloRouteImport } from './routes/api.contests.$contestId.recalculate-elo'
+import { Route as ApiContestsContestIdNextMatchupRouteImport } from './routes/api.contests.$contestId.next-matchup'
+import { Route as ApiContestsContestIdModerationRouteImport } from './routes/api.contests.$contestId.moderation'
+import { Route as ApiContestsContestIdHeadToHeadRouteImport } from './routes/api.contests.$contestId.head-to-head'
+import { Route as ApiContestsContestIdAnomaliesRouteImport } from './routes/api.contests.$contestId.anomalies'
 
 const VoteRoute = VoteRouteImport.update({
   id: '/vote',
@@ -106,6 +119,11 @@ const ApiVotesRoute = ApiVotesRouteImport.update({
   path: '/api/votes',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiSessionRoute = ApiSessionRouteImport.update({
+  id: '/api/session',
+  path: '/api/session',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiLogosRoute = ApiLogosRouteImport.update({
   id: '/api/logos',
   path: '/api/logos',
@@ -116,6 +134,11 @@ const ApiContestsRoute = ApiContestsRouteImport.update({
   path: '/api/contests',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiAuditRoute = ApiAuditRouteImport.update({
+  id: '/api/audit',
+  path: '/api/audit',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiAllowedUsersRoute = ApiAllowedUsersRouteImport.update({
   id: '/api/allowed-users',
   path: '/api/allowed-users',
@@ -126,6 +149,16 @@ const AdminContestsRoute = AdminContestsRouteImport.update({
   path: '/admin/contests',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminBackupsRoute = AdminBackupsRouteImport.update({
+  id: '/admin/backups',
+  path: '/admin/backups',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AdminAuditRoute = AdminAuditRouteImport.update({
+  id: '/admin/audit',
+  path: '/admin/audit',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStartServerFuncsRoute = DemoStartServerFuncsRouteImport.update({
   id: '/demo/start/server-funcs',
   path: '/demo/start/server-funcs',
@@ -136,6 +169,11 @@ const DemoStartApiRequestRoute = DemoStartApiRequestRouteImport.update({
   path: '/demo/start/api-request',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiVotesHistoryRoute = ApiVotesHistoryRouteImport.update({
+  id: '/history',
+  path: '/history',
+  getParentRoute: () => ApiVotesRoute,
+} as any)
 const ApiLogosLogoIdRoute = ApiLogosLogoIdRouteImport.update({
   id: '/$logoId',
   path: '/$logoId',
@@ -146,23 +184,69 @@ const ApiContestsContestIdRoute = ApiContestsContestIdRouteImport.update({
   path: '/$contestId',
   getParentRoute: () => ApiContestsRoute,
 } as any)
+const ApiAdminDataBundleRoute = ApiAdminDataBundleRouteImport.update({
+  id: '/api/admin/data-bundle',
+  path: '/api/admin/data-bundle',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminBackupsRoute = ApiAdminBackupsRouteImport.update({
+  id: '/api/admin/backups',
+  path: '/api/admin/backups',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiLogosLogoIdImageRoute = ApiLogosLogoIdImageRouteImport.update({
   id: '/image',
   path: '/image',
   getParentRoute: () => ApiLogosLogoIdRoute,
 } as any)
+const ApiContestsContestIdStreamRoute =
+  ApiContestsContestIdStreamRouteImport.update({
+    id: '/stream',
+    path: '/stream',
+    getParentRoute: () => ApiContestsContestIdRoute,
+  } as any)
 const ApiContestsContestIdResetRoute =
   ApiContestsContestIdResetRouteImport.update({
     id: '/reset',
     path: '/reset',
     getParentRoute: () => ApiContestsContestIdRoute,
   } as any)
+const ApiContestsContestIdReplayVerificationRoute =
+  ApiContestsContestIdReplayVerificationRouteImport.update({
+    id: '/replay-verification',
+    path: '/replay-verification',
+    getParentRoute: () => ApiContestsContestIdRoute,
+  } as any)
 const ApiContestsContestIdRecalculateEloRoute =
   ApiContestsContestIdRecalculateEloRouteImport.update({
     id: '/recalculate-elo',
     path: '/recalculate-elo',
     getParentRoute: () => ApiContestsContestIdRoute,
   } as any)
+const ApiContestsContestIdNextMatchupRoute =
+  ApiContestsContestIdNextMatchupRouteImport.update({
+    id: '/next-matchup',
+    path: '/next-matchup',
+    getParentRoute: () => ApiContestsContestIdRoute,
+  } as any)
+const ApiContestsContestIdModerationRoute =
+  ApiContestsContestIdModerationRouteImport.update({
+    id: '/moderation',
+    path: '/moderation',
+    getParentRoute: () => ApiContestsContestIdRoute,
+  } as any)
+const ApiContestsContestIdHeadToHeadRoute =
+  ApiContestsContestIdHeadToHeadRouteImport.update({
+    id: '/head-to-head',
+    path: '/head-to-head',
+    getParentRoute: () => ApiContestsContestIdRoute,
+  } as any)
+const ApiContestsContestIdAnomaliesRoute =
+  ApiContestsContestIdAnomaliesRouteImport.update({
+    id: '/anomalies',
+    path: '/anomalies',
+    getParentRoute: () => ApiContestsContestIdRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -175,20 +259,33 @@ export interface FileRoutesByFullPath {
   '/my-logos': typeof MyLogosRoute
   '/scores': typeof ScoresRoute
   '/vote': typeof VoteRoute
+  '/admin/audit': typeof AdminAuditRoute
+  '/admin/backups': typeof AdminBackupsRoute
   '/admin/contests': typeof AdminContestsRoute
   '/api/allowed-users': typeof ApiAllowedUsersRoute
+  '/api/audit': typeof ApiAuditRoute
   '/api/contests': typeof ApiContestsRouteWithChildren
   '/api/logos': typeof ApiLogosRouteWithChildren
-  '/api/votes': typeof ApiVotesRoute
+  '/api/session': typeof ApiSessionRoute
+  '/api/votes': typeof ApiVotesRouteWithChildren
   '/contest_results/$contestId': typeof Contest_resultsContestIdRoute
   '/gallery/$logoId': typeof GalleryLogoIdRoute
   '/logos/$logoId': typeof LogosLogoIdRoute
+  '/api/admin/backups': typeof ApiAdminBackupsRoute
+  '/api/admin/data-bundle': typeof ApiAdminDataBundleRoute
   '/api/contests/$contestId': typeof ApiContestsContestIdRouteWithChildren
   '/api/logos/$logoId': typeof ApiLogosLogoIdRouteWithChildren
+  '/api/votes/history': typeof ApiVotesHistoryRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/contests/$contestId/anomalies': typeof ApiContestsContestIdAnomaliesRoute
+  '/api/contests/$contestId/head-to-head': typeof ApiContestsContestIdHeadToHeadRoute
+  '/api/contests/$contestId/moderation': typeof ApiContestsContestIdModerationRoute
+  '/api/contests/$contestId/next-matchup': typeof ApiContestsContestIdNextMatchupRoute
   '/api/contests/$contestId/recalculate-elo': typeof ApiContestsContestIdRecalculateEloRoute
+  '/api/contests/$contestId/replay-verification': typeof ApiContestsContestIdReplayVerificationRoute
   '/api/contests/$contestId/reset': typeof ApiContestsContestIdResetRoute
+  '/api/contests/$contestId/stream': typeof ApiContestsContestIdStreamRoute
   '/api/logos/$logoId/image': typeof ApiLogosLogoIdImageRoute
 }
 export interface FileRoutesByTo {
@@ -202,20 +299,33 @@ export interface FileRoutesByTo {
   '/my-logos': typeof MyLogosRoute
   '/scores': typeof ScoresRoute
   '/vote': typeof VoteRoute
+  '/admin/audit': typeof AdminAuditRoute
+  '/admin/backups': typeof AdminBackupsRoute
   '/admin/contests': typeof AdminContestsRoute
   '/api/allowed-users': typeof ApiAllowedUsersRoute
+  '/api/audit': typeof ApiAuditRoute
   '/api/contests': typeof ApiContestsRouteWithChildren
   '/api/logos': typeof ApiLogosRouteWithChildren
-  '/api/votes': typeof ApiVotesRoute
+  '/api/session': typeof ApiSessionRoute
+  '/api/votes': typeof ApiVotesRouteWithChildren
   '/contest_results/$contestId': typeof Contest_resultsContestIdRoute
   '/gallery/$logoId': typeof GalleryLogoIdRoute
   '/logos/$logoId': typeof LogosLogoIdRoute
+  '/api/admin/backups': typeof ApiAdminBackupsRoute
+  '/api/admin/data-bundle': typeof ApiAdminDataBundleRoute
   '/api/contests/$contestId': typeof ApiContestsContestIdRouteWithChildren
   '/api/logos/$logoId': typeof ApiLogosLogoIdRouteWithChildren
+  '/api/votes/history': typeof ApiVotesHistoryRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/contests/$contestId/anomalies': typeof ApiContestsContestIdAnomaliesRoute
+  '/api/contests/$contestId/head-to-head': typeof ApiContestsContestIdHeadToHeadRoute
+  '/api/contests/$contestId/moderation': typeof ApiContestsContestIdModerationRoute
+  '/api/contests/$contestId/next-matchup': typeof ApiContestsContestIdNextMatchupRoute
   '/api/contests/$contestId/recalculate-elo': typeof ApiContestsContestIdRecalculateEloRoute
+  '/api/contests/$contestId/replay-verification': typeof ApiContestsContestIdReplayVerificationRoute
   '/api/contests/$contestId/reset': typeof ApiContestsContestIdResetRoute
+  '/api/contests/$contestId/stream': typeof ApiContestsContestIdStreamRoute
   '/api/logos/$logoId/image': typeof ApiLogosLogoIdImageRoute
 }
 export interface FileRoutesById {
@@ -230,20 +340,33 @@ export interface FileRoutesById {
   '/my-logos': typeof MyLogosRoute
   '/scores': typeof ScoresRoute
   '/vote': typeof VoteRoute
+  '/admin/audit': typeof AdminAuditRoute
+  '/admin/backups': typeof AdminBackupsRoute
   '/admin/contests': typeof AdminContestsRoute
   '/api/allowed-users': typeof ApiAllowedUsersRoute
+  '/api/audit': typeof ApiAuditRoute
   '/api/contests': typeof ApiContestsRouteWithChildren
   '/api/logos': typeof ApiLogosRouteWithChildren
-  '/api/votes': typeof ApiVotesRoute
+  '/api/session': typeof ApiSessionRoute
+  '/api/votes': typeof ApiVotesRouteWithChildren
   '/contest_results/$contestId': typeof Contest_resultsContestIdRoute
   '/gallery/$logoId': typeof GalleryLogoIdRoute
   '/logos/$logoId': typeof LogosLogoIdRoute
+  '/api/admin/backups': typeof ApiAdminBackupsRoute
+  '/api/admin/data-bundle': typeof ApiAdminDataBundleRoute
   '/api/contests/$contestId': typeof ApiContestsContestIdRouteWithChildren
   '/api/logos/$logoId': typeof ApiLogosLogoIdRouteWithChildren
+  '/api/votes/history': typeof ApiVotesHistoryRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/contests/$contestId/anomalies': typeof ApiContestsContestIdAnomaliesRoute
+  '/api/contests/$contestId/head-to-head': typeof ApiContestsContestIdHeadToHeadRoute
+  '/api/contests/$contestId/moderation': typeof ApiContestsContestIdModerationRoute
+  '/api/contests/$contestId/next-matchup': typeof ApiContestsContestIdNextMatchupRoute
   '/api/contests/$contestId/recalculate-elo': typeof ApiContestsContestIdRecalculateEloRoute
+  '/api/contests/$contestId/replay-verification': typeof ApiContestsContestIdReplayVerificationRoute
   '/api/contests/$contestId/reset': typeof ApiContestsContestIdResetRoute
+  '/api/contests/$contestId/stream': typeof ApiContestsContestIdStreamRoute
   '/api/logos/$logoId/image': typeof ApiLogosLogoIdImageRoute
 }
 export interface FileRouteTypes {
@@ -259,20 +382,33 @@ export interface FileRouteTypes {
     | '/my-logos'
     | '/scores'
     | '/vote'
+    | '/admin/audit'
+    | '/admin/backups'
     | '/admin/contests'
     | '/api/allowed-users'
+    | '/api/audit'
     | '/api/contests'
     | '/api/logos'
+    | '/api/session'
     | '/api/votes'
     | '/contest_results/$contestId'
     | '/gallery/$logoId'
     | '/logos/$logoId'
+    | '/api/admin/backups'
+    | '/api/admin/data-bundle'
     | '/api/contests/$contestId'
     | '/api/logos/$logoId'
+    | '/api/votes/history'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/api/contests/$contestId/anomalies'
+    | '/api/contests/$contestId/head-to-head'
+    | '/api/contests/$contestId/moderation'
+    | '/api/contests/$contestId/next-matchup'
     | '/api/contests/$contestId/recalculate-elo'
+    | '/api/contests/$contestId/replay-verification'
     | '/api/contests/$contestId/reset'
+    | '/api/contests/$contestId/stream'
     | '/api/logos/$logoId/image'
   fileRoutesByTo: FileRoutesByTo
   to:
@@ -286,20 +422,33 @@ export interface FileRouteTypes {
     | '/my-logos'
     | '/scores'
     | '/vote'
+    | '/admin/audit'
+    | '/admin/backups'
     | '/admin/contests'
     | '/api/allowed-users'
+    | '/api/audit'
     | '/api/contests'
     | '/api/logos'
+    | '/api/session'
     | '/api/votes'
     | '/contest_results/$contestId'
     | '/gallery/$logoId'
     | '/logos/$logoId'
+    | '/api/admin/backups'
+    | '/api/admin/data-bundle'
     | '/api/contests/$contestId'
     | '/api/logos/$logoId'
+    | '/api/votes/history'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/api/contests/$contestId/anomalies'
+    | '/api/contests/$contestId/head-to-head'
+    | '/api/contests/$contestId/moderation'
+    | '/api/contests/$contestId/next-matchup'
     | '/api/contests/$contestId/recalculate-elo'
+    | '/api/contests/$contestId/replay-verification'
     | '/api/contests/$contestId/reset'
+    | '/api/contests/$contestId/stream'
     | '/api/logos/$logoId/image'
   id:
     | '__root__'
@@ -313,20 +462,33 @@ export interface FileRouteTypes {
     | '/my-logos'
     | '/scores'
     | '/vote'
+    | '/admin/audit'
+    | '/admin/backups'
     | '/admin/contests'
     | '/api/allowed-users'
+    | '/api/audit'
     | '/api/contests'
     | '/api/logos'
+    | '/api/session'
     | '/api/votes'
     | '/contest_results/$contestId'
     | '/gallery/$logoId'
     | '/logos/$logoId'
+    | '/api/admin/backups'
+    | '/api/admin/data-bundle'
     | '/api/contests/$contestId'
     | '/api/logos/$logoId'
+    | '/api/votes/history'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/api/contests/$contestId/anomalies'
+    | '/api/contests/$contestId/head-to-head'
+    | '/api/contests/$contestId/moderation'
+    | '/api/contests/$contestId/next-matchup'
     | '/api/contests/$contestId/recalculate-elo'
+    | '/api/contests/$contestId/replay-verification'
     | '/api/contests/$contestId/reset'
+    | '/api/contests/$contestId/stream'
     | '/api/logos/$logoId/image'
   fileRoutesById: FileRoutesById
 }
@@ -341,13 +503,19 @@ export interface RootRouteChildren {
   MyLogosRoute: typeof MyLogosRoute
   ScoresRoute: typeof ScoresRoute
   VoteRoute: typeof VoteRoute
+  AdminAuditRoute: typeof AdminAuditRoute
+  AdminBackupsRoute: typeof AdminBackupsRoute
   AdminContestsRoute: typeof AdminContestsRoute
   ApiAllowedUsersRoute: typeof ApiAllowedUsersRoute
+  ApiAuditRoute: typeof ApiAuditRoute
   ApiContestsRoute: typeof ApiContestsRouteWithChildren
   ApiLogosRoute: typeof ApiLogosRouteWithChildren
-  ApiVotesRoute: typeof ApiVotesRoute
+  ApiSessionRoute: typeof ApiSessionRoute
+  ApiVotesRoute: typeof ApiVotesRouteWithChildren
   Contest_resultsContestIdRoute: typeof Contest_resultsContestIdRoute
   LogosLogoIdRoute: typeof LogosLogoIdRoute
+  ApiAdminBackupsRoute: typeof ApiAdminBackupsRoute
+  ApiAdminDataBundleRoute: typeof ApiAdminDataBundleRoute
   DemoStartApiRequestRoute: typeof DemoStartApiRequestRoute
   DemoStartServerFuncsRoute: typeof DemoStartServerFuncsRoute
 }
@@ -452,6 +620,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiVotesRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/session': {
+      id: '/api/session'
+      path: '/api/session'
+      fullPath: '/api/session'
+      preLoaderRoute: typeof ApiSessionRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/logos': {
       id: '/api/logos'
       path: '/api/logos'
@@ -466,6 +641,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiContestsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/audit': {
+      id: '/api/audit'
+      path: '/api/audit'
+      fullPath: '/api/audit'
+      preLoaderRoute: typeof ApiAuditRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/allowed-users': {
       id: '/api/allowed-users'
       path: '/api/allowed-users'
@@ -480,6 +662,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminContestsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/backups': {
+      id: '/admin/backups'
+      path: '/admin/backups'
+      fullPath: '/admin/backups'
+      preLoaderRoute: typeof AdminBackupsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/admin/audit': {
+      id: '/admin/audit'
+      path: '/admin/audit'
+      fullPath: '/admin/audit'
+      preLoaderRoute: typeof AdminAuditRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/start/server-funcs': {
       id: '/demo/start/server-funcs'
       path: '/demo/start/server-funcs'
@@ -494,6 +690,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoStartApiRequestRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/votes/history': {
+      id: '/api/votes/history'
+      path: '/history'
+      fullPath: '/api/votes/history'
+      preLoaderRoute: typeof ApiVotesHistoryRouteImport
+      parentRoute: typeof ApiVotesRoute
+    }
     '/api/logos/$logoId': {
       id: '/api/logos/$logoId'
       path: '/$logoId'
@@ -508,6 +711,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiContestsContestIdRouteImport
       parentRoute: typeof ApiContestsRoute
     }
+    '/api/admin/data-bundle': {
+      id: '/api/admin/data-bundle'
+      path: '/api/admin/data-bundle'
+      fullPath: '/api/admin/data-bundle'
+      preLoaderRoute: typeof ApiAdminDataBundleRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/backups': {
+      id: '/api/admin/backups'
+      path: '/api/admin/backups'
+      fullPath: '/api/admin/backups'
+      preLoaderRoute: typeof ApiAdminBackupsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/logos/$logoId/image': {
       id: '/api/logos/$logoId/image'
       path: '/image'
@@ -515,6 +732,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiLogosLogoIdImageRouteImport
       parentRoute: typeof ApiLogosLogoIdRoute
     }
+    '/api/contests/$contestId/stream': {
+      id: '/api/contests/$contestId/stream'
+      path: '/stream'
+      fullPath: '/api/contests/$contestId/stream'
+      preLoaderRoute: typeof ApiContestsContestIdStreamRouteImport
+      parentRoute: typeof ApiContestsContestIdRoute
+    }
     '/api/contests/$contestId/reset': {
       id: '/api/contests/$contestId/reset'
       path: '/reset'
@@ -522,6 +746,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiContestsContestIdResetRouteImport
       parentRoute: typeof ApiContestsContestIdRoute
     }
+    '/api/contests/$contestId/replay-verification': {
+      id: '/api/contests/$contestId/replay-verification'
+      path: '/replay-verification'
+      fullPath: '/api/contests/$contestId/replay-verification'
+      preLoaderRoute: typeof ApiContestsContestIdReplayVerificationRouteImport
+      parentRoute: typeof ApiContestsContestIdRoute
+    }
     '/api/contests/$contestId/recalculate-elo': {
       id: '/api/contests/$contestId/recalculate-elo'
       path: '/recalculate-elo'
@@ -529,6 +760,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiContestsContestIdRecalculateEloRouteImport
       parentRoute: typeof ApiContestsContestIdRoute
     }
+    '/api/contests/$contestId/next-matchup': {
+      id: '/api/contests/$contestId/next-matchup'
+      path: '/next-matchup'
+      fullPath: '/api/contests/$contestId/next-matchup'
+      preLoaderRoute: typeof ApiContestsContestIdNextMatchupRouteImport
+      parentRoute: typeof ApiContestsContestIdRoute
+    }
+    '/api/contests/$contestId/moderation': {
+      id: '/api/contests/$contestId/moderation'
+      path: '/moderation'
+      fullPath: '/api/contests/$contestId/moderation'
+      preLoaderRoute: typeof ApiContestsContestIdModerationRouteImport
+      parentRoute: typeof ApiContestsContestIdRoute
+    }
+    '/api/contests/$contestId/head-to-head': {
+      id: '/api/contests/$contestId/head-to-head'
+      path: '/head-to-head'
+      fullPath: '/api/contests/$contestId/head-to-head'
+      preLoaderRoute: typeof ApiContestsContestIdHeadToHeadRouteImport
+      parentRoute: typeof ApiContestsContestIdRoute
+    }
+    '/api/contests/$contestId/anomalies': {
+      id: '/api/contests/$contestId/anomalies'
+      path: '/anomalies'
+      fullPath: '/api/contests/$contestId/anomalies'
+      preLoaderRoute: typeof ApiContestsContestIdAnomaliesRouteImport
+      parentRoute: typeof ApiContestsContestIdRoute
+    }
   }
 }
 
@@ -544,14 +803,27 @@ const GalleryRouteWithChildren =
   GalleryRoute._addFileChildren(GalleryRouteChildren)
 
 interface ApiContestsContestIdRouteChildren {
+  ApiContestsContestIdAnomaliesRoute: typeof ApiContestsContestIdAnomaliesRoute
+  ApiContestsContestIdHeadToHeadRoute: typeof ApiContestsContestIdHeadToHeadRoute
+  ApiContestsContestIdModerationRoute: typeof ApiContestsContestIdModerationRoute
+  ApiContestsContestIdNextMatchupRoute: typeof ApiContestsContestIdNextMatchupRoute
   ApiContestsContestIdRecalculateEloRoute: typeof ApiContestsContestIdRecalculateEloRoute
+  ApiContestsContestIdReplayVerificationRoute: typeof ApiContestsContestIdReplayVerificationRoute
   ApiContestsContestIdResetRoute: typeof ApiContestsContestIdResetRoute
+  ApiContestsContestIdStreamRoute: typeof ApiContestsContestIdStreamRoute
 }
 
 const ApiContestsContestIdRouteChildren: ApiContestsContestIdRouteChildren = {
+  ApiContestsContestIdAnomaliesRoute: ApiContestsContestIdAnomaliesRoute,
+  ApiContestsContestIdHeadToHeadRoute: ApiContestsContestIdHeadToHeadRoute,
+  ApiContestsContestIdModerationRoute: ApiContestsContestIdModerationRoute,
+  ApiContestsContestIdNextMatchupRoute: ApiContestsContestIdNextMatchupRoute,
   ApiContestsContestIdRecalculateEloRoute:
     ApiContestsContestIdRecalculateEloRoute,
+  ApiContestsContestIdReplayVerificationRoute:
+    ApiContestsContestIdReplayVerificationRoute,
   ApiContestsContestIdResetRoute: ApiContestsContestIdResetRoute,
+  ApiContestsContestIdStreamRoute: ApiContestsContestIdStreamRoute,
 }
 
 const ApiContestsContestIdRouteWithChildren =
@@ -593,6 +865,18 @@ const ApiLogosRouteWithChildren = ApiLogosRoute._addFileChildren(
   ApiLogosRouteChildren,
 )
 
+interface ApiVotesRouteChildren {
+  ApiVotesHistoryRoute: typeof ApiVotesHistoryRoute
+}
+
+const ApiVotesRouteChildren: ApiVotesRouteChildren = {
+  ApiVotesHistoryRoute: ApiVotesHistoryRoute,
+}
+
+const ApiVotesRouteWithChildren = ApiVotesRoute._addFileChildren(
+  ApiVotesRouteChildren,
+)
+
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   AccessDeniedRoute: AccessDeniedRoute,
@@ -604,13 +888,19 @@ const rootRouteChildren: RootRouteChildren = {
   MyLogosRoute: MyLogosRoute,
   ScoresRoute: ScoresRoute,
   VoteRoute: VoteRoute,
+  AdminAuditRoute: AdminAuditRoute,
+  AdminBackupsRoute: AdminBackupsRoute,
   AdminContestsRoute: AdminContestsRoute,
   ApiAllowedUsersRoute: ApiAllowedUsersRoute,
+  ApiAuditRoute: ApiAuditRoute,
   ApiContestsRoute: ApiContestsRouteWithChildren,
   ApiLogosRoute: ApiLogosRouteWithChildren,
-  ApiVotesRoute: ApiVotesRoute,
+  ApiSessionRoute: ApiSessionRoute,
+  ApiVotesRoute: ApiVotesRouteWithChildren,
   Contest_resultsContestIdRoute: Contest_resultsContestIdRoute,
   LogosLogoIdRoute: LogosLogoIdRoute,
+  ApiAdminBackupsRoute: ApiAdminBackupsRoute,
+  ApiAdminDataBundleRoute: ApiAdminDataBundleRoute,
   DemoStartApiRequestRoute: DemoStartApiRequestRoute,
   DemoStartServerFuncsRoute: DemoStartServerFuncsRoute,
 }
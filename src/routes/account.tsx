@@ -2,7 +2,7 @@ import { Link, createFileRoute } from '@tanstack/react-router'
 import { FormEvent, useEffect, useMemo, useState } from 'react'
 
 import { SignInPrompt } from '../components/AuthPrompts'
-import { hashPasswordWithAlias, normalizeAlias } from '../lib/auth-utils'
+import { normalizeAlias } from '../lib/auth-utils'
 import { useAuth } from '../state/AuthContext'
 import { useLogoLibrary, type LogoEntry } from '../state/LogoLibraryContext'
 
@@ -10,7 +10,8 @@ type MessageState = { tone: 'success' | 'error' | 'info'; text: string } | null
 
 interface AllowedUserUpdatePayload {
   name?: string
-  passwordHash?: string | null
+  password?: string | null
+  currentPassword?: string
 }
 
 export const Route = createFileRoute('/account')({
@@ -24,6 +25,7 @@ function AccountPage() {
   const [nameInput, setNameInput] = useState('')
   const [profileStatus, setProfileStatus] = useState<MessageState>(null)
   const [passwordStatus, setPasswordStatus] = useState<MessageState>(null)
+  const [currentPassword, setCurrentPassword] = useState('')
   const [newPassword, setNewPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
   const [profileSaving, setProfileSaving] = useState(false)
@@ -67,6 +69,7 @@ function AccountPage() {
   const helperTextClass = 'text-xs text-white/50'
 
   const resetPasswordForms = () => {
+    setCurrentPassword('')
     setNewPassword('')
     setConfirmPassword('')
   }
@@ -143,12 +146,16 @@ function AccountPage() {
       return
     }
 
+    if (user.hasPassword && !currentPassword) {
+      setPasswordStatus({ tone: 'error', text: 'Enter your current password to change it.' })
+      return
+    }
+
     setPasswordSaving(true)
     setPasswordStatus(null)
 
     try {
-      const hash = await hashPasswordWithAlias(trimmed, user.alias)
-      await updateRoster({ passwordHash: hash })
+      await updateRoster({ password: trimmed, currentPassword })
       setPasswordStatus({ tone: 'success', text: 'Password saved. You will be prompted for it next time you sign in.' })
       resetPasswordForms()
     } catch (error) {
@@ -159,11 +166,16 @@ function AccountPage() {
   }
 
   const handleRemovePassword = async () => {
+    if (!currentPassword) {
+      setPasswordStatus({ tone: 'error', text: 'Enter your current password to remove it.' })
+      return
+    }
+
     setRemovingPassword(true)
     setPasswordStatus(null)
 
     try {
-      await updateRoster({ passwordHash: null })
+      await updateRoster({ password: null, currentPassword })
       setPasswordStatus({ tone: 'info', text: 'Password removed. This alias will no longer prompt for one.' })
       resetPasswordForms()
     } catch (error) {
@@ -240,6 +252,22 @@ function AccountPage() {
           <p className={helperTextClass}>
             Add a password if you want an extra confirmation when signing in. We hash it locally with your alias as the salt before storing it.
           </p>
+          {user.hasPassword ? (
+            <label className="flex flex-col gap-2 text-sm text-white/70">
+              Current password
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(event) => {
+                  setCurrentPassword(event.target.value)
+                  if (passwordStatus) setPasswordStatus(null)
+                }}
+                className="rounded-full border border-white/15 bg-slate-900/70 px-4 py-3 text-white outline-none transition focus:border-cyan-300"
+                placeholder="Required to change or remove it"
+              />
+            </label>
+          ) : null}
           <label className="flex flex-col gap-2 text-sm text-white/70">
             New password
             <input
@@ -0,0 +1,306 @@
+import { Link, createFileRoute } from '@tanstack/react-router'
+import { useCallback, useEffect, useState } from 'react'
+
+import { AccessDeniedMessage, SignInPrompt } from '../components/AuthPrompts'
+import { useAuth } from '../state/AuthContext'
+
+export const Route = createFileRoute('/admin/audit')({
+  component: AdminAuditPage,
+})
+
+type AdminAuditAction =
+  | 'contest-created'
+  | 'contest-updated'
+  | 'contest-activated'
+  | 'contest-archived'
+  | 'logo-submitted'
+  | 'logo-edited'
+  | 'logo-owner-changed'
+  | 'logo-removed'
+  | 'logo-image-replaced'
+  | 'roster-password-changed'
+  | 'ratings-recalculated'
+  | 'votes-reset'
+  | 'votes-voided'
+  | 'backup-restored'
+  | 'data-imported'
+  | 'data-exported'
+
+interface AdminAuditEvent {
+  id: string
+  action: AdminAuditAction
+  occurredAt: string
+  actor: string | null
+  contestId: string | null
+  targetType: 'contest' | 'logo' | 'user' | 'document'
+  targetId: string
+  before: unknown
+  after: unknown
+  request: { method: string; path: string; ip: string | null; userAgent: string | null } | null
+}
+
+interface AdminAuditPage {
+  events: AdminAuditEvent[]
+  total: number
+  offset: number
+  limit: number
+  hasMore: boolean
+}
+
+interface AuditFilters {
+  action: AdminAuditAction | ''
+  actor: string
+  contestId: string
+}
+
+const PAGE_SIZE = 25
+
+const ACTION_LABELS: Record<AdminAuditAction, string> = {
+  'contest-created': 'Contest created',
+  'contest-updated': 'Contest updated',
+  'contest-activated': 'Contest activated',
+  'contest-archived': 'Contest archived',
+  'logo-submitted': 'Logo submitted',
+  'logo-edited': 'Logo edited',
+  'logo-owner-changed': 'Logo owner changed',
+  'logo-removed': 'Logo removed',
+  'logo-image-replaced': 'Logo artwork replaced',
+  'roster-password-changed': 'Password changed',
+  'ratings-recalculated': 'Ratings recalculated',
+  'votes-reset': 'Votes reset',
+  'votes-voided': 'Votes voided',
+  'backup-restored': 'Backup restored',
+  'data-imported': 'Data bundle imported',
+  'data-exported': 'Export with credentials',
+}
+
+const ACTION_STYLES: Record<AdminAuditEvent['targetType'], string> = {
+  contest: 'border-cyan-300/40 text-cyan-100',
+  logo: 'border-fuchsia-300/40 text-fuchsia-100',
+  user: 'border-amber-300/40 text-amber-100',
+  document: 'border-emerald-300/40 text-emerald-100',
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? '—'
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text
+}
+
+/** Fields whose values differ between the snapshots; identical fields are left out. */
+function changedFields(before: unknown, after: unknown): Array<{ field: string; before: string; after: string }> {
+  if (!isRecord(before) || !isRecord(after)) {
+    return []
+  }
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => field !== 'updatedAt' && JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: formatValue(before[field]), after: formatValue(after[field]) }))
+}
+
+function AdminAuditPage() {
+  const { isAuthenticated, isAdmin, loading } = useAuth()
+
+  const [filters, setFilters] = useState<AuditFilters>({ action: '', actor: '', contestId: '' })
+  const [offset, setOffset] = useState(0)
+  const [page, setPage] = useState<AdminAuditPage | null>(null)
+  const [loadingEvents, setLoadingEvents] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadEvents = useCallback(async () => {
+    setLoadingEvents(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ offset: String(offset), limit: String(PAGE_SIZE) })
+      if (filters.action) params.set('action', filters.action)
+      if (filters.actor.trim()) params.set('actor', filters.actor.trim())
+      if (filters.contestId.trim()) params.set('contestId', filters.contestId.trim())
+
+      const response = await fetch(`/api/audit?${params.toString()}`, { headers: { Accept: 'application/json' } })
+      const payload = (await response.json().catch(() => ({}))) as AdminAuditPage & { message?: string }
+      if (!response.ok) {
+        throw new Error(payload.message ?? `Request failed (${response.status})`)
+      }
+      setPage(payload)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the audit log.')
+    } finally {
+      setLoadingEvents(false)
+    }
+  }, [filters, offset])
+
+  useEffect(() => {
+    if (isAdmin) {
+      void loadEvents()
+    }
+  }, [isAdmin, loadEvents])
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }))
+    setOffset(0)
+  }
+
+  if (loading) {
+    return (
+      <div className="mx-auto max-w-3xl space-y-6 rounded-3xl border border-white/10 bg-white/5 p-12 text-center backdrop-blur">
+        <h1 className="text-3xl font-semibold text-white">Checking admin access…</h1>
+        <p className="text-white/70">Hang tight while we confirm your CES3 permissions.</p>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <SignInPrompt
+        heading="Sign in to review the audit log"
+        description="Admins can see who changed contests, logos and roster passwords, and when."
+      />
+    )
+  }
+
+  if (!isAdmin) {
+    return (
+      <AccessDeniedMessage
+        title="Admin access required"
+        description="Only CES3 admins can read the audit log. Ask the brand council to grant access."
+        hint="Need elevated access? Email the app admin."
+      />
+    )
+  }
+
+  const events = page?.events ?? []
+
+  return (
+    <div className="space-y-10 pb-20">
+      <header className="space-y-4">
+        <p className="text-sm uppercase tracking-[0.3em] text-cyan-200/70">Accountability</p>
+        <h1 className="text-4xl font-semibold text-white">Audit timeline</h1>
+        <p className="max-w-3xl text-white/70">
+          Every contest, logo and roster change with who made it, what it looked like before and after, and where the request came from.
+        </p>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-white/60">
+          <select
+            value={filters.action}
+            onChange={(event) => updateFilter('action', event.target.value as AuditFilters['action'])}
+            className="rounded-full border border-white/15 bg-slate-900/70 px-4 py-2 text-white outline-none focus:border-cyan-300"
+          >
+            <option value="">All actions</option>
+            {(Object.keys(ACTION_LABELS) as AdminAuditAction[]).map((action) => (
+              <option key={action} value={action}>
+                {ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+          <input
+            value={filters.actor}
+            onChange={(event) => updateFilter('actor', event.target.value)}
+            placeholder="Actor alias"
+            className="rounded-full border border-white/15 bg-slate-900/70 px-4 py-2 text-white outline-none focus:border-cyan-300"
+          />
+          <input
+            value={filters.contestId}
+            onChange={(event) => updateFilter('contestId', event.target.value)}
+            placeholder="Contest id"
+            className="rounded-full border border-white/15 bg-slate-900/70 px-4 py-2 text-white outline-none focus:border-cyan-300"
+          />
+          <button
+            type="button"
+            onClick={() => void loadEvents()}
+            className="rounded-full border border-white/15 bg-white/10 px-4 py-2 font-semibold text-white transition hover:border-cyan-300 hover:text-cyan-200 disabled:cursor-wait disabled:text-white/40"
+            disabled={loadingEvents}
+          >
+            {loadingEvents ? 'Refreshing…' : 'Reload'}
+          </button>
+          <Link
+            to="/admin/contests"
+            className="rounded-full border border-white/15 px-4 py-2 font-semibold text-white/80 transition hover:border-cyan-300 hover:text-cyan-200"
+          >
+            Back to contest admin
+          </Link>
+        </div>
+        {error && <p className="text-sm text-rose-200">{error}</p>}
+      </header>
+
+      {page && events.length === 0 ? (
+        <p className="rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-white/60">
+          No audit events match these filters.
+        </p>
+      ) : (
+        <ol className="space-y-4 border-l border-white/10 pl-6">
+          {events.map((event) => {
+            const changes = changedFields(event.before, event.after)
+            return (
+              <li key={event.id} className="space-y-3 rounded-3xl border border-white/10 bg-white/5 p-5">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span
+                      className={`rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] ${ACTION_STYLES[event.targetType]}`}
+                    >
+                      {ACTION_LABELS[event.action] ?? event.action}
+                    </span>
+                    <span className="font-mono text-xs text-white/60">{event.targetId}</span>
+                    {event.contestId && event.contestId !== event.targetId && (
+                      <span className="text-xs text-white/40">in {event.contestId}</span>
+                    )}
+                  </div>
+                  <time className="text-sm text-white/50" dateTime={event.occurredAt}>
+                    {new Date(event.occurredAt).toLocaleString()}
+                  </time>
+                </div>
+                <p className="text-sm text-white/70">
+                  By <span className="font-semibold text-white">{event.actor ?? 'unknown'}</span>
+                  {event.request && (
+                    <span className="text-white/40">
+                      {' '}
+                      · {event.request.method} {event.request.path}
+                      {event.request.ip ? ` from ${event.request.ip}` : ''}
+                    </span>
+                  )}
+                </p>
+                {changes.length > 0 && (
+                  <ul className="space-y-1 rounded-2xl border border-white/10 bg-slate-950/60 p-4 font-mono text-xs">
+                    {changes.map((change) => (
+                      <li key={change.field} className="text-amber-200">
+                        {change.field} <span className="text-white/50">{change.before}</span>
+                        <span className="text-white/40"> →</span>{' '}
+                        <span className="text-white/80">{change.after}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+
+      {page && page.total > 0 && (
+        <div className="flex items-center justify-between text-sm text-white/60">
+          <span>
+            {page.offset + 1}–{page.offset + events.length} of {page.total.toLocaleString()}
+          </span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0 || loadingEvents}
+              className="rounded-full border border-white/15 px-4 py-2 font-semibold text-white transition hover:border-cyan-300 hover:text-cyan-200 disabled:cursor-not-allowed disabled:text-white/40"
+            >
+              Newer
+            </button>
+            <button
+              type="button"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={!page.hasMore || loadingEvents}
+              className="rounded-full border border-white/15 px-4 py-2 font-semibold text-white transition hover:border-cyan-300 hover:text-cyan-200 disabled:cursor-not-allowed disabled:text-white/40"
+            >
+              Older
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
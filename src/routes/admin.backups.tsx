@@ -0,0 +1,429 @@
+import { Link, createFileRoute } from '@tanstack/react-router'
+import { useCallback, useEffect, useState } from 'react'
+
+import { AccessDeniedMessage, SignInPrompt } from '../components/AuthPrompts'
+import { useAuth } from '../state/AuthContext'
+import { useContest } from '../state/ContestContext'
+import { useLogoLibrary } from '../state/LogoLibraryContext'
+
+export const Route = createFileRoute('/admin/backups')({
+  component: AdminBackupsPage,
+})
+
+type BackupDocument = 'logos' | 'votes' | 'contests'
+
+interface BackupFileInfo {
+  fileName: string
+  size: number
+  createdAt: string
+}
+
+interface DocumentBackups {
+  document: BackupDocument
+  liveSize: number | null
+  liveUpdatedAt: string | null
+  backups: BackupFileInfo[]
+}
+
+interface BackupChange {
+  path: string
+  kind: 'added' | 'removed' | 'changed'
+  current?: string
+  restored?: string
+}
+
+interface BackupPreview {
+  document: BackupDocument
+  backup: BackupFileInfo
+  currentSummary: string
+  restoredSummary: string
+  changes: BackupChange[]
+  totalChanges: number
+}
+
+interface BundleImportSummary {
+  mode: 'merge' | 'replace'
+  migrated: BackupDocument[]
+  logos: { added: number; updated: number }
+  contests: { added: number; updated: number }
+  votes: { contestsAdded: number; contestsMerged: number; matchesAdded: number }
+  allowedUsers: { added: number }
+  voteEvents: { added: number }
+  historyArchive: { matchesAdded: number }
+  assets: { written: number }
+}
+
+type MessageState = { tone: 'success' | 'error'; text: string } | null
+
+const DOCUMENT_LABELS: Record<BackupDocument, string> = {
+  logos: 'Logos (logos.json)',
+  votes: 'Votes (votes.json)',
+  contests: 'Contests (contests.json)',
+}
+
+const CHANGE_STYLES: Record<BackupChange['kind'], string> = {
+  added: 'text-emerald-200',
+  removed: 'text-rose-200',
+  changed: 'text-amber-200',
+}
+
+function formatBytes(size: number | null): string {
+  if (size === null) return '—'
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const payload = (await response.json().catch(() => ({}))) as T & { message?: string }
+  if (!response.ok) {
+    throw new Error(payload.message ?? `Request failed (${response.status})`)
+  }
+  return payload
+}
+
+function describeImport(summary: BundleImportSummary): string {
+  const parts = [
+    `${summary.logos.added} logos added, ${summary.logos.updated} updated`,
+    `${summary.contests.added} contests added, ${summary.contests.updated} updated`,
+    `${summary.votes.matchesAdded} matches imported`,
+    `${summary.historyArchive.matchesAdded} archived matches imported`,
+    `${summary.allowedUsers.added} roster entries added`,
+    `${summary.assets.written} assets written`,
+  ]
+  const migrated = summary.migrated.length > 0 ? ` Upgraded from older formats: ${summary.migrated.join(', ')}.` : ''
+  return `Import (${summary.mode}) complete: ${parts.join('; ')}.${migrated}`
+}
+
+function AdminBackupsPage() {
+  const { isAuthenticated, isAdmin, loading } = useAuth()
+  const { refresh: refreshContests } = useContest()
+  const { refresh: refreshLogos } = useLogoLibrary()
+
+  const [backend, setBackend] = useState<string | null>(null)
+  const [documents, setDocuments] = useState<DocumentBackups[]>([])
+  const [loadingBackups, setLoadingBackups] = useState(false)
+  const [preview, setPreview] = useState<BackupPreview | null>(null)
+  const [busyFile, setBusyFile] = useState<string | null>(null)
+  const [message, setMessage] = useState<MessageState>(null)
+  const [bundleFile, setBundleFile] = useState<File | null>(null)
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge')
+  const [importing, setImporting] = useState(false)
+
+  const loadBackups = useCallback(async () => {
+    setLoadingBackups(true)
+    try {
+      const data = await readJson<{ backend: string; documents: DocumentBackups[] }>(
+        await fetch('/api/admin/backups', { headers: { Accept: 'application/json' } }),
+      )
+      setBackend(data.backend)
+      setDocuments(data.documents)
+    } catch (error) {
+      setMessage({ tone: 'error', text: error instanceof Error ? error.message : 'Failed to load backups.' })
+    } finally {
+      setLoadingBackups(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdmin) {
+      void loadBackups()
+    }
+  }, [isAdmin, loadBackups])
+
+  const handlePreview = async (document: BackupDocument, fileName: string) => {
+    setBusyFile(fileName)
+    setMessage(null)
+    try {
+      const query = `document=${encodeURIComponent(document)}&fileName=${encodeURIComponent(fileName)}`
+      const data = await readJson<{ preview: BackupPreview }>(
+        await fetch(`/api/admin/backups?${query}`, { headers: { Accept: 'application/json' } }),
+      )
+      setPreview(data.preview)
+    } catch (error) {
+      setMessage({ tone: 'error', text: error instanceof Error ? error.message : 'Failed to preview backup.' })
+    } finally {
+      setBusyFile(null)
+    }
+  }
+
+  const handleRestore = async (document: BackupDocument, backup: BackupFileInfo) => {
+    const confirmed = window.confirm(
+      `Restore ${DOCUMENT_LABELS[document]} from ${new Date(backup.createdAt).toLocaleString()}? The current file is backed up first.`,
+    )
+    if (!confirmed) {
+      return
+    }
+
+    setBusyFile(backup.fileName)
+    setMessage(null)
+    try {
+      const data = await readJson<{ result: { safetyBackup: string | null } }>(
+        await fetch('/api/admin/backups', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ document, fileName: backup.fileName }),
+        }),
+      )
+      setMessage({
+        tone: 'success',
+        text: data.result.safetyBackup
+          ? `Restored ${document}. The previous version was saved as ${data.result.safetyBackup}.`
+          : `Restored ${document}.`,
+      })
+      setPreview(null)
+      await Promise.all([loadBackups(), refreshContests(), refreshLogos()])
+    } catch (error) {
+      setMessage({ tone: 'error', text: error instanceof Error ? error.message : 'Failed to restore backup.' })
+    } finally {
+      setBusyFile(null)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!bundleFile) {
+      return
+    }
+    if (
+      importMode === 'replace' &&
+      !window.confirm('Replace all logos, votes, contests, roster entries and assets with the bundle contents?')
+    ) {
+      return
+    }
+
+    setImporting(true)
+    setMessage(null)
+    try {
+      const data = await readJson<{ summary: BundleImportSummary }>(
+        await fetch(`/api/admin/data-bundle?mode=${importMode}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: bundleFile,
+        }),
+      )
+      setMessage({ tone: 'success', text: describeImport(data.summary) })
+      setBundleFile(null)
+      await Promise.all([loadBackups(), refreshContests(), refreshLogos()])
+    } catch (error) {
+      setMessage({ tone: 'error', text: error instanceof Error ? error.message : 'Failed to import bundle.' })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="mx-auto max-w-3xl space-y-6 rounded-3xl border border-white/10 bg-white/5 p-12 text-center backdrop-blur">
+        <h1 className="text-3xl font-semibold text-white">Checking admin access…</h1>
+        <p className="text-white/70">Hang tight while we confirm your CES3 permissions.</p>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <SignInPrompt
+        heading="Sign in to manage backups"
+        description="Admins can browse runtime data snapshots and roll logos, votes, or contests back to an earlier point."
+      />
+    )
+  }
+
+  if (!isAdmin) {
+    return (
+      <AccessDeniedMessage
+        title="Admin access required"
+        description="Only CES3 admins can restore runtime data. Ask the brand council to grant access."
+        hint="Need elevated access? Email the app admin."
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-10 pb-20">
+      <header className="space-y-4">
+        <p className="text-sm uppercase tracking-[0.3em] text-cyan-200/70">Data safety</p>
+        <h1 className="text-4xl font-semibold text-white">Backups & point-in-time restore</h1>
+        <p className="max-w-3xl text-white/70">
+          Every write to the runtime data keeps a timestamped snapshot. Preview what a snapshot would change, then restore it — the live file is always backed up first so a restore can be undone.
+        </p>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-white/60">
+          <button
+            type="button"
+            onClick={() => void loadBackups()}
+            className="rounded-full border border-white/15 bg-white/10 px-4 py-2 font-semibold text-white transition hover:border-cyan-300 hover:text-cyan-200 disabled:cursor-wait disabled:text-white/40"
+            disabled={loadingBackups}
+          >
+            {loadingBackups ? 'Refreshing…' : 'Reload backups'}
+          </button>
+          <Link
+            to="/admin/contests"
+            className="rounded-full border border-white/15 px-4 py-2 font-semibold text-white/80 transition hover:border-cyan-300 hover:text-cyan-200"
+          >
+            Back to contest admin
+          </Link>
+        </div>
+        {message && (
+          <p className={message.tone === 'success' ? 'text-sm text-emerald-200' : 'text-sm text-rose-200'}>
+            {message.text}
+          </p>
+        )}
+      </header>
+
+      <section className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6">
+        <div>
+          <h2 className="text-2xl font-semibold text-white">Move this deployment</h2>
+          <p className="text-sm text-white/60">
+            Export logos, votes, contests, the roster (without password hashes), the vote audit log and logo artwork as one bundle, then import it on another deployment.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <a
+            href="/api/admin/data-bundle"
+            download
+            className="rounded-full border border-cyan-300/40 bg-cyan-400/10 px-4 py-2 font-semibold text-cyan-100 transition hover:bg-cyan-400/20"
+          >
+            Download export
+          </a>
+          <input
+            type="file"
+            accept=".gz,.json,application/gzip,application/json"
+            onChange={(event) => setBundleFile(event.target.files?.[0] ?? null)}
+            className="text-white/70 file:mr-3 file:rounded-full file:border-0 file:bg-white/10 file:px-4 file:py-2 file:text-white"
+          />
+          <select
+            value={importMode}
+            onChange={(event) => setImportMode(event.target.value as 'merge' | 'replace')}
+            className="rounded-full border border-white/15 bg-slate-900/70 px-4 py-2 text-white outline-none focus:border-cyan-300"
+          >
+            <option value="merge">Merge into current data</option>
+            <option value="replace">Replace current data</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => void handleImport()}
+            disabled={!bundleFile || importing}
+            className="rounded-full border border-white/15 bg-white/10 px-4 py-2 font-semibold text-white transition hover:border-cyan-300 hover:text-cyan-200 disabled:cursor-not-allowed disabled:text-white/40"
+          >
+            {importing ? 'Importing…' : 'Import bundle'}
+          </button>
+        </div>
+      </section>
+
+      {backend && backend !== 'json' && (
+        <p className="rounded-3xl border border-amber-300/30 bg-amber-400/10 p-6 text-sm text-amber-100">
+          Snapshots are only kept for the JSON storage backend. This server uses <code>{backend}</code>; back up the database file instead.
+        </p>
+      )}
+
+      {preview && (
+        <section className="space-y-4 rounded-3xl border border-cyan-300/30 bg-cyan-400/5 p-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold text-white">
+                Preview: {DOCUMENT_LABELS[preview.document]}
+              </h2>
+              <p className="text-sm text-white/60">
+                Snapshot from {new Date(preview.backup.createdAt).toLocaleString()} ({preview.backup.fileName})
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setPreview(null)}
+              className="rounded-full border border-white/15 px-3 py-1 text-xs font-semibold text-white/70 transition hover:text-white"
+            >
+              Close
+            </button>
+          </div>
+          <dl className="grid gap-3 text-sm md:grid-cols-2">
+            <div className="rounded-2xl border border-white/10 bg-slate-900/60 p-4">
+              <dt className="text-xs uppercase tracking-[0.2em] text-white/40">Live file</dt>
+              <dd className="mt-1 text-white">{preview.currentSummary}</dd>
+            </div>
+            <div className="rounded-2xl border border-white/10 bg-slate-900/60 p-4">
+              <dt className="text-xs uppercase tracking-[0.2em] text-white/40">After restore</dt>
+              <dd className="mt-1 text-white">{preview.restoredSummary}</dd>
+            </div>
+          </dl>
+          {preview.totalChanges === 0 ? (
+            <p className="text-sm text-white/60">This snapshot matches the live file.</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-white/60">
+                {preview.totalChanges.toLocaleString()} change{preview.totalChanges === 1 ? '' : 's'}
+                {preview.totalChanges > preview.changes.length
+                  ? ` (showing the first ${preview.changes.length})`
+                  : ''}
+              </p>
+              <ul className="max-h-96 space-y-1 overflow-y-auto rounded-2xl border border-white/10 bg-slate-950/60 p-4 font-mono text-xs">
+                {preview.changes.map((change) => (
+                  <li key={`${change.kind}:${change.path}`} className={CHANGE_STYLES[change.kind]}>
+                    <span className="uppercase">{change.kind}</span> {change.path}
+                    {change.current !== undefined && <span className="text-white/50"> {change.current}</span>}
+                    {change.kind === 'changed' && <span className="text-white/40"> →</span>}
+                    {change.restored !== undefined && <span className="text-white/80"> {change.restored}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+
+      {documents.map((entry) => (
+        <section key={entry.document} className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="text-2xl font-semibold text-white">{DOCUMENT_LABELS[entry.document]}</h2>
+            <p className="text-sm text-white/50">
+              Live: {formatBytes(entry.liveSize)}
+              {entry.liveUpdatedAt ? ` · modified ${new Date(entry.liveUpdatedAt).toLocaleString()}` : ''}
+            </p>
+          </div>
+          {entry.backups.length === 0 ? (
+            <p className="text-sm text-white/60">No snapshots yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm text-white/80">
+                <thead className="text-xs uppercase tracking-[0.2em] text-white/40">
+                  <tr>
+                    <th className="py-2 pr-4">Taken</th>
+                    <th className="py-2 pr-4">Size</th>
+                    <th className="py-2 pr-4">File</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {entry.backups.map((backup) => (
+                    <tr key={backup.fileName} className="border-t border-white/5">
+                      <td className="py-2 pr-4">{new Date(backup.createdAt).toLocaleString()}</td>
+                      <td className="py-2 pr-4">{formatBytes(backup.size)}</td>
+                      <td className="py-2 pr-4 font-mono text-xs text-white/50">{backup.fileName}</td>
+                      <td className="flex justify-end gap-2 py-2">
+                        <button
+                          type="button"
+                          onClick={() => void handlePreview(entry.document, backup.fileName)}
+                          disabled={busyFile !== null}
+                          className="rounded-full border border-white/15 px-3 py-1 text-xs font-semibold text-white transition hover:border-cyan-300 hover:text-cyan-200 disabled:cursor-wait disabled:text-white/40"
+                        >
+                          Preview
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleRestore(entry.document, backup)}
+                          disabled={busyFile !== null}
+                          className="rounded-full border border-rose-300/40 px-3 py-1 text-xs font-semibold text-rose-100 transition hover:bg-rose-400/10 disabled:cursor-wait disabled:text-white/40"
+                        >
+                          {busyFile === backup.fileName ? 'Working…' : 'Restore'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      ))}
+    </div>
+  )
+}
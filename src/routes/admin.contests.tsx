@@ -1,11 +1,31 @@
-import { createFileRoute } from '@tanstack/react-router'
+import { Link, createFileRoute } from '@tanstack/react-router'
 import { FormEvent, useEffect, useMemo, useState } from 'react'
 
 import { AccessDeniedMessage, SignInPrompt } from '../components/AuthPrompts'
 import type { ContestStatus } from '../lib/contest-utils'
+import {
+  DEFAULT_HISTORY_RETENTION,
+  describeHistoryRetention,
+  MIN_RETAINED_MATCHES,
+  normalizeHistoryRetention,
+  type HistoryRetention,
+} from '../lib/history-retention'
+import { HISTORY_LIMIT } from '../lib/elo-engine'
+import {
+  DEFAULT_RATING_SETTINGS,
+  RATING_ALGORITHMS,
+  type RatingAlgorithm,
+} from '../lib/rating-engines'
 import { useAuth } from '../state/AuthContext'
 import { useContest } from '../state/ContestContext'
-import type { ContestEloRecalculationResponse } from '../state/ContestContext'
+import type {
+  ContestEloRecalculationDifference,
+  ContestEloRecalculationResponse,
+  ContestReplayVerification,
+  ContestVoteAnomaly,
+  ContestVoteModerationResponse,
+  ContestVoteRecord,
+} from '../state/ContestContext'
 
 export const Route = createFileRoute('/admin/contests')({
   component: AdminContestsPage,
@@ -26,6 +46,10 @@ type ContestFormState = {
   endsAt: string
   durationDays: string
   setActive: boolean
+  ratingAlgorithm: RatingAlgorithm
+  kFactor: string
+  retentionMaxMatches: string
+  retentionMaxAgeDays: string
 }
 
 const STATUS_OPTIONS: ContestStatus[] = ['draft', 'upcoming', 'active', 'archived']
@@ -106,6 +130,10 @@ function initialiseForm(): ContestFormState {
     endsAt: '',
     durationDays: '',
     setActive: false,
+    ratingAlgorithm: DEFAULT_RATING_SETTINGS.algorithm,
+    kFactor: String(DEFAULT_RATING_SETTINGS.kFactor),
+    retentionMaxMatches: String(DEFAULT_HISTORY_RETENTION.maxMatches),
+    retentionMaxAgeDays: '',
   }
 }
 
@@ -122,6 +150,25 @@ function buildUpdatePayload(state: ContestFormState) {
     startsAt: startsAtIso,
     endsAt: endsAtIso,
     setActive: state.setActive,
+    rating: buildRatingPayload(state),
+    historyRetention: buildRetentionPayload(state),
+  }
+}
+
+function buildRetentionPayload(state: ContestFormState): HistoryRetention {
+  const maxMatches = Number.parseInt(state.retentionMaxMatches, 10)
+  const maxAgeDays = Number.parseFloat(state.retentionMaxAgeDays)
+  return normalizeHistoryRetention({
+    maxMatches: Number.isFinite(maxMatches) ? maxMatches : DEFAULT_HISTORY_RETENTION.maxMatches,
+    maxAgeDays: Number.isFinite(maxAgeDays) && maxAgeDays > 0 ? maxAgeDays : null,
+  })
+}
+
+function buildRatingPayload(state: ContestFormState) {
+  const kFactor = Number.parseFloat(state.kFactor)
+  return {
+    algorithm: state.ratingAlgorithm,
+    kFactor: Number.isFinite(kFactor) ? kFactor : DEFAULT_RATING_SETTINGS.kFactor,
   }
 }
 
@@ -191,6 +238,8 @@ function AdminContestsPage() {
         endsAt: payload.endsAt ?? null,
         votingOpen: payload.votingOpen,
         setActive: payload.setActive,
+        rating: payload.rating,
+        historyRetention: payload.historyRetention,
       })
 
       setCreateStatus({ tone: 'success', text: `Contest “${created?.title ?? createForm.title}” created.` })
@@ -257,6 +306,18 @@ function AdminContestsPage() {
           >
             {refreshing ? 'Refreshing…' : 'Reload contests'}
           </button>
+          <Link
+            to="/admin/backups"
+            className="rounded-full border border-white/15 px-4 py-2 font-semibold text-white/80 transition hover:border-cyan-300 hover:text-cyan-200"
+          >
+            Data backups
+          </Link>
+          <Link
+            to="/admin/audit"
+            className="rounded-full border border-white/15 px-4 py-2 font-semibold text-white/80 transition hover:border-cyan-300 hover:text-cyan-200"
+          >
+            Audit log
+          </Link>
           <span className="rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs uppercase tracking-[0.3em] text-white/40">
             Active: {activeContestId ?? 'none'}
           </span>
@@ -401,6 +462,18 @@ function AdminContestsPage() {
             </label>
           </div>
 
+          <RatingEngineFields
+            algorithm={createForm.ratingAlgorithm}
+            kFactor={createForm.kFactor}
+            onChange={(next) => setCreateForm((prev) => ({ ...prev, ...next }))}
+          />
+
+          <HistoryRetentionFields
+            maxMatches={createForm.retentionMaxMatches}
+            maxAgeDays={createForm.retentionMaxAgeDays}
+            onChange={(next) => setCreateForm((prev) => ({ ...prev, ...next }))}
+          />
+
           <div className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/70">
             <label className="flex items-center gap-3">
               <input
@@ -583,15 +656,24 @@ function ContestCard({
     endsAt: toDateTimeLocal(contest.endsAt ?? null),
     durationDays: diffInDays(contest.startsAt ?? null, contest.endsAt ?? null),
     setActive: false,
+    ratingAlgorithm: contest.rating.algorithm,
+    kFactor: String(contest.rating.kFactor),
+    retentionMaxMatches: String(contest.historyRetention.maxMatches),
+    retentionMaxAgeDays: contest.historyRetention.maxAgeDays === null ? '' : String(contest.historyRetention.maxAgeDays),
   }))
 
   const [updating, setUpdating] = useState(false)
   const [localNotice, setLocalNotice] = useState<MessageState>(null)
-  const { recalculateContestElo } = useContest()
+  const { recalculateContestElo, fetchVoteAnomalies, verifyContestReplay } = useContest()
   const [recalcPreview, setRecalcPreview] = useState<ContestEloRecalculationResponse | null>(null)
   const [recalcLoading, setRecalcLoading] = useState(false)
   const [recalcError, setRecalcError] = useState<string | null>(null)
   const [recalcMode, setRecalcMode] = useState<'preview' | 'apply' | null>(null)
+  const [verification, setVerification] = useState<ContestReplayVerification | null>(null)
+  const [verificationError, setVerificationError] = useState<string | null>(null)
+  const [anomalies, setAnomalies] = useState<ContestVoteAnomaly[] | null>(null)
+  const [anomaliesLoading, setAnomaliesLoading] = useState(false)
+  const [anomaliesError, setAnomaliesError] = useState<string | null>(null)
 
   useEffect(() => {
     setForm({
@@ -605,6 +687,11 @@ function ContestCard({
       endsAt: toDateTimeLocal(contest.endsAt ?? null),
       durationDays: diffInDays(contest.startsAt ?? null, contest.endsAt ?? null),
       setActive: false,
+      ratingAlgorithm: contest.rating.algorithm,
+      kFactor: String(contest.rating.kFactor),
+      retentionMaxMatches: String(contest.historyRetention.maxMatches),
+      retentionMaxAgeDays:
+        contest.historyRetention.maxAgeDays === null ? '' : String(contest.historyRetention.maxAgeDays),
     })
   }, [contest])
 
@@ -634,6 +721,18 @@ function ContestCard({
         }
       }
 
+      const ratingChanged =
+        payload.rating.algorithm !== contest.rating.algorithm ||
+        payload.rating.kFactor !== contest.rating.kFactor
+      if (ratingChanged && typeof window !== 'undefined') {
+        const confirmed = window.confirm(
+          'Changing the rating engine re-rates the stored match history for this contest. Continue?',
+        )
+        if (!confirmed) {
+          return
+        }
+      }
+
       setLocalNotice(null)
 
       await onUpdate({
@@ -646,6 +745,8 @@ function ContestCard({
         endsAt: payload.endsAt ?? null,
         votingOpen: payload.votingOpen,
         setActive: payload.setActive,
+        rating: payload.rating,
+        historyRetention: payload.historyRetention,
       })
       setForm((prev) => ({ ...prev, setActive: false }))
     } finally {
@@ -698,6 +799,36 @@ function ContestCard({
     }
   }
 
+  const handleVerifyReplay = async () => {
+    setVerificationError(null)
+    try {
+      let current = await verifyContestReplay(contest.id, { start: true })
+      setVerification(current)
+      // The full replay runs server-side in the background; poll until it settles.
+      while (current?.status === 'running') {
+        await new Promise((resolve) => setTimeout(resolve, 1500))
+        current = await verifyContestReplay(contest.id)
+        setVerification(current)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to verify rating checkpoints.'
+      setVerificationError(message)
+    }
+  }
+
+  const handleLoadAnomalies = async () => {
+    setAnomaliesLoading(true)
+    setAnomaliesError(null)
+    try {
+      setAnomalies(await fetchVoteAnomalies(contest.id))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load flagged activity.'
+      setAnomaliesError(message)
+    } finally {
+      setAnomaliesLoading(false)
+    }
+  }
+
   const previewSummary = recalcPreview?.summary ?? null
   const differenceCount = recalcPreview?.differences.length ?? 0
   const showApplyButton = Boolean(recalcPreview?.dryRun && previewSummary?.changesDetected)
@@ -849,6 +980,18 @@ function ContestCard({
         </label>
       </div>
 
+      <RatingEngineFields
+        algorithm={form.ratingAlgorithm}
+        kFactor={form.kFactor}
+        onChange={(next) => setForm((prev) => ({ ...prev, ...next }))}
+      />
+
+      <HistoryRetentionFields
+        maxMatches={form.retentionMaxMatches}
+        maxAgeDays={form.retentionMaxAgeDays}
+        onChange={(next) => setForm((prev) => ({ ...prev, ...next }))}
+      />
+
       <div className="grid gap-4 md:grid-cols-2">
         <div className="space-y-3 rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/70">
           <label className="flex items-center gap-3">
@@ -964,9 +1107,49 @@ function ContestCard({
                     {applyButtonLabel}
                   </button>
                 )}
+                <button
+                  type="button"
+                  onClick={() => void handleVerifyReplay()}
+                  className="rounded-full border border-white/20 px-4 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-white/70 transition hover:border-cyan-200 hover:text-cyan-50 disabled:cursor-not-allowed disabled:border-white/20 disabled:text-white/30"
+                  disabled={busy || verification?.status === 'running'}
+                >
+                  {verification?.status === 'running' ? 'Verifying…' : 'Verify checkpoints'}
+                </button>
               </div>
             </div>
 
+            {verificationError && (
+              <p className="rounded-2xl border border-rose-400/40 bg-rose-400/10 px-4 py-2 text-sm text-rose-100">
+                {verificationError}
+              </p>
+            )}
+
+            {verification && verification.status !== 'running' && (
+              <div className="space-y-2 rounded-2xl border border-white/10 bg-slate-900/40 p-3">
+                {verification.status === 'failed' ? (
+                  <p className="text-sm text-rose-100">{verification.error}</p>
+                ) : verification.checkpointOffset === null ? (
+                  <p className="text-sm text-white/70">
+                    No rating checkpoint to compare yet; the next recalculation records one.
+                  </p>
+                ) : verification.drift.length === 0 ? (
+                  <p className="text-sm text-emerald-100">
+                    Checkpoint at event {verification.checkpointOffset.toLocaleString()} matches a full replay of{' '}
+                    {verification.totalEvents.toLocaleString()} events.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-sm text-amber-100">
+                      Checkpoint at event {verification.checkpointOffset.toLocaleString()} drifted on{' '}
+                      {verification.drift.length} {verification.drift.length === 1 ? 'logo' : 'logos'}. Checkpoints were
+                      discarded; the next recalculation replays in full.
+                    </p>
+                    <EloDifferenceList differences={verification.drift} />
+                  </>
+                )}
+              </div>
+            )}
+
             {recalcError && (
               <p className="rounded-2xl border border-rose-400/40 bg-rose-400/10 px-4 py-2 text-sm text-rose-100">
                 {recalcError}
@@ -986,6 +1169,11 @@ function ContestCard({
                   <span>
                     Last match {previewSummary.lastMatchAt ? new Date(previewSummary.lastMatchAt).toLocaleString() : 'n/a'}
                   </span>
+                  <span>
+                    {previewSummary.resumedFromEvent === null
+                      ? 'Full replay'
+                      : `Resumed from event ${previewSummary.resumedFromEvent.toLocaleString()} of ${previewSummary.totalEvents.toLocaleString()}`}
+                  </span>
                 </div>
 
                 {differenceCount === 0 ? (
@@ -993,36 +1181,7 @@ function ContestCard({
                     Elo ratings already align with the recorded vote history; no adjustments are required.
                   </p>
                 ) : (
-                  <ul className="space-y-3">
-                    {recalcPreview.differences.map((diff) => {
-                      const ratingDeltaClass = diff.ratingDelta >= 0 ? 'text-emerald-200' : 'text-rose-200'
-                      return (
-                        <li
-                          key={diff.logoId}
-                          className="rounded-2xl border border-white/10 bg-slate-900/50 p-3"
-                        >
-                          <div className="flex flex-wrap items-center justify-between gap-2">
-                            <div>
-                              <p className="text-sm font-semibold text-white">{diff.logoName}</p>
-                              <p className="text-[0.6rem] uppercase tracking-[0.3em] text-white/40">
-                                {diff.logoCodename}
-                              </p>
-                            </div>
-                            <p className={`text-sm font-semibold ${ratingDeltaClass}`}>
-                              {formatRatingValue(diff.ratingBefore)} → {formatRatingValue(diff.ratingAfter)} ({formatDeltaValue(diff.ratingDelta)})
-                            </p>
-                          </div>
-                          <div className="mt-2 flex flex-wrap gap-3 text-[0.65rem] uppercase tracking-[0.25em] text-white/40">
-                            <span>Wins {diff.winsBefore} → {diff.winsAfter}</span>
-                            <span>Losses {diff.lossesBefore} → {diff.lossesAfter}</span>
-                            <span>
-                              Matches {diff.matchesBefore} → {diff.matchesAfter} ({formatDeltaInteger(diff.matchesDelta)})
-                            </span>
-                          </div>
-                        </li>
-                      )
-                    })}
-                  </ul>
+                  <EloDifferenceList differences={recalcPreview.differences} />
                 )}
 
                 {recalcPreview.proposedLeaderboard.length > 0 && (
@@ -1053,6 +1212,59 @@ function ContestCard({
           </section>
         )}
 
+      {canManage && (
+        <section className="space-y-4 rounded-2xl border border-amber-300/30 bg-amber-300/10 p-4 text-sm text-white/80">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <p className="text-xs uppercase tracking-[0.3em] text-amber-200/70">Vote integrity</p>
+              <h4 className="text-base font-semibold text-white">Flagged voting activity</h4>
+            </div>
+            <button
+              type="button"
+              onClick={handleLoadAnomalies}
+              className="rounded-full border border-amber-300/40 px-4 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-amber-100 transition hover:border-amber-200 hover:text-amber-50 disabled:cursor-not-allowed disabled:border-white/20 disabled:text-white/30"
+              disabled={anomaliesLoading}
+            >
+              {anomaliesLoading ? 'Loading…' : anomalies ? 'Refresh flags' : 'Load flags'}
+            </button>
+          </div>
+
+          {anomaliesError && (
+            <p className="rounded-2xl border border-rose-400/40 bg-rose-400/10 px-4 py-2 text-sm text-rose-100">
+              {anomaliesError}
+            </p>
+          )}
+
+          {anomalies && anomalies.length === 0 && (
+            <p className="text-sm text-white/70">No suspicious voting has been flagged for this contest.</p>
+          )}
+
+          {anomalies && anomalies.length > 0 && (
+            <ul className="space-y-2">
+              {anomalies.map((anomaly) => (
+                <li key={anomaly.id} className="rounded-2xl border border-white/10 bg-slate-900/50 p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="rounded-full border border-amber-300/40 px-2 py-0.5 text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-amber-100">
+                      {anomaly.kind}
+                    </span>
+                    <span className="text-[0.65rem] uppercase tracking-[0.25em] text-white/40">
+                      {new Date(anomaly.occurredAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="mt-2 text-sm text-white/80">{anomaly.message}</p>
+                  <p className="mt-1 text-[0.65rem] uppercase tracking-[0.25em] text-white/40">
+                    {anomaly.voterHash ? `Voter ${anomaly.voterHash.slice(0, 8)}` : 'Unknown voter'}
+                    {anomaly.ip ? ` · IP ${anomaly.ip}` : ''}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      {canManage && <VoteModerationPanel contestId={contest.id} disabled={busy} />}
+
       {(localNotice || notice) && (
         <p
           className={`rounded-2xl border px-4 py-3 text-sm ${
@@ -1068,6 +1280,349 @@ function ContestCard({
   )
 }
 
+function RatingEngineFields({
+  algorithm,
+  kFactor,
+  onChange,
+}: {
+  algorithm: RatingAlgorithm
+  kFactor: string
+  onChange: (next: { ratingAlgorithm?: RatingAlgorithm; kFactor?: string }) => void
+}) {
+  const description = RATING_ALGORITHMS.find((option) => option.id === algorithm)?.description
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <label className="flex flex-col gap-2 text-sm text-white/70">
+        Rating engine
+        <select
+          value={algorithm}
+          onChange={(event) => onChange({ ratingAlgorithm: event.target.value as RatingAlgorithm })}
+          className="rounded-2xl border border-white/15 bg-slate-900/70 px-4 py-3 text-white outline-none transition focus:border-cyan-300"
+        >
+          {RATING_ALGORITHMS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {description && <span className="text-xs text-white/40">{description}</span>}
+      </label>
+      {algorithm === 'elo' && (
+        <label className="flex flex-col gap-2 text-sm text-white/70">
+          K-factor
+          <input
+            type="number"
+            min="1"
+            max="128"
+            step="1"
+            value={kFactor}
+            onChange={(event) => onChange({ kFactor: event.target.value })}
+            className="rounded-2xl border border-white/15 bg-slate-900/70 px-4 py-3 text-white outline-none transition focus:border-cyan-300"
+          />
+        </label>
+      )}
+    </div>
+  )
+}
+
+function HistoryRetentionFields({
+  maxMatches,
+  maxAgeDays,
+  onChange,
+}: {
+  maxMatches: string
+  maxAgeDays: string
+  onChange: (next: { retentionMaxMatches?: string; retentionMaxAgeDays?: string }) => void
+}) {
+  const summary = describeHistoryRetention(
+    normalizeHistoryRetention({
+      maxMatches: Number.parseInt(maxMatches, 10),
+      maxAgeDays: maxAgeDays.trim() ? Number.parseFloat(maxAgeDays) : null,
+    }),
+  )
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <label className="flex flex-col gap-2 text-sm text-white/70">
+        Live history (matches)
+        <input
+          type="number"
+          min={MIN_RETAINED_MATCHES}
+          max={HISTORY_LIMIT}
+          step="1"
+          value={maxMatches}
+          onChange={(event) => onChange({ retentionMaxMatches: event.target.value })}
+          className="rounded-2xl border border-white/15 bg-slate-900/70 px-4 py-3 text-white outline-none transition focus:border-cyan-300"
+        />
+        <span className="text-xs text-white/40">
+          Keeps the {summary} live; older matches move to the archive.
+        </span>
+      </label>
+      <label className="flex flex-col gap-2 text-sm text-white/70">
+        Archive after (days)
+        <input
+          type="number"
+          min="1"
+          step="1"
+          placeholder="Never"
+          value={maxAgeDays}
+          onChange={(event) => onChange({ retentionMaxAgeDays: event.target.value })}
+          className="rounded-2xl border border-white/15 bg-slate-900/70 px-4 py-3 text-white outline-none transition focus:border-cyan-300"
+        />
+      </label>
+    </div>
+  )
+}
+
+function EloDifferenceList({ differences }: { differences: ContestEloRecalculationDifference[] }) {
+  return (
+    <ul className="space-y-3">
+      {differences.map((diff) => {
+        const ratingDeltaClass = diff.ratingDelta >= 0 ? 'text-emerald-200' : 'text-rose-200'
+        return (
+          <li
+            key={diff.logoId}
+            className="rounded-2xl border border-white/10 bg-slate-900/50 p-3"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-semibold text-white">{diff.logoName}</p>
+                <p className="text-[0.6rem] uppercase tracking-[0.3em] text-white/40">
+                  {diff.logoCodename}
+                </p>
+              </div>
+              <p className={`text-sm font-semibold ${ratingDeltaClass}`}>
+                {formatRatingValue(diff.ratingBefore)} → {formatRatingValue(diff.ratingAfter)} ({formatDeltaValue(diff.ratingDelta)})
+              </p>
+            </div>
+            <div className="mt-2 flex flex-wrap gap-3 text-[0.65rem] uppercase tracking-[0.25em] text-white/40">
+              <span>Wins {diff.winsBefore} → {diff.winsAfter}</span>
+              <span>Losses {diff.lossesBefore} → {diff.lossesAfter}</span>
+              <span>
+                Matches {diff.matchesBefore} → {diff.matchesAfter} ({formatDeltaInteger(diff.matchesDelta)})
+              </span>
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+function VoteModerationPanel({ contestId, disabled }: { contestId: string; disabled: boolean }) {
+  const { listContestVotes, voidContestVotes } = useContest()
+  const [votes, setVotes] = useState<ContestVoteRecord[] | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [voterHash, setVoterHash] = useState('')
+  const [reason, setReason] = useState('')
+  const [preview, setPreview] = useState<ContestVoteModerationResponse | null>(null)
+  const [mode, setMode] = useState<'load' | 'preview' | 'apply' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const trimmedVoterHash = voterHash.trim()
+  const hasTarget = selectedIds.length > 0 || trimmedVoterHash.length > 0
+
+  const loadVotes = async () => {
+    setMode('load')
+    setError(null)
+    try {
+      setVotes(await listContestVotes(contestId, { voterHash: trimmedVoterHash || null }))
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load votes.')
+    } finally {
+      setMode(null)
+    }
+  }
+
+  const toggleSelection = (eventId: string) => {
+    setPreview(null)
+    setSelectedIds((prev) =>
+      prev.includes(eventId) ? prev.filter((id) => id !== eventId) : [...prev, eventId],
+    )
+  }
+
+  const runVoid = async (dryRun: boolean) => {
+    if (!dryRun) {
+      const confirmed =
+        typeof window === 'undefined'
+          ? true
+          : window.confirm('Void the selected votes and replay Elo ratings? The void is recorded in the audit log.')
+      if (!confirmed) {
+        return
+      }
+    }
+
+    setMode(dryRun ? 'preview' : 'apply')
+    setError(null)
+    setNotice(null)
+    try {
+      const response = await voidContestVotes(contestId, {
+        eventIds: selectedIds,
+        voterHash: trimmedVoterHash || null,
+        reason,
+        dryRun,
+      })
+      if (dryRun) {
+        setPreview(response)
+      } else {
+        setPreview(null)
+        setSelectedIds([])
+        setReason('')
+        setNotice(response.message)
+        setVotes(await listContestVotes(contestId, { voterHash: trimmedVoterHash || null }))
+      }
+    } catch (voidError) {
+      setError(voidError instanceof Error ? voidError.message : 'Failed to void votes.')
+    } finally {
+      setMode(null)
+    }
+  }
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-rose-300/30 bg-rose-300/10 p-4 text-sm text-white/80">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-rose-200/70">Vote moderation</p>
+          <h4 className="text-base font-semibold text-white">Void votes and replay Elo</h4>
+        </div>
+        <button
+          type="button"
+          onClick={loadVotes}
+          className="rounded-full border border-rose-300/40 px-4 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-rose-100 transition hover:border-rose-200 hover:text-rose-50 disabled:cursor-not-allowed disabled:border-white/20 disabled:text-white/30"
+          disabled={disabled || mode !== null}
+        >
+          {mode === 'load' ? 'Loading…' : votes ? 'Reload votes' : 'Load votes'}
+        </button>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <label className="flex flex-col gap-2 text-xs uppercase tracking-[0.25em] text-white/50">
+          Voter hash (voids every vote from this voter)
+          <input
+            type="text"
+            value={voterHash}
+            onChange={(event) => {
+              setVoterHash(event.target.value)
+              setPreview(null)
+            }}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') event.preventDefault()
+            }}
+            className="rounded-2xl border border-white/15 bg-slate-900/70 px-4 py-2 text-sm normal-case tracking-normal text-white outline-none transition focus:border-rose-300"
+            placeholder="Optional"
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-xs uppercase tracking-[0.25em] text-white/50">
+          Reason
+          <input
+            type="text"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') event.preventDefault()
+            }}
+            className="rounded-2xl border border-white/15 bg-slate-900/70 px-4 py-2 text-sm normal-case tracking-normal text-white outline-none transition focus:border-rose-300"
+            placeholder="e.g. Scripted voting from a shared account"
+          />
+        </label>
+      </div>
+
+      {votes && votes.length === 0 && (
+        <p className="text-sm text-white/70">No recorded votes found for this filter.</p>
+      )}
+
+      {votes && votes.length > 0 && (
+        <ul className="max-h-72 space-y-2 overflow-y-auto pr-1">
+          {votes.map((vote) => (
+            <li
+              key={vote.eventId}
+              className={`flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-white/10 bg-slate-900/50 px-3 py-2 ${
+                vote.voided ? 'opacity-50' : ''
+              }`}
+            >
+              <label className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(vote.eventId)}
+                  onChange={() => toggleSelection(vote.eventId)}
+                  disabled={vote.voided}
+                  className="h-4 w-4 rounded border border-white/30 bg-transparent accent-rose-400"
+                />
+                <span className={vote.voided ? 'line-through' : ''}>
+                  {vote.winnerName} beat {vote.loserName}
+                </span>
+              </label>
+              <span className="flex items-center gap-3 text-[0.65rem] uppercase tracking-[0.25em] text-white/40">
+                {vote.voterHash ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setVoterHash(vote.voterHash ?? '')
+                      setPreview(null)
+                    }}
+                    className="underline decoration-dotted transition hover:text-rose-100"
+                  >
+                    Voter {vote.voterHash.slice(0, 8)}
+                  </button>
+                ) : (
+                  <span>Anonymous</span>
+                )}
+                <span>{new Date(vote.occurredAt).toLocaleString()}</span>
+                {vote.voided && <span className="text-rose-200">Voided{vote.voidReason ? `: ${vote.voidReason}` : ''}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => runVoid(true)}
+          className="rounded-full border border-rose-300/40 px-4 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-rose-100 transition hover:border-rose-200 hover:text-rose-50 disabled:cursor-not-allowed disabled:border-white/20 disabled:text-white/30"
+          disabled={disabled || mode !== null || !hasTarget || !reason.trim()}
+        >
+          {mode === 'preview' ? 'Running…' : 'Preview void'}
+        </button>
+        {preview && preview.voidedCount > 0 && (
+          <button
+            type="button"
+            onClick={() => runVoid(false)}
+            className="rounded-full border border-emerald-300/50 px-4 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-emerald-100 transition hover:border-emerald-200 hover:text-emerald-50 disabled:cursor-not-allowed disabled:border-white/20 disabled:text-white/30"
+            disabled={disabled || mode !== null}
+          >
+            {mode === 'apply' ? 'Applying…' : 'Apply void'}
+          </button>
+        )}
+        <span className="text-xs text-white/50">
+          {selectedIds.length} selected{trimmedVoterHash ? ' + all votes from voter' : ''}
+        </span>
+      </div>
+
+      {error && (
+        <p className="rounded-2xl border border-rose-400/40 bg-rose-400/10 px-4 py-2 text-sm text-rose-100">{error}</p>
+      )}
+
+      {notice && (
+        <p className="rounded-2xl border border-emerald-300/40 bg-emerald-300/10 px-4 py-2 text-sm text-emerald-100">
+          {notice}
+        </p>
+      )}
+
+      {preview && (
+        <div className="space-y-3">
+          <p className="font-semibold text-white/90">{preview.message}</p>
+          {preview.differences.length === 0 ? (
+            <p className="text-sm text-white/70">Voiding these votes would not change any ratings.</p>
+          ) : (
+            <EloDifferenceList differences={preview.differences} />
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
+
 function formatRatingValue(value: number): string {
   return Math.round(value).toLocaleString()
 }
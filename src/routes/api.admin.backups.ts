@@ -0,0 +1,105 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import { logAdminAction } from '../server/audit-log'
+import { requireAdmin } from '../server/authorization'
+import {
+  BackupNotFoundError,
+  isBackupDocument,
+  listDocumentBackups,
+  previewBackup,
+  restoreDocumentBackup,
+} from '../server/backup-browser'
+import { getStorageAdapter } from '../server/storage-adapter'
+
+interface RestorePayload {
+  document?: unknown
+  fileName?: unknown
+}
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof BackupNotFoundError) {
+    return jsonResponse({ message: error.message }, { status: 404 })
+  }
+  const message = error instanceof Error ? error.message : fallback
+  return jsonResponse({ message }, { status: 400 })
+}
+
+export const Route = createFileRoute('/api/admin/backups')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          const url = new URL(request.url)
+          const document = url.searchParams.get('document')
+          const fileName = url.searchParams.get('fileName')
+          if (document || fileName) {
+            if (!isBackupDocument(document) || !fileName) {
+              return jsonResponse(
+                { message: 'Both document and fileName are required for a preview.' },
+                { status: 400 },
+              )
+            }
+            return jsonResponse({ preview: await previewBackup(document, fileName) })
+          }
+
+          const storage = await getStorageAdapter()
+          return jsonResponse({ backend: storage.backend, documents: await listDocumentBackups() })
+        } catch (error) {
+          console.error('Failed to load backups', error)
+          return errorResponse(error, 'Failed to load backups.')
+        }
+      },
+      POST: async ({ request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          let payload: RestorePayload = {}
+          try {
+            payload = (await request.json()) as RestorePayload
+          } catch (error) {
+            return jsonResponse({ message: 'A JSON body is required.' }, { status: 400 })
+          }
+
+          if (!isBackupDocument(payload.document) || typeof payload.fileName !== 'string') {
+            return jsonResponse(
+              { message: 'Choose a document (logos, votes or contests) and a backup fileName.' },
+              { status: 400 },
+            )
+          }
+
+          const result = await restoreDocumentBackup(payload.document, payload.fileName)
+          await logAdminAction({
+            action: 'backup-restored',
+            actor: auth.user.alias,
+            targetType: 'document',
+            targetId: result.document,
+            after: { fileName: result.restored.fileName, safetyBackup: result.safetyBackup },
+            request,
+          })
+          return jsonResponse({ result })
+        } catch (error) {
+          console.error('Failed to restore backup', error)
+          return errorResponse(error, 'Failed to restore backup.')
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,94 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { Readable } from 'node:stream'
+
+import { logAdminAction } from '../server/audit-log'
+import { requireAdmin } from '../server/authorization'
+import {
+  BundleValidationError,
+  importDataBundle,
+  parseDataBundle,
+  streamDataBundle,
+} from '../server/data-bundle'
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+export const Route = createFileRoute('/api/admin/data-bundle')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          // Roster password hashes stay out of the export unless explicitly requested.
+          const includeCredentials = new URL(request.url).searchParams.get('includeCredentials') === 'true'
+          const { manifest, stream } = await streamDataBundle({ includeCredentials })
+          if (includeCredentials) {
+            await logAdminAction({
+              action: 'data-exported',
+              actor: auth.user.alias,
+              targetType: 'document',
+              targetId: 'data-bundle',
+              after: { manifest },
+              request,
+            })
+          }
+          const fileName = `badge-arena-export-${manifest.exportedAt.replace(/[:.]/g, '-')}.json.gz`
+          return new Response(Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>, {
+            headers: {
+              'Content-Type': 'application/gzip',
+              'Content-Disposition': `attachment; filename="${fileName}"`,
+              'Cache-Control': 'no-store',
+            },
+          })
+        } catch (error) {
+          console.error('Failed to export data bundle', error)
+          return jsonResponse({ message: 'Failed to export data.' }, { status: 500 })
+        }
+      },
+      POST: async ({ request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          const url = new URL(request.url)
+          const mode = url.searchParams.get('mode') ?? 'merge'
+          if (mode !== 'merge' && mode !== 'replace') {
+            return jsonResponse({ message: 'Mode must be "merge" or "replace".' }, { status: 400 })
+          }
+
+          const bundle = parseDataBundle(Buffer.from(await request.arrayBuffer()))
+          const summary = await importDataBundle(bundle, { mode })
+          await logAdminAction({
+            action: 'data-imported',
+            actor: auth.user.alias,
+            targetType: 'document',
+            targetId: 'data-bundle',
+            after: { mode, manifest: bundle.manifest, summary },
+            request,
+          })
+          return jsonResponse({ manifest: bundle.manifest, summary })
+        } catch (error) {
+          if (error instanceof BundleValidationError) {
+            return jsonResponse({ message: error.message }, { status: 400 })
+          }
+          console.error('Failed to import data bundle', error)
+          const message = error instanceof Error ? error.message : 'Failed to import data.'
+          return jsonResponse({ message }, { status: 500 })
+        }
+      },
+    },
+  },
+})
@@ -1,75 +1,38 @@
-import path from 'node:path'
-import { promises as fs } from 'node:fs'
 import { createFileRoute } from '@tanstack/react-router'
 
-import { ensureDataDir, resolveDataPath } from '../server/storage-utils'
-
-const BUNDLED_ROSTER_PATH = path.resolve(process.cwd(), 'server/data/allowed-users.json')
-const PERSISTED_ROSTER_PATH = resolveDataPath('allowed-users.json')
-
-interface AllowedUserRecord {
-  alias: string
-  email?: string
+import { normalizeAlias } from '../lib/auth-utils'
+import { logAdminAction } from '../server/audit-log'
+import { forbiddenResponse, isAdminUser, requireUser } from '../server/authorization'
+import {
+  hashPasswordWithAlias,
+  readRoster,
+  toPublicRosterRecord,
+  verifyRosterPassword,
+  writeRoster,
+  type AllowedUserRecord,
+} from '../server/roster-store'
+import { createSessionCookie } from '../server/session'
+
+interface AllowedUserUpdatePayload {
+  alias?: string
   name?: string
-  role?: string
-  logos?: string[]
-  passwordHash?: string | null
-}
-
-function normalizeAlias(input: string): string {
-  const trimmed = input.trim().toLowerCase()
-  if (!trimmed) return ''
-  if (!trimmed.includes('@')) return trimmed
-  return trimmed.split('@')[0] ?? ''
-}
-
-async function ensureRosterFile() {
-  await ensureDataDir()
-  try {
-    await fs.access(PERSISTED_ROSTER_PATH)
-    return
-  } catch {
-    try {
-      const bundled = await fs.readFile(BUNDLED_ROSTER_PATH, 'utf-8')
-      await fs.writeFile(PERSISTED_ROSTER_PATH, bundled, 'utf-8')
-      return
-    } catch (error) {
-      console.warn('Falling back to empty roster; bundled file missing or unreadable.', error)
-    }
-    await fs.writeFile(PERSISTED_ROSTER_PATH, '[]\n', 'utf-8')
-  }
-}
-
-async function readRoster(): Promise<AllowedUserRecord[]> {
-  await ensureRosterFile()
-  try {
-    const content = await fs.readFile(PERSISTED_ROSTER_PATH, 'utf-8')
-    const parsed = JSON.parse(content)
-    if (Array.isArray(parsed)) {
-      return parsed as AllowedUserRecord[]
-    }
-  } catch (error) {
-    console.warn('Failed to read roster file; returning empty roster.', error)
-  }
-  return []
-}
-
-async function writeRoster(records: AllowedUserRecord[]) {
-  await ensureRosterFile()
-  await fs.writeFile(PERSISTED_ROSTER_PATH, `${JSON.stringify(records, null, 2)}\n`, 'utf-8')
-}
-
-async function seedRosterFromBundle() {
-  await ensureRosterFile()
+  password?: string | null
+  /** Required from members replacing or removing a password they already have. */
+  currentPassword?: string
 }
 
 export const Route = createFileRoute('/api/allowed-users')({
   server: {
     handlers: {
-      GET: async () => {
+      GET: async ({ request }: { request: Request }) => {
+        const auth = await requireUser(request)
+        if (auth.response) {
+          return auth.response
+        }
+
         const roster = await readRoster()
 
-        const normalized = Array.isArray(roster) ? roster : []
+        const normalized = Array.isArray(roster) ? roster.map(toPublicRosterRecord) : []
 
         return new Response(JSON.stringify(normalized, null, 2), {
           headers: {
@@ -78,11 +41,15 @@ export const Route = createFileRoute('/api/allowed-users')({
           },
         })
       },
-  PATCH: async ({ request }: { request: Request }) => {
+      PATCH: async ({ request }: { request: Request }) => {
         try {
-          await seedRosterFromBundle()
-          const body = (await request.json()) as Partial<AllowedUserRecord>
-          const aliasInput = typeof body.alias === 'string' ? body.alias : ''
+          const auth = await requireUser(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          const body = (await request.json()) as AllowedUserUpdatePayload
+          const aliasInput = typeof body.alias === 'string' ? body.alias : auth.user.alias
           const normalizedAlias = normalizeAlias(aliasInput)
 
           if (!normalizedAlias) {
@@ -97,6 +64,10 @@ export const Route = createFileRoute('/api/allowed-users')({
             )
           }
 
+          if (normalizedAlias !== auth.user.alias && !isAdminUser(auth.user)) {
+            return forbiddenResponse('You can only update your own roster entry.')
+          }
+
           let records: AllowedUserRecord[] = []
 
           records = await readRoster()
@@ -114,7 +85,8 @@ export const Route = createFileRoute('/api/allowed-users')({
             )
           }
 
-          const current = { ...records[index] }
+          const previous = records[index]!
+          const current: AllowedUserRecord = { ...previous }
 
           if (typeof body.name === 'string') {
             const trimmedName = body.name.trim()
@@ -123,25 +95,62 @@ export const Route = createFileRoute('/api/allowed-users')({
             }
           }
 
-          if (Object.prototype.hasOwnProperty.call(body, 'passwordHash')) {
-            const nextHash = body.passwordHash
-            if (typeof nextHash === 'string' && nextHash.trim()) {
-              current.passwordHash = nextHash
+          if (Object.prototype.hasOwnProperty.call(body, 'password')) {
+            // Admins reset passwords for others; members must prove they know the current one.
+            const currentPassword = typeof body.currentPassword === 'string' ? body.currentPassword : ''
+            if (previous.passwordHash && !isAdminUser(auth.user) && !verifyRosterPassword(previous, currentPassword)) {
+              return new Response(
+                JSON.stringify({ message: currentPassword ? 'Current password does not match.' : 'Enter your current password.' }),
+                {
+                  status: 403,
+                  headers: {
+                    'Content-Type': 'application/json',
+                  },
+                },
+              )
+            }
+
+            const nextPassword = body.password
+            if (typeof nextPassword === 'string' && nextPassword.trim()) {
+              current.passwordHash = hashPasswordWithAlias(nextPassword.trim(), current.alias)
             } else {
               delete current.passwordHash
             }
           }
 
+          const passwordChanged = current.passwordHash !== previous.passwordHash
+          if (passwordChanged) {
+            current.passwordChangedAt = new Date().toISOString()
+          }
+
           records[index] = current
 
           await writeRoster(records)
 
-          return new Response(JSON.stringify(current, null, 2), {
+          if (passwordChanged) {
+            await logAdminAction({
+              action: 'roster-password-changed',
+              actor: auth.user.alias,
+              targetType: 'user',
+              targetId: normalizeAlias(current.alias),
+              before: { hasPassword: Boolean(previous.passwordHash) },
+              after: { hasPassword: Boolean(current.passwordHash) },
+              request,
+            })
+          }
+
+          const headers = new Headers({
+            'Content-Type': 'application/json',
+            'Cache-Control': 'no-store',
+          })
+          // The change signed out every earlier session, this one included; re-issue it.
+          if (passwordChanged && normalizedAlias === auth.user.alias) {
+            headers.set('Set-Cookie', await createSessionCookie(request, auth.user.alias))
+          }
+
+          return new Response(JSON.stringify(toPublicRosterRecord(current), null, 2), {
             status: 200,
-            headers: {
-              'Content-Type': 'application/json',
-              'Cache-Control': 'no-store',
-            },
+            headers,
           })
         } catch (error) {
           console.error('Failed to update roster entry', error)
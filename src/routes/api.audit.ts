@@ -0,0 +1,73 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import {
+  ADMIN_AUDIT_ACTIONS,
+  readAdminAuditEvents,
+  type AdminAuditAction,
+} from '../server/audit-log'
+import { requireAdmin } from '../server/authorization'
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+function readIsoParam(value: string | null): string | null | undefined {
+  if (!value) {
+    return null
+  }
+  const parsed = new Date(value)
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString()
+}
+
+function readIntParam(value: string | null): number | undefined {
+  const parsed = Number.parseInt(value ?? '', 10)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+export const Route = createFileRoute('/api/audit')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          const url = new URL(request.url)
+          const action = url.searchParams.get('action')
+          if (action && !(ADMIN_AUDIT_ACTIONS as readonly string[]).includes(action)) {
+            return jsonResponse({ message: `Unknown audit action "${action}".` }, { status: 400 })
+          }
+
+          const since = readIsoParam(url.searchParams.get('since'))
+          const until = readIsoParam(url.searchParams.get('until'))
+          if (since === undefined || until === undefined) {
+            return jsonResponse({ message: 'since and until must be ISO dates.' }, { status: 400 })
+          }
+
+          const page = await readAdminAuditEvents({
+            action: action as AdminAuditAction | null,
+            actor: url.searchParams.get('actor'),
+            contestId: url.searchParams.get('contestId'),
+            targetId: url.searchParams.get('targetId'),
+            since,
+            until,
+            offset: readIntParam(url.searchParams.get('offset')),
+            limit: readIntParam(url.searchParams.get('limit')),
+          })
+          return jsonResponse(page)
+        } catch (error) {
+          console.error('Failed to read audit log', error)
+          return jsonResponse({ message: 'Failed to read audit log.' }, { status: 500 })
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,49 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import { readVoteAnomalies } from '../server/audit-log'
+import { requireAdmin } from '../server/authorization'
+import { ensureContest } from '../server/contest-store'
+
+const DEFAULT_LIMIT = 100
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+export const Route = createFileRoute('/api/contests/$contestId/anomalies')({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          const contestId = (params as Record<string, string>).contestId
+          if (!contestId) {
+            return jsonResponse({ message: 'Contest identifier missing.' }, { status: 400 })
+          }
+
+          const url = new URL(request.url)
+          const parsedLimit = Number.parseInt(url.searchParams.get('limit') ?? '', 10)
+          const limit = Number.isFinite(parsedLimit) && parsedLimit > 0 ? parsedLimit : DEFAULT_LIMIT
+
+          const contest = await ensureContest(contestId)
+          const anomalies = await readVoteAnomalies({ contestId: contest.id, limit })
+          return jsonResponse({ anomalies })
+        } catch (error) {
+          console.error('Failed to load vote anomalies', error)
+          const message = error instanceof Error ? error.message : 'Failed to load vote anomalies.'
+          return jsonResponse({ message }, { status: 400 })
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,38 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import { ensureContest } from '../server/contest-store'
+import { getContestHeadToHead } from '../server/data-store'
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+export const Route = createFileRoute('/api/contests/$contestId/head-to-head')({
+  server: {
+    handlers: {
+      GET: async ({ params }) => {
+        const contestId = (params as Record<string, string>).contestId
+        if (!contestId) {
+          return jsonResponse({ message: 'Contest identifier missing.' }, { status: 400 })
+        }
+
+        try {
+          const contest = await ensureContest(contestId)
+          const matrix = await getContestHeadToHead(contest.id)
+          return jsonResponse({ contestId: contest.id, ...matrix })
+        } catch (error) {
+          console.error('Failed to load head-to-head matrix', error)
+          const message = error instanceof Error ? error.message : 'Failed to load head-to-head matrix.'
+          const status = message.includes('not found') ? 404 : 500
+          return jsonResponse({ message }, { status })
+        }
+      },
+    },
+  },
+})
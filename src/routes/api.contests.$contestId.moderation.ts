@@ -0,0 +1,148 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import { getContestMetrics, listContestVotes, voidContestVotes } from '../server/data-store'
+import { ensureContest, getActiveContestId } from '../server/contest-store'
+import { logAdminAction } from '../server/audit-log'
+import { requireAdmin } from '../server/authorization'
+
+interface ModerationPayload {
+  eventIds?: unknown
+  voterHash?: unknown
+  reason?: unknown
+  dryRun?: unknown
+}
+
+const DEFAULT_LIMIT = 200
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+export const Route = createFileRoute('/api/contests/$contestId/moderation')({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          const contestId = (params as Record<string, string>).contestId
+          if (!contestId) {
+            return jsonResponse({ message: 'Contest identifier missing.' }, { status: 400 })
+          }
+
+          const url = new URL(request.url)
+          const parsedLimit = Number.parseInt(url.searchParams.get('limit') ?? '', 10)
+          const limit = Number.isFinite(parsedLimit) && parsedLimit > 0 ? parsedLimit : DEFAULT_LIMIT
+
+          const contest = await ensureContest(contestId)
+          const votes = await listContestVotes(contest.id, {
+            voterHash: url.searchParams.get('voterHash'),
+            limit,
+          })
+          return jsonResponse({ votes })
+        } catch (error) {
+          console.error('Failed to list contest votes', error)
+          const message = error instanceof Error ? error.message : 'Failed to list votes.'
+          return jsonResponse({ message }, { status: 400 })
+        }
+      },
+      POST: async ({ params, request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          const contestId = (params as Record<string, string>).contestId
+          if (!contestId) {
+            return jsonResponse({ message: 'Contest identifier missing.' }, { status: 400 })
+          }
+
+          let payload: ModerationPayload = {}
+          try {
+            payload = (await request.json()) as ModerationPayload
+          } catch (error) {
+            return jsonResponse({ message: 'A JSON body is required.' }, { status: 400 })
+          }
+
+          const eventIds = Array.isArray(payload.eventIds)
+            ? payload.eventIds.filter((value): value is string => typeof value === 'string')
+            : []
+          const voterHash = typeof payload.voterHash === 'string' ? payload.voterHash : null
+          const reason = typeof payload.reason === 'string' ? payload.reason : ''
+          const dryRun = payload.dryRun === true
+
+          const contest = await ensureContest(contestId)
+          const result = await voidContestVotes(contest.id, {
+            eventIds,
+            voterHash,
+            reason,
+            initiator: auth.user.alias,
+            dryRun,
+          })
+          const metrics = await getContestMetrics(contest.id)
+          const activeContestId = await getActiveContestId()
+
+          if (!dryRun) {
+            await logAdminAction({
+              action: 'votes-voided',
+              actor: auth.user.alias,
+              contestId: contest.id,
+              targetType: 'contest',
+              targetId: contest.id,
+              before: {
+                ratings: Object.fromEntries(result.differences.map((entry) => [entry.logoId, entry.ratingBefore])),
+              },
+              after: {
+                reason: reason.trim(),
+                voterHash,
+                voidedEventIds: result.voidedEventIds,
+                ratings: Object.fromEntries(result.differences.map((entry) => [entry.logoId, entry.ratingAfter])),
+              },
+              request,
+            })
+          }
+
+          const noun = result.voidedCount === 1 ? 'vote' : 'votes'
+          const message = dryRun
+            ? `Voiding ${result.voidedCount} ${noun} would change ${result.differences.length} ${result.differences.length === 1 ? 'logo' : 'logos'}.`
+            : `Voided ${result.voidedCount} ${noun} and replayed Elo ratings.`
+
+          return jsonResponse({
+            dryRun,
+            applied: !dryRun,
+            voidedCount: result.voidedCount,
+            voidedEventIds: result.voidedEventIds,
+            summary: {
+              totalMatches: result.totalMatches,
+              changedCount: result.differences.length,
+              changesDetected: result.changesDetected,
+              lastMatchAt: result.lastMatchAt,
+            },
+            differences: result.differences,
+            proposedLeaderboard: result.proposedLeaderboard,
+            contest: {
+              ...contest,
+              ...metrics,
+              isActive: contest.id === activeContestId,
+            },
+            message,
+          })
+        } catch (error) {
+          console.error('Failed to void contest votes', error)
+          const message = error instanceof Error ? error.message : 'Failed to void votes.'
+          return jsonResponse({ message }, { status: 400 })
+        }
+      },
+    },
+  },
+})
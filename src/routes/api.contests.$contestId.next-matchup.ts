@@ -0,0 +1,70 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import { createPairKey } from '../lib/elo-engine'
+import { selectInformativeMatchup } from '../lib/matchmaker'
+import { ensureContest } from '../server/contest-store'
+import { getAllLogos, getEloState, listVoterJudgedPairs } from '../server/data-store'
+import { deriveLegacyVoterHash, resolveRequestVoter } from '../server/voter-identity'
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+export const Route = createFileRoute('/api/contests/$contestId/next-matchup')({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        try {
+          const contestId = (params as Record<string, string>).contestId
+          if (!contestId) {
+            return jsonResponse({ message: 'Contest identifier missing.' }, { status: 400 })
+          }
+
+          const contest = await ensureContest(contestId)
+          const [logos, state, voter] = await Promise.all([
+            getAllLogos(contest.id),
+            getEloState(contest.id),
+            resolveRequestVoter(request),
+          ])
+
+          const url = new URL(request.url)
+          const [skipA, skipB] = (url.searchParams.get('skip') ?? '')
+            .split(',')
+            .map((value) => value.trim())
+            .filter(Boolean)
+          const avoidPairKey = skipA && skipB ? createPairKey(skipA, skipB) : null
+
+          // Pairs judged in archived matches or under the legacy hash would be refused with 409.
+          const judgedPairKeys = voter
+            ? await listVoterJudgedPairs(contest.id, state.history, [
+                voter.voterHash,
+                deriveLegacyVoterHash(voter.user.alias),
+              ])
+            : undefined
+
+          const selection = selectInformativeMatchup(logos, state, {
+            voterHash: voter?.voterHash ?? null,
+            judgedPairKeys,
+            avoidPairKey,
+          })
+
+          return jsonResponse({
+            matchup: selection?.matchup ?? null,
+            score: selection?.score ?? null,
+            exhausted: logos.length >= 2 && !selection,
+          })
+        } catch (error) {
+          console.error('Failed to select next matchup', error)
+          const message = error instanceof Error ? error.message : 'Failed to select next matchup.'
+          return jsonResponse({ message }, { status: 400 })
+        }
+      },
+    },
+  },
+})
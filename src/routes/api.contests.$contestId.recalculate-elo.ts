@@ -2,6 +2,8 @@ import { createFileRoute } from '@tanstack/react-router'
 
 import { recalculateContestElo, getContestMetrics } from '../server/data-store'
 import { ensureContest, getActiveContestId } from '../server/contest-store'
+import { logAdminAction } from '../server/audit-log'
+import { requireAdmin } from '../server/authorization'
 
 function jsonResponse(body: unknown, init?: ResponseInit) {
   return new Response(JSON.stringify(body, null, 2), {
@@ -18,6 +20,11 @@ export const Route = createFileRoute('/api/contests/$contestId/recalculate-elo')
     handlers: {
       POST: async ({ params, request }) => {
         try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
           const contestId = (params as Record<string, string>).contestId
           if (!contestId) {
             return jsonResponse({ message: 'Contest identifier missing.' }, { status: 400 })
@@ -49,9 +56,27 @@ export const Route = createFileRoute('/api/contests/$contestId/recalculate-elo')
             changedCount: result.differences.length,
             changesDetected: result.changesDetected,
             lastMatchAt: result.lastMatchAt,
+            totalEvents: result.replay.totalEvents,
+            resumedFromEvent: result.replay.resumedFromEvent,
           }
 
           const applied = !dryRun && result.changesDetected
+          if (applied) {
+            await logAdminAction({
+              action: 'ratings-recalculated',
+              actor: auth.user.alias,
+              contestId: contest.id,
+              targetType: 'contest',
+              targetId: contest.id,
+              before: Object.fromEntries(
+                result.differences.map((entry) => [entry.logoId, entry.ratingBefore]),
+              ),
+              after: Object.fromEntries(
+                result.differences.map((entry) => [entry.logoId, entry.ratingAfter]),
+              ),
+              request,
+            })
+          }
           const message = dryRun
             ? result.changesDetected
               ? 'Recalculation preview ready.'
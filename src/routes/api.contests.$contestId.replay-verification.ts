@@ -0,0 +1,56 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import {
+  getContestReplayVerification,
+  startContestReplayVerification,
+} from '../server/data-store'
+import { ensureContest } from '../server/contest-store'
+import { requireAdmin } from '../server/authorization'
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+export const Route = createFileRoute('/api/contests/$contestId/replay-verification')({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          const contest = await ensureContest((params as Record<string, string>).contestId ?? '')
+          return jsonResponse({ verification: getContestReplayVerification(contest.id) })
+        } catch (error) {
+          console.error('Failed to load replay verification', error)
+          const message = error instanceof Error ? error.message : 'Failed to load replay verification.'
+          return jsonResponse({ message }, { status: 400 })
+        }
+      },
+      POST: async ({ params, request }) => {
+        try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          const contest = await ensureContest((params as Record<string, string>).contestId ?? '')
+          // The full replay runs in the background; poll GET for the result.
+          return jsonResponse({ verification: startContestReplayVerification(contest.id) }, { status: 202 })
+        } catch (error) {
+          console.error('Failed to start replay verification', error)
+          const message = error instanceof Error ? error.message : 'Failed to start replay verification.'
+          return jsonResponse({ message }, { status: 400 })
+        }
+      },
+    },
+  },
+})
@@ -2,6 +2,8 @@ import { createFileRoute } from '@tanstack/react-router'
 
 import { getContestMetrics, resetContestVotes } from '../server/data-store'
 import { ensureContest, getActiveContestId } from '../server/contest-store'
+import { logAdminAction } from '../server/audit-log'
+import { requireAdmin } from '../server/authorization'
 
 function jsonResponse(body: unknown, init?: ResponseInit) {
   return new Response(JSON.stringify(body, null, 2), {
@@ -16,17 +18,33 @@ function jsonResponse(body: unknown, init?: ResponseInit) {
 export const Route = createFileRoute('/api/contests/$contestId/reset')({
   server: {
     handlers: {
-  POST: async ({ params }) => {
+      POST: async ({ params, request }) => {
         try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
           const contestId = (params as Record<string, string>).contestId
           if (!contestId) {
             return jsonResponse({ message: 'Contest identifier missing.' }, { status: 400 })
           }
 
           const contest = await ensureContest(contestId)
-          await resetContestVotes(contest.id)
+          const { matchCount: previousMatchCount } = await getContestMetrics(contest.id)
+          await resetContestVotes(contest.id, { initiator: auth.user.alias })
 
           const metrics = await getContestMetrics(contest.id)
+          await logAdminAction({
+            action: 'votes-reset',
+            actor: auth.user.alias,
+            contestId: contest.id,
+            targetType: 'contest',
+            targetId: contest.id,
+            before: { matchCount: previousMatchCount },
+            after: { matchCount: metrics.matchCount },
+            request,
+          })
           const activeContestId = await getActiveContestId()
 
           return jsonResponse({
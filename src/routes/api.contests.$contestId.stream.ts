@@ -0,0 +1,67 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import { isAdminUser } from '../server/authorization'
+import { ensureContest } from '../server/contest-store'
+import { createScoreboardStream } from '../server/live-scoreboard'
+import { projectMatch, type HistoryViewer } from '../server/vote-history-view'
+import { resolveRequestVoter } from '../server/voter-identity'
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+function parseLastEventId(request: Request): number | null {
+  const raw = request.headers.get('Last-Event-ID') ?? new URL(request.url).searchParams.get('lastEventId')
+  if (!raw) {
+    return null
+  }
+  const parsed = Number.parseInt(raw, 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+export const Route = createFileRoute('/api/contests/$contestId/stream')({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        let contestId: string
+        let viewer: HistoryViewer
+        try {
+          const requested = (params as Record<string, string>).contestId
+          if (!requested) {
+            return jsonResponse({ message: 'Contest identifier missing.' }, { status: 400 })
+          }
+          contestId = (await ensureContest(requested)).id
+          const voter = await resolveRequestVoter(request)
+          viewer = { voterHash: voter?.voterHash ?? null, isAdmin: isAdminUser(voter?.user) }
+        } catch (error) {
+          console.error('Failed to open scoreboard stream', error)
+          const message = error instanceof Error ? error.message : 'Failed to open scoreboard stream.'
+          return jsonResponse({ message }, { status: 400 })
+        }
+
+        // Voter hashes follow the same visibility rules as /api/votes.
+        const stream = createScoreboardStream({
+          contestId,
+          lastEventId: parseLastEventId(request),
+          signal: request.signal,
+          project: (event) => (event.type === 'match' ? { ...event, match: projectMatch(event.match, viewer) } : event),
+        })
+
+        return new Response(stream, {
+          headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-store',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+          },
+        })
+      },
+    },
+  },
+})
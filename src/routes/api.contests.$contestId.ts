@@ -1,13 +1,19 @@
 import { createFileRoute } from '@tanstack/react-router'
 
-import { getContestMetrics } from '../server/data-store'
+import { applyHistoryRetention, getContestMetrics, rebuildContestRatings } from '../server/data-store'
 import {
   ensureContest,
   getActiveContestId,
   setActiveContest,
   updateContest,
 } from '../server/contest-store'
-import type { ContestStatus } from '../lib/contest-utils'
+import type { Contest, ContestStatus } from '../lib/contest-utils'
+import type { HistoryRetention } from '../lib/history-retention'
+import type { RatingSettings } from '../lib/rating-engines'
+import { logAdminAction, type AdminAuditAction } from '../server/audit-log'
+import { requireAdmin } from '../server/authorization'
+import { formatRevisionEtag, readIfMatchRevision } from '../server/revision-etag'
+import { ConcurrentUpdateError } from '../server/storage-adapter'
 
 function jsonResponse(body: unknown, init?: ResponseInit) {
   return new Response(JSON.stringify(body, null, 2), {
@@ -19,6 +25,26 @@ function jsonResponse(body: unknown, init?: ResponseInit) {
   })
 }
 
+function contestHeaders(updatedAt: string): HeadersInit {
+  return {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ETag: formatRevisionEtag(updatedAt),
+  }
+}
+
+/** Archiving and activation are called out on their own; anything else is a plain update. */
+function resolveContestAction(
+  previous: Contest,
+  updated: Contest,
+  activated: boolean,
+): AdminAuditAction {
+  if (updated.status === 'archived' && previous.status !== 'archived') {
+    return 'contest-archived'
+  }
+  return activated ? 'contest-activated' : 'contest-updated'
+}
+
 interface ContestUpdatePayload {
   title?: string
   slug?: string
@@ -30,6 +56,8 @@ interface ContestUpdatePayload {
   archivedAt?: string | null
   votingOpen?: boolean
   setActive?: boolean
+  rating?: Partial<RatingSettings> | null
+  historyRetention?: Partial<HistoryRetention> | null
 }
 
 export const Route = createFileRoute('/api/contests/$contestId')({
@@ -40,13 +68,16 @@ export const Route = createFileRoute('/api/contests/$contestId')({
           const contest = await ensureContest(params.contestId)
           const metrics = await getContestMetrics(contest.id)
           const activeContestId = await getActiveContestId()
-          return jsonResponse({
-            contest: {
-              ...contest,
-              ...metrics,
-              isActive: contest.id === activeContestId,
+          return jsonResponse(
+            {
+              contest: {
+                ...contest,
+                ...metrics,
+                isActive: contest.id === activeContestId,
+              },
             },
-          })
+            { headers: contestHeaders(contest.updatedAt) },
+          )
         } catch (error) {
           console.error('Failed to load contest', error)
           return jsonResponse(
@@ -57,7 +88,14 @@ export const Route = createFileRoute('/api/contests/$contestId')({
       },
       PATCH: async ({ params, request }: { params: { contestId: string }; request: Request }) => {
         try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
           const payload = (await request.json()) as ContestUpdatePayload
+          const previous = await ensureContest(params.contestId)
+          const previousActiveId = await getActiveContestId()
           const updated = await updateContest(params.contestId, {
             title: payload.title,
             slug: payload.slug,
@@ -69,7 +107,21 @@ export const Route = createFileRoute('/api/contests/$contestId')({
             archivedAt: payload.archivedAt,
             votingOpen: payload.votingOpen,
             setActive: payload.setActive,
-          })
+            rating: payload.rating,
+            historyRetention: payload.historyRetention,
+          }, { expectedUpdatedAt: readIfMatchRevision(request) })
+
+          if (
+            updated.rating.algorithm !== previous.rating.algorithm ||
+            updated.rating.kFactor !== previous.rating.kFactor
+          ) {
+            await rebuildContestRatings(updated.id)
+          } else if (
+            updated.historyRetention.maxMatches !== previous.historyRetention.maxMatches ||
+            updated.historyRetention.maxAgeDays !== previous.historyRetention.maxAgeDays
+          ) {
+            await applyHistoryRetention(updated.id)
+          }
 
           const finalContest = payload.setActive
             ? await setActiveContest(updated.id)
@@ -78,14 +130,36 @@ export const Route = createFileRoute('/api/contests/$contestId')({
           const metrics = await getContestMetrics(finalContest.id)
           const activeContestId = await getActiveContestId()
 
-          return jsonResponse({
-            contest: {
-              ...finalContest,
-              ...metrics,
-              isActive: finalContest.id === activeContestId,
-            },
+          await logAdminAction({
+            action: resolveContestAction(
+              previous,
+              finalContest,
+              activeContestId === finalContest.id && previousActiveId !== finalContest.id,
+            ),
+            actor: auth.user.alias,
+            contestId: finalContest.id,
+            targetType: 'contest',
+            targetId: finalContest.id,
+            before: previous,
+            after: finalContest,
+            request,
           })
+
+          return jsonResponse(
+            {
+              contest: {
+                ...finalContest,
+                ...metrics,
+                isActive: finalContest.id === activeContestId,
+              },
+            },
+            { headers: contestHeaders(finalContest.updatedAt) },
+          )
         } catch (error) {
+          if (error instanceof ConcurrentUpdateError) {
+            const current = await ensureContest(params.contestId)
+            return jsonResponse({ message: error.message, contest: current }, { status: 409 })
+          }
           console.error('Failed to update contest', error)
           const message =
             error instanceof Error ? error.message : 'Failed to update contest.'
@@ -8,6 +8,10 @@ import {
   setActiveContest,
 } from '../server/contest-store'
 import type { ContestStatus } from '../lib/contest-utils'
+import type { HistoryRetention } from '../lib/history-retention'
+import type { RatingSettings } from '../lib/rating-engines'
+import { logAdminAction } from '../server/audit-log'
+import { requireAdmin } from '../server/authorization'
 
 function jsonResponse(body: unknown, init?: ResponseInit) {
   return new Response(JSON.stringify(body, null, 2), {
@@ -28,6 +32,8 @@ interface ContestCreatePayload {
   startsAt?: string | null
   endsAt?: string | null
   votingOpen?: boolean
+  rating?: Partial<RatingSettings> | null
+  historyRetention?: Partial<HistoryRetention> | null
   setActive?: boolean
 }
 
@@ -62,6 +68,11 @@ export const Route = createFileRoute('/api/contests')({
       },
       POST: async ({ request }: { request: Request }) => {
         try {
+          const auth = await requireAdmin(request)
+          if (auth.response) {
+            return auth.response
+          }
+
           const payload = (await request.json()) as ContestCreatePayload
           const title = typeof payload.title === 'string' ? payload.title.trim() : ''
 
@@ -81,11 +92,34 @@ export const Route = createFileRoute('/api/contests')({
             startsAt: payload.startsAt,
             endsAt: payload.endsAt,
             votingOpen: payload.votingOpen,
+            rating: payload.rating,
+            historyRetention: payload.historyRetention,
+          })
+
+          await logAdminAction({
+            action: 'contest-created',
+            actor: auth.user.alias,
+            contestId: contest.id,
+            targetType: 'contest',
+            targetId: contest.id,
+            after: contest,
+            request,
           })
 
           let updatedContest = contest
-          if (payload.setActive && contest.id !== (await getActiveContestId())) {
+          const previousActiveId = await getActiveContestId()
+          if (payload.setActive && contest.id !== previousActiveId) {
             updatedContest = await setActiveContest(contest.id)
+            await logAdminAction({
+              action: 'contest-activated',
+              actor: auth.user.alias,
+              contestId: contest.id,
+              targetType: 'contest',
+              targetId: contest.id,
+              before: { activeContestId: previousActiveId },
+              after: { activeContestId: contest.id },
+              request,
+            })
           }
 
           const metrics = await getContestMetrics(updatedContest.id)
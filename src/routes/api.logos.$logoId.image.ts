@@ -1,8 +1,26 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { promises as fs } from 'node:fs'
 import path from 'node:path'
 
-import { findLogoById } from '../server/data-store'
+import type { LogoEntry } from '../lib/logo-utils'
+import {
+  findLogoById,
+  findLogoByIdCached,
+  getAllLogosIncludingRemoved,
+  replaceLogoImage,
+  type LogoImageUpload,
+} from '../server/data-store'
+import { logAdminAction } from '../server/audit-log'
+import { canEditLogo, forbiddenResponse, requireUser } from '../server/authorization'
+import { createFileResponse } from '../server/file-response'
+import { buildLogoImageHeaders, LogoImageError, resolveMaxLogoBytes } from '../server/logo-image-pipeline'
+import {
+  isMultipartRequest,
+  MultipartUploadError,
+  receiveMultipartUpload,
+  type MultipartUpload,
+} from '../server/multipart-upload'
+import { formatRevisionEtag, readIfMatchRevision } from '../server/revision-etag'
+import { ConcurrentUpdateError } from '../server/storage-adapter'
 import { resolveDataPath } from '../server/storage-utils'
 
 const MIME_TYPES: Record<string, string> = {
@@ -30,58 +48,212 @@ function jsonResponse(body: unknown, init?: ResponseInit) {
   })
 }
 
+/** Versioned URLs never change content; anything else is revalidated against the ETag. */
+const VERSIONED_CACHE_CONTROL = 'public, max-age=31536000, immutable'
+const REVALIDATED_CACHE_CONTROL = 'public, no-cache'
+/** Catalog artwork ships with the site and only changes on deploy. */
+const CATALOG_CACHE_CONTROL = 'public, max-age=3600'
+
+const PUBLIC_DIR = path.resolve(process.cwd(), 'public')
+
+interface SelectedLogoAsset {
+  assetPath: string
+  /** True when `?v=` names the version served, so the response can be cached forever. */
+  versioned: boolean
+}
+
+/**
+ * `?v=<version>` picks one of the logo's artwork versions (the current one when it names no
+ * known revision), then `?w=<width>&format=<png|webp>` picks one of that version's renditions
+ * (format defaults to WebP). Anything that does not match exactly falls back to the primary asset.
+ */
+function selectLogoAsset(logo: LogoEntry, assetPath: string, params: URLSearchParams): SelectedLogoAsset {
+  const version = Number.parseInt(params.get('v') ?? '', 10)
+  const currentVersion = logo.version ?? 1
+  const revision =
+    version !== currentVersion ? logo.revisions?.find((entry) => entry.version === version) : undefined
+  const primaryPath = revision?.assetPath ?? assetPath
+  const renditions = revision ? revision.renditions : logo.renditions
+  const versioned = version === currentVersion || Boolean(revision)
+
+  const width = Number.parseInt(params.get('w') ?? '', 10)
+  if (!Number.isFinite(width)) {
+    return { assetPath: primaryPath, versioned }
+  }
+  const format = params.get('format') ?? 'webp'
+  const rendition = renditions?.find((entry) => entry.width === width && entry.format === format)
+  return { assetPath: rendition?.assetPath ?? primaryPath, versioned }
+}
+
+/** Catalog artwork is a site-relative path under `public/`; null for anything else. */
+function resolveCatalogAsset(image: string): string | null {
+  if (!image.startsWith('/') || image.startsWith('//') || image.startsWith('/api/')) {
+    return null
+  }
+  let pathname: string
+  try {
+    pathname = decodeURIComponent(image.split(/[?#]/)[0] ?? '')
+  } catch {
+    return null
+  }
+  const resolved = path.resolve(PUBLIC_DIR, `.${pathname}`)
+  return resolved.startsWith(`${PUBLIC_DIR}${path.sep}`) ? resolved : null
+}
+
+/**
+ * Shared by GET and HEAD. Logo metadata comes from the in-memory lookup cache, and files are
+ * streamed with ETag/Last-Modified validation and byte-range support.
+ */
+async function serveLogoImage(logoId: string | undefined, request: Request): Promise<Response> {
+  if (!logoId) {
+    return jsonResponse({ message: 'Logo identifier missing.' }, { status: 400 })
+  }
+
+  const logo = await findLogoByIdCached(logoId)
+  if (!logo) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  if (logo.source !== 'user' || !logo.assetPath) {
+    if (!logo.image || logo.image.startsWith('/api/logos/')) {
+      return new Response('Not found', { status: 404 })
+    }
+    const catalogPath = resolveCatalogAsset(logo.image)
+    const response = catalogPath
+      ? await createFileResponse(request, catalogPath, {
+          ...buildLogoImageHeaders(getContentType(catalogPath), path.basename(catalogPath)),
+          'Cache-Control': CATALOG_CACHE_CONTROL,
+        })
+      : null
+    // External artwork, or catalog files that are not on this server's disk.
+    return response ?? new Response(null, { status: 302, headers: { Location: logo.image } })
+  }
+
+  const selected = selectLogoAsset(logo, logo.assetPath, new URL(request.url).searchParams)
+  const absolutePath = resolveDataPath(selected.assetPath)
+  const response = await createFileResponse(request, absolutePath, {
+    ...buildLogoImageHeaders(
+      getContentType(absolutePath),
+      `${logo.codename}${path.extname(absolutePath).toLowerCase()}`,
+    ),
+    'Cache-Control': selected.versioned ? VERSIONED_CACHE_CONTROL : REVALIDATED_CACHE_CONTROL,
+  })
+  return response ?? jsonResponse({ message: 'Logo asset missing.' }, { status: 404 })
+}
+
+async function findTargetLogo(logoId: string, contestId?: string): Promise<LogoEntry | null> {
+  if (contestId) {
+    const logos = await getAllLogosIncludingRemoved(contestId)
+    return logos.find((entry) => entry.id === logoId) ?? null
+  }
+  return findLogoById(logoId)
+}
+
 export const Route = createFileRoute('/api/logos/$logoId/image')({
   server: {
     handlers: {
-      GET: async ({ params }) => {
+      GET: async ({ params, request }) => {
+        try {
+          return await serveLogoImage((params as Record<string, string>).logoId, request)
+        } catch (error) {
+          console.error('Failed to serve logo image', error)
+          return jsonResponse({ message: 'Failed to load logo image.' }, { status: 500 })
+        }
+      },
+      HEAD: async ({ params, request }) => {
         try {
-          const logoId = (params as Record<string, string>).logoId
-          if (!logoId) {
-            return jsonResponse({ message: 'Logo identifier missing.' }, { status: 400 })
+          return await serveLogoImage((params as Record<string, string>).logoId, request)
+        } catch (error) {
+          console.error('Failed to serve logo image', error)
+          return new Response(null, { status: 500 })
+        }
+      },
+      /**
+       * Uploads the next artwork version, as multipart/form-data with the file in `image` or as
+       * JSON with a base64 data URL in `image`. Honours If-Match like the metadata PATCH.
+       */
+      PUT: async ({ params, request }: { params: { logoId: string }; request: Request }) => {
+        let upload: MultipartUpload | null = null
+        try {
+          const auth = await requireUser(request)
+          if (auth.response) {
+            return auth.response
           }
 
-          const logo = await findLogoById(logoId)
-
-          if (!logo) {
-            return new Response('Not found', { status: 404 })
+          const url = new URL(request.url)
+          const contestIdParam = url.searchParams.get('contestId') ?? undefined
+          const target = await findTargetLogo(params.logoId, contestIdParam)
+          if (!target) {
+            return jsonResponse({ message: 'Logo not found.' }, { status: 404 })
           }
-
-          if (logo.source !== 'user' || !logo.assetPath) {
-            if (logo.image && !logo.image.startsWith('/api/logos/')) {
-              return new Response(null, {
-                status: 302,
-                headers: {
-                  Location: logo.image,
-                },
-              })
-            }
-
-            return new Response('Not found', { status: 404 })
+          if (!canEditLogo(auth.user, target)) {
+            return forbiddenResponse('Only the logo owner or an admin can replace this artwork.')
           }
 
-          const absolutePath = resolveDataPath(logo.assetPath)
-          let data: Buffer
-          try {
-            data = await fs.readFile(absolutePath)
-          } catch (error: unknown) {
-            if (error && typeof error === 'object' && 'code' in error && (error as { code?: string }).code === 'ENOENT') {
-              return jsonResponse({ message: 'Logo asset missing.' }, { status: 404 })
+          let source: string | LogoImageUpload
+          if (isMultipartRequest(request)) {
+            upload = await receiveMultipartUpload(request, {
+              fileField: 'image',
+              maxFileBytes: resolveMaxLogoBytes(),
+            })
+            if (!upload.file) {
+              return jsonResponse({ message: 'Image is required' }, { status: 400 })
             }
-            throw error
+            source = { filePath: upload.file.path, mimeType: upload.file.contentType }
+          } else {
+            const payload = (await request.json().catch(() => ({}))) as { image?: unknown }
+            if (typeof payload.image !== 'string' || !payload.image.trim()) {
+              return jsonResponse({ message: 'Image is required' }, { status: 400 })
+            }
+            source = payload.image
           }
 
-          const payload = new ArrayBuffer(data.byteLength)
-          new Uint8Array(payload).set(data)
-
-          return new Response(payload, {
-            headers: {
-              'Content-Type': getContentType(absolutePath),
-              'Cache-Control': 'public, max-age=31536000, immutable',
-            },
+          const updated = await replaceLogoImage(
+            params.logoId,
+            source,
+            auth.user.email,
+            contestIdParam ?? target.contestId,
+            { expectedUpdatedAt: readIfMatchRevision(request) },
+          )
+          if (!updated) {
+            return jsonResponse({ message: 'Logo not found.' }, { status: 404 })
+          }
+          await logAdminAction({
+            action: 'logo-image-replaced',
+            actor: auth.user.alias,
+            contestId: updated.contestId,
+            targetType: 'logo',
+            targetId: updated.id,
+            before: target,
+            after: updated,
+            request,
           })
+          return jsonResponse(
+            { logo: updated },
+            {
+              headers: {
+                'Content-Type': 'application/json',
+                'Cache-Control': 'no-store',
+                ETag: formatRevisionEtag(updated.updatedAt),
+              },
+            },
+          )
         } catch (error) {
-          console.error('Failed to serve logo image', error)
-          return jsonResponse({ message: 'Failed to load logo image.' }, { status: 500 })
+          if (error instanceof LogoImageError) {
+            return jsonResponse({ error: 'invalid-image', message: error.message }, { status: error.status })
+          }
+          if (error instanceof MultipartUploadError) {
+            return jsonResponse({ error: 'invalid-upload', message: error.message }, { status: error.status })
+          }
+          if (error instanceof ConcurrentUpdateError) {
+            const current = await findLogoById(params.logoId)
+            return jsonResponse({ message: error.message, logo: current }, { status: 409 })
+          }
+          console.error('Failed to replace logo image', error)
+          const message = error instanceof Error ? error.message : 'Failed to replace logo image.'
+          return jsonResponse({ message }, { status: 400 })
+        } finally {
+          await upload?.cleanup()
         }
       },
     },
@@ -6,7 +6,16 @@ import {
   removeLogo,
   updateLogoMetadata,
 } from '../server/data-store'
-import type { UpdateLogoInput } from '../lib/logo-utils'
+import type { LogoEntry, UpdateLogoInput } from '../lib/logo-utils'
+import {
+  canEditLogo,
+  forbiddenResponse,
+  isAdminUser,
+  requireUser,
+} from '../server/authorization'
+import { logAdminAction } from '../server/audit-log'
+import { formatRevisionEtag, readIfMatchRevision } from '../server/revision-etag'
+import { ConcurrentUpdateError } from '../server/storage-adapter'
 
 function jsonResponse(body: unknown, init?: ResponseInit) {
   return new Response(JSON.stringify(body, null, 2), {
@@ -18,6 +27,27 @@ function jsonResponse(body: unknown, init?: ResponseInit) {
   })
 }
 
+function logoResponse(logo: LogoEntry) {
+  return jsonResponse(
+    { logo },
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        ETag: formatRevisionEtag(logo.updatedAt),
+      },
+    },
+  )
+}
+
+async function findTargetLogo(logoId: string, contestId?: string): Promise<LogoEntry | null> {
+  if (contestId) {
+    const logos = await getAllLogosIncludingRemoved(contestId)
+    return logos.find((entry) => entry.id === logoId) ?? null
+  }
+  return findLogoById(logoId)
+}
+
 export const Route = createFileRoute('/api/logos/$logoId')({
   server: {
     handlers: {
@@ -33,7 +63,7 @@ export const Route = createFileRoute('/api/logos/$logoId')({
           if (!logo) {
             return jsonResponse({ message: 'Logo not found.' }, { status: 404 })
           }
-          return jsonResponse({ logo })
+          return logoResponse(logo)
         } catch (error) {
           console.error('Failed to load logo', error)
           return jsonResponse({ message: 'Failed to load logo.' }, { status: 500 })
@@ -41,9 +71,20 @@ export const Route = createFileRoute('/api/logos/$logoId')({
       },
       PATCH: async ({ params, request }: { params: { logoId: string }; request: Request }) => {
         try {
+          const auth = await requireUser(request)
+          if (auth.response) {
+            return auth.response
+          }
+
           const url = new URL(request.url)
           const contestIdParam = url.searchParams.get('contestId') ?? undefined
-          const fallback = contestIdParam ? null : await findLogoById(params.logoId)
+          const target = await findTargetLogo(params.logoId, contestIdParam)
+          if (!target) {
+            return jsonResponse({ message: 'Logo not found.' }, { status: 404 })
+          }
+          if (!canEditLogo(auth.user, target)) {
+            return forbiddenResponse('Only the logo owner or an admin can edit this logo.')
+          }
 
           let payload: Record<string, unknown> = {}
           try {
@@ -78,6 +119,9 @@ export const Route = createFileRoute('/api/logos/$logoId')({
           }
 
           if (Object.prototype.hasOwnProperty.call(payload, 'ownerAlias')) {
+            if (!isAdminUser(auth.user)) {
+              return forbiddenResponse('Only admins can change logo ownership.')
+            }
             const value = payload.ownerAlias
             if (typeof value === 'string' || value === null) {
               updates.ownerAlias = value
@@ -100,13 +144,28 @@ export const Route = createFileRoute('/api/logos/$logoId')({
           const updated = await updateLogoMetadata(
             params.logoId,
             updates,
-            contestIdParam ?? fallback?.contestId,
+            contestIdParam ?? target.contestId,
+            { expectedUpdatedAt: readIfMatchRevision(request) },
           )
           if (!updated) {
             return jsonResponse({ message: 'Logo not found.' }, { status: 404 })
           }
-          return jsonResponse({ logo: updated })
+          await logAdminAction({
+            action: updated.ownerAlias !== target.ownerAlias ? 'logo-owner-changed' : 'logo-edited',
+            actor: auth.user.alias,
+            contestId: updated.contestId,
+            targetType: 'logo',
+            targetId: updated.id,
+            before: target,
+            after: updated,
+            request,
+          })
+          return logoResponse(updated)
         } catch (error) {
+          if (error instanceof ConcurrentUpdateError) {
+            const current = await findLogoById(params.logoId)
+            return jsonResponse({ message: error.message, logo: current }, { status: 409 })
+          }
           console.error('Failed to update logo metadata', error)
           const message = error instanceof Error ? error.message : 'Failed to update logo.'
           return jsonResponse({ message }, { status: 400 })
@@ -114,26 +173,39 @@ export const Route = createFileRoute('/api/logos/$logoId')({
       },
       DELETE: async ({ params, request }: { params: { logoId: string }; request: Request }) => {
         try {
-          let removedBy: string | null = null
-          try {
-            const payload = (await request.json()) as { removedBy?: string | null }
-            removedBy = payload?.removedBy ?? null
-          } catch (error) {
-            // Ignore body parse errors for DELETE with no payload
+          const auth = await requireUser(request)
+          if (auth.response) {
+            return auth.response
           }
 
           const url = new URL(request.url)
           const contestIdParam = url.searchParams.get('contestId') ?? undefined
-          const fallback = contestIdParam ? null : await findLogoById(params.logoId)
+          const target = await findTargetLogo(params.logoId, contestIdParam)
+          if (!target) {
+            return jsonResponse({ message: 'Logo not found.' }, { status: 404 })
+          }
+          if (!canEditLogo(auth.user, target)) {
+            return forbiddenResponse('Only the logo owner or an admin can remove this logo.')
+          }
 
           const updated = await removeLogo(
             params.logoId,
-            removedBy,
-            contestIdParam ?? fallback?.contestId,
+            auth.user.email,
+            contestIdParam ?? target.contestId,
           )
           if (!updated) {
             return jsonResponse({ message: 'Logo not found.' }, { status: 404 })
           }
+          await logAdminAction({
+            action: 'logo-removed',
+            actor: auth.user.alias,
+            contestId: updated.contestId,
+            targetType: 'logo',
+            targetId: updated.id,
+            before: target,
+            after: updated,
+            request,
+          })
           return jsonResponse({ logo: updated })
         } catch (error) {
           console.error('Failed to remove logo', error)
@@ -1,7 +1,16 @@
 import { createFileRoute } from '@tanstack/react-router'
 
-import { addLogo, getAllLogosIncludingRemoved } from '../server/data-store'
+import { addLogo, getAllLogosIncludingRemoved, type LogoImageUpload } from '../server/data-store'
 import { type SubmitLogoInput } from '../lib/logo-utils'
+import { logAdminAction } from '../server/audit-log'
+import { isAdminUser, requireUser } from '../server/authorization'
+import { LogoImageError, resolveMaxLogoBytes } from '../server/logo-image-pipeline'
+import {
+  isMultipartRequest,
+  MultipartUploadError,
+  receiveMultipartUpload,
+  type MultipartUpload,
+} from '../server/multipart-upload'
 
 function jsonResponse(body: unknown, init?: ResponseInit) {
   return new Response(JSON.stringify(body, null, 2), {
@@ -31,14 +40,71 @@ export const Route = createFileRoute('/api/logos')({
         }
       },
       POST: async ({ request }: { request: Request }) => {
+        let upload: MultipartUpload | null = null
         try {
-          const payload = (await request.json()) as SubmitLogoInput
-          const logo = await addLogo(payload)
+          const auth = await requireUser(request)
+          if (auth.response) {
+            return auth.response
+          }
+
+          // Multipart uploads stream the file to disk; JSON with a base64 data URL in `image`
+          // is still accepted from older clients.
+          let payload: SubmitLogoInput
+          let fileUpload: LogoImageUpload | undefined
+          if (isMultipartRequest(request)) {
+            upload = await receiveMultipartUpload(request, {
+              fileField: 'image',
+              maxFileBytes: resolveMaxLogoBytes(),
+            })
+            if (!upload.file) {
+              return jsonResponse({ message: 'Image is required' }, { status: 400 })
+            }
+            const { fields } = upload
+            payload = {
+              name: fields.name ?? '',
+              description: fields.description,
+              image: '',
+              submittedBy: auth.user.email,
+              ownerAlias: fields.ownerAlias,
+              contestId: fields.contestId || undefined,
+            }
+            fileUpload = { filePath: upload.file.path, mimeType: upload.file.contentType }
+          } else {
+            payload = (await request.json()) as SubmitLogoInput
+          }
+
+          // Submitter identity always comes from the session; only admins may assign
+          // ownership to someone else.
+          const logo = await addLogo(
+            {
+              ...payload,
+              submittedBy: auth.user.email,
+              ownerAlias: isAdminUser(auth.user) ? payload.ownerAlias : auth.user.alias,
+            },
+            fileUpload,
+          )
+          await logAdminAction({
+            action: 'logo-submitted',
+            actor: auth.user.alias,
+            contestId: logo.contestId,
+            targetType: 'logo',
+            targetId: logo.id,
+            after: logo,
+            request,
+          })
           return jsonResponse({ logo }, { status: 201 })
         } catch (error) {
+          if (error instanceof LogoImageError) {
+            return jsonResponse({ error: 'invalid-image', message: error.message }, { status: error.status })
+          }
+          if (error instanceof MultipartUploadError) {
+            return jsonResponse({ error: 'invalid-upload', message: error.message }, { status: error.status })
+          }
           console.error('Failed to add logo', error)
           const message = error instanceof Error ? error.message : 'Failed to add logo.'
           return jsonResponse({ message }, { status: 400 })
+        } finally {
+          await upload?.cleanup()
         }
       },
     },
@@ -0,0 +1,106 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import { normalizeAlias } from '../lib/auth-utils'
+import { findRosterUser, toAuthUser, verifyRosterPassword } from '../server/roster-store'
+import { clearSessionCookie, createSessionCookie, getSessionUser } from '../server/session'
+
+interface LoginPayload {
+  alias?: string
+  password?: string
+}
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  const headers = new Headers(init?.headers)
+  headers.set('Content-Type', 'application/json')
+  headers.set('Cache-Control', 'no-store')
+  return new Response(JSON.stringify(body, null, 2), {
+    ...init,
+    headers,
+  })
+}
+
+export const Route = createFileRoute('/api/session')({
+  server: {
+    handlers: {
+      GET: async ({ request }: { request: Request }) => {
+        try {
+          const user = await getSessionUser(request)
+          return jsonResponse({ user })
+        } catch (error) {
+          console.error('Failed to resolve session', error)
+          return jsonResponse({ message: 'Failed to resolve session.' }, { status: 500 })
+        }
+      },
+      POST: async ({ request }: { request: Request }) => {
+        try {
+          let payload: LoginPayload = {}
+          try {
+            payload = (await request.json()) as LoginPayload
+          } catch (error) {
+            // Treat a missing body the same as a missing alias.
+          }
+
+          const normalizedAlias = normalizeAlias(typeof payload.alias === 'string' ? payload.alias : '')
+          if (!normalizedAlias) {
+            return jsonResponse(
+              { reason: 'alias-not-found', message: 'Alias is required to sign in.' },
+              { status: 400 },
+            )
+          }
+
+          const record = await findRosterUser(normalizedAlias)
+          if (!record) {
+            return jsonResponse(
+              { reason: 'alias-not-found', message: 'Alias not found in roster.' },
+              { status: 404 },
+            )
+          }
+
+          if (record.passwordHash) {
+            const password = typeof payload.password === 'string' ? payload.password : ''
+            if (!password) {
+              return jsonResponse(
+                {
+                  reason: 'password-required',
+                  alias: normalizedAlias,
+                  message: 'This alias requires a password.',
+                },
+                { status: 401 },
+              )
+            }
+
+            if (!verifyRosterPassword(record, password)) {
+              return jsonResponse(
+                { reason: 'password-invalid', message: 'Password does not match.' },
+                { status: 401 },
+              )
+            }
+          }
+
+          const user = toAuthUser(record)
+          return jsonResponse(
+            { user },
+            {
+              headers: {
+                'Set-Cookie': await createSessionCookie(request, user.alias),
+              },
+            },
+          )
+        } catch (error) {
+          console.error('Failed to sign in', error)
+          return jsonResponse({ message: 'Failed to sign in.' }, { status: 500 })
+        }
+      },
+      DELETE: async ({ request }: { request: Request }) => {
+        return jsonResponse(
+          { user: null },
+          {
+            headers: {
+              'Set-Cookie': clearSessionCookie(request),
+            },
+          },
+        )
+      },
+    },
+  },
+})
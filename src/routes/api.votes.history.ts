@@ -0,0 +1,50 @@
+import { createFileRoute } from '@tanstack/react-router'
+
+import { isAdminUser } from '../server/authorization'
+import { getContestMatchHistory } from '../server/data-store'
+import {
+  clampLimit,
+  DEFAULT_HISTORY_PAGE_SIZE,
+  MAX_HISTORY_PAGE_SIZE,
+  paginateHistory,
+} from '../server/vote-history-view'
+import { resolveRequestVoter } from '../server/voter-identity'
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    ...init,
+  })
+}
+
+export const Route = createFileRoute('/api/votes/history')({
+  server: {
+    handlers: {
+      GET: async ({ request }: { request: Request }) => {
+        try {
+          const url = new URL(request.url)
+          const contestId = url.searchParams.get('contestId') ?? undefined
+          // Pages run past the live window into matches the contest's retention policy archived.
+          const [history, voter] = await Promise.all([
+            getContestMatchHistory(contestId),
+            resolveRequestVoter(request),
+          ])
+
+          const page = paginateHistory(history, {
+            cursor: url.searchParams.get('cursor'),
+            limit: clampLimit(url.searchParams.get('limit'), DEFAULT_HISTORY_PAGE_SIZE, MAX_HISTORY_PAGE_SIZE),
+            viewer: { voterHash: voter?.voterHash ?? null, isAdmin: isAdminUser(voter?.user) },
+          })
+          return jsonResponse(page)
+        } catch (error) {
+          console.error('Failed to load vote history', error)
+          const message = error instanceof Error ? error.message : 'Failed to load vote history.'
+          return jsonResponse({ message }, { status: 400 })
+        }
+      },
+    },
+  },
+})
@@ -1,12 +1,30 @@
 import { createFileRoute } from '@tanstack/react-router'
 
-import { getEloState, recordVote } from '../server/data-store'
+import { DuplicateVoteError, getEloState, recordVote } from '../server/data-store'
+import { isAdminUser, requireUser } from '../server/authorization'
+import { ensureContest, getActiveContestId } from '../server/contest-store'
+import {
+  checkVoteRateLimit,
+  detectVoteAnomalies,
+  flagVoteAnomalies,
+  resolveClientIp,
+} from '../server/vote-guard'
+import {
+  buildCompactVoteState,
+  clampLimit,
+  decodeDeltaCursor,
+  DEFAULT_RECENT_MATCHES,
+  MAX_RECENT_MATCHES,
+} from '../server/vote-history-view'
+import { deriveLegacyVoterHash, deriveVoterHash, resolveRequestVoter } from '../server/voter-identity'
 
 interface VotePayload {
   winnerId: string
   loserId: string
-  voterHash?: string | null
   contestId?: string | null
+  /** Artwork versions the voter was shown. */
+  winnerVersion?: number | null
+  loserVersion?: number | null
 }
 
 function jsonResponse(body: unknown, init?: ResponseInit) {
@@ -25,10 +43,34 @@ export const Route = createFileRoute('/api/votes')({
       GET: async ({ request }: { request: Request }) => {
         const url = new URL(request.url)
         const contestId = url.searchParams.get('contestId') ?? undefined
+        const since = url.searchParams.get('since')
+        try {
+          decodeDeltaCursor(since)
+        } catch {
+          return jsonResponse(
+            { message: 'since must be a `<timestamp>.<count>` cursor or a millisecond timestamp.' },
+            { status: 400 },
+          )
+        }
+
         const state = await getEloState(contestId ?? undefined)
-        return jsonResponse({ state })
+        const voter = await resolveRequestVoter(request)
+        const viewerVoterHash = voter?.voterHash ?? null
+        return jsonResponse({
+          ...buildCompactVoteState(state, {
+            viewer: { voterHash: viewerVoterHash, isAdmin: isAdminUser(voter?.user) },
+            since,
+            recent: clampLimit(url.searchParams.get('recent'), DEFAULT_RECENT_MATCHES, MAX_RECENT_MATCHES),
+          }),
+          viewerVoterHash,
+        })
       },
       POST: async ({ request }: { request: Request }) => {
+        const auth = await requireUser(request)
+        if (auth.response) {
+          return auth.response
+        }
+
         try {
           const payload = (await request.json()) as VotePayload
           if (!payload?.winnerId || !payload?.loserId) {
@@ -39,16 +81,67 @@ export const Route = createFileRoute('/api/votes')({
           }
 
           const url = new URL(request.url)
-          const contestId = payload.contestId ?? url.searchParams.get('contestId') ?? undefined
+          const requestedContestId = payload.contestId ?? url.searchParams.get('contestId') ?? undefined
+          const contestId = requestedContestId
+            ? (await ensureContest(requestedContestId)).id
+            : await getActiveContestId()
 
-          const state = await recordVote(
-            payload.winnerId,
-            payload.loserId,
-            payload.voterHash ?? null,
-            contestId ?? undefined,
-          )
-          return jsonResponse({ state })
+          // Any client-supplied voterHash is ignored; identity always comes from the session.
+          const voterHash = await deriveVoterHash(auth.user.alias)
+          // Votes cast before the move to server-side hashes carry this one instead.
+          const legacyVoterHash = deriveLegacyVoterHash(auth.user.alias)
+          const ip = resolveClientIp(request)
+
+          const limit = checkVoteRateLimit({ voterHash, ip })
+          if (!limit.allowed) {
+            await flagVoteAnomalies({
+              contestId,
+              voterHash,
+              ip,
+              anomalies: [
+                {
+                  kind: 'rate-limited',
+                  message: `Exceeded ${limit.limit} votes per window (${limit.scope}).`,
+                  details: { scope: limit.scope, limit: limit.limit },
+                },
+              ],
+            })
+            return jsonResponse(
+              { error: 'rate-limited', message: 'Too many votes. Slow down and try again shortly.' },
+              {
+                status: 429,
+                headers: {
+                  'Content-Type': 'application/json',
+                  'Cache-Control': 'no-store',
+                  'Retry-After': String(limit.retryAfterSeconds),
+                },
+              },
+            )
+          }
+
+          const state = await recordVote(payload.winnerId, payload.loserId, voterHash, contestId, {
+            winnerVersion: payload.winnerVersion,
+            loserVersion: payload.loserVersion,
+            legacyVoterHashes: legacyVoterHash ? [legacyVoterHash] : [],
+          })
+          await flagVoteAnomalies({
+            contestId,
+            voterHash,
+            ip,
+            anomalies: detectVoteAnomalies(state.history, voterHash),
+          })
+          // Only the voter's own match comes back; other votes arrive over the contest stream.
+          return jsonResponse({
+            ...buildCompactVoteState(state, {
+              viewer: { voterHash, isAdmin: isAdminUser(auth.user) },
+              recent: 1,
+            }),
+            viewerVoterHash: voterHash,
+          })
         } catch (error) {
+          if (error instanceof DuplicateVoteError) {
+            return jsonResponse({ error: 'duplicate-vote', message: error.message }, { status: 409 })
+          }
           console.error('Failed to record vote', error)
           const message = error instanceof Error ? error.message : 'Failed to process vote.'
           return jsonResponse({ message }, { status: 400 })
@@ -1,5 +1,5 @@
 import { createFileRoute, Link, notFound } from '@tanstack/react-router'
-import { useMemo, type ReactNode } from 'react'
+import { useEffect, useMemo, useState, type ReactNode } from 'react'
 
 import type {
   ChampionInsights,
@@ -7,6 +7,14 @@ import type {
   ChampionWinStreak,
   ContestWithMetrics,
 } from '../lib/contest-utils'
+import {
+  describeHeadToHeadCoverage,
+  getHeadToHeadRecord,
+  SPARSE_PAIR_MATCHES,
+  type HeadToHeadMatrix,
+} from '../lib/head-to-head'
+import { formatRatingInterval, type ChampionSignificance } from '../lib/rating-confidence'
+import { describeRatingSettings, formatRatingWithUncertainty } from '../lib/rating-engines'
 
 type ContestRecap = ContestWithMetrics & { isActive: boolean }
 
@@ -84,6 +92,10 @@ function ContestRecapPage() {
   const topFive = useMemo(() => contest.leaderboard.slice(0, 5), [contest.leaderboard])
   const champion = topFive[0] ?? null
   const championInsights = contest.championInsights ?? null
+  const championSignificance = contest.championSignificance ?? null
+  const runnerUp = championSignificance
+    ? contest.leaderboard.find((entry) => entry.logoId === championSignificance.runnerUpId) ?? null
+    : null
   const hasLiveVoting = contest.votingOpen
 
   const statusVariant = hasLiveVoting
@@ -137,10 +149,11 @@ function ContestRecapPage() {
         {contest.description && (
           <p className="max-w-3xl text-white/70">{contest.description}</p>
         )}
-        <div className="grid gap-4 text-xs uppercase tracking-[0.3em] text-white/50 sm:grid-cols-3">
+        <div className="grid gap-4 text-xs uppercase tracking-[0.3em] text-white/50 sm:grid-cols-4">
           <ScheduleStat label="Run window" value={rangeLabel} />
           <ScheduleStat label="Finalized" value={endedLabel} />
           <ScheduleStat label="Match volume" value={`${contest.matchCount.toLocaleString()} battles`} />
+          <ScheduleStat label="Rating engine" value={describeRatingSettings(contest.rating)} />
         </div>
       </header>
 
@@ -167,11 +180,20 @@ function ContestRecapPage() {
                   <p className="text-xs uppercase tracking-[0.3em] text-white/40">{champion.logoCodename}</p>
                 </div>
                 <dl className="grid gap-4 text-sm text-white/80 sm:grid-cols-2">
-                  <Stat label="Final rating" value={Math.round(champion.rating).toLocaleString()} />
+                  <Stat
+                    label="Final rating"
+                    value={formatRatingWithUncertainty(champion.rating, champion.deviation)}
+                  />
                   <Stat label="Total matches" value={champion.matches.toLocaleString()} />
                   <Stat label="Wins" value={champion.wins.toLocaleString()} />
                   <Stat label="Losses" value={champion.losses.toLocaleString()} />
                 </dl>
+                {championSignificance && champion.logoId === championSignificance.leaderId && (
+                  <ChampionSignificanceCard
+                    significance={championSignificance}
+                    runnerUpName={runnerUp?.logoName ?? 'the runner-up'}
+                  />
+                )}
                 {championInsights && (
                   <ChampionInsightsCard insights={championInsights} />
                 )}
@@ -260,7 +282,8 @@ function ContestRecapPage() {
                       <p className="text-xs uppercase tracking-[0.3em] text-white/40">{entry.logoCodename}</p>
                     </div>
                     <div className="flex flex-wrap gap-3 text-xs text-white/60">
-                      <span>{Math.round(entry.rating)} ELO</span>
+                      <span>{formatRatingWithUncertainty(entry.rating, entry.deviation)} pts</span>
+                      {entry.interval && <span>95% CI {formatRatingInterval(entry.interval)}</span>}
                       <span>
                         {entry.wins}W · {entry.losses}L
                       </span>
@@ -284,6 +307,7 @@ function ContestRecapPage() {
                   <th className="px-5 py-3 text-left font-semibold">Rank</th>
                   <th className="px-5 py-3 text-left font-semibold">Logo</th>
                   <th className="px-5 py-3 text-left font-semibold">Rating</th>
+                  <th className="px-5 py-3 text-left font-semibold">95% CI</th>
                   <th className="px-5 py-3 text-left font-semibold">Matches</th>
                   <th className="px-5 py-3 text-left font-semibold">Wins</th>
                   <th className="px-5 py-3 text-left font-semibold">Losses</th>
@@ -310,7 +334,10 @@ function ContestRecapPage() {
                         </div>
                       </div>
                     </td>
-                    <td className="px-5 py-4 text-white">{Math.round(entry.rating)}</td>
+                    <td className="px-5 py-4 text-white">
+                      {formatRatingWithUncertainty(entry.rating, entry.deviation)}
+                    </td>
+                    <td className="px-5 py-4 text-white/60">{formatRatingInterval(entry.interval) ?? '—'}</td>
                     <td className="px-5 py-4">{entry.matches}</td>
                     <td className="px-5 py-4 text-emerald-300">{entry.wins}</td>
                     <td className="px-5 py-4 text-rose-300">{entry.losses}</td>
@@ -322,6 +349,8 @@ function ContestRecapPage() {
         </section>
       )}
 
+      {contest.leaderboard.length > 1 && <HeadToHeadSection contestId={contest.id} />}
+
       {!contest.isActive && (
         <section className="rounded-3xl border border-white/10 bg-white/5 p-8 text-center text-sm text-white/60">
           Looking for the next bracket? Keep an eye on the{' '}
@@ -338,6 +367,177 @@ function ContestRecapPage() {
   )
 }
 
+async function fetchHeadToHead(contestId: string): Promise<HeadToHeadMatrix> {
+  const response = await fetch(`/api/contests/${encodeURIComponent(contestId)}/head-to-head`, {
+    headers: {
+      Accept: 'application/json',
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error('Failed to load head-to-head results.')
+  }
+
+  return (await response.json()) as HeadToHeadMatrix
+}
+
+function HeadToHeadSection({ contestId }: { contestId: string }) {
+  const [matrix, setMatrix] = useState<HeadToHeadMatrix | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<{ row: number; column: number } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setMatrix(null)
+    setError(null)
+    setSelected(null)
+    fetchHeadToHead(contestId)
+      .then((data) => {
+        if (!cancelled) setMatrix(data)
+      })
+      .catch((reason) => {
+        if (!cancelled) {
+          setError(reason instanceof Error ? reason.message : 'Failed to load head-to-head results.')
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [contestId])
+
+  const selection = matrix && selected ? describeHeadToHeadSelection(matrix, selected.row, selected.column) : null
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Head-to-head</h2>
+          <p className="text-sm text-white/60">
+            Each cell is the row logo&apos;s record against the column logo. Rows and columns follow the leaderboard.
+          </p>
+        </div>
+        {matrix && <HeadToHeadCoverageBadge matrix={matrix} />}
+      </div>
+
+      {error ? (
+        <p className="rounded-3xl border border-rose-300/40 bg-rose-500/10 p-6 text-sm text-rose-100">{error}</p>
+      ) : !matrix ? (
+        <p className="rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-white/60">
+          Loading head-to-head results…
+        </p>
+      ) : (
+        <div className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6">
+          <div className="overflow-x-auto">
+            <table
+              className="border-separate border-spacing-1 text-xs text-white/80"
+              onMouseLeave={() => setSelected(null)}
+            >
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-slate-950/80" />
+                  {matrix.logos.map((logo, column) => (
+                    <th key={logo.logoId} scope="col" className="p-0">
+                      <img
+                        src={logo.logoImage}
+                        alt={logo.logoName}
+                        title={logo.logoName}
+                        className={`mx-auto h-8 w-8 rounded-full border bg-slate-950/60 object-contain ${selected?.column === column ? 'border-cyan-300' : 'border-white/10'}`}
+                        loading="lazy"
+                        decoding="async"
+                      />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.logos.map((logo, row) => (
+                  <tr key={logo.logoId}>
+                    <th
+                      scope="row"
+                      className={`sticky left-0 max-w-[10rem] truncate bg-slate-950/80 px-2 text-left font-semibold ${selected?.row === row ? 'text-cyan-200' : 'text-white/80'}`}
+                    >
+                      {logo.logoName}
+                    </th>
+                    {matrix.logos.map((opponent, column) => {
+                      if (row === column) {
+                        return <td key={opponent.logoId} className="h-8 w-8 rounded bg-slate-950/60" aria-hidden />
+                      }
+                      const record = getHeadToHeadRecord(matrix, row, column)
+                      const active = selected?.row === row && selected.column === column
+                      return (
+                        <td key={opponent.logoId} className="p-0">
+                          <button
+                            type="button"
+                            onMouseEnter={() => setSelected({ row, column })}
+                            onFocus={() => setSelected({ row, column })}
+                            onClick={() => setSelected({ row, column })}
+                            aria-label={`${logo.logoName} vs ${opponent.logoName}: ${record.wins} wins, ${record.losses} losses`}
+                            className={`h-8 w-8 rounded text-[0.65rem] font-semibold text-white transition ${active ? 'ring-2 ring-cyan-300' : ''} ${record.matches === 0 ? 'border border-dashed border-white/15' : ''}`}
+                            style={{ backgroundColor: headToHeadCellColor(record.winRate, record.matches) }}
+                          >
+                            {record.matches > 0 ? record.wins : ''}
+                          </button>
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="min-h-[1.25rem] text-sm text-white/70" aria-live="polite">
+            {selection ?? 'Hover or focus a cell to see the pairing.'}
+          </p>
+        </div>
+      )}
+    </section>
+  )
+}
+
+function HeadToHeadCoverageBadge({ matrix }: { matrix: HeadToHeadMatrix }) {
+  const { coverage } = matrix
+  const complete = coverage.uncomparedPairs === 0 && coverage.sparsePairs === 0
+  return (
+    <div
+      className={`max-w-md rounded-2xl border p-4 text-sm ${complete ? 'border-emerald-300/40 bg-emerald-400/10 text-emerald-100' : 'border-amber-300/40 bg-amber-400/10 text-amber-100'}`}
+    >
+      <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+        Pair coverage {coverage.comparedPairs}/{coverage.totalPairs}
+      </p>
+      <p className="mt-1">{describeHeadToHeadCoverage(coverage)}</p>
+    </div>
+  )
+}
+
+function describeHeadToHeadSelection(matrix: HeadToHeadMatrix, row: number, column: number): string {
+  const logo = matrix.logos[row]
+  const opponent = matrix.logos[column]
+  if (!logo || !opponent) {
+    return ''
+  }
+  const record = getHeadToHeadRecord(matrix, row, column)
+  if (record.matches === 0) {
+    return `${logo.logoName} and ${opponent.logoName} have never met.`
+  }
+  const percentage = Math.round((record.winRate ?? 0) * 100)
+  const sparse = record.matches < SPARSE_PAIR_MATCHES ? ' Too few matches to read much into.' : ''
+  return `${logo.logoName} ${record.wins}–${record.losses} ${opponent.logoName} (${percentage}% over ${record.matches} ${pluralize('match', record.matches)}).${sparse}`
+}
+
+/** Emerald for winning records, rose for losing ones; fainter when the pair has few matches. */
+function headToHeadCellColor(winRate: number | null, matches: number): string {
+  if (winRate === null) {
+    return 'transparent'
+  }
+  const strength = Math.abs(winRate - 0.5) * 2
+  const weight = Math.min(1, matches / (SPARSE_PAIR_MATCHES * 2))
+  const alpha = (0.15 + 0.65 * strength) * (0.4 + 0.6 * weight)
+  if (winRate === 0.5) {
+    return `rgba(148, 163, 184, ${(0.25 * (0.4 + 0.6 * weight)).toFixed(3)})`
+  }
+  return winRate > 0.5 ? `rgba(52, 211, 153, ${alpha.toFixed(3)})` : `rgba(244, 63, 94, ${alpha.toFixed(3)})`
+}
+
 function Stat({ label, value }: { label: string; value: string }) {
   return (
     <div className="flex flex-col gap-1">
@@ -356,6 +556,32 @@ function ScheduleStat({ label, value }: { label: string; value: string }) {
   )
 }
 
+function ChampionSignificanceCard({
+  significance,
+  runnerUpName,
+}: {
+  significance: ChampionSignificance
+  runnerUpName: string
+}) {
+  const percentage = Math.round(significance.probabilityAhead * 100)
+  const confidence = Math.round(significance.confidenceLevel * 100)
+
+  return (
+    <div
+      className={`space-y-2 rounded-2xl border p-5 ${significance.significant ? 'border-emerald-300/40 bg-emerald-400/10' : 'border-amber-300/40 bg-amber-400/10'}`}
+    >
+      <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+        {significance.significant ? 'Clear winner' : 'Statistical tie'}
+      </p>
+      <p className="text-sm text-white/80">
+        {significance.significant
+          ? `Ahead of ${runnerUpName} in ${percentage}% of ${significance.samples} bootstrap resamples, above the ${confidence}% threshold.`
+          : `Ahead of ${runnerUpName} in only ${percentage}% of ${significance.samples} bootstrap resamples, so the lead is not significant at ${confidence}%.`}
+      </p>
+    </div>
+  )
+}
+
 function ChampionInsightsCard({ insights }: { insights: ChampionInsights }) {
   const { longestWinStreak, undefeatedOpponents, nemesis } = insights
 
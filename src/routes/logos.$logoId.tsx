@@ -2,6 +2,13 @@ import { createFileRoute, notFound } from '@tanstack/react-router'
 import { useEffect, useMemo, useState } from 'react'
 
 import { logoCatalog } from '../data/logo-catalog'
+import {
+  getLogoImageSources,
+  getLogoRevisionImage,
+  getLogoVersion,
+  type LogoEntry,
+  type LogoRevision,
+} from '../lib/logo-utils'
 import { useFavorites } from '../state/FavoritesContext'
 import { useElo } from '../state/EloContext'
 import { useLogoLibrary } from '../state/LogoLibraryContext'
@@ -82,6 +89,11 @@ function LogoDetail() {
   const [attemptedRefresh, setAttemptedRefresh] = useState(false)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [refreshError, setRefreshError] = useState<string | null>(null)
+  const [previewVersion, setPreviewVersion] = useState<number | null>(null)
+
+  useEffect(() => {
+    setPreviewVersion(null)
+  }, [logo?.id, logo?.version])
 
   useEffect(() => {
     if (logo || logosLoading || isRefreshing || attemptedRefresh) {
@@ -155,6 +167,13 @@ function LogoDetail() {
     throw notFound()
   }
 
+  const currentVersion = getLogoVersion(logo)
+  const previewRevision =
+    previewVersion !== null && previewVersion !== currentVersion
+      ? logo.revisions?.find((revision) => revision.version === previewVersion)
+      : undefined
+  const displayedImage = previewRevision ? getLogoRevisionImage(logo, previewRevision) : logo
+
   const entry = ratings[logo.id]
   const ranking = rankings.find((item) => item.logo.id === logo.id)
   const shareUrl = useMemo(() => {
@@ -190,7 +209,7 @@ function LogoDetail() {
               {isFavorite(logo.id) ? 'Saved to favorites' : 'Add to favorites'}
             </button>
             <a
-              href={logo.image}
+              href={displayedImage.image}
               download
               className="rounded-full border border-white/20 px-5 py-3 text-sm font-semibold text-white transition hover:border-cyan-300 hover:text-cyan-200"
             >
@@ -228,15 +247,37 @@ function LogoDetail() {
         <div className="overflow-hidden rounded-2xl border border-white/10 bg-slate-900/60 shadow-2xl">
           <div className="flex max-h-[32rem] w-full items-center justify-center bg-slate-950/40 p-6">
             <img
-              src={logo.image}
-              alt={logo.name}
+              src={displayedImage.image}
+              alt={previewRevision ? `${logo.name}, version ${previewRevision.version}` : logo.name}
               className="max-h-full max-w-full object-contain"
               loading="lazy"
             />
           </div>
+          {previewRevision && (
+            <div className="flex items-center justify-between gap-3 border-t border-white/10 px-6 py-3 text-xs text-amber-100/80">
+              <span>Showing version {previewRevision.version}, replaced since.</span>
+              <button
+                type="button"
+                onClick={() => setPreviewVersion(null)}
+                className="font-semibold text-cyan-100 transition hover:text-cyan-50"
+              >
+                Show current
+              </button>
+            </div>
+          )}
         </div>
       </header>
 
+      {logo.revisions && logo.revisions.length > 1 && (
+        <ArtworkVersions
+          logo={logo}
+          revisions={logo.revisions}
+          currentVersion={currentVersion}
+          selectedVersion={previewRevision?.version ?? currentVersion}
+          onSelect={(version) => setPreviewVersion(version === currentVersion ? null : version)}
+        />
+      )}
+
       <div className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur">
         <h2 className="text-lg font-semibold text-white">Live performance</h2>
         <p className="text-sm text-white/70">
@@ -266,3 +307,69 @@ function LogoDetail() {
     </article>
   )
 }
+
+function ArtworkVersions({
+  logo,
+  revisions,
+  currentVersion,
+  selectedVersion,
+  onSelect,
+}: {
+  logo: LogoEntry
+  revisions: LogoRevision[]
+  currentVersion: number | null
+  selectedVersion: number | null
+  onSelect: (version: number) => void
+}) {
+  return (
+    <section className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur">
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold text-white">Artwork versions</h2>
+        <p className="text-sm text-white/70">
+          Ratings carry across versions. Votes record the version each voter was shown.
+        </p>
+      </div>
+      <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {revisions.map((revision) => {
+          const isSelected = revision.version === selectedVersion
+          return (
+            <li key={revision.version}>
+              <button
+                type="button"
+                onClick={() => onSelect(revision.version)}
+                aria-pressed={isSelected}
+                className={`flex w-full flex-col gap-3 rounded-2xl border p-4 text-left transition ${
+                  isSelected
+                    ? 'border-cyan-300/70 bg-cyan-300/10'
+                    : 'border-white/10 bg-slate-950/40 hover:border-cyan-200/40'
+                }`}
+              >
+                <div className="flex h-24 items-center justify-center">
+                  <img
+                    {...getLogoImageSources(getLogoRevisionImage(logo, revision), '96px')}
+                    alt={`${logo.name}, version ${revision.version}`}
+                    className="max-h-full max-w-full object-contain"
+                    loading="lazy"
+                    decoding="async"
+                  />
+                </div>
+                <div className="space-y-1 text-xs text-white/60">
+                  <p className="flex items-center gap-2 text-sm font-semibold text-white">
+                    Version {revision.version}
+                    {revision.version === currentVersion && (
+                      <span className="rounded-full border border-cyan-300/50 px-2 py-0.5 text-[10px] uppercase tracking-[0.2em] text-cyan-100">
+                        Current
+                      </span>
+                    )}
+                  </p>
+                  <p>{new Date(revision.createdAt).toLocaleString()}</p>
+                  {revision.createdBy && <p>by {revision.createdBy}</p>}
+                </div>
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
@@ -4,7 +4,8 @@ import { FormEvent, useEffect, useMemo, useState } from "react";
 import { useAuth } from "../state/AuthContext";
 import {
   type LogoEntry,
-  type SubmitLogoInput,
+  type LogoUploadInput,
+  type LogoUploadOptions,
   type UpdateLogoInput,
   useLogoLibrary,
 } from "../state/LogoLibraryContext";
@@ -20,6 +21,7 @@ function MyLogosPage() {
   const {
     allLogos,
     submitLogo,
+    replaceLogoImage,
     getLogosSubmittedBy,
     getLogosOwnedBy,
     assignOwner,
@@ -28,6 +30,7 @@ function MyLogosPage() {
   } = useLogoLibrary();
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [nameInput, setNameInput] = useState("");
   const [ownerInput, setOwnerInput] = useState("");
   const [imageFile, setImageFile] = useState<File | null>(null);
@@ -105,16 +108,15 @@ function MyLogosPage() {
     try {
       const form = event.currentTarget;
       const formData = new FormData(form);
-      const imageDataUrl = await readFileAsDataUrl(imageFile);
 
       const name = String(formData.get("name") ?? "").trim();
       const description = String(formData.get("description") ?? "").trim();
       const ownerAlias = resolveOwnerAlias(ownerInput, user.alias, isAdmin);
 
-      const basePayload: SubmitLogoInput = {
+      const basePayload: LogoUploadInput = {
         name,
         description: description.length > 0 ? description : undefined,
-        image: imageDataUrl,
+        file: imageFile,
         submittedBy: user.email,
         ownerAlias,
       };
@@ -125,7 +127,8 @@ function MyLogosPage() {
         return;
       }
 
-      await submitLogo(basePayload);
+      setUploadProgress(0);
+      await submitLogo(basePayload, { onProgress: setUploadProgress });
       form.reset();
       setNameInput("");
       setImageFile(null);
@@ -137,10 +140,13 @@ function MyLogosPage() {
     } catch (error) {
       console.error("Failed to submit logo", error);
       setStatusMessage(
-        "Something went wrong. Try again or contact the CES3 design council."
+        error instanceof Error && error.message
+          ? error.message
+          : "Something went wrong. Try again or contact the CES3 design council."
       );
     } finally {
       setIsSubmitting(false);
+      setUploadProgress(null);
     }
   };
 
@@ -214,7 +220,7 @@ function MyLogosPage() {
             <input
               name="image"
               type="file"
-              accept="image/*"
+              accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml"
               required
               onChange={(event) => {
                 const file = event.target.files?.[0] ?? null;
@@ -223,7 +229,8 @@ function MyLogosPage() {
               className="rounded-full border border-white/20 bg-slate-950/60 px-4 py-2 text-white outline-none transition focus:border-cyan-300 focus:ring-2 focus:ring-cyan-300/40"
             />
             <span className="text-xs text-white/40">
-              Upload any image format (SVG, PNG, JPG). Files stay local for now.
+              SVG, PNG, JPG, GIF or WebP, at least 32&nbsp;px on each side.
+              Animated images are not accepted.
             </span>
           </label>
           <label className="flex flex-col gap-2 text-sm text-white/70">
@@ -249,6 +256,12 @@ function MyLogosPage() {
           >
             {isSubmitting ? "Uploading…" : "Submit logo"}
           </button>
+          {uploadProgress !== null && (
+            <UploadProgressBar
+              progress={uploadProgress}
+              label="Uploading logo"
+            />
+          )}
         </form>
         <div className="space-y-6">
           {latestSubmission ? (
@@ -359,6 +372,7 @@ function MyLogosPage() {
                 key={logo.id}
                 logo={logo}
                 onUpdate={updateLogoDetails}
+                onReplaceImage={replaceLogoImage}
               />
             ))}
           </div>
@@ -428,18 +442,57 @@ function MyLogosPage() {
   );
 }
 
+function UploadProgressBar({
+  progress,
+  label,
+}: {
+  progress: number;
+  label: string;
+}) {
+  const percentage = Math.round(Math.min(1, Math.max(0, progress)) * 100);
+  return (
+    <div className="space-y-1">
+      <div
+        role="progressbar"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percentage}
+        className="h-2 overflow-hidden rounded-full bg-white/10"
+      >
+        <div
+          className="h-full rounded-full bg-cyan-300 transition-[width] duration-150"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+      <p className="text-xs text-white/50">
+        {percentage < 100
+          ? `${label}… ${percentage}%`
+          : "Processing image…"}
+      </p>
+    </div>
+  );
+}
+
 function EditableSubmittedLogo({
   logo,
   onUpdate,
+  onReplaceImage,
 }: {
   logo: LogoEntry;
   onUpdate: (id: string, updates: UpdateLogoInput) => Promise<LogoEntry>;
+  onReplaceImage: (
+    id: string,
+    file: File,
+    options?: LogoUploadOptions
+  ) => Promise<LogoEntry>;
 }) {
   const [name, setName] = useState<string>(logo.name);
   const [description, setDescription] = useState<string>(logo.description ?? "");
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [replaceProgress, setReplaceProgress] = useState<number | null>(null);
 
   useEffect(() => {
     setName(logo.name);
@@ -499,6 +552,26 @@ function EditableSubmittedLogo({
     }
   };
 
+  const handleReplaceImage = async (file: File) => {
+    setStatus(null);
+    setError(null);
+    setReplaceProgress(0);
+    try {
+      await onReplaceImage(logo.id, file, { onProgress: setReplaceProgress });
+      setStatus("New artwork version uploaded");
+      setTimeout(() => setStatus(null), 4000);
+    } catch (replaceError) {
+      console.error("Failed to replace logo artwork", replaceError);
+      setError(
+        replaceError instanceof Error
+          ? replaceError.message
+          : "Failed to replace artwork."
+      );
+    } finally {
+      setReplaceProgress(null);
+    }
+  };
+
   const handleReset = () => {
     setName(logo.name);
     setDescription(logo.description ?? "");
@@ -591,7 +664,33 @@ function EditableSubmittedLogo({
           >
             Reset
           </button>
+          <label
+            className={`rounded-full border border-white/20 px-5 py-2 text-sm font-semibold text-white transition hover:border-cyan-300 hover:text-cyan-200 ${
+              replaceProgress !== null ? "cursor-wait opacity-60" : "cursor-pointer"
+            }`}
+          >
+            {replaceProgress !== null ? "Uploading…" : "Upload new version"}
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml"
+              disabled={replaceProgress !== null}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) {
+                  void handleReplaceImage(file);
+                }
+              }}
+              className="sr-only"
+            />
+          </label>
         </div>
+        {replaceProgress !== null && (
+          <UploadProgressBar
+            progress={replaceProgress}
+            label="Uploading artwork"
+          />
+        )}
         {status && <p className="text-xs text-cyan-200/80">{status}</p>}
         {error && <p className="text-xs text-rose-300/80">{error}</p>}
       </div>
@@ -712,22 +811,6 @@ function OwnedLogoRow({
   );
 }
 
-async function readFileAsDataUrl(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (typeof reader.result === "string") {
-        resolve(reader.result);
-      } else {
-        reject(new Error("Failed to parse file"));
-      }
-    };
-    reader.onerror = () =>
-      reject(reader.error ?? new Error("Failed to read file"));
-    reader.readAsDataURL(file);
-  });
-}
-
 function resolveOwnerAlias(
   input: string,
   fallback: string,
@@ -1,50 +1,71 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
-import { useEffect, useMemo, useState } from 'react'
+import { useLayoutEffect, useMemo, useRef, useState } from 'react'
 
 import { useElo } from '../state/EloContext'
 import { useLogoLibrary } from '../state/LogoLibraryContext'
 import { useAuth } from '../state/AuthContext'
 import { SignInPrompt } from '../components/AuthPrompts'
-import { hashAliasForVoting } from '../lib/auth-utils'
 import { calculateTotalMatches } from '../lib/elo-engine'
+import { formatRatingInterval } from '../lib/rating-confidence'
+import { describeRatingSettings, formatRatingWithUncertainty } from '../lib/rating-engines'
 import { useContest } from '../state/ContestContext'
 
 export const Route = createFileRoute('/scores')({
   component: ScoresPage,
 })
 
-function ScoresPage() {
-  const { user, isAuthenticated, loading } = useAuth()
-  const { rankings, recentHistory, ratings } = useElo()
-  const { logos } = useLogoLibrary()
-  const { liveContest, activeContest } = useContest()
-  const [myVoteHash, setMyVoteHash] = useState<string | null>(null)
+const RECENT_PAGE_SIZE = 10
 
-  useEffect(() => {
-    let cancelled = false
-    async function computeHash() {
-      if (!user?.alias) {
-        setMyVoteHash(null)
+/**
+ * Slides table rows from their previous position when live votes reorder the rankings
+ * (FLIP: measure, invert with a transform, then transition back to zero).
+ */
+function useRowReorderAnimation(order: string[]) {
+  const rows = useRef(new Map<string, HTMLTableRowElement>())
+  const positions = useRef(new Map<string, number>())
+  const orderKey = order.join('|')
+
+  useLayoutEffect(() => {
+    const next = new Map<string, number>()
+    rows.current.forEach((row, id) => {
+      const top = row.getBoundingClientRect().top
+      next.set(id, top)
+      const previous = positions.current.get(id)
+      if (previous === undefined || previous === top) {
         return
       }
-      try {
-        const hash = await hashAliasForVoting(user.alias)
-        if (!cancelled) {
-          setMyVoteHash(hash || null)
-        }
-      } catch (error) {
-        console.error('Failed to hash voter identity', error)
-        if (!cancelled) {
-          setMyVoteHash(null)
-        }
-      }
-    }
-    computeHash()
-    return () => {
-      cancelled = true
+      row.style.transition = 'none'
+      row.style.transform = `translateY(${previous - top}px)`
+      requestAnimationFrame(() => {
+        row.style.transition = 'transform 600ms ease'
+        row.style.transform = ''
+      })
+    })
+    positions.current = next
+  }, [orderKey])
+
+  return (id: string) => (row: HTMLTableRowElement | null) => {
+    if (row) {
+      rows.current.set(id, row)
+    } else {
+      rows.current.delete(id)
     }
-  }, [user?.alias])
+  }
+}
 
+function ScoresPage() {
+  const { isAuthenticated, loading } = useAuth()
+  const {
+    rankings,
+    recentHistory,
+    ratings,
+    viewerVoterHash: myVoteHash,
+    liveRatingDeltas,
+    hasOlderMatches,
+    loadOlderMatches,
+  } = useElo()
+  const { logos } = useLogoLibrary()
+  const { liveContest, activeContest } = useContest()
   const totalMatches = useMemo(() => calculateTotalMatches(ratings), [ratings])
   const averageRating = useMemo(() => {
     const values = Object.values(ratings)
@@ -56,8 +77,30 @@ function ScoresPage() {
   }, [ratings])
 
   const logoLookup = useMemo(() => new Map(logos.map((logo) => [logo.id, logo])), [logos])
+  const intervalsByLogo = useMemo(
+    () => new Map((liveContest?.leaderboard ?? []).map((entry) => [entry.logoId, entry.interval])),
+    [liveContest],
+  )
+  const championSignificance =
+    liveContest?.championSignificance && liveContest.championSignificance.leaderId === rankings[0]?.logo.id
+      ? liveContest.championSignificance
+      : null
 
-  const recent = useMemo(() => recentHistory.slice(0, 10), [recentHistory])
+  const [visibleMatches, setVisibleMatches] = useState(RECENT_PAGE_SIZE)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const recent = useMemo(() => recentHistory.slice(0, visibleMatches), [recentHistory, visibleMatches])
+  const canShowOlder = recentHistory.length > visibleMatches || hasOlderMatches
+
+  const showOlderMatches = async () => {
+    const target = visibleMatches + RECENT_PAGE_SIZE
+    if (recentHistory.length < target && hasOlderMatches) {
+      setLoadingOlder(true)
+      await loadOlderMatches()
+      setLoadingOlder(false)
+    }
+    setVisibleMatches(target)
+  }
+  const rowRef = useRowReorderAnimation(rankings.map(({ logo }) => logo.id))
 
   if (!liveContest) {
     const fallbackTitle = activeContest?.title ?? 'recent contests'
@@ -102,10 +145,26 @@ function ScoresPage() {
         <p className="text-sm uppercase tracking-[0.3em] text-cyan-200/70">
           CES3 standings
         </p>
-        <h1 className="text-4xl font-semibold text-white">Live ELO scoreboard</h1>
+        <h1 className="flex items-center gap-3 text-4xl font-semibold text-white">
+          Live ELO scoreboard
+          <span className="flex items-center gap-2 rounded-full border border-emerald-300/30 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] text-emerald-200">
+            <span className="h-2 w-2 animate-pulse rounded-full bg-emerald-300" aria-hidden="true" />
+            Live
+          </span>
+        </h1>
         <p className="text-white/70">
           Every vote updates this board in real time. Share it before reviews or all-hands to highlight which marks are trending across the team.
         </p>
+        <p className="text-xs uppercase tracking-[0.3em] text-white/40">
+          Rating engine: {describeRatingSettings(liveContest.rating)} · ± shows one standard deviation of uncertainty
+        </p>
+        {championSignificance && (
+          <p className={`text-sm ${championSignificance.significant ? 'text-emerald-200' : 'text-amber-200'}`}>
+            {championSignificance.significant
+              ? `The leader is significantly ahead of #2 (ahead in ${Math.round(championSignificance.probabilityAhead * 100)}% of bootstrap resamples).`
+              : `The top two are statistically tied (leader ahead in ${Math.round(championSignificance.probabilityAhead * 100)}% of bootstrap resamples).`}
+          </p>
+        )}
         <div className="grid gap-6 md:grid-cols-3">
           <StatCard label="Total matchups" value={totalMatches.toLocaleString()} subtle="Since local tracking began" />
           <StatCard label="Average rating" value={averageRating.toLocaleString()} subtle="Baseline is 1500" />
@@ -122,35 +181,56 @@ function ScoresPage() {
                 <th className="px-6 py-4 text-left font-semibold">Rank</th>
                 <th className="px-6 py-4 text-left font-semibold">Logo</th>
                 <th className="px-6 py-4 text-left font-semibold">Rating</th>
+                <th className="px-6 py-4 text-left font-semibold">95% CI</th>
                 <th className="px-6 py-4 text-left font-semibold">Matches</th>
                 <th className="px-6 py-4 text-left font-semibold">Wins</th>
                 <th className="px-6 py-4 text-left font-semibold">Losses</th>
               </tr>
             </thead>
             <tbody>
-              {rankings.map(({ logo, entry, rank }) => (
-                <tr key={logo.id} className="border-white/5 odd:bg-slate-900/40">
-                  <td className="px-6 py-4 font-semibold text-cyan-200">#{rank}</td>
-                  <td className="px-6 py-4">
-                    <div className="flex items-center gap-3">
-                      <img
-                        src={logo.image}
-                        alt=""
-                        className="h-10 w-10 rounded-full border border-white/10 bg-slate-900/60 object-contain"
-                        loading="lazy"
-                      />
-                      <div>
-                        <p className="font-semibold text-white">{logo.name}</p>
-                        <p className="text-xs uppercase tracking-[0.3em] text-white/40">{logo.codename}</p>
+              {rankings.map(({ logo, entry, rank }) => {
+                const delta = liveRatingDeltas[logo.id]
+                const rounded = delta === undefined ? 0 : Math.round(delta)
+                return (
+                  <tr
+                    key={logo.id}
+                    ref={rowRef(logo.id)}
+                    className={`border-white/5 transition-colors duration-700 ${
+                      delta === undefined ? 'odd:bg-slate-900/40' : 'bg-cyan-400/10'
+                    }`}
+                  >
+                    <td className="px-6 py-4 font-semibold text-cyan-200">#{rank}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <img
+                          src={logo.image}
+                          alt=""
+                          className="h-10 w-10 rounded-full border border-white/10 bg-slate-900/60 object-contain"
+                          loading="lazy"
+                        />
+                        <div>
+                          <p className="font-semibold text-white">{logo.name}</p>
+                          <p className="text-xs uppercase tracking-[0.3em] text-white/40">{logo.codename}</p>
+                        </div>
                       </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 text-white">{Math.round(entry.rating)}</td>
-                  <td className="px-6 py-4">{entry.matches}</td>
-                  <td className="px-6 py-4 text-emerald-300">{entry.wins}</td>
-                  <td className="px-6 py-4 text-rose-300">{entry.losses}</td>
-                </tr>
-              ))}
+                    </td>
+                    <td className="px-6 py-4 text-white">
+                      {formatRatingWithUncertainty(entry.rating, entry.deviation)}
+                      {rounded !== 0 && (
+                        <span className={`ml-2 text-xs font-semibold ${rounded > 0 ? 'text-emerald-300' : 'text-rose-300'}`}>
+                          {rounded > 0 ? `+${rounded}` : rounded}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-white/60">
+                      {formatRatingInterval(intervalsByLogo.get(logo.id)) ?? '—'}
+                    </td>
+                    <td className="px-6 py-4">{entry.matches}</td>
+                    <td className="px-6 py-4 text-emerald-300">{entry.wins}</td>
+                    <td className="px-6 py-4 text-rose-300">{entry.losses}</td>
+                  </tr>
+                )
+              })}
             </tbody>
           </table>
           {rankings.length === 0 && (
@@ -202,6 +282,18 @@ function ScoresPage() {
             </p>
           )}
         </div>
+        {canShowOlder && (
+          <div className="flex justify-center">
+            <button
+              type="button"
+              onClick={() => void showOlderMatches()}
+              disabled={loadingOlder}
+              className="rounded-full border border-cyan-300/40 px-5 py-2 text-sm font-semibold text-cyan-200 transition hover:border-cyan-200 hover:text-cyan-100 disabled:opacity-50"
+            >
+              {loadingOlder ? 'Loading…' : 'Show older matchups'}
+            </button>
+          </div>
+        )}
       </section>
     </div>
   )
@@ -3,9 +3,9 @@ import { useCallback, useMemo, useState } from 'react'
 
 import { useElo } from '../state/EloContext'
 import { useAuth } from '../state/AuthContext'
-import { hashAliasForVoting } from '../lib/auth-utils'
 import { SignInPrompt } from '../components/AuthPrompts'
 import { calculateTotalMatches } from '../lib/elo-engine'
+import { getLogoImageSources } from '../lib/logo-utils'
 import { useContest } from '../state/ContestContext'
 
 export const Route = createFileRoute('/vote')({
@@ -13,8 +13,8 @@ export const Route = createFileRoute('/vote')({
 })
 
 function VotePage() {
-  const { user, isAuthenticated, loading } = useAuth()
-  const { currentMatchup, selectWinner, skipMatchup, ratings } = useElo()
+  const { isAuthenticated, loading } = useAuth()
+  const { currentMatchup, matchupsExhausted, selectWinner, skipMatchup, ratings } = useElo()
   const { liveContest, activeContest } = useContest()
   const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -25,22 +25,12 @@ function VotePage() {
       if (!currentMatchup) return
       setIsSubmitting(true)
       try {
-        let voterHash: string | null = null
-        if (user?.alias) {
-          try {
-            const hashed = await hashAliasForVoting(user.alias)
-            voterHash = hashed || null
-          } catch (error) {
-            console.error('Failed to hash voter identity', error)
-            voterHash = null
-          }
-        }
-        await selectWinner(winnerId, loserId, voterHash)
+        await selectWinner(winnerId, loserId)
       } finally {
         setIsSubmitting(false)
       }
     },
-    [currentMatchup, selectWinner, user],
+    [currentMatchup, selectWinner],
   )
 
   if (!liveContest) {
@@ -81,6 +71,27 @@ function VotePage() {
     )
   }
 
+  if (!currentMatchup && matchupsExhausted) {
+    return (
+      <div className="mx-auto max-w-3xl space-y-6 rounded-3xl border border-white/10 bg-white/5 p-12 text-center backdrop-blur">
+        <h1 className="text-3xl font-semibold text-white">
+          You&apos;ve judged every matchup.
+        </h1>
+        <p className="text-white/70">
+          Thanks for voting! New pairs open up as more logos join the contest. Check the standings to see where things landed.
+        </p>
+        <div className="flex justify-center pt-2">
+          <Link
+            to="/scores"
+            className="rounded-full border border-cyan-300/40 px-5 py-2 text-sm font-semibold text-cyan-200 transition hover:border-cyan-200 hover:text-cyan-100"
+          >
+            View standings
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
   if (!currentMatchup) {
     return (
       <div className="mx-auto max-w-3xl space-y-6 rounded-3xl border border-white/10 bg-white/5 p-12 text-center backdrop-blur">
@@ -131,10 +142,11 @@ function VotePage() {
             >
               <div className="relative flex h-48 w-full items-center justify-center bg-slate-950/40 sm:h-64">
                 <img
-                  src={logo.image}
+                  {...getLogoImageSources(logo, '(min-width: 640px) 16rem, 12rem')}
                   alt={logo.name}
                   className="max-h-full max-w-full object-contain"
                   loading="lazy"
+                  decoding="async"
                 />
               </div>
               <div className="flex flex-1 flex-col gap-3 p-6">
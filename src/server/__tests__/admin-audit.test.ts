@@ -0,0 +1,91 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+let logAdminAction: typeof import('../audit-log').logAdminAction
+let readAdminAuditEvents: typeof import('../audit-log').readAdminAuditEvents
+
+describe('admin audit log', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-admin-audit-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+    ;({ logAdminAction, readAdminAuditEvents } = await import('../audit-log'))
+  })
+
+  afterEach(async () => {
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('records the actor, snapshots and request metadata', async () => {
+    const request = new Request('http://localhost/api/logos/logo-1?contestId=test-contest', {
+      method: 'PATCH',
+      headers: { 'user-agent': 'vitest' },
+    })
+    Object.defineProperty(request, 'ip', { value: '203.0.113.7' })
+
+    await logAdminAction({
+      action: 'logo-owner-changed',
+      actor: 'alpha',
+      contestId: 'test-contest',
+      targetType: 'logo',
+      targetId: 'logo-1',
+      before: { ownerAlias: null },
+      after: { ownerAlias: 'bravo' },
+      request,
+    })
+
+    const raw = await readFile(path.join(dataDir, 'admin-events.ndjson'), 'utf-8')
+    expect(JSON.parse(raw.trim())).toMatchObject({
+      type: 'admin-action',
+      action: 'logo-owner-changed',
+      actor: 'alpha',
+      before: { ownerAlias: null },
+      after: { ownerAlias: 'bravo' },
+      request: { method: 'PATCH', path: '/api/logos/logo-1', ip: '203.0.113.7', userAgent: 'vitest' },
+    })
+  })
+
+  it('filters and pages newest first', async () => {
+    for (let index = 0; index < 5; index += 1) {
+      await logAdminAction({
+        action: index % 2 === 0 ? 'contest-updated' : 'logo-edited',
+        actor: index < 3 ? 'alpha' : 'Bravo',
+        contestId: 'test-contest',
+        targetType: index % 2 === 0 ? 'contest' : 'logo',
+        targetId: `target-${index}`,
+      })
+    }
+
+    const firstPage = await readAdminAuditEvents({ limit: 2 })
+    expect(firstPage.total).toBe(5)
+    expect(firstPage.hasMore).toBe(true)
+    expect(firstPage.events.map((event) => event.targetId)).toEqual(['target-4', 'target-3'])
+
+    const lastPage = await readAdminAuditEvents({ limit: 2, offset: 4 })
+    expect(lastPage.events.map((event) => event.targetId)).toEqual(['target-0'])
+    expect(lastPage.hasMore).toBe(false)
+
+    const contestUpdates = await readAdminAuditEvents({ action: 'contest-updated' })
+    expect(contestUpdates.events.map((event) => event.targetId)).toEqual(['target-4', 'target-2', 'target-0'])
+
+    const byActor = await readAdminAuditEvents({ actor: 'bravo' })
+    expect(byActor.events.map((event) => event.targetId)).toEqual(['target-4', 'target-3'])
+
+    expect((await readAdminAuditEvents({ until: '2000-01-01T00:00:00.000Z' })).total).toBe(0)
+  })
+
+  it('returns an empty page before anything has been logged', async () => {
+    expect(await readAdminAuditEvents()).toEqual({ events: [], total: 0, offset: 0, limit: 50, hasMore: false })
+  })
+})
@@ -0,0 +1,102 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { AuthUser } from '../../lib/auth-utils'
+
+let createSessionCookie: typeof import('../session').createSessionCookie
+let requireAdmin: typeof import('../authorization').requireAdmin
+let requireUser: typeof import('../authorization').requireUser
+let canEditLogo: typeof import('../authorization').canEditLogo
+
+async function requestAs(alias: string | null) {
+  if (!alias) {
+    return new Request('http://localhost/api/contests', { method: 'POST' })
+  }
+  const setCookie = await createSessionCookie(new Request('http://localhost/'), alias)
+  return new Request('http://localhost/api/contests', {
+    method: 'POST',
+    headers: { cookie: setCookie.split(';')[0] ?? '' },
+  })
+}
+
+const member: AuthUser = {
+  alias: 'bravo',
+  email: 'bravo@example.com',
+  name: 'Bravo',
+  role: 'member',
+  logos: [],
+  source: 'alias',
+  hasPassword: false,
+}
+
+describe('authorization', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+  let originalSecret: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-authz-'))
+    originalDataDir = process.env.DATA_DIR
+    originalSecret = process.env.SESSION_SECRET
+    process.env.DATA_DIR = dataDir
+    process.env.SESSION_SECRET = 'test-secret'
+
+    vi.resetModules()
+
+    await writeFile(
+      path.join(dataDir, 'allowed-users.json'),
+      `${JSON.stringify(
+        [
+          { alias: 'alpha', email: 'alpha@example.com', role: 'admin' },
+          { alias: 'bravo', email: 'bravo@example.com', role: 'member' },
+        ],
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+
+    ;({ createSessionCookie } = await import('../session'))
+    ;({ requireAdmin, requireUser, canEditLogo } = await import('../authorization'))
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    if (originalSecret === undefined) {
+      delete process.env.SESSION_SECRET
+    } else {
+      process.env.SESSION_SECRET = originalSecret
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('returns 401 without a session and 403 for members on admin routes', async () => {
+    const anonymous = await requireUser(await requestAs(null))
+    expect(anonymous.response?.status).toBe(401)
+    expect(await anonymous.response?.json()).toMatchObject({ error: 'unauthorized' })
+
+    const memberResult = await requireAdmin(await requestAs('bravo'))
+    expect(memberResult.response?.status).toBe(403)
+    expect(await memberResult.response?.json()).toMatchObject({ error: 'forbidden' })
+
+    const adminResult = await requireAdmin(await requestAs('alpha'))
+    expect(adminResult.response).toBeNull()
+    expect(adminResult.user).toMatchObject({ alias: 'alpha', role: 'admin' })
+  })
+
+  it('allows logo edits by owners, submitters and admins only', () => {
+    expect(canEditLogo(member, { ownerAlias: 'bravo', submittedBy: 'someone@example.com' })).toBe(true)
+    expect(canEditLogo(member, { ownerAlias: null, submittedBy: 'Bravo@example.com' })).toBe(true)
+    expect(canEditLogo(member, { ownerAlias: 'charlie', submittedBy: 'charlie@example.com' })).toBe(false)
+    expect(
+      canEditLogo({ ...member, alias: 'alpha', role: 'admin' }, { ownerAlias: 'charlie', submittedBy: undefined }),
+    ).toBe(true)
+  })
+})
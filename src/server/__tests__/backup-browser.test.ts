@@ -0,0 +1,118 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+const OLD_BACKUP = `${Date.parse('2024-01-01T00:00:00.000Z')}-aaaaaaaa.json`
+const NEW_BACKUP = `${Date.parse('2024-01-02T00:00:00.000Z')}-bbbbbbbb.json`
+
+function buildLogo(id: string, name: string) {
+  return {
+    id,
+    contestId: 'test-contest',
+    name,
+    codename: name.toLowerCase(),
+    description: null,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+function logosDocument(logos: ReturnType<typeof buildLogo>[]) {
+  return `${JSON.stringify({ version: 3, logos, updatedAt: ISO_NOW }, null, 2)}\n`
+}
+
+describe('backup browser', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-backup-browser-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      logosDocument([buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo')]),
+      'utf-8',
+    )
+    const backupDir = path.join(dataDir, 'backups', 'logos')
+    await mkdir(backupDir, { recursive: true })
+    await writeFile(path.join(backupDir, OLD_BACKUP), logosDocument([buildLogo('logo-1', 'Alpha Original')]), 'utf-8')
+    await writeFile(
+      path.join(backupDir, NEW_BACKUP),
+      logosDocument([buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo')]),
+      'utf-8',
+    )
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('lists backups per document, newest first', async () => {
+    const { listDocumentBackups } = await import('../backup-browser')
+    const documents = await listDocumentBackups()
+
+    expect(documents.map((entry) => entry.document)).toEqual(['contests', 'logos', 'votes'])
+    const logos = documents.find((entry) => entry.document === 'logos')!
+    expect(logos.backups.map((backup) => backup.fileName)).toEqual([NEW_BACKUP, OLD_BACKUP])
+    expect(logos.backups[1]?.createdAt).toBe(ISO_NOW)
+    expect(logos.backups[0]?.size).toBeGreaterThan(0)
+    expect(logos.liveSize).toBeGreaterThan(0)
+  })
+
+  it('previews what a restore would change against the live file', async () => {
+    const { previewBackup } = await import('../backup-browser')
+    const preview = await previewBackup('logos', OLD_BACKUP)
+
+    expect(preview.currentSummary).toBe('2 logos (0 removed)')
+    expect(preview.restoredSummary).toBe('1 logo (0 removed)')
+    expect(preview.changes).toEqual(
+      expect.arrayContaining([
+        { path: 'logos[logo-1].name', kind: 'changed', current: '"Alpha"', restored: '"Alpha Original"' },
+        { path: 'logos[logo-2]', kind: 'removed', current: '{13 fields}' },
+      ]),
+    )
+
+    const unchanged = await previewBackup('logos', NEW_BACKUP)
+    expect(unchanged.totalChanges).toBe(0)
+  })
+
+  it('restores a chosen backup after snapshotting the live file', async () => {
+    const { listDocumentBackups, restoreDocumentBackup } = await import('../backup-browser')
+    const liveBefore = await readFile(path.join(dataDir, 'logos.json'), 'utf-8')
+
+    const result = await restoreDocumentBackup('logos', OLD_BACKUP)
+
+    const live = JSON.parse(await readFile(path.join(dataDir, 'logos.json'), 'utf-8'))
+    expect(live.logos.map((logo: { name: string }) => logo.name)).toEqual(['Alpha Original'])
+    expect(result.safetyBackup).toBeTruthy()
+    const safety = await readFile(path.join(dataDir, 'backups', 'logos', result.safetyBackup!), 'utf-8')
+    expect(safety).toBe(liveBefore)
+
+    const logos = (await listDocumentBackups()).find((entry) => entry.document === 'logos')!
+    expect(logos.backups[0]?.fileName).toBe(result.safetyBackup)
+  })
+
+  it('rejects unknown or path-like backup names', async () => {
+    const { BackupNotFoundError, restoreDocumentBackup, previewBackup } = await import('../backup-browser')
+
+    await expect(previewBackup('logos', '../logos.json')).rejects.toBeInstanceOf(BackupNotFoundError)
+    await expect(restoreDocumentBackup('logos', '123-missing.json')).rejects.toBeInstanceOf(BackupNotFoundError)
+  })
+})
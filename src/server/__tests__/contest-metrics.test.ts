@@ -159,6 +159,17 @@ describe('getContestMetrics', () => {
     expect(metrics.championInsights).toBeNull()
   })
 
+  it('bootstraps confidence intervals off the request path', async () => {
+    // The first request only schedules the bootstrap; later ones get its result.
+    const first = await getContestMetrics('test-contest')
+    expect(first.leaderboard.every((entry) => entry.interval === null)).toBe(true)
+
+    await vi.waitFor(async () => {
+      const metrics = await getContestMetrics('test-contest')
+      expect(metrics.leaderboard[0]?.interval).toEqual({ lower: expect.any(Number), upper: expect.any(Number) })
+    })
+  })
+
   it('resets votes to a clean state', async () => {
     const state = await resetContestVotes('test-contest')
 
@@ -0,0 +1,229 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+const ISO_LATER = '2024-02-01T00:00:00.000Z'
+
+function buildLogo(id: string, name: string, updatedAt = ISO_NOW) {
+  return {
+    id,
+    contestId: 'test-contest',
+    name,
+    codename: name.toLowerCase(),
+    description: null,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+const contestsDocument = {
+  version: 1,
+  activeContestId: 'test-contest',
+  contests: [
+    {
+      id: 'test-contest',
+      slug: 'test-contest',
+      title: 'Test Contest',
+      subtitle: null,
+      description: null,
+      status: 'active',
+      createdAt: ISO_NOW,
+      updatedAt: ISO_NOW,
+      startsAt: ISO_NOW,
+      endsAt: null,
+      archivedAt: null,
+      votingOpen: true,
+    },
+  ],
+  updatedAt: ISO_NOW,
+}
+
+function match(winnerId: string, loserId: string, voterHash: string, timestamp: number) {
+  return { winnerId, loserId, voterHash, timestamp }
+}
+
+async function seedDataDir(
+  dir: string,
+  options: { logos: ReturnType<typeof buildLogo>[]; votes: unknown; roster: Array<{ alias: string; passwordHash?: string }> },
+) {
+  await writeFile(path.join(dir, 'contests.json'), JSON.stringify(contestsDocument), 'utf-8')
+  await writeFile(
+    path.join(dir, 'logos.json'),
+    JSON.stringify({ version: 3, logos: options.logos, updatedAt: ISO_NOW }),
+    'utf-8',
+  )
+  await writeFile(path.join(dir, 'votes.json'), JSON.stringify(options.votes), 'utf-8')
+  await writeFile(path.join(dir, 'allowed-users.json'), JSON.stringify(options.roster), 'utf-8')
+}
+
+function votesDocument(history: ReturnType<typeof match>[]) {
+  return {
+    version: 2,
+    contests: { 'test-contest': { state: { entries: {}, history }, updatedAt: ISO_NOW } },
+    updatedAt: ISO_NOW,
+  }
+}
+
+describe('data export/import bundle', () => {
+  let sourceDir: string
+  let targetDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    sourceDir = await mkdtemp(path.join(tmpdir(), 'ces3-bundle-source-'))
+    targetDir = await mkdtemp(path.join(tmpdir(), 'ces3-bundle-target-'))
+    originalDataDir = process.env.DATA_DIR
+
+    await seedDataDir(sourceDir, {
+      logos: [buildLogo('logo-1', 'Alpha Renamed', ISO_LATER), buildLogo('logo-2', 'Bravo')],
+      votes: votesDocument([match('logo-1', 'logo-2', 'voter-a', 2000), match('logo-2', 'logo-1', 'voter-b', 1000)]),
+      roster: [{ alias: 'alice', passwordHash: 'source-hash' }, { alias: 'bob' }],
+    })
+    await mkdir(path.join(sourceDir, 'logos'), { recursive: true })
+    await writeFile(path.join(sourceDir, 'logos', 'logo-2.png'), Buffer.from([1, 2, 3, 4]))
+    await writeFile(
+      path.join(sourceDir, 'vote-events.ndjson'),
+      `${JSON.stringify({ id: 'event-1', type: 'vote-recorded' })}\n`,
+      'utf-8',
+    )
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(sourceDir, { recursive: true, force: true })
+    await rm(targetDir, { recursive: true, force: true })
+  })
+
+  async function exportSource(): Promise<Buffer> {
+    process.env.DATA_DIR = sourceDir
+    vi.resetModules()
+    const { createDataBundle, encodeDataBundle } = await import('../data-bundle')
+    return encodeDataBundle(await createDataBundle())
+  }
+
+  async function loadTarget() {
+    process.env.DATA_DIR = targetDir
+    vi.resetModules()
+    return import('../data-bundle')
+  }
+
+  it('replaces a deployment with the exported data and assets', async () => {
+    const archive = await exportSource()
+    const { importDataBundle, parseDataBundle } = await loadTarget()
+
+    const bundle = parseDataBundle(archive)
+    expect(bundle.manifest.counts).toMatchObject({ logos: 2, matches: 2, allowedUsers: 2, assets: 1, voteEvents: 1 })
+
+    const summary = await importDataBundle(bundle, { mode: 'replace' })
+    expect(summary.logos.added).toBe(2)
+
+    const logos = JSON.parse(await readFile(path.join(targetDir, 'logos.json'), 'utf-8'))
+    expect(logos.logos.map((logo: { name: string }) => logo.name).sort()).toEqual(['Alpha Renamed', 'Bravo'])
+    expect([...(await readFile(path.join(targetDir, 'logos', 'logo-2.png')))]).toEqual([1, 2, 3, 4])
+    const roster = JSON.parse(await readFile(path.join(targetDir, 'allowed-users.json'), 'utf-8'))
+    expect(roster).toHaveLength(2)
+    expect(await readFile(path.join(targetDir, 'vote-events.ndjson'), 'utf-8')).toContain('event-1')
+  })
+
+  it('leaves password hashes out unless asked and streams the same bundle', async () => {
+    process.env.DATA_DIR = sourceDir
+    vi.resetModules()
+    const { createDataBundle, encodeDataBundle, parseDataBundle, streamDataBundle } = await import('../data-bundle')
+
+    const bundle = await createDataBundle()
+    expect(bundle.manifest.credentialsIncluded).toBe(false)
+    expect(bundle.documents.allowedUsers).toEqual([{ alias: 'alice' }, { alias: 'bob' }])
+    const withCredentials = await createDataBundle({ includeCredentials: true })
+    expect(withCredentials.documents.allowedUsers?.[0]).toEqual({ alias: 'alice', passwordHash: 'source-hash' })
+
+    const { stream } = await streamDataBundle()
+    const chunks: Buffer[] = []
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer)
+    }
+    const streamed = parseDataBundle(Buffer.concat(chunks))
+    const buffered = parseDataBundle(encodeDataBundle(bundle))
+    expect({ ...streamed, manifest: { ...streamed.manifest, exportedAt: null } }).toEqual({
+      ...buffered,
+      manifest: { ...buffered.manifest, exportedAt: null },
+    })
+
+    // A replace import of a bundle without credentials keeps the passwords the target already has.
+    await seedDataDir(targetDir, {
+      logos: [],
+      votes: votesDocument([]),
+      roster: [{ alias: 'alice', passwordHash: 'target-hash' }, { alias: 'carol', passwordHash: 'carol-hash' }],
+    })
+    const { importDataBundle } = await loadTarget()
+    await importDataBundle(streamed, { mode: 'replace' })
+    const roster = JSON.parse(await readFile(path.join(targetDir, 'allowed-users.json'), 'utf-8'))
+    expect(roster).toEqual([{ alias: 'alice', passwordHash: 'target-hash' }, { alias: 'bob' }])
+  })
+
+  it('merges into existing data, keeping newer records and deduplicating matches', async () => {
+    await seedDataDir(targetDir, {
+      logos: [buildLogo('logo-1', 'Alpha'), buildLogo('logo-3', 'Charlie')],
+      votes: votesDocument([match('logo-1', 'logo-2', 'voter-a', 2000), match('logo-3', 'logo-1', 'voter-c', 1500)]),
+      roster: [{ alias: 'alice' }, { alias: 'carol' }],
+    })
+    const archive = await exportSource()
+    const { importDataBundle, parseDataBundle } = await loadTarget()
+
+    const summary = await importDataBundle(parseDataBundle(archive), { mode: 'merge' })
+
+    expect(summary.logos).toEqual({ added: 1, updated: 1 })
+    expect(summary.votes).toMatchObject({ contestsMerged: 1, matchesAdded: 1 })
+    expect(summary.allowedUsers.added).toBe(1)
+
+    const logos = JSON.parse(await readFile(path.join(targetDir, 'logos.json'), 'utf-8'))
+    expect(logos.logos.map((logo: { name: string }) => logo.name).sort()).toEqual([
+      'Alpha Renamed',
+      'Bravo',
+      'Charlie',
+    ])
+    const votes = JSON.parse(await readFile(path.join(targetDir, 'votes.json'), 'utf-8'))
+    const history = votes.contests['test-contest'].state.history as Array<{ voterHash: string }>
+    expect(history.map((entry) => entry.voterHash).sort()).toEqual(['voter-a', 'voter-b', 'voter-c'])
+    expect(votes.contests['test-contest'].state.entries['logo-1'].matches).toBe(3)
+  })
+
+  it('migrates legacy vote files and rejects newer schema versions', async () => {
+    const { BundleValidationError, importDataBundle, parseDataBundle } = await loadTarget()
+    const manifest = { format: 'ces3-badge-bundle', bundleVersion: 1 }
+
+    const legacy = parseDataBundle(
+      JSON.stringify({
+        manifest,
+        documents: {
+          logos: { version: 3, logos: [buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo')] },
+          votes: { entries: {}, history: [match('logo-1', 'logo-2', 'voter-a', 1000)] },
+          contests: contestsDocument,
+        },
+        assets: [],
+      }),
+    )
+    const summary = await importDataBundle(legacy, { mode: 'replace' })
+    expect(summary.migrated).toEqual(['votes'])
+    const votes = JSON.parse(await readFile(path.join(targetDir, 'votes.json'), 'utf-8'))
+    expect(votes.version).toBe(2)
+    expect(Object.values(votes.contests)).toHaveLength(1)
+
+    expect(() =>
+      parseDataBundle(JSON.stringify({ manifest, documents: { votes: { version: 99, contests: {} } } })),
+    ).toThrow(BundleValidationError)
+    expect(() => parseDataBundle('{"not":"a bundle"}')).toThrow(/not a badge site export bundle/)
+  })
+})
@@ -0,0 +1,153 @@
+import { mkdtemp, rm, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createFileResponse, parseByteRange } from '../file-response'
+import { LruCache } from '../lru-cache'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+const SVG_LOGO = '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64"/></svg>'
+const HEADERS = { 'Content-Type': 'image/png', 'Cache-Control': 'public, no-cache' }
+
+function request(headers: Record<string, string> = {}, method = 'GET') {
+  return new Request('http://localhost/api/logos/x/image', { method, headers })
+}
+
+describe('file responses', () => {
+  let directory: string
+  let filePath: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'ces3-file-response-'))
+    filePath = path.join(directory, 'logo.png')
+    await writeFile(filePath, '0123456789')
+    await utimes(filePath, new Date(ISO_NOW), new Date(ISO_NOW))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('streams the file with validators and answers conditional requests with 304', async () => {
+    const response = (await createFileResponse(request(), filePath, HEADERS))!
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe('0123456789')
+    const etag = response.headers.get('etag')!
+    expect(response.headers.get('last-modified')).toBe(new Date(ISO_NOW).toUTCString())
+    expect(response.headers.get('content-length')).toBe('10')
+    expect(response.headers.get('accept-ranges')).toBe('bytes')
+    expect(response.headers.get('cache-control')).toBe('public, no-cache')
+
+    const revalidated = (await createFileResponse(request({ 'If-None-Match': `W/"nope", ${etag}` }), filePath, HEADERS))!
+    expect(revalidated.status).toBe(304)
+    expect(revalidated.headers.get('etag')).toBe(etag)
+    expect(await revalidated.text()).toBe('')
+
+    const sinceDate = (await createFileResponse(request({ 'If-Modified-Since': new Date(ISO_NOW).toUTCString() }), filePath, HEADERS))!
+    expect(sinceDate.status).toBe(304)
+
+    // If-None-Match wins over If-Modified-Since.
+    const changed = (await createFileResponse(
+      request({ 'If-None-Match': '"stale"', 'If-Modified-Since': new Date(ISO_NOW).toUTCString() }),
+      filePath,
+      HEADERS,
+    ))!
+    expect(changed.status).toBe(200)
+    await changed.body?.cancel()
+
+    const head = (await createFileResponse(request({}, 'HEAD'), filePath, HEADERS))!
+    expect(head.status).toBe(200)
+    expect(head.headers.get('content-length')).toBe('10')
+    expect(head.body).toBeNull()
+
+    expect(await createFileResponse(request(), path.join(directory, 'missing.png'), HEADERS)).toBeNull()
+  })
+
+  it('serves byte ranges and rejects unsatisfiable ones', async () => {
+    const partial = (await createFileResponse(request({ Range: 'bytes=2-5' }), filePath, HEADERS))!
+    expect(partial.status).toBe(206)
+    expect(partial.headers.get('content-range')).toBe('bytes 2-5/10')
+    expect(partial.headers.get('content-length')).toBe('4')
+    expect(await partial.text()).toBe('2345')
+
+    const suffix = (await createFileResponse(request({ Range: 'bytes=-3' }), filePath, HEADERS))!
+    expect(await suffix.text()).toBe('789')
+
+    const unsatisfiable = (await createFileResponse(request({ Range: 'bytes=10-' }), filePath, HEADERS))!
+    expect(unsatisfiable.status).toBe(416)
+    expect(unsatisfiable.headers.get('content-range')).toBe('bytes */10')
+
+    // A stale If-Range means the client's partial copy is outdated: send the whole file.
+    const outdated = (await createFileResponse(request({ Range: 'bytes=2-5', 'If-Range': '"old"' }), filePath, HEADERS))!
+    expect(outdated.status).toBe(200)
+    expect(await outdated.text()).toBe('0123456789')
+
+    expect(parseByteRange('bytes=4-100', 10)).toEqual({ start: 4, end: 9 })
+    expect(parseByteRange('bytes=0-1,4-5', 10)).toBeNull()
+    expect(parseByteRange('items=0-1', 10)).toBeNull()
+    expect(parseByteRange('bytes=5-2', 10)).toBeNull()
+  })
+
+  it('evicts the least recently used entry', () => {
+    const cache = new LruCache<string, number>(2)
+    cache.set('a', 1)
+    cache.set('b', 2)
+    cache.get('a')
+    cache.set('c', 3)
+    expect([cache.has('a'), cache.has('b'), cache.has('c')]).toEqual([true, false, true])
+  })
+})
+
+describe('cached logo lookups', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-logo-lookup-cache-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      JSON.stringify({ version: 3, logos: [], updatedAt: ISO_NOW }),
+      'utf-8',
+    )
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('skips re-reading logos.json until the logos document is written again', async () => {
+    const store = await import('../data-store')
+    const { getStorageAdapter } = await import('../storage-adapter')
+    const logo = await store.addLogo({
+      name: 'Cached',
+      image: `data:image/svg+xml;base64,${Buffer.from(SVG_LOGO).toString('base64')}`,
+      submittedBy: 'tester@ces3',
+    })
+    expect((await store.findLogoByIdCached(logo.id))?.name).toBe('Cached')
+
+    const storage = await getStorageAdapter()
+    const readSpy = vi.spyOn(storage, 'readDocument')
+    expect((await store.findLogoByIdCached(logo.id))?.name).toBe('Cached')
+    expect(readSpy).not.toHaveBeenCalled()
+
+    await store.updateLogoMetadata(logo.id, { name: 'Renamed' })
+    expect((await store.findLogoByIdCached(logo.id))?.name).toBe('Renamed')
+
+    // Writes that bypass the data store (e.g. bundle imports) invalidate the cache too.
+    const document = (await storage.readDocument('logos')) as { logos: Array<{ id: string; name: string }> }
+    document.logos.find((entry) => entry.id === logo.id)!.name = 'Imported'
+    await storage.writeDocument('logos', document)
+    expect((await store.findLogoByIdCached(logo.id))?.name).toBe('Imported')
+    readSpy.mockRestore()
+  })
+})
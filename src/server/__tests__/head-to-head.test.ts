@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+
+import type { MatchHistoryEntry } from '../../lib/elo-engine'
+import {
+  computeHeadToHeadMatrix,
+  describeHeadToHeadCoverage,
+  getHeadToHeadRecord,
+  type HeadToHeadLogo,
+} from '../../lib/head-to-head'
+
+function buildLogo(id: string): HeadToHeadLogo {
+  return { logoId: id, logoName: id, logoCodename: id, logoImage: `/${id}.png` }
+}
+
+function match(winnerId: string, loserId: string): MatchHistoryEntry {
+  return { winnerId, loserId, voterHash: null, timestamp: 1 }
+}
+
+const logos = ['a', 'b', 'c', 'd'].map(buildLogo)
+
+describe('computeHeadToHeadMatrix', () => {
+  it('tallies wins in both directions of each pair', () => {
+    const matrix = computeHeadToHeadMatrix(logos, [match('a', 'b'), match('a', 'b'), match('b', 'a'), match('c', 'a')])
+
+    expect(getHeadToHeadRecord(matrix, 0, 1)).toEqual({ wins: 2, losses: 1, matches: 3, winRate: 2 / 3 })
+    expect(getHeadToHeadRecord(matrix, 1, 0)).toEqual({ wins: 1, losses: 2, matches: 3, winRate: 1 / 3 })
+    expect(getHeadToHeadRecord(matrix, 0, 2)).toMatchObject({ wins: 0, losses: 1 })
+    expect(getHeadToHeadRecord(matrix, 2, 3)).toEqual({ wins: 0, losses: 0, matches: 0, winRate: null })
+    expect(matrix.totalMatches).toBe(4)
+  })
+
+  it('reports pairs that have never been compared', () => {
+    const matrix = computeHeadToHeadMatrix(logos, [match('a', 'b'), match('a', 'b'), match('b', 'a'), match('c', 'd')])
+
+    expect(matrix.coverage).toEqual({
+      logoCount: 4,
+      totalPairs: 6,
+      comparedPairs: 2,
+      uncomparedPairs: 4,
+      sparsePairs: 1,
+      ratio: 2 / 6,
+    })
+    expect(describeHeadToHeadCoverage(matrix.coverage)).toBe('33% of pairs compared; 4 of 6 have never met.')
+  })
+
+  it('ignores matches against logos outside the field', () => {
+    const matrix = computeHeadToHeadMatrix(logos.slice(0, 2), [match('a', 'b'), match('a', 'removed')])
+
+    expect(matrix.totalMatches).toBe(1)
+    expect(matrix.coverage).toMatchObject({ totalPairs: 1, comparedPairs: 1, ratio: 1 })
+  })
+})
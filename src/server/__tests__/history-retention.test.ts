@@ -0,0 +1,163 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createPairKey, type MatchHistoryEntry } from '../../lib/elo-engine'
+import { splitRetainedHistory } from '../../lib/history-retention'
+import { selectInformativeMatchup } from '../../lib/matchmaker'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type DataStore = typeof import('../data-store')
+type ContestStore = typeof import('../contest-store')
+type HistoryArchive = typeof import('../history-archive')
+
+function buildLogo(id: string, name: string) {
+  return {
+    id,
+    contestId: 'test-contest',
+    name,
+    codename: name.toLowerCase(),
+    description: null,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+describe('splitRetainedHistory', () => {
+  const now = Date.parse(ISO_NOW)
+  const history: MatchHistoryEntry[] = [0, 1, 5, 10].map((days) => ({
+    winnerId: `w-${days}`,
+    loserId: 'logo-x',
+    timestamp: now - days * DAY_MS,
+    voterHash: null,
+  }))
+
+  it('archives matches past the age limit and keeps the rest live', () => {
+    const { retained, trimmed } = splitRetainedHistory(history, { maxMatches: 100, maxAgeDays: 3 }, now)
+    expect(retained.map((match) => match.winnerId)).toEqual(['w-0', 'w-1'])
+    expect(trimmed.map((match) => match.winnerId)).toEqual(['w-5', 'w-10'])
+  })
+
+  it('keeps everything when no limit applies', () => {
+    const { retained, trimmed } = splitRetainedHistory(history, { maxMatches: 100, maxAgeDays: null }, now)
+    expect(retained).toHaveLength(4)
+    expect(trimmed).toEqual([])
+  })
+})
+
+describe('history retention', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+  let store: DataStore
+  let contests: ContestStore
+  let archive: HistoryArchive
+
+  async function seed(historyRetention?: { maxMatches: number; maxAgeDays: number | null }) {
+    await writeFile(
+      path.join(dataDir, 'contests.json'),
+      JSON.stringify({
+        version: 1,
+        activeContestId: 'test-contest',
+        contests: [
+          {
+            id: 'test-contest',
+            slug: 'test-contest',
+            title: 'Test Contest',
+            subtitle: null,
+            description: null,
+            status: 'active',
+            createdAt: ISO_NOW,
+            updatedAt: ISO_NOW,
+            startsAt: ISO_NOW,
+            endsAt: null,
+            archivedAt: null,
+            votingOpen: true,
+            historyRetention,
+          },
+        ],
+        updatedAt: ISO_NOW,
+      }),
+      'utf-8',
+    )
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      JSON.stringify({
+        version: 3,
+        logos: [buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo'), buildLogo('logo-3', 'Charlie')],
+        updatedAt: ISO_NOW,
+      }),
+      'utf-8',
+    )
+
+    store = await import('../data-store')
+    contests = await import('../contest-store')
+    archive = await import('../history-archive')
+  }
+
+  async function castVotes(count: number) {
+    for (let index = 0; index < count; index += 1) {
+      await store.recordVote('logo-1', 'logo-2', `voter-${index}`, 'test-contest')
+    }
+  }
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-retention-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('moves matches beyond the policy into the archive', async () => {
+    await seed({ maxMatches: 100, maxAgeDays: null })
+    await castVotes(103)
+
+    const state = await store.getEloState('test-contest')
+    expect(state.history).toHaveLength(100)
+    expect(state.entries['logo-1']?.wins).toBe(103)
+    expect(await archive.readArchivedMatches('test-contest')).toHaveLength(3)
+    expect(await store.getContestMatchHistory('test-contest')).toHaveLength(103)
+
+    // voter-0's match now only lives in the archive, but the pair is still judged.
+    await expect(store.recordVote('logo-2', 'logo-1', 'voter-0', 'test-contest')).rejects.toThrow()
+    // ...and the matchmaker does not offer it again.
+    const judgedPairKeys = await store.listVoterJudgedPairs('test-contest', state.history, ['voter-0'])
+    expect([...judgedPairKeys]).toEqual([createPairKey('logo-1', 'logo-2')])
+    const logos = (await store.getAllLogos('test-contest')).filter((logo) => logo.id !== 'logo-3')
+    expect(selectInformativeMatchup(logos, state, { voterHash: 'voter-0', judgedPairKeys })).toBeNull()
+  })
+
+  it('archives existing history when the policy tightens and replays re-derive it', async () => {
+    await seed()
+    await castVotes(104)
+    expect(await archive.readArchivedMatches('test-contest')).toEqual([])
+
+    await contests.updateContest('test-contest', { historyRetention: { maxMatches: 100 } })
+    const result = await store.applyHistoryRetention('test-contest')
+    expect(result).toEqual({ retained: 100, archived: 4 })
+
+    await archive.clearArchivedMatches('test-contest')
+    await store.recalculateContestElo('test-contest')
+    const archived = await archive.readArchivedMatches('test-contest')
+    expect(archived.map((match) => match.voterHash)).toEqual(['voter-3', 'voter-2', 'voter-1', 'voter-0'])
+    expect(await store.getContestMatchHistory('test-contest')).toHaveLength(104)
+  })
+})
@@ -0,0 +1,204 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { ScoreboardEvent } from '../../lib/scoreboard-stream'
+import { applyScoreboardMatch } from '../../lib/scoreboard-stream'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+type DataStore = typeof import('../data-store')
+type LiveScoreboard = typeof import('../live-scoreboard')
+
+function buildLogo(id: string, name: string) {
+  return {
+    id,
+    contestId: 'test-contest',
+    name,
+    codename: name.toLowerCase(),
+    description: null,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+describe('live scoreboard', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+  let store: DataStore
+  let live: LiveScoreboard
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-scoreboard-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+
+    await writeFile(
+      path.join(dataDir, 'contests.json'),
+      JSON.stringify({
+        version: 1,
+        activeContestId: 'test-contest',
+        contests: [
+          {
+            id: 'test-contest',
+            slug: 'test-contest',
+            title: 'Test Contest',
+            subtitle: null,
+            description: null,
+            status: 'active',
+            createdAt: ISO_NOW,
+            updatedAt: ISO_NOW,
+            startsAt: ISO_NOW,
+            endsAt: null,
+            archivedAt: null,
+            votingOpen: true,
+          },
+        ],
+        updatedAt: ISO_NOW,
+      }),
+      'utf-8',
+    )
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      JSON.stringify({
+        version: 3,
+        logos: [buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo'), buildLogo('logo-3', 'Charlie')],
+        updatedAt: ISO_NOW,
+      }),
+      'utf-8',
+    )
+
+    store = await import('../data-store')
+    live = await import('../live-scoreboard')
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('broadcasts committed votes with the changed entries', async () => {
+    const received: ScoreboardEvent[] = []
+    const unsubscribe = live.subscribeScoreboard('test-contest', (event) => received.push(event))
+
+    const state = await store.recordVote('logo-1', 'logo-2', 'voter-a', 'test-contest')
+    unsubscribe()
+
+    expect(received).toHaveLength(1)
+    const [event] = received
+    expect(event).toMatchObject({ type: 'match', contestId: 'test-contest', totalMatches: 1 })
+    if (event?.type !== 'match') throw new Error('expected a match event')
+    expect(event.changes.map((change) => change.logoId).sort()).toEqual(['logo-1', 'logo-2'])
+    expect(event.changes.find((change) => change.logoId === 'logo-1')?.ratingBefore).toBe(1500)
+    expect(live.countScoreboardSubscribers('test-contest')).toBe(0)
+
+    // Applying the broadcast on top of the voter's own response does not double count.
+    const applied = applyScoreboardMatch(state, event)
+    expect(applied.history).toHaveLength(1)
+    expect(applied.entries).toEqual(state.entries)
+  })
+
+  it('does not broadcast votes that fail', async () => {
+    const listener = vi.fn()
+    live.subscribeScoreboard('test-contest', listener)
+
+    await store.recordVote('logo-1', 'logo-2', 'voter-a', 'test-contest')
+    await expect(store.recordVote('logo-2', 'logo-1', 'voter-a', 'test-contest')).rejects.toThrow()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('asks clients to resync after a reset', async () => {
+    const received: ScoreboardEvent[] = []
+    live.subscribeScoreboard('test-contest', (event) => received.push(event))
+
+    await store.recordVote('logo-1', 'logo-2', 'voter-a', 'test-contest')
+    await store.resetContestVotes('test-contest')
+
+    expect(received.map((event) => event.type)).toEqual(['match', 'resync'])
+    expect(received[1]).toMatchObject({ reason: 'reset' })
+  })
+
+  it('replays buffered events for a reconnecting client', async () => {
+    const first = live.publishScoreboardEvent({ type: 'resync', contestId: 'test-contest', reason: 'rebuilt' })
+    live.publishScoreboardEvent({ type: 'resync', contestId: 'other-contest', reason: 'rebuilt' })
+    const third = live.publishScoreboardEvent({ type: 'resync', contestId: 'test-contest', reason: 'reset' })
+
+    expect(live.readScoreboardEventsSince('test-contest', first.id)).toEqual([third])
+    expect(live.readScoreboardEventsSince('test-contest', third.id)).toEqual([])
+    // Ids from before the buffer, or from a previous process, force a resync.
+    expect(live.readScoreboardEventsSince('test-contest', first.id - 10)).toBeNull()
+    expect(live.readScoreboardEventsSince('test-contest', third.id + 1)).toBeNull()
+    expect(live.formatServerSentEvent(third)).toBe(
+      `id: ${third.id}\nevent: resync\ndata: ${JSON.stringify(third)}\n\n`,
+    )
+  })
+
+  it('releases the subscription when a streaming client disconnects', async () => {
+    // Bridges the stream the way server/start.js does: the request signal aborts and the
+    // piped source is destroyed when the response closes.
+    const server = http.createServer((_req, res) => {
+      const disconnect = new AbortController()
+      res.on('close', () => disconnect.abort())
+      const stream = live.createScoreboardStream({
+        contestId: 'test-contest',
+        lastEventId: null,
+        signal: disconnect.signal,
+      })
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      const readable = Readable.fromWeb(stream as NodeReadableStream<Uint8Array>)
+      res.on('close', () => readable.destroy())
+      readable.pipe(res)
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+    try {
+      const { port } = server.address() as AddressInfo
+      const client = await new Promise<http.ClientRequest>((resolve, reject) => {
+        const request = http.get({ host: '127.0.0.1', port, path: '/' }, (response) => {
+          response.once('data', () => resolve(request))
+        })
+        request.on('error', reject)
+      })
+      expect(live.countScoreboardSubscribers('test-contest')).toBe(1)
+
+      client.on('error', () => {})
+      client.destroy()
+      await vi.waitFor(() => expect(live.countScoreboardSubscribers('test-contest')).toBe(0))
+
+      // Votes after the disconnect reach nobody instead of queueing on the dead stream.
+      await store.recordVote('logo-1', 'logo-2', 'voter-a', 'test-contest')
+      expect(live.countScoreboardSubscribers('test-contest')).toBe(0)
+    } finally {
+      server.closeAllConnections()
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+
+  it('does not subscribe when the request is already aborted', async () => {
+    const disconnect = new AbortController()
+    disconnect.abort()
+    const stream = live.createScoreboardStream({ contestId: 'test-contest', lastEventId: null, signal: disconnect.signal })
+
+    expect(live.countScoreboardSubscribers('test-contest')).toBe(0)
+    const text = await new Response(stream).text()
+    expect(text).toBe('retry: 3000\n\n')
+  })
+})
@@ -0,0 +1,127 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import sharp from 'sharp'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  LOGO_THUMBNAIL_SIZES,
+  LogoImageError,
+  NORMALIZED_LOGO_DIMENSION,
+  processLogoImage,
+  sniffLogoImageType,
+} from '../logo-image-pipeline'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+function solid(width: number, height: number) {
+  return sharp({ create: { width, height, channels: 4, background: { r: 0, g: 160, b: 220, alpha: 1 } } })
+}
+
+async function expectRejected(promise: Promise<unknown>, status: number, message: RegExp) {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason,
+  )
+  expect(error).toBeInstanceOf(LogoImageError)
+  expect((error as LogoImageError).status).toBe(status)
+  expect((error as LogoImageError).message).toMatch(message)
+}
+
+describe('logo image pipeline', () => {
+  const originalMaxBytes = process.env.LOGO_MAX_UPLOAD_BYTES
+
+  afterEach(() => {
+    if (originalMaxBytes === undefined) {
+      delete process.env.LOGO_MAX_UPLOAD_BYTES
+    } else {
+      process.env.LOGO_MAX_UPLOAD_BYTES = originalMaxBytes
+    }
+  })
+
+  it('identifies uploads by their bytes', async () => {
+    expect(sniffLogoImageType(await solid(40, 40).png().toBuffer())).toBe('png')
+    expect(sniffLogoImageType(await solid(40, 40).jpeg().toBuffer())).toBe('jpeg')
+    expect(sniffLogoImageType(await solid(40, 40).webp().toBuffer())).toBe('webp')
+    expect(sniffLogoImageType(await solid(40, 40).gif().toBuffer())).toBe('gif')
+    expect(sniffLogoImageType(Buffer.from('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe('svg')
+    expect(sniffLogoImageType(Buffer.from('<html><svg></svg></html>'))).toBeNull()
+  })
+
+  it('renders a normalized PNG plus WebP thumbnails', async () => {
+    const processed = await processLogoImage(await solid(2000, 1000).jpeg().toBuffer(), {
+      declaredMimeType: 'image/jpeg',
+    })
+
+    expect(processed.sourceType).toBe('jpeg')
+    expect(processed.primary).toMatchObject({ format: 'png', width: NORMALIZED_LOGO_DIMENSION, height: 512 })
+    expect(sniffLogoImageType(processed.primary.data)).toBe('png')
+    expect(processed.renditions.map((entry) => [entry.format, entry.width])).toEqual([
+      ['webp', NORMALIZED_LOGO_DIMENSION],
+      ...[...LOGO_THUMBNAIL_SIZES].reverse().map((size) => ['webp', size]),
+    ])
+  })
+
+  it('rejects mislabelled, oversized, undersized, animated and corrupt uploads', async () => {
+    const png = await solid(64, 64).png().toBuffer()
+    await expectRejected(processLogoImage(png, { declaredMimeType: 'image/svg+xml' }), 415, /uploaded as image\/svg\+xml/)
+    await expectRejected(processLogoImage(Buffer.from('just text')), 415, /Unsupported image type/)
+    await expectRejected(processLogoImage(await solid(16, 16).png().toBuffer()), 422, /at least/)
+    const noise = Buffer.alloc(64 * 64 * 3, 0).map((_, index) => (index * 7919) % 251)
+    const jpeg = await sharp(noise, { raw: { width: 64, height: 64, channels: 3 } }).jpeg().toBuffer()
+    await expectRejected(processLogoImage(jpeg.subarray(0, Math.floor(jpeg.length * 0.6))), 422, /corrupt/)
+
+    const red = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#ff0000' } }).png().toBuffer()
+    const frames = [red, png]
+    const animated = await sharp(frames, { join: { animated: true } }).gif().toBuffer()
+    await expectRejected(processLogoImage(animated), 422, /Animated/)
+
+    process.env.LOGO_MAX_UPLOAD_BYTES = String(png.length - 1)
+    await expectRejected(processLogoImage(png), 413, /or smaller/)
+  })
+})
+
+describe('addLogo with the image pipeline', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-logo-images-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      JSON.stringify({ version: 3, logos: [], updatedAt: ISO_NOW }),
+      'utf-8',
+    )
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('stores the normalized image and records its renditions', async () => {
+    const store = await import('../data-store')
+    const png = await solid(300, 300).png().toBuffer()
+    const logo = await store.addLogo({
+      name: 'Pipeline',
+      image: `data:image/png;base64,${png.toString('base64')}`,
+      submittedBy: 'tester@ces3',
+    })
+
+    expect(logo.assetPath).toBe(`logos/${logo.id}.png`)
+    expect(logo.renditions?.map((entry) => entry.width)).toEqual([300, 256, 96])
+    const files = await readdir(path.join(dataDir, 'logos'))
+    expect(files.sort()).toEqual([`${logo.id}-256.webp`, `${logo.id}-300.webp`, `${logo.id}-96.webp`, `${logo.id}.png`].sort())
+
+    const reloaded = await store.findLogoById(logo.id)
+    expect(reloaded?.renditions).toEqual(logo.renditions)
+  })
+})
@@ -0,0 +1,140 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import sharp from 'sharp'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { VoteRecordedEvent } from '../audit-log'
+
+const sqliteDriver = 'node:sqlite'
+const sqliteAvailable =
+  Boolean(process.versions.bun) ||
+  (await import(/* @vite-ignore */ sqliteDriver).then(
+    () => true,
+    () => false,
+  ))
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+async function pngDataUrl(size: number, background: string): Promise<string> {
+  const png = await sharp({ create: { width: size, height: size, channels: 3, background } }).png().toBuffer()
+  return `data:image/png;base64,${png.toString('base64')}`
+}
+
+describe('logo artwork revisions', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+  let originalDataStore: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-logo-revisions-'))
+    originalDataDir = process.env.DATA_DIR
+    originalDataStore = process.env.DATA_STORE
+    process.env.DATA_DIR = dataDir
+    delete process.env.DATA_STORE
+    vi.resetModules()
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      JSON.stringify({ version: 3, logos: [], updatedAt: ISO_NOW }),
+      'utf-8',
+    )
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    if (originalDataStore === undefined) {
+      delete process.env.DATA_STORE
+    } else {
+      process.env.DATA_STORE = originalDataStore
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('stores new artwork as the next version and keeps earlier ones', async () => {
+    const store = await import('../data-store')
+    const logo = await store.addLogo({
+      name: 'Versioned',
+      image: await pngDataUrl(300, '#0af'),
+      submittedBy: 'author@ces3',
+    })
+    expect(logo.image).toBe(`/api/logos/${logo.id}/image?v=1`)
+
+    const replaced = await store.replaceLogoImage(logo.id, await pngDataUrl(200, '#fa0'), 'editor@ces3')
+
+    expect(replaced).toMatchObject({ id: logo.id, version: 2, image: `/api/logos/${logo.id}/image?v=2` })
+    expect(replaced?.assetPath).toBe(`logos/${logo.id}-v2.png`)
+    expect(replaced?.revisions?.map((revision) => [revision.version, revision.assetPath, revision.createdBy])).toEqual([
+      [2, `logos/${logo.id}-v2.png`, 'editor@ces3'],
+      [1, `logos/${logo.id}.png`, 'author@ces3'],
+    ])
+    expect(replaced?.revisions?.[1]?.renditions).toEqual(logo.renditions)
+
+    const files = await readdir(path.join(dataDir, 'logos'))
+    expect(files.sort()).toEqual(
+      [
+        `${logo.id}.png`,
+        `${logo.id}-300.webp`,
+        `${logo.id}-256.webp`,
+        `${logo.id}-96.webp`,
+        `${logo.id}-v2.png`,
+        `${logo.id}-v2-200.webp`,
+        `${logo.id}-v2-96.webp`,
+      ].sort(),
+    )
+
+    // Metadata edits leave the image URL alone; only new artwork changes it.
+    const renamed = await store.updateLogoMetadata(logo.id, { name: 'Versioned again' })
+    expect(renamed?.image).toBe(replaced?.image)
+    expect((await store.findLogoById(logo.id))?.revisions).toEqual(replaced?.revisions)
+  })
+
+  for (const backend of ['json', 'sqlite'] as const) {
+    it.skipIf(backend === 'sqlite' && !sqliteAvailable)(
+      `records the artwork version each voter was shown (${backend})`,
+      async () => {
+        if (backend === 'sqlite') {
+          process.env.DATA_STORE = 'sqlite'
+        }
+        const store = await import('../data-store')
+        const first = await store.addLogo({ name: 'First', image: await pngDataUrl(64, '#0af'), submittedBy: 'a@ces3' })
+        const second = await store.addLogo({ name: 'Second', image: await pngDataUrl(64, '#fa0'), submittedBy: 'b@ces3' })
+        await store.replaceLogoImage(first.id, await pngDataUrl(64, '#f0a'), 'a@ces3')
+
+        // A voter still looking at version 1 of `first`; `second` never had a version 9.
+        const state = await store.recordVote(first.id, second.id, 'voter-1', undefined, {
+          winnerVersion: 1,
+          loserVersion: 9,
+        })
+        expect(state.history[0]).toMatchObject({ winnerId: first.id, winnerVersion: 1, loserVersion: 1 })
+
+        const next = await store.recordVote(second.id, first.id, 'voter-2')
+        expect(next.history[0]).toMatchObject({ winnerId: second.id, winnerVersion: 1, loserVersion: 2 })
+
+        // Read back through a fresh module graph so the versions must come out of storage.
+        vi.resetModules()
+        const reloaded = await import('../data-store')
+        const { history } = await reloaded.getEloState()
+        expect(history.map((match) => [match.winnerVersion, match.loserVersion])).toEqual([
+          [1, 2],
+          [1, 1],
+        ])
+
+        const { readVoteEventLogText } = await import('../vote-event-log')
+        const recorded = (await readVoteEventLogText())
+          .split('\n')
+          .filter(Boolean)
+          .map((line) => JSON.parse(line) as VoteRecordedEvent)
+          .filter((event) => event.type === 'vote-recorded')
+        expect(recorded.map((event) => [event.winner.version, event.loser.version])).toEqual([
+          [1, 1],
+          [1, 2],
+        ])
+      },
+    )
+  }
+})
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+
+import { createPairKey, type EloState, type MatchHistoryEntry } from '../../lib/elo-engine'
+import type { LogoEntry } from '../../lib/logo-utils'
+import { scoreMatchupInformation, selectInformativeMatchup } from '../../lib/matchmaker'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+function buildLogo(id: string): LogoEntry {
+  return {
+    id,
+    contestId: 'test-contest',
+    name: id,
+    codename: id,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+function entry(rating: number, matches: number) {
+  return { rating, wins: 0, losses: 0, matches }
+}
+
+function match(winnerId: string, loserId: string, voterHash: string): MatchHistoryEntry {
+  return { winnerId, loserId, voterHash, timestamp: 1 }
+}
+
+function pairOf(selection: ReturnType<typeof selectInformativeMatchup>) {
+  return selection ? createPairKey(selection.matchup.primary.id, selection.matchup.challenger.id) : null
+}
+
+const logos = ['a', 'b', 'c', 'd'].map(buildLogo)
+
+describe('selectInformativeMatchup', () => {
+  it('prefers close, uncertain pairs over lopsided or well-sampled ones', () => {
+    expect(scoreMatchupInformation(entry(1500, 0), entry(1500, 0), { pairMatches: 0, topTier: false })).toBeGreaterThan(
+      scoreMatchupInformation(entry(1500, 0), entry(1900, 0), { pairMatches: 0, topTier: false }),
+    )
+    expect(scoreMatchupInformation(entry(1500, 2), entry(1500, 2), { pairMatches: 0, topTier: false })).toBeGreaterThan(
+      scoreMatchupInformation(entry(1500, 40), entry(1500, 40), { pairMatches: 0, topTier: false }),
+    )
+    expect(scoreMatchupInformation(entry(1500, 5), entry(1500, 5), { pairMatches: 0, topTier: false })).toBeGreaterThan(
+      scoreMatchupInformation(entry(1500, 5), entry(1500, 5), { pairMatches: 5, topTier: false }),
+    )
+  })
+
+  it('targets a tie at the top of the leaderboard', () => {
+    const state: EloState = {
+      entries: { a: entry(1620, 20), b: entry(1610, 20), c: entry(1400, 20), d: entry(1300, 20) },
+      history: [],
+    }
+
+    expect(pairOf(selectInformativeMatchup(logos, state, { random: () => 0.1 }))).toBe(createPairKey('a', 'b'))
+  })
+
+  it('never repeats a pair the voter already judged and reports exhaustion', () => {
+    const state: EloState = {
+      entries: { a: entry(1500, 3), b: entry(1500, 3), c: entry(1500, 3) },
+      history: [match('a', 'b', 'voter-1'), match('a', 'c', 'voter-1')],
+    }
+    const three = logos.slice(0, 3)
+
+    expect(pairOf(selectInformativeMatchup(three, state, { voterHash: 'voter-1' }))).toBe(createPairKey('b', 'c'))
+
+    const exhausted: EloState = { ...state, history: [...state.history, match('b', 'c', 'voter-1')] }
+    expect(selectInformativeMatchup(three, exhausted, { voterHash: 'voter-1' })).toBeNull()
+    expect(selectInformativeMatchup(three, exhausted, { voterHash: 'voter-2' })).not.toBeNull()
+
+    // Pairs judged outside the live history (e.g. archived) are skipped too.
+    const judgedPairKeys = new Set([createPairKey('b', 'c')])
+    expect(selectInformativeMatchup(three, state, { voterHash: 'voter-1', judgedPairKeys })).toBeNull()
+  })
+
+  it('skips the avoided pair unless it is the only option', () => {
+    const state: EloState = { entries: {}, history: [] }
+    const avoidPairKey = createPairKey('a', 'b')
+
+    for (let attempt = 0; attempt < 10; attempt += 1) {
+      expect(pairOf(selectInformativeMatchup(logos, state, { avoidPairKey }))).not.toBe(avoidPairKey)
+    }
+    expect(pairOf(selectInformativeMatchup(logos.slice(0, 2), state, { avoidPairKey }))).toBe(avoidPairKey)
+  })
+})
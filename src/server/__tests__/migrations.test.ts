@@ -0,0 +1,105 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+const legacyLogos = {
+  logos: [
+    {
+      id: 'legacy-logo',
+      name: 'Legacy',
+      codename: 'legacy',
+      description: null,
+      image: '/legacy.png',
+      source: 'catalog',
+      submittedBy: null,
+      createdAt: ISO_NOW,
+      updatedAt: ISO_NOW,
+    },
+  ],
+  updatedAt: ISO_NOW,
+}
+
+const legacyVotes = {
+  ratings: { 'legacy-logo': 1016 },
+  history: [],
+  updatedAt: ISO_NOW,
+}
+
+describe('schema migrations', () => {
+  let tempDir: string
+  const originalDataDir = process.env.DATA_DIR
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'ces3-migrations-'))
+    process.env.DATA_DIR = tempDir
+    vi.resetModules()
+    await writeFile(path.join(tempDir, 'logos.json'), JSON.stringify(legacyLogos), 'utf-8')
+    await writeFile(path.join(tempDir, 'votes.json'), JSON.stringify(legacyVotes), 'utf-8')
+  })
+
+  afterEach(async () => {
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  async function readJson(fileName: string) {
+    return JSON.parse(await readFile(path.join(tempDir, fileName), 'utf-8'))
+  }
+
+  it('reports pending steps in dry-run mode without writing', async () => {
+    const { runPendingMigrations } = await import('../migrations')
+
+    const reports = await runPendingMigrations({ dryRun: true })
+
+    const logos = reports.find((report) => report.document === 'logos')
+    expect(logos).toMatchObject({ fromVersion: 1, toVersion: 3, applied: false })
+    expect(logos?.steps.map((step) => `${step.from}->${step.to}`)).toEqual(['1->2', '2->3'])
+    expect(logos?.changedFields).toBeGreaterThan(0)
+    expect(reports.find((report) => report.document === 'votes')).toMatchObject({
+      fromVersion: 1,
+      toVersion: 2,
+      applied: false,
+    })
+
+    expect(await readJson('logos.json')).toEqual(legacyLogos)
+    expect(await readJson('votes.json')).toEqual(legacyVotes)
+  })
+
+  it('migrates older files at startup and keeps the originals as backups', async () => {
+    const { getStorageAdapter } = await import('../storage-adapter')
+
+    await getStorageAdapter()
+
+    const logos = await readJson('logos.json')
+    expect(logos.version).toBe(3)
+    expect(logos.logos[0]).toMatchObject({ contestId: 'badge-arena', ownerAlias: null, removedAt: null })
+
+    const votes = await readJson('votes.json')
+    expect(votes.version).toBe(2)
+    expect(votes.contests['badge-arena'].state.ratings).toEqual({ 'legacy-logo': 1016 })
+
+    const backups = path.join(tempDir, 'backups', 'logos')
+    const snapshots = await Promise.all(
+      (await readdir(backups)).map(async (file) => JSON.parse(await readFile(path.join(backups, file), 'utf-8'))),
+    )
+    expect(snapshots).toContainEqual(legacyLogos)
+  })
+
+  it('refuses data written by a newer schema', async () => {
+    await writeFile(
+      path.join(tempDir, 'votes.json'),
+      JSON.stringify({ version: 99, contests: {}, updatedAt: ISO_NOW }),
+      'utf-8',
+    )
+    const { SchemaVersionError, runPendingMigrations } = await import('../migrations')
+
+    await expect(runPendingMigrations({ dryRun: true })).rejects.toBeInstanceOf(SchemaVersionError)
+  })
+})
@@ -0,0 +1,163 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import sharp from 'sharp'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { MultipartUploadError, readMultipartBoundary, receiveMultipartUpload } from '../multipart-upload'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+/** Encodes a form the way a browser would, then re-streams it in small chunks. */
+async function buildMultipartRequest(form: FormData, chunkSize = 7): Promise<Request> {
+  const encoded = new Response(form)
+  const contentType = encoded.headers.get('content-type')!
+  const bytes = new Uint8Array(await encoded.arrayBuffer())
+  let offset = 0
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close()
+        return
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize))
+      offset += chunkSize
+    },
+  })
+  return new Request('http://localhost/api/logos', {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body,
+    duplex: 'half',
+  } as RequestInit)
+}
+
+async function rejectionOf(promise: Promise<unknown>): Promise<unknown> {
+  return promise.then(
+    () => null,
+    (reason: unknown) => reason,
+  )
+}
+
+describe('multipart uploads', () => {
+  it('reads text fields and streams the file part to disk', async () => {
+    const payload = Buffer.alloc(5000, 0).map((_, index) => index % 256)
+    const form = new FormData()
+    form.set('name', 'Streamed “logo”')
+    form.set('description', 'line one\r\nline two')
+    form.set('image', new Blob([payload], { type: 'image/png' }), 'badge.png')
+
+    const upload = await receiveMultipartUpload(await buildMultipartRequest(form), {
+      fileField: 'image',
+      maxFileBytes: 10_000,
+    })
+    try {
+      expect(upload.fields).toEqual({ name: 'Streamed “logo”', description: 'line one\r\nline two' })
+      expect(upload.file).toMatchObject({ fieldName: 'image', filename: 'badge.png', contentType: 'image/png', size: 5000 })
+      expect(Buffer.compare(await readFile(upload.file!.path), payload)).toBe(0)
+    } finally {
+      await upload.cleanup()
+    }
+    await expect(stat(upload.file!.path)).rejects.toMatchObject({ code: 'ENOENT' })
+  })
+
+  it('rejects oversized files, truncated bodies and missing boundaries', async () => {
+    const form = new FormData()
+    form.set('image', new Blob([Buffer.alloc(2048, 1)], { type: 'image/png' }), 'big.png')
+    const tooLarge = await rejectionOf(
+      receiveMultipartUpload(await buildMultipartRequest(form), { fileField: 'image', maxFileBytes: 1024 }),
+    )
+    expect(tooLarge).toBeInstanceOf(MultipartUploadError)
+    expect((tooLarge as MultipartUploadError).status).toBe(413)
+
+    const encoded = new Response(form)
+    const bytes = Buffer.from(await encoded.arrayBuffer())
+    const truncated = new Request('http://localhost/api/logos', {
+      method: 'POST',
+      headers: { 'Content-Type': encoded.headers.get('content-type')! },
+      body: bytes.subarray(0, bytes.length - 20),
+    })
+    const incomplete = await rejectionOf(receiveMultipartUpload(truncated, { fileField: 'image', maxFileBytes: 4096 }))
+    expect((incomplete as MultipartUploadError).status).toBe(400)
+
+    expect(readMultipartBoundary('multipart/form-data; boundary="abc def"')).toBe('abc def')
+    const unbounded = new Request('http://localhost/api/logos', {
+      method: 'POST',
+      headers: { 'Content-Type': 'multipart/form-data' },
+      body: 'x',
+    })
+    const missing = await rejectionOf(receiveMultipartUpload(unbounded, { fileField: 'image', maxFileBytes: 4096 }))
+    expect((missing as MultipartUploadError).status).toBe(415)
+  })
+
+  it('caps the whole streamed body, including discarded file parts', async () => {
+    const form = new FormData()
+    form.set('attachment', new Blob([Buffer.alloc(256 * 1024, 1)]), 'ignored.bin')
+    form.set('image', new Blob([Buffer.alloc(16, 1)], { type: 'image/png' }), 'small.png')
+
+    // Streamed without a Content-Length, so only the running byte count can stop it.
+    const request = await buildMultipartRequest(form, 4096)
+    expect(request.headers.get('content-length')).toBeNull()
+    const tooLarge = await rejectionOf(receiveMultipartUpload(request, { fileField: 'image', maxFileBytes: 1024 }))
+    expect(tooLarge).toBeInstanceOf(MultipartUploadError)
+    expect((tooLarge as MultipartUploadError).status).toBe(413)
+  })
+})
+
+describe('logo uploads from disk', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-logo-uploads-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      JSON.stringify({ version: 3, logos: [], updatedAt: ISO_NOW }),
+      'utf-8',
+    )
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('adds a logo from an uploaded file and replaces its artwork', async () => {
+    const store = await import('../data-store')
+    const uploadPath = path.join(dataDir, 'upload.png')
+    await writeFile(
+      uploadPath,
+      await sharp({ create: { width: 300, height: 300, channels: 3, background: '#0af' } }).png().toBuffer(),
+    )
+
+    const logo = await store.addLogo(
+      { name: 'Uploaded', image: '', submittedBy: 'tester@ces3' },
+      { filePath: uploadPath, mimeType: 'image/png' },
+    )
+    expect(logo.renditions?.map((entry) => entry.width)).toEqual([300, 256, 96])
+
+    await writeFile(
+      uploadPath,
+      await sharp({ create: { width: 200, height: 200, channels: 3, background: '#fa0' } }).png().toBuffer(),
+    )
+    const replaced = await store.replaceLogoImage(logo.id, { filePath: uploadPath, mimeType: 'image/png' }, 'tester@ces3')
+
+    expect(replaced?.id).toBe(logo.id)
+    expect(replaced?.image).not.toBe(logo.image)
+    expect(replaced?.renditions?.map((entry) => entry.width)).toEqual([200, 96])
+
+    await expect(
+      store.replaceLogoImage(logo.id, { filePath: uploadPath, mimeType: 'image/png' }, 'tester@ces3', undefined, {
+        expectedUpdatedAt: logo.updatedAt,
+      }),
+    ).rejects.toThrow()
+  })
+})
@@ -0,0 +1,230 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+type DataStore = typeof import('../data-store')
+type Checkpoints = typeof import('../rating-checkpoints')
+
+function buildLogo(id: string, name: string) {
+  return {
+    id,
+    contestId: 'test-contest',
+    name,
+    codename: name.toLowerCase(),
+    description: null,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+describe('rating checkpoints', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+  let store: DataStore
+  let listRatingCheckpoints: Checkpoints['listRatingCheckpoints']
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-checkpoints-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+
+    await writeFile(
+      path.join(dataDir, 'contests.json'),
+      JSON.stringify({
+        version: 1,
+        activeContestId: 'test-contest',
+        contests: [
+          {
+            id: 'test-contest',
+            slug: 'test-contest',
+            title: 'Test Contest',
+            subtitle: null,
+            description: null,
+            status: 'active',
+            createdAt: ISO_NOW,
+            updatedAt: ISO_NOW,
+            startsAt: ISO_NOW,
+            endsAt: null,
+            archivedAt: null,
+            votingOpen: true,
+          },
+        ],
+        updatedAt: ISO_NOW,
+      }),
+      'utf-8',
+    )
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      JSON.stringify({
+        version: 3,
+        logos: [buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo'), buildLogo('logo-3', 'Charlie')],
+        updatedAt: ISO_NOW,
+      }),
+      'utf-8',
+    )
+
+    store = await import('../data-store')
+    ;({ listRatingCheckpoints } = await import('../rating-checkpoints'))
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  async function vote(winnerId: string, loserId: string, voterHash = 'voter-a') {
+    await store.recordVote(winnerId, loserId, voterHash, 'test-contest')
+  }
+
+  async function fullReplayEntries() {
+    await rm(path.join(dataDir, 'rating-checkpoints.json'), { force: true })
+    const result = await store.recalculateContestElo('test-contest', { dryRun: true })
+    expect(result.replay.resumedFromEvent).toBeNull()
+    return result.proposedState.entries
+  }
+
+  it('resumes from the last checkpoint and matches a full replay', async () => {
+    await vote('logo-1', 'logo-2')
+    await vote('logo-2', 'logo-3')
+    await vote('logo-1', 'logo-3')
+
+    const first = await store.recalculateContestElo('test-contest', { dryRun: true })
+    expect(first.replay).toEqual({ totalEvents: 3, resumedFromEvent: null })
+    const [stored] = await listRatingCheckpoints('test-contest')
+    expect(Object.keys(stored!.entries).sort()).toEqual(['logo-1', 'logo-2', 'logo-3'])
+    expect(stored).not.toHaveProperty('state')
+
+    await vote('logo-3', 'logo-1', 'voter-b')
+    await vote('logo-2', 'logo-1', 'voter-b')
+
+    const resumed = await store.recalculateContestElo('test-contest', { dryRun: true })
+    expect(resumed.replay).toEqual({ totalEvents: 5, resumedFromEvent: 3 })
+
+    const verification = await store.verifyContestReplay('test-contest')
+    expect(verification).toMatchObject({ status: 'completed', checkpointOffset: 5, drift: [] })
+
+    expect(resumed.proposedState.entries).toEqual(await fullReplayEntries())
+  })
+
+  it('replays in full when a void lands after the checkpoint', async () => {
+    await vote('logo-1', 'logo-2')
+    await vote('logo-1', 'logo-3', 'voter-b')
+    await store.recalculateContestElo('test-contest', { dryRun: true })
+
+    const [latest] = await store.listContestVotes('test-contest')
+    const voided = await store.voidContestVotes('test-contest', { eventIds: [latest!.eventId], reason: 'duplicate' })
+    expect(voided.replay).toEqual({ totalEvents: 3, resumedFromEvent: null })
+    expect(voided.proposedState.entries['logo-3']?.matches).toBe(0)
+
+    // The void's own replay records a checkpoint after the void, which later runs can reuse.
+    const result = await store.recalculateContestElo('test-contest', { dryRun: true })
+    expect(result.replay.resumedFromEvent).toBe(3)
+    expect(result.proposedState.entries['logo-3']?.matches).toBe(0)
+  })
+
+  it('reads only the log lines after the checkpoint', async () => {
+    await vote('logo-1', 'logo-2')
+    await vote('logo-2', 'logo-3')
+    await store.recalculateContestElo('test-contest', { dryRun: true })
+
+    // The segment holds only events the checkpoint already folded, so it is never opened.
+    const { rotateVoteEventLog } = await import('../vote-event-log')
+    const [segment] = (await rotateVoteEventLog()).segments
+    await vote('logo-3', 'logo-1')
+    const expected = (await store.getEloState('test-contest')).entries
+    await rm(path.join(dataDir, 'vote-events', segment!.fileName))
+
+    const resumed = await store.recalculateContestElo('test-contest', { dryRun: true })
+    expect(resumed.replay).toEqual({ totalEvents: 3, resumedFromEvent: 2 })
+    expect(resumed.proposedState.history).toHaveLength(3)
+    expect(resumed.proposedState.entries).toEqual(expected)
+  })
+
+  it('replays in full when a merged event sorts before the checkpoint', async () => {
+    await vote('logo-1', 'logo-2')
+    await vote('logo-2', 'logo-3')
+    await store.recalculateContestElo('test-contest', { dryRun: true })
+
+    const { appendVoteEventLines, readVoteEventLogText } = await import('../vote-event-log')
+    const [firstLine] = (await readVoteEventLogText()).split('\n')
+    const earlier = {
+      ...JSON.parse(firstLine!),
+      id: 'merged-vote',
+      voterHash: 'voter-merged',
+      occurredAt: '2023-06-01T00:00:00.000Z',
+      matchTimestamp: Date.parse('2023-06-01T00:00:00.000Z'),
+    }
+    await appendVoteEventLines([JSON.stringify(earlier)])
+
+    const result = await store.recalculateContestElo('test-contest', { dryRun: true })
+    expect(result.replay).toEqual({ totalEvents: 3, resumedFromEvent: null })
+    expect(result.proposedState.entries).toEqual(await fullReplayEntries())
+  })
+
+  it('records a checkpoint in the background every interval of votes', async () => {
+    const originalInterval = process.env.RATING_CHECKPOINT_INTERVAL
+    process.env.RATING_CHECKPOINT_INTERVAL = '2'
+    try {
+      await vote('logo-1', 'logo-2')
+      expect(await listRatingCheckpoints('test-contest')).toHaveLength(0)
+      await vote('logo-2', 'logo-3')
+      await vi.waitFor(async () => {
+        expect((await listRatingCheckpoints('test-contest')).map((checkpoint) => checkpoint.eventOffset)).toEqual([2])
+      })
+
+      await vote('logo-3', 'logo-1')
+      const result = await store.recalculateContestElo('test-contest', { dryRun: true })
+      expect(result.replay).toEqual({ totalEvents: 3, resumedFromEvent: 2 })
+    } finally {
+      if (originalInterval === undefined) {
+        delete process.env.RATING_CHECKPOINT_INTERVAL
+      } else {
+        process.env.RATING_CHECKPOINT_INTERVAL = originalInterval
+      }
+    }
+  })
+
+  it('fails the recalculation instead of replaying zero events when the log cannot be read', async () => {
+    await vote('logo-1', 'logo-2')
+    await vote('logo-2', 'logo-3')
+    const { rotateVoteEventLog } = await import('../vote-event-log')
+    const [segment] = (await rotateVoteEventLog()).segments
+    await rm(path.join(dataDir, 'vote-events', segment!.fileName))
+
+    await expect(store.recalculateContestElo('test-contest')).rejects.toMatchObject({ code: 'ENOENT' })
+    expect((await store.getEloState('test-contest')).entries['logo-2']?.matches).toBe(2)
+  })
+
+  it('reports drift and discards checkpoints that disagree with a full replay', async () => {
+    await vote('logo-1', 'logo-2')
+    await vote('logo-2', 'logo-3')
+    await store.recalculateContestElo('test-contest', { dryRun: true })
+
+    const checkpointPath = path.join(dataDir, 'rating-checkpoints.json')
+    const file = JSON.parse(await readFile(checkpointPath, 'utf-8'))
+    file.contests['test-contest'][0].entries['logo-1'].rating = 9999
+    await writeFile(checkpointPath, JSON.stringify(file), 'utf-8')
+
+    const verification = await store.verifyContestReplay('test-contest')
+    expect(verification.checkpointOffset).toBe(2)
+    expect(verification.drift.map((entry) => entry.logoId)).toContain('logo-1')
+
+    const cleared = JSON.parse(await readFile(checkpointPath, 'utf-8'))
+    expect(cleared.contests['test-contest']).toBeUndefined()
+  })
+})
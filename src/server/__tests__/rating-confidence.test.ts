@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+
+import type { EloState, MatchHistoryEntry } from '../../lib/elo-engine'
+import type { LogoEntry } from '../../lib/logo-utils'
+import { bootstrapRatingConfidence, bootstrapRatingConfidenceAsync } from '../../lib/rating-confidence'
+import { getRatingEngine } from '../../lib/rating-engines'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+function buildLogo(id: string): LogoEntry {
+  return {
+    id,
+    contestId: 'test-contest',
+    name: id,
+    codename: id,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+function buildState(pairs: Array<[string, string]>): EloState {
+  const engine = getRatingEngine({ algorithm: 'elo' })
+  // Stored history is newest-first; the last pair listed is the most recent vote.
+  const history: MatchHistoryEntry[] = pairs
+    .map(([winnerId, loserId], index) => ({ winnerId, loserId, voterHash: `voter-${index}`, timestamp: index + 1 }))
+    .reverse()
+  return engine.rebuild(history, ['a', 'b', 'c'].map(buildLogo))
+}
+
+describe('bootstrapRatingConfidence', () => {
+  const logos = ['a', 'b', 'c'].map(buildLogo)
+  const engine = getRatingEngine({ algorithm: 'bradley-terry' })
+
+  it('flags a dominant leader as significantly ahead', () => {
+    const pairs: Array<[string, string]> = []
+    for (let round = 0; round < 20; round += 1) {
+      pairs.push(['a', 'b'], ['a', 'c'], ['b', 'c'])
+    }
+    const state = buildState(pairs)
+
+    const confidence = bootstrapRatingConfidence(engine, state, logos, ['a', 'b', 'c'], { samples: 100 })
+
+    expect(confidence.significance).toMatchObject({ leaderId: 'a', runnerUpId: 'b', significant: true })
+    const interval = confidence.intervals.a!
+    expect(interval.lower).toBeLessThan(interval.upper)
+    expect(interval.lower).toBeGreaterThan(confidence.intervals.c!.upper)
+  })
+
+  it('reports a near-even top two as a statistical tie', () => {
+    const pairs: Array<[string, string]> = []
+    for (let round = 0; round < 6; round += 1) {
+      pairs.push(['a', 'b'], ['b', 'a'], ['a', 'c'], ['b', 'c'])
+    }
+    pairs.push(['a', 'b'])
+    const state = buildState(pairs)
+
+    const confidence = bootstrapRatingConfidence(engine, state, logos, ['a', 'b', 'c'], { samples: 100 })
+
+    expect(confidence.significance?.significant).toBe(false)
+    expect(confidence.significance?.probabilityAhead).toBeLessThan(0.95)
+  })
+
+  it('is deterministic for the same history and empty without votes', () => {
+    const state = buildState([['a', 'b'], ['b', 'c'], ['a', 'c']])
+    const first = bootstrapRatingConfidence(engine, state, logos, ['a', 'b', 'c'], { samples: 50 })
+    const second = bootstrapRatingConfidence(engine, state, logos, ['a', 'b', 'c'], { samples: 50 })
+    expect(second).toEqual(first)
+
+    expect(bootstrapRatingConfidence(engine, { entries: {}, history: [] }, logos, [])).toEqual({
+      intervals: {},
+      significance: null,
+    })
+  })
+
+  it('gives the same result when run in slices off the event loop', async () => {
+    const state = buildState([['a', 'b'], ['b', 'c'], ['a', 'c'], ['a', 'b']])
+    const sync = bootstrapRatingConfidence(engine, state, logos, ['a', 'b', 'c'], { samples: 40 })
+    expect(await bootstrapRatingConfidenceAsync(engine, state, logos, ['a', 'b', 'c'], { samples: 40 })).toEqual(sync)
+  })
+})
@@ -0,0 +1,189 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { HISTORY_LIMIT, type EloState, type MatchHistoryEntry } from '../../lib/elo-engine'
+import type { LogoEntry } from '../../lib/logo-utils'
+import { fitBradleyTerry, getRatingEngine, normalizeRatingSettings } from '../../lib/rating-engines'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+let recordVote: typeof import('../data-store').recordVote
+let getEloState: typeof import('../data-store').getEloState
+let rebuildContestRatings: typeof import('../data-store').rebuildContestRatings
+let updateContest: typeof import('../contest-store').updateContest
+
+function buildLogo(id: string, name: string) {
+  return {
+    id,
+    contestId: 'test-contest',
+    name,
+    codename: name.toLowerCase(),
+    description: null,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+function match(winnerId: string, loserId: string, index: number): MatchHistoryEntry {
+  return { winnerId, loserId, voterHash: `voter-${index}`, timestamp: index }
+}
+
+const EMPTY_STATE: EloState = { entries: {}, history: [] }
+
+describe('rating engines', () => {
+  it('normalizes settings and applies the Elo K-factor', () => {
+    expect(normalizeRatingSettings({ algorithm: 'unknown', kFactor: 500 })).toEqual({ algorithm: 'elo', kFactor: 32 })
+
+    const soft = getRatingEngine({ algorithm: 'elo', kFactor: 16 }).applyMatch(EMPTY_STATE, 'a', 'b', null)
+    const sharp = getRatingEngine({ algorithm: 'elo', kFactor: 64 }).applyMatch(EMPTY_STATE, 'a', 'b', null)
+
+    expect(soft.entries.a?.rating).toBe(1508)
+    expect(sharp.entries.a?.rating).toBe(1532)
+  })
+
+  it('shrinks Glicko-2 deviation as matches accumulate', () => {
+    const engine = getRatingEngine({ algorithm: 'glicko2' })
+    const first = engine.applyMatch(EMPTY_STATE, 'a', 'b', null)
+
+    expect(first.entries.a!.rating).toBeGreaterThan(1500)
+    expect(first.entries.b!.rating).toBeLessThan(1500)
+    expect(first.entries.a!.deviation).toBeLessThan(350)
+
+    const second = engine.applyMatch(first, 'a', 'b', null)
+    expect(second.entries.a!.deviation).toBeLessThan(first.entries.a!.deviation!)
+    expect(second.history).toHaveLength(2)
+  })
+
+  it('fits Bradley–Terry strengths independent of vote order', () => {
+    const history = [match('a', 'b', 1), match('a', 'c', 2), match('b', 'c', 3), match('a', 'b', 4), match('c', 'b', 5)]
+    const forward = fitBradleyTerry(history, ['a', 'b', 'c'])
+    const reversed = fitBradleyTerry([...history].reverse(), ['a', 'b', 'c'])
+
+    expect(forward.a!.rating).toBeGreaterThan(forward.b!.rating)
+    expect(forward.a!.deviation).toBeGreaterThan(0)
+    for (const id of ['a', 'b', 'c']) {
+      expect(reversed[id]!.rating).toBeCloseTo(forward[id]!.rating, 6)
+    }
+  })
+
+  it('keeps warm-started Bradley–Terry votes close to a full refit over the retained window', () => {
+    const engine = getRatingEngine({ algorithm: 'bradley-terry' })
+    const logos = ['a', 'b', 'c', 'd'].map((id) => ({ id }) as LogoEntry)
+    const results: Array<[string, string]> = [['a', 'b'], ['a', 'c'], ['b', 'c'], ['c', 'd'], ['a', 'd'], ['b', 'a'], ['d', 'c']]
+
+    let state = engine.rebuild([], logos)
+    for (let index = 0; index < 60; index += 1) {
+      const [winnerId, loserId] = results[index % results.length]!
+      state = engine.applyMatch(state, winnerId, loserId, `voter-${index}`, { timestamp: index })
+    }
+    const refit = engine.rebuild(state.history, logos)
+    for (const id of ['a', 'b', 'c', 'd']) {
+      expect(Math.abs(state.entries[id]!.rating - refit.entries[id]!.rating)).toBeLessThan(1)
+      expect(state.entries[id]!.wins).toBe(refit.entries[id]!.wins)
+    }
+
+    // Matches beyond the retained window count toward neither the fit nor the tallies.
+    const overflow = Array.from({ length: HISTORY_LIMIT + 3 }, (_, index) =>
+      index < HISTORY_LIMIT ? match('a', 'b', HISTORY_LIMIT + 3 - index) : match('c', 'd', HISTORY_LIMIT + 3 - index),
+    )
+    const rebuilt = engine.rebuild(overflow, logos)
+    expect(rebuilt.entries.a).toMatchObject({ wins: HISTORY_LIMIT, matches: HISTORY_LIMIT })
+    expect(rebuilt.entries.c).toMatchObject({ wins: 0, matches: 0 })
+  })
+})
+
+describe('contest rating rebuild', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-ratings-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+
+    vi.resetModules()
+
+    await writeFile(
+      path.join(dataDir, 'contests.json'),
+      `${JSON.stringify(
+        {
+          version: 1,
+          activeContestId: 'test-contest',
+          contests: [
+            {
+              id: 'test-contest',
+              slug: 'test-contest',
+              title: 'Test Contest',
+              subtitle: null,
+              description: null,
+              status: 'active',
+              createdAt: ISO_NOW,
+              updatedAt: ISO_NOW,
+              startsAt: ISO_NOW,
+              endsAt: null,
+              archivedAt: null,
+              votingOpen: true,
+            },
+          ],
+          updatedAt: ISO_NOW,
+        },
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      `${JSON.stringify(
+        {
+          version: 3,
+          logos: [buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo'), buildLogo('logo-3', 'Charlie')],
+          updatedAt: ISO_NOW,
+        },
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+
+    ;({ recordVote, getEloState, rebuildContestRatings } = await import('../data-store'))
+    ;({ updateContest } = await import('../contest-store'))
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('re-rates stored history when the contest switches engines', async () => {
+    await recordVote('logo-1', 'logo-2', 'voter-a', 'test-contest')
+    await recordVote('logo-1', 'logo-3', 'voter-a', 'test-contest')
+
+    const before = await getEloState('test-contest')
+    expect(before.entries['logo-1']?.deviation).toBeUndefined()
+
+    await updateContest('test-contest', { rating: { algorithm: 'glicko2' } })
+    const rebuilt = await rebuildContestRatings('test-contest')
+
+    expect(rebuilt.history).toHaveLength(2)
+    expect(rebuilt.entries['logo-1']).toMatchObject({ wins: 2, matches: 2 })
+    expect(rebuilt.entries['logo-1']!.deviation).toBeLessThan(350)
+
+    const next = await recordVote('logo-2', 'logo-3', 'voter-b', 'test-contest')
+    expect(next.entries['logo-2']!.deviation).toBeDefined()
+  })
+})
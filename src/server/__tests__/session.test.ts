@@ -0,0 +1,129 @@
+import { createHash } from 'node:crypto'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+let createSessionCookie: typeof import('../session').createSessionCookie
+let createSessionToken: typeof import('../session').createSessionToken
+let getSessionUser: typeof import('../session').getSessionUser
+let verifyRosterPassword: typeof import('../roster-store').verifyRosterPassword
+let findRosterUser: typeof import('../roster-store').findRosterUser
+
+function requestWithCookie(cookieHeader: string | null) {
+  return new Request('http://localhost/api/session', {
+    headers: cookieHeader ? { cookie: cookieHeader } : {},
+  })
+}
+
+function cookiePair(setCookie: string) {
+  return setCookie.split(';')[0] ?? ''
+}
+
+describe('server sessions', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+  let originalSecret: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-session-'))
+    originalDataDir = process.env.DATA_DIR
+    originalSecret = process.env.SESSION_SECRET
+    process.env.DATA_DIR = dataDir
+    process.env.SESSION_SECRET = 'test-secret'
+
+    vi.resetModules()
+
+    await writeFile(
+      path.join(dataDir, 'allowed-users.json'),
+      `${JSON.stringify(
+        [
+          {
+            alias: 'alpha',
+            email: 'alpha@example.com',
+            name: 'Alpha Admin',
+            role: 'admin',
+            passwordHash: createHash('sha256').update('hunter2alpha').digest('hex'),
+          },
+          {
+            alias: 'bravo',
+            email: 'bravo@example.com',
+            name: 'Bravo Member',
+            role: 'member',
+          },
+        ],
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+
+    ;({ createSessionCookie, createSessionToken, getSessionUser } = await import('../session'))
+    ;({ verifyRosterPassword, findRosterUser } = await import('../roster-store'))
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    if (originalSecret === undefined) {
+      delete process.env.SESSION_SECRET
+    } else {
+      process.env.SESSION_SECRET = originalSecret
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('verifies roster passwords on the server', async () => {
+    const record = await findRosterUser('alpha@example.com')
+    expect(record).not.toBeNull()
+    expect(verifyRosterPassword(record!, 'hunter2')).toBe(true)
+    expect(verifyRosterPassword(record!, 'wrong')).toBe(false)
+  })
+
+  it('issues an HTTP-only cookie that resolves back to the roster user', async () => {
+    const setCookie = await createSessionCookie(requestWithCookie(null), 'Alpha')
+
+    expect(setCookie).toContain('HttpOnly')
+    expect(setCookie).toContain('SameSite=Lax')
+
+    const user = await getSessionUser(requestWithCookie(cookiePair(setCookie)))
+    expect(user).toMatchObject({
+      alias: 'alpha',
+      name: 'Alpha Admin',
+      role: 'admin',
+      hasPassword: true,
+    })
+    expect(user).not.toHaveProperty('passwordHash')
+  })
+
+  it('rejects tampered or missing cookies', async () => {
+    const setCookie = await createSessionCookie(requestWithCookie(null), 'bravo')
+    const [name, value] = cookiePair(setCookie).split('=')
+    const [payload, signature] = decodeURIComponent(value ?? '').split('.')
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ alias: 'alpha', issuedAt: 0, expiresAt: Date.now() + 60_000 }),
+      'utf-8',
+    ).toString('base64url')
+
+    expect(payload).toBeTruthy()
+    expect(await getSessionUser(requestWithCookie(`${name}=${forgedPayload}.${signature}`))).toBeNull()
+    expect(await getSessionUser(requestWithCookie(null))).toBeNull()
+  })
+
+  it('rejects sessions issued before the password last changed', async () => {
+    const earlier = cookiePair(await createSessionCookie(requestWithCookie(null), 'alpha'))
+    const changedAt = Date.now() + 1_000
+    const roster = JSON.parse(await readFile(path.join(dataDir, 'allowed-users.json'), 'utf-8'))
+    roster[0].passwordChangedAt = new Date(changedAt).toISOString()
+    await writeFile(path.join(dataDir, 'allowed-users.json'), JSON.stringify(roster), 'utf-8')
+
+    expect(await getSessionUser(requestWithCookie(earlier))).toBeNull()
+
+    const later = await createSessionToken('alpha', changedAt + 1)
+    expect(await getSessionUser(requestWithCookie(`ces3_session=${later}`))).toMatchObject({ alias: 'alpha' })
+  })
+})
@@ -0,0 +1,152 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const sqliteDriver = 'node:sqlite'
+const sqliteAvailable =
+  Boolean(process.versions.bun) ||
+  (await import(/* @vite-ignore */ sqliteDriver).then(
+    () => true,
+    () => false,
+  ))
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+interface TestMatch {
+  winnerId: string
+  loserId: string
+  voterHash: string
+  timestamp: number
+  winnerVersion?: number
+  loserVersion?: number
+}
+
+function votesDocument(history: TestMatch[]) {
+  return {
+    version: 2,
+    contests: {
+      'test-contest': {
+        state: { entries: { a: { rating: 1516, wins: 1, losses: 0, matches: 1 } }, history },
+        updatedAt: ISO_NOW,
+      },
+    },
+    updatedAt: ISO_NOW,
+  }
+}
+
+describe('storage adapters', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+  let originalDataStore: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-storage-'))
+    originalDataDir = process.env.DATA_DIR
+    originalDataStore = process.env.DATA_STORE
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    if (originalDataStore === undefined) {
+      delete process.env.DATA_STORE
+    } else {
+      process.env.DATA_STORE = originalDataStore
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('selects the backend from DATA_STORE', async () => {
+    const { resolveStorageBackend } = await import('../storage-adapter')
+
+    expect(resolveStorageBackend(undefined)).toBe('json')
+    expect(resolveStorageBackend(' SQLite ')).toBe('sqlite')
+    expect(() => resolveStorageBackend('postgres')).toThrow(/Unsupported DATA_STORE/)
+  })
+
+  it('keeps the JSON files as the default store', async () => {
+    delete process.env.DATA_STORE
+    const { getStorageAdapter } = await import('../storage-adapter')
+    const storage = await getStorageAdapter()
+
+    expect(storage.backend).toBe('json')
+    expect(await storage.readDocument('votes')).toBeNull()
+
+    await storage.writeDocument('votes', votesDocument([]))
+    const raw = JSON.parse(await readFile(path.join(dataDir, 'votes.json'), 'utf-8'))
+    expect(raw.contests['test-contest'].state.entries.a.rating).toBe(1516)
+  })
+
+  it.skipIf(!sqliteAvailable)('round-trips documents through SQLite tables', async () => {
+    process.env.DATA_STORE = 'sqlite'
+    const { getStorageAdapter } = await import('../storage-adapter')
+    const storage = await getStorageAdapter()
+    expect(storage.backend).toBe('sqlite')
+    expect(await storage.readDocument('votes')).toBeNull()
+
+    const first = { winnerId: 'a', loserId: 'b', voterHash: 'v1', timestamp: 1 }
+    const second = { winnerId: 'b', loserId: 'c', voterHash: 'v2', timestamp: 2 }
+    await storage.writeDocument('votes', votesDocument([first]))
+    await storage.writeDocument('votes', votesDocument([second, first]))
+    expect(await storage.readDocument('votes')).toEqual(votesDocument([second, first]))
+
+    // Dropping an older vote (as a moderation replay does) rewrites the contest's rows.
+    await storage.writeDocument('votes', votesDocument([second]))
+    expect(await storage.readDocument('votes')).toEqual(votesDocument([second]))
+
+    const logos = {
+      version: 3,
+      logos: [{ id: 'a', contestId: 'test-contest', ownerAlias: null, removedAt: null, name: 'Alpha' }],
+      updatedAt: ISO_NOW,
+    }
+    await storage.writeDocument('logos', logos)
+    expect(await storage.readDocument('logos')).toEqual(logos)
+  })
+
+  it.skipIf(!sqliteAvailable || Boolean(process.versions.bun))('adds new match columns to databases from earlier releases', async () => {
+    const { DatabaseSync } = (await import(/* @vite-ignore */ sqliteDriver)) as {
+      DatabaseSync: new (filePath: string) => { exec(sql: string): void; close(): void }
+    }
+    const sqlitePath = path.join(dataDir, 'badge-arena.sqlite')
+    const legacy = new DatabaseSync(sqlitePath)
+    legacy.exec(`CREATE TABLE matches (
+      contest_id TEXT NOT NULL, seq INTEGER NOT NULL, winner_id TEXT NOT NULL, loser_id TEXT NOT NULL,
+      voter_hash TEXT, timestamp INTEGER NOT NULL, PRIMARY KEY (contest_id, seq)
+    )`)
+    legacy.close()
+
+    process.env.DATA_STORE = 'sqlite'
+    const { getStorageAdapter } = await import('../storage-adapter')
+    const storage = await getStorageAdapter()
+    const shown = { winnerId: 'a', loserId: 'b', voterHash: 'v1', timestamp: 1, winnerVersion: 2, loserVersion: 1 }
+    const unversioned = { winnerId: 'b', loserId: 'a', voterHash: 'v2', timestamp: 2 }
+    await storage.writeDocument('votes', votesDocument([unversioned, shown]))
+    expect(await storage.readDocument('votes')).toEqual(votesDocument([unversioned, shown]))
+  })
+
+  it.skipIf(!sqliteAvailable)('serializes SQLite transactions so concurrent updates are not lost', async () => {
+    process.env.DATA_STORE = 'sqlite'
+    const { getStorageAdapter } = await import('../storage-adapter')
+    const storage = await getStorageAdapter()
+    await storage.writeDocument('contests', { version: 1, activeContestId: 'x', contests: [], updatedAt: ISO_NOW, counter: 0 })
+
+    await Promise.all(
+      Array.from({ length: 10 }, () =>
+        storage.transaction(['contests'], async () => {
+          const current = (await storage.readDocument('contests')) as { counter: number }
+          await new Promise((resolve) => setTimeout(resolve, 1))
+          await storage.writeDocument('contests', { ...current, counter: current.counter + 1 })
+        }),
+      ),
+    )
+
+    expect(await storage.readDocument('contests')).toMatchObject({ counter: 10 })
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildLogoImageHeaders, LogoImageError, processLogoImage } from '../logo-image-pipeline'
+import { sanitizeSvg, SvgSanitizationError } from '../svg-sanitizer'
+
+const SVG_OPEN = '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="64" height="64">'
+
+function wrap(body: string): string {
+  return `${SVG_OPEN}${body}</svg>`
+}
+
+describe('sanitizeSvg', () => {
+  it('keeps ordinary vector artwork intact', () => {
+    const source = wrap(
+      '<defs><linearGradient id="g"><stop offset="0" stop-color="#0af"/></linearGradient></defs>' +
+        '<rect width="64" height="64" fill="url(#g)"/><use href="#g"/><text x="4" y="40">CES3 &amp; co</text>',
+    )
+    expect(sanitizeSvg(source)).toBe(`${source}\n`)
+  })
+
+  it.each([
+    ['script elements', '<script>alert(1)</script><rect width="1" height="1"/>'],
+    ['CDATA scripts', '<script><![CDATA[alert(1)]]></script>'],
+    ['foreignObject', '<foreignObject><iframe src="javascript:alert(1)"></iframe></foreignObject>'],
+    ['animation that rewrites hrefs', '<a><animate attributeName="href" to="javascript:alert(1)"/><rect/></a>'],
+    ['set elements', '<set attributeName="onmouseover" to="alert(1)"/>'],
+    ['stylesheets', '<style>@import url(https://evil.example/x.css);</style>'],
+    ['iframes', '<iframe srcdoc="&lt;script&gt;alert(1)&lt;/script&gt;"></iframe>'],
+  ])('drops %s', (_, body) => {
+    const output = sanitizeSvg(wrap(body))
+    expect(output).not.toMatch(/script|alert|foreignObject|iframe|animate|<set|@import|<style/i)
+  })
+
+  it.each([
+    ['event handlers', '<rect onclick="alert(1)" width="1"/>', /onclick/i],
+    ['handlers on the root', '', /onload/i, '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"></svg>'],
+    ['javascript links', '<a xlink:href="javascript:alert(1)"><rect/></a>', /javascript/i],
+    ['entity-encoded schemes', '<use href="java&#115;cript:alert(1)"/><rect fill="&#x6a;avascript:x"/>', /cript|&#/i],
+    ['external use references', '<use href="https://evil.example/sprite.svg#icon"/>', /evil/],
+    ['external images', '<image href="https://evil.example/track.png"/>', /evil/],
+    ['nested SVG data URLs', '<image href="data:image/svg+xml;base64,PHN2Zz4="/>', /svg\+xml/],
+    ['external style URLs', '<rect style="fill:url(https://evil.example/x)"/>', /evil/],
+    ['external filter URLs', '<rect filter="url(https://evil.example/f.svg#x)"/>', /evil/],
+  ])('strips %s', (_, body, forbidden, whole?: string) => {
+    expect(sanitizeSvg(whole ?? wrap(body))).not.toMatch(forbidden)
+  })
+
+  it('keeps embedded raster images and unwraps links', () => {
+    const output = sanitizeSvg(wrap('<a href="https://example.com"><image href="data:image/png;base64,iVBORw0KGgo="/></a>'))
+    expect(output).toContain('<image href="data:image/png;base64,iVBORw0KGgo="/>')
+    expect(output).not.toContain('<a')
+  })
+
+  it('rejects entity declarations, malformed markup and non-SVG roots', () => {
+    const xxe = '<?xml version="1.0"?><!DOCTYPE svg [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>' + wrap('<text>&xxe;</text>')
+    expect(() => sanitizeSvg(xxe)).toThrow(SvgSanitizationError)
+    expect(() => sanitizeSvg(wrap('<rect width=1/>'))).toThrow(SvgSanitizationError)
+    expect(() => sanitizeSvg(wrap('<g><rect/>'))).toThrow(SvgSanitizationError)
+    expect(() => sanitizeSvg('<html><svg></svg></html>')).toThrow(SvgSanitizationError)
+  })
+})
+
+describe('SVG uploads', () => {
+  it('stores the sanitized markup and renders PNG/WebP renditions from it', async () => {
+    const upload = Buffer.from(wrap('<script>alert(1)</script><circle cx="32" cy="32" r="30" fill="#0af"/>'))
+    const processed = await processLogoImage(upload, { declaredMimeType: 'image/svg+xml' })
+
+    expect(processed.primary.format).toBe('svg')
+    expect(processed.primary.data.toString('utf-8')).not.toContain('script')
+    expect(processed.renditions.map((entry) => entry.format)).toEqual(['png', 'webp', 'webp', 'webp', 'webp'])
+  })
+
+  it('surfaces unparseable SVGs as rejected uploads', async () => {
+    await expect(processLogoImage(Buffer.from(wrap('<g>')))).rejects.toBeInstanceOf(LogoImageError)
+  })
+
+  it('serves images under a sandboxing content security policy', () => {
+    const headers = buildLogoImageHeaders('image/svg+xml', 'badge "one".svg')
+    expect(headers['Content-Security-Policy']).toContain("default-src 'none'")
+    expect(headers['Content-Security-Policy']).toContain('sandbox')
+    expect(headers['Content-Disposition']).toBe('inline; filename="badge-one-.svg"')
+    expect(headers['X-Content-Type-Options']).toBe('nosniff')
+  })
+})
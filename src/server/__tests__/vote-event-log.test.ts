@@ -0,0 +1,179 @@
+import { mkdtemp, readFile, readdir, rm, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+type VoteEventLog = typeof import('../vote-event-log')
+
+function event(index: number) {
+  return {
+    id: `event-${index}`,
+    type: 'vote-recorded',
+    occurredAt: new Date(Date.now() + index).toISOString(),
+    contestId: 'test-contest',
+  }
+}
+
+describe('vote event log', () => {
+  let dataDir: string
+  const originalEnv = { ...process.env }
+  let log: VoteEventLog
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-event-log-'))
+    process.env.DATA_DIR = dataDir
+    // Roughly three events per segment.
+    process.env.VOTE_EVENT_LOG_MAX_BYTES = '300'
+    vi.resetModules()
+    log = await import('../vote-event-log')
+  })
+
+  afterEach(async () => {
+    process.env = { ...originalEnv }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  async function ids(): Promise<string[]> {
+    const result: string[] = []
+    for await (const line of log.readVoteEventLines()) {
+      result.push((JSON.parse(line.text) as { id: string }).id)
+    }
+    return result
+  }
+
+  it('rotates into segments and replays them in order', async () => {
+    for (let index = 0; index < 10; index += 1) {
+      await log.appendVoteEvent(event(index))
+    }
+
+    const manifest = await log.readVoteEventLogManifest()
+    expect(manifest.segments.length).toBeGreaterThan(1)
+    expect(manifest.head.events).toBe(10)
+    expect(await ids()).toEqual(Array.from({ length: 10 }, (_, index) => `event-${index}`))
+    expect(await log.verifyVoteEventLog()).toMatchObject({ ok: true, events: 10, legacyEvents: 0 })
+  })
+
+  it('gzips old segments and still verifies them', async () => {
+    for (let index = 0; index < 8; index += 1) {
+      await log.appendVoteEvent(event(index))
+    }
+
+    const manifest = await log.compactVoteEventLog()
+    expect(manifest.segments.every((segment) => segment.compressed)).toBe(true)
+    const files = await readdir(path.join(dataDir, 'vote-events'))
+    expect(files.filter((file) => file.endsWith('.ndjson'))).toEqual([])
+
+    expect(await ids()).toHaveLength(8)
+    expect((await log.verifyVoteEventLog()).ok).toBe(true)
+  })
+
+  it('detects an edited event', async () => {
+    process.env.VOTE_EVENT_LOG_MAX_BYTES = String(1024 * 1024)
+    for (let index = 0; index < 4; index += 1) {
+      await log.appendVoteEvent(event(index))
+    }
+
+    const activePath = log.resolveVoteEventLogPath()
+    const tampered = (await readFile(activePath, 'utf-8')).replace('"event-1"', '"event-x"')
+    await writeFile(activePath, tampered, 'utf-8')
+
+    const result = await log.verifyVoteEventLog()
+    expect(result.ok).toBe(false)
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({ kind: 'hash-mismatch', file: 'vote-events.ndjson', lineNumber: 3 }),
+    )
+  })
+
+  it('detects a truncated tail', async () => {
+    process.env.VOTE_EVENT_LOG_MAX_BYTES = String(1024 * 1024)
+    for (let index = 0; index < 4; index += 1) {
+      await log.appendVoteEvent(event(index))
+    }
+
+    const activePath = log.resolveVoteEventLogPath()
+    const lines = (await readFile(activePath, 'utf-8')).trim().split('\n')
+    await writeFile(activePath, `${lines.slice(0, 3).join('\n')}\n`, 'utf-8')
+
+    const result = await log.verifyVoteEventLog()
+    expect(result.issues.map((issue) => issue.kind)).toEqual(['truncated'])
+  })
+
+  it('adopts events appended just before a crash that skipped the manifest update', async () => {
+    process.env.VOTE_EVENT_LOG_MAX_BYTES = String(1024 * 1024)
+    for (let index = 0; index < 3; index += 1) {
+      await log.appendVoteEvent(event(index))
+    }
+    const manifestPath = path.join(dataDir, 'vote-events', 'manifest.json')
+    const beforeCrash = await readFile(manifestPath, 'utf-8')
+    await log.appendVoteEvent(event(3))
+    await writeFile(manifestPath, beforeCrash, 'utf-8')
+
+    vi.resetModules()
+    log = await import('../vote-event-log')
+    expect(await log.verifyVoteEventLog()).toMatchObject({ ok: true, events: 4 })
+
+    // New events chain on from the adopted one.
+    await log.appendVoteEvent(event(4))
+    expect(await log.verifyVoteEventLog()).toMatchObject({ ok: true, events: 5 })
+  })
+
+  it('rejects instead of crashing when a compressed segment cannot be read', async () => {
+    for (let index = 0; index < 8; index += 1) {
+      await log.appendVoteEvent(event(index))
+    }
+    const [segment] = (await log.compactVoteEventLog()).segments
+    await rm(path.join(dataDir, 'vote-events', segment!.fileName))
+
+    await expect(ids()).rejects.toMatchObject({ code: 'ENOENT' })
+  })
+
+  it('picks up segments rotated by another process before writing again', async () => {
+    process.env.VOTE_EVENT_LOG_MAX_BYTES = String(1024 * 1024)
+    for (let index = 0; index < 3; index += 1) {
+      await log.appendVoteEvent(event(index))
+    }
+    // A second module instance stands in for `scripts/vote-log.ts rotate` run against the live directory.
+    const server = log
+    vi.resetModules()
+    const cli = await import('../vote-event-log')
+    await cli.rotateVoteEventLog()
+
+    await server.appendVoteEvent(event(3))
+    log = server
+    expect((await server.readVoteEventLogManifest()).segments).toHaveLength(1)
+    expect(await ids()).toEqual(['event-0', 'event-1', 'event-2', 'event-3'])
+    expect(await server.verifyVoteEventLog()).toMatchObject({ ok: true, events: 4 })
+  })
+
+  it('waits for the lock file and breaks one left by a crashed process', async () => {
+    const lockPath = path.join(dataDir, 'vote-events.lock')
+    await writeFile(lockPath, '12345\n', 'utf-8')
+    const pending = log.appendVoteEvent(event(0))
+    await new Promise((resolve) => setTimeout(resolve, 60))
+    expect(await readdir(dataDir)).not.toContain('vote-events.ndjson')
+    await rm(lockPath)
+    await pending
+    expect(await ids()).toEqual(['event-0'])
+
+    const stale = new Date(Date.now() - 5 * 60_000)
+    await writeFile(lockPath, '12345\n', 'utf-8')
+    await utimes(lockPath, stale, stale)
+    await log.appendVoteEvent(event(1))
+    expect(await ids()).toEqual(['event-0', 'event-1'])
+    expect(await readdir(dataDir)).not.toContain('vote-events.lock')
+  })
+
+  it('accepts legacy events written before chaining', async () => {
+    await writeFile(
+      path.join(dataDir, 'vote-events.ndjson'),
+      `${JSON.stringify(event(0))}\n${JSON.stringify(event(1))}\n`,
+      'utf-8',
+    )
+    vi.resetModules()
+    log = await import('../vote-event-log')
+
+    await log.appendVoteEvent(event(2))
+
+    expect(await log.verifyVoteEventLog()).toMatchObject({ ok: true, events: 3, legacyEvents: 2 })
+  })
+})
@@ -0,0 +1,114 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { MatchHistoryEntry } from '../../lib/elo-engine'
+
+let checkVoteRateLimit: typeof import('../vote-guard').checkVoteRateLimit
+let detectVoteAnomalies: typeof import('../vote-guard').detectVoteAnomalies
+let flagVoteAnomalies: typeof import('../vote-guard').flagVoteAnomalies
+let resolveClientIp: typeof import('../vote-guard').resolveClientIp
+let countRateLimitBuckets: typeof import('../vote-guard').countRateLimitBuckets
+let readVoteAnomalies: typeof import('../audit-log').readVoteAnomalies
+
+const NOW = Date.parse('2024-01-01T00:00:00.000Z')
+
+function match(winnerId: string, loserId: string, voterHash: string, secondsAgo: number): MatchHistoryEntry {
+  return { winnerId, loserId, voterHash, timestamp: NOW - secondsAgo * 1000 }
+}
+
+describe('vote guard', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-guard-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+
+    vi.resetModules()
+    ;({ checkVoteRateLimit, detectVoteAnomalies, flagVoteAnomalies, resolveClientIp, countRateLimitBuckets } =
+      await import('../vote-guard'))
+    ;({ readVoteAnomalies } = await import('../audit-log'))
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('limits votes per voter and per IP within the window', () => {
+    const config = { windowMs: 60_000, perVoter: 2, perIp: 3 }
+
+    expect(checkVoteRateLimit({ voterHash: 'a', ip: '10.0.0.1' }, config, NOW).allowed).toBe(true)
+    expect(checkVoteRateLimit({ voterHash: 'a', ip: '10.0.0.1' }, config, NOW + 1).allowed).toBe(true)
+    expect(checkVoteRateLimit({ voterHash: 'a', ip: '10.0.0.1' }, config, NOW + 2)).toMatchObject({
+      allowed: false,
+      scope: 'voter',
+      retryAfterSeconds: 60,
+    })
+
+    expect(checkVoteRateLimit({ voterHash: 'b', ip: '10.0.0.1' }, config, NOW + 3).allowed).toBe(true)
+    expect(checkVoteRateLimit({ voterHash: 'c', ip: '10.0.0.1' }, config, NOW + 4)).toMatchObject({
+      allowed: false,
+      scope: 'ip',
+    })
+
+    expect(checkVoteRateLimit({ voterHash: 'a', ip: '10.0.0.2' }, config, NOW + 60_001).allowed).toBe(true)
+  })
+
+  it('reads the client IP at the trusted proxy depth and sweeps idle buckets', () => {
+    const request = new Request('http://localhost/api/votes', {
+      headers: { 'X-Forwarded-For': '6.6.6.6, 203.0.113.7' },
+    })
+    // The runtime's socket peer, as srvx and server/start.js expose it.
+    Object.defineProperty(request, 'ip', { value: '10.0.0.9' })
+    expect(resolveClientIp(request, 0)).toBe('10.0.0.9')
+    expect(resolveClientIp(request, 1)).toBe('203.0.113.7')
+    expect(resolveClientIp(request, 5)).toBe('6.6.6.6')
+    // Without a peer the header alone cannot be trusted.
+    const headerOnly = new Request('http://localhost/api/votes', { headers: { 'X-Forwarded-For': '6.6.6.6' } })
+    expect(resolveClientIp(headerOnly, 0)).toBeNull()
+    expect(resolveClientIp(headerOnly, 1)).toBeNull()
+
+    const config = { windowMs: 60_000, perVoter: 100, perIp: 100 }
+    for (let index = 0; index < 20; index += 1) {
+      checkVoteRateLimit({ voterHash: null, ip: `198.51.100.${index}` }, config, NOW + index)
+    }
+    expect(countRateLimitBuckets()).toBe(20)
+    checkVoteRateLimit({ voterHash: null, ip: '10.0.0.1' }, config, NOW + 60_100)
+    expect(countRateLimitBuckets()).toBe(1)
+  })
+
+  it('detects vote bursts and single-logo bias', () => {
+    const burst = Array.from({ length: 15 }, (_, index) => match(`logo-${index}`, 'logo-x', 'voter', index))
+    expect(detectVoteAnomalies(burst, 'voter', NOW).map((anomaly) => anomaly.kind)).toContain('vote-burst')
+
+    const biased = Array.from({ length: 8 }, (_, index) => match('logo-1', `logo-${index + 2}`, 'voter', 3600 * (index + 1)))
+    const biasAnomalies = detectVoteAnomalies(biased, 'voter', NOW)
+    expect(biasAnomalies).toEqual([expect.objectContaining({ kind: 'single-logo-bias' })])
+    expect(biasAnomalies[0]?.details.logoId).toBe('logo-1')
+
+    const varied = biased.map((entry, index) =>
+      index % 2 === 0 ? entry : { ...entry, winnerId: entry.loserId, loserId: entry.winnerId },
+    )
+    expect(detectVoteAnomalies(varied, 'voter', NOW)).toEqual([])
+  })
+
+  it('logs flagged anomalies once per cooldown', async () => {
+    const anomaly = { kind: 'vote-burst' as const, message: 'Burst', details: { votes: 20 } }
+
+    await flagVoteAnomalies({ contestId: 'c1', voterHash: 'v', ip: null, anomalies: [anomaly], now: NOW })
+    await flagVoteAnomalies({ contestId: 'c1', voterHash: 'v', ip: null, anomalies: [anomaly], now: NOW + 1000 })
+    await flagVoteAnomalies({ contestId: 'c2', voterHash: 'v', ip: null, anomalies: [anomaly], now: NOW + 2000 })
+
+    expect(await readVoteAnomalies({ contestId: 'c1' })).toHaveLength(1)
+    expect(await readVoteAnomalies()).toHaveLength(2)
+  })
+})
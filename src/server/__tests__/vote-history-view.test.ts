@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from 'vitest'
+
+import type { EloState, MatchHistoryEntry } from '../../lib/elo-engine'
+import {
+  buildCompactVoteState,
+  MAX_DELTA_MATCHES,
+  paginateHistory,
+  projectMatch,
+} from '../vote-history-view'
+
+const viewer = { voterHash: 'voter-a', isAdmin: false }
+
+function match(timestamp: number, voterHash: string | null = 'voter-b'): MatchHistoryEntry {
+  return { winnerId: `w-${timestamp}`, loserId: 'logo-x', timestamp, voterHash }
+}
+
+describe('vote history view', () => {
+  const originalVisibility = process.env.VOTE_HISTORY_VOTER_HASHES
+
+  afterEach(() => {
+    if (originalVisibility === undefined) {
+      delete process.env.VOTE_HISTORY_VOTER_HASHES
+    } else {
+      process.env.VOTE_HISTORY_VOTER_HASHES = originalVisibility
+    }
+  })
+
+  it('only exposes the viewer their own voter hash by default', () => {
+    expect(projectMatch(match(1, 'voter-a'), viewer).voterHash).toBe('voter-a')
+    expect(projectMatch(match(1, 'voter-b'), viewer).voterHash).toBeNull()
+    expect(projectMatch(match(1, 'voter-b'), { voterHash: null, isAdmin: true }).voterHash).toBe('voter-b')
+
+    process.env.VOTE_HISTORY_VOTER_HASHES = 'hidden'
+    expect(projectMatch(match(1, 'voter-a'), viewer).voterHash).toBeNull()
+    process.env.VOTE_HISTORY_VOTER_HASHES = 'full'
+    expect(projectMatch(match(1, 'voter-b'), viewer).voterHash).toBe('voter-b')
+  })
+
+  it('pages through matches that share a timestamp without gaps or repeats', () => {
+    const history = [match(50), match(40), match(40), match(40), match(30), match(20)].map((entry, index) => ({
+      ...entry,
+      winnerId: `w-${index}`,
+    }))
+
+    const seen: string[] = []
+    let cursor: string | null = null
+    do {
+      const page = paginateHistory(history, { cursor, limit: 2, viewer })
+      seen.push(...page.matches.map((entry) => entry.winnerId))
+      cursor = page.nextCursor
+    } while (cursor)
+
+    expect(seen).toEqual(['w-0', 'w-1', 'w-2', 'w-3', 'w-4', 'w-5'])
+  })
+
+  it('keeps later pages stable when new votes arrive', () => {
+    const history = [match(40), match(30), match(20), match(10)]
+    const first = paginateHistory(history, { limit: 2, viewer })
+
+    const next = paginateHistory([match(60), match(50), ...history], { cursor: first.nextCursor, limit: 2, viewer })
+    expect(next.matches.map((entry) => entry.timestamp)).toEqual([20, 10])
+    expect(next.nextCursor).toBeNull()
+    expect(() => paginateHistory(history, { cursor: 'nope', limit: 2, viewer })).toThrow('Invalid history cursor.')
+  })
+
+  it('returns only newer matches in delta mode and flags oversized deltas', () => {
+    const state: EloState = {
+      entries: { 'logo-x': { rating: 1500, wins: 0, losses: 2, matches: 2 } },
+      history: [match(30), match(20), match(10)],
+    }
+
+    const delta = buildCompactVoteState(state, { viewer, since: '15' })
+    expect(delta.history.map((entry) => entry.timestamp)).toEqual([30, 20])
+    expect(delta).toMatchObject({ lastMatchAt: 30, truncated: false, nextCursor: null })
+
+    const recent = buildCompactVoteState(state, { viewer, recent: 1 })
+    expect(recent.history).toHaveLength(1)
+    expect(recent.nextCursor).toBe('30.1')
+
+    const busy: EloState = {
+      entries: {},
+      history: Array.from({ length: MAX_DELTA_MATCHES + 1 }, (_, index) => match(10_000 - index)),
+    }
+    const oversized = buildCompactVoteState(busy, { viewer, since: '0' })
+    expect(oversized.truncated).toBe(true)
+    expect(oversized.history).toHaveLength(MAX_DELTA_MATCHES)
+  })
+
+  it('returns matches from the same millisecond that the delta cursor has not seen', () => {
+    const held = { ...match(20), winnerId: 'logo-held' }
+    const sameMillisecond = { ...match(20), winnerId: 'logo-late' }
+    const state: EloState = { entries: {}, history: [match(30), sameMillisecond, held, match(10)] }
+
+    const delta = buildCompactVoteState(state, { viewer, since: '20.1' })
+    expect(delta.history.map((entry) => entry.winnerId)).toEqual(['w-30', 'logo-late'])
+    expect(buildCompactVoteState(state, { viewer, since: '20.2' }).history).toHaveLength(1)
+    expect(buildCompactVoteState(state, { viewer, since: '20' }).history).toHaveLength(1)
+    expect(() => buildCompactVoteState(state, { viewer, since: '20.x' })).toThrow('Invalid since cursor.')
+  })
+})
@@ -0,0 +1,155 @@
+import { createHash } from 'node:crypto'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+let recordVote: typeof import('../data-store').recordVote
+let DuplicateVoteError: typeof import('../data-store').DuplicateVoteError
+let deriveVoterHash: typeof import('../voter-identity').deriveVoterHash
+let deriveLegacyVoterHash: typeof import('../voter-identity').deriveLegacyVoterHash
+
+function buildLogo(id: string, name: string) {
+  return {
+    id,
+    contestId: 'test-contest',
+    name,
+    codename: name.toLowerCase(),
+    description: null,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+describe('server-derived voter identity', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+  let originalSecret: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-voter-'))
+    originalDataDir = process.env.DATA_DIR
+    originalSecret = process.env.VOTER_HASH_SECRET
+    process.env.DATA_DIR = dataDir
+    process.env.VOTER_HASH_SECRET = 'voter-secret'
+
+    vi.resetModules()
+
+    await writeFile(
+      path.join(dataDir, 'contests.json'),
+      `${JSON.stringify(
+        {
+          version: 1,
+          activeContestId: 'test-contest',
+          contests: [
+            {
+              id: 'test-contest',
+              slug: 'test-contest',
+              title: 'Test Contest',
+              subtitle: null,
+              description: null,
+              status: 'active',
+              createdAt: ISO_NOW,
+              updatedAt: ISO_NOW,
+              startsAt: ISO_NOW,
+              endsAt: null,
+              archivedAt: null,
+              votingOpen: true,
+            },
+          ],
+          updatedAt: ISO_NOW,
+        },
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      `${JSON.stringify(
+        {
+          version: 3,
+          logos: [buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo'), buildLogo('logo-3', 'Charlie')],
+          updatedAt: ISO_NOW,
+        },
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+
+    ;({ recordVote, DuplicateVoteError } = await import('../data-store'))
+    ;({ deriveVoterHash, deriveLegacyVoterHash } = await import('../voter-identity'))
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    if (originalSecret === undefined) {
+      delete process.env.VOTER_HASH_SECRET
+    } else {
+      process.env.VOTER_HASH_SECRET = originalSecret
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('derives a stable keyed hash per alias', async () => {
+    const first = await deriveVoterHash('Alpha@example.com')
+    const second = await deriveVoterHash('alpha')
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/)
+    expect(second).toBe(first)
+    expect(await deriveVoterHash('bravo')).not.toBe(first)
+    expect(await deriveVoterHash('   ')).toBeNull()
+  })
+
+  it('allows one vote per voter and pair within a contest', async () => {
+    const alpha = await deriveVoterHash('alpha')
+    const bravo = await deriveVoterHash('bravo')
+
+    await recordVote('logo-1', 'logo-2', alpha, 'test-contest')
+    await expect(recordVote('logo-2', 'logo-1', alpha, 'test-contest')).rejects.toBeInstanceOf(
+      DuplicateVoteError,
+    )
+
+    await recordVote('logo-1', 'logo-3', alpha, 'test-contest')
+    const state = await recordVote('logo-2', 'logo-1', bravo, 'test-contest')
+    expect(state.history).toHaveLength(3)
+  })
+
+  it('counts votes recorded under the legacy browser hash as the same voter', async () => {
+    const legacy = deriveLegacyVoterHash('Alpha@example.com')!
+    expect(legacy).toBe(createHash('sha256').update('alpha:ces3-vote-salt-v1').digest('hex'))
+
+    await recordVote('logo-1', 'logo-2', legacy, 'test-contest')
+    const alpha = await deriveVoterHash('alpha')
+    await expect(
+      recordVote('logo-2', 'logo-1', alpha, 'test-contest', { legacyVoterHashes: [legacy] }),
+    ).rejects.toBeInstanceOf(DuplicateVoteError)
+
+    const state = await recordVote('logo-1', 'logo-3', alpha, 'test-contest', { legacyVoterHashes: [legacy] })
+    expect(state.history).toHaveLength(2)
+  })
+
+  it('rejects self matches and logos outside the contest', async () => {
+    await expect(recordVote('logo-1', 'logo-1', null, 'test-contest')).rejects.toThrow(
+      /cannot be matched against itself/,
+    )
+    await expect(recordVote('logo-1', 'logo-404', null, 'test-contest')).rejects.toThrow(
+      /must belong to the contest/,
+    )
+  })
+})
@@ -0,0 +1,171 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+let recordVote: typeof import('../data-store').recordVote
+let getEloState: typeof import('../data-store').getEloState
+let listContestVotes: typeof import('../data-store').listContestVotes
+let voidContestVotes: typeof import('../data-store').voidContestVotes
+
+function buildLogo(id: string, name: string) {
+  return {
+    id,
+    contestId: 'test-contest',
+    name,
+    codename: name.toLowerCase(),
+    description: null,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+describe('vote moderation', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-moderation-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(ISO_NOW))
+    vi.resetModules()
+
+    await writeFile(
+      path.join(dataDir, 'contests.json'),
+      `${JSON.stringify(
+        {
+          version: 1,
+          activeContestId: 'test-contest',
+          contests: [
+            {
+              id: 'test-contest',
+              slug: 'test-contest',
+              title: 'Test Contest',
+              subtitle: null,
+              description: null,
+              status: 'active',
+              createdAt: ISO_NOW,
+              updatedAt: ISO_NOW,
+              startsAt: ISO_NOW,
+              endsAt: null,
+              archivedAt: null,
+              votingOpen: true,
+            },
+          ],
+          updatedAt: ISO_NOW,
+        },
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      `${JSON.stringify(
+        {
+          version: 3,
+          logos: [buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo'), buildLogo('logo-3', 'Charlie')],
+          updatedAt: ISO_NOW,
+        },
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+
+    ;({ recordVote, getEloState, listContestVotes, voidContestVotes } = await import('../data-store'))
+
+    await recordVote('logo-1', 'logo-2', 'voter-a', 'test-contest')
+    vi.advanceTimersByTime(1000)
+    await recordVote('logo-1', 'logo-3', 'voter-a', 'test-contest')
+    vi.advanceTimersByTime(1000)
+    await recordVote('logo-2', 'logo-3', 'voter-b', 'test-contest')
+    vi.advanceTimersByTime(1000)
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('previews a single-vote void without logging it, then applies it', async () => {
+    const votes = await listContestVotes('test-contest')
+    expect(votes.map((vote) => vote.winnerName)).toEqual(['Bravo', 'Alpha', 'Alpha'])
+    const target = votes[2]!
+
+    const preview = await voidContestVotes('test-contest', {
+      eventIds: [target.eventId],
+      reason: 'Test void',
+      dryRun: true,
+    })
+    expect(preview.voidedCount).toBe(1)
+    expect(preview.differences.find((diff) => diff.logoId === 'logo-1')).toMatchObject({
+      winsBefore: 2,
+      winsAfter: 1,
+    })
+    expect((await getEloState('test-contest')).history).toHaveLength(3)
+
+    await voidContestVotes('test-contest', {
+      eventIds: [target.eventId],
+      reason: 'Test void',
+      initiator: 'admin',
+    })
+
+    const state = await getEloState('test-contest')
+    expect(state.history).toHaveLength(2)
+    expect(state.entries['logo-1']).toMatchObject({ wins: 1, matches: 1 })
+
+    const log = await readFile(path.join(dataDir, 'vote-events.ndjson'), 'utf-8')
+    const voidEvent = log
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as { type: string; initiator?: string; reason?: string })
+      .find((event) => event.type === 'votes-voided')
+    expect(voidEvent).toMatchObject({ initiator: 'admin', reason: 'Test void' })
+
+    const listed = await listContestVotes('test-contest')
+    expect(listed.find((vote) => vote.eventId === target.eventId)).toMatchObject({
+      voided: true,
+      voidReason: 'Test void',
+    })
+  })
+
+  it('voids every vote from a voter', async () => {
+    const result = await voidContestVotes('test-contest', { voterHash: 'voter-a', reason: 'Shared account' })
+
+    expect(result.voidedCount).toBe(2)
+    const state = await getEloState('test-contest')
+    expect(state.history).toEqual([expect.objectContaining({ voterHash: 'voter-b' })])
+
+    await expect(
+      voidContestVotes('test-contest', { voterHash: 'voter-a', reason: 'Again' }),
+    ).rejects.toThrow(/No matching votes/)
+  })
+
+  it('requires a reason and a target', async () => {
+    await expect(voidContestVotes('test-contest', { voterHash: 'voter-a', reason: ' ' })).rejects.toThrow(
+      /reason is required/,
+    )
+    await expect(voidContestVotes('test-contest', { reason: 'Nothing selected' })).rejects.toThrow(
+      /at least one vote/,
+    )
+  })
+})
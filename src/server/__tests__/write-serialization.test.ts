@@ -0,0 +1,184 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import sharp from 'sharp'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const ISO_NOW = '2024-01-01T00:00:00.000Z'
+
+function buildLogo(id: string, name: string) {
+  return {
+    id,
+    contestId: 'test-contest',
+    name,
+    codename: name.toLowerCase(),
+    description: null,
+    image: `/${id}.png`,
+    ownerAlias: null,
+    source: 'user',
+    submittedBy: 'tester@ces3',
+    createdAt: ISO_NOW,
+    updatedAt: ISO_NOW,
+    removedAt: null,
+    removedBy: null,
+  }
+}
+
+describe('JSON store write serialization', () => {
+  let dataDir: string
+  let originalDataDir: string | undefined
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ces3-serialize-'))
+    originalDataDir = process.env.DATA_DIR
+    process.env.DATA_DIR = dataDir
+    vi.resetModules()
+
+    await writeFile(
+      path.join(dataDir, 'contests.json'),
+      `${JSON.stringify(
+        {
+          version: 1,
+          activeContestId: 'test-contest',
+          contests: [
+            {
+              id: 'test-contest',
+              slug: 'test-contest',
+              title: 'Test Contest',
+              subtitle: null,
+              description: null,
+              status: 'active',
+              createdAt: ISO_NOW,
+              updatedAt: ISO_NOW,
+              startsAt: ISO_NOW,
+              endsAt: null,
+              archivedAt: null,
+              votingOpen: true,
+            },
+          ],
+          updatedAt: ISO_NOW,
+        },
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+
+    await writeFile(
+      path.join(dataDir, 'logos.json'),
+      `${JSON.stringify(
+        {
+          version: 3,
+          logos: [buildLogo('logo-1', 'Alpha'), buildLogo('logo-2', 'Bravo')],
+          updatedAt: ISO_NOW,
+        },
+        null,
+        2,
+      )}\n`,
+      'utf-8',
+    )
+  })
+
+  afterEach(async () => {
+    vi.resetModules()
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR
+    } else {
+      process.env.DATA_DIR = originalDataDir
+    }
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('keeps every vote when requests arrive concurrently', async () => {
+    const { getEloState, recordVote } = await import('../data-store')
+
+    await Promise.all(
+      Array.from({ length: 8 }, (_, index) =>
+        recordVote('logo-1', 'logo-2', `voter-${index}`, 'test-contest'),
+      ),
+    )
+
+    const state = await getEloState('test-contest')
+    expect(state.history).toHaveLength(8)
+    expect(state.entries['logo-1']?.wins).toBe(8)
+  })
+
+  it('records votes while an upload is still rendering', async () => {
+    let renderStarted = () => {}
+    let releaseRender = () => {}
+    const started = new Promise<void>((resolve) => {
+      renderStarted = resolve
+    })
+    const released = new Promise<void>((resolve) => {
+      releaseRender = resolve
+    })
+    vi.doMock('../logo-image-pipeline', async (importOriginal) => {
+      const actual = await importOriginal<typeof import('../logo-image-pipeline')>()
+      return {
+        ...actual,
+        processLogoImage: async (...args: Parameters<typeof actual.processLogoImage>) => {
+          renderStarted()
+          await released
+          return actual.processLogoImage(...args)
+        },
+      }
+    })
+
+    try {
+      const { addLogo, getEloState, recordVote } = await import('../data-store')
+      const png = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#0af' } }).png().toBuffer()
+      const upload = addLogo({
+        name: 'Slow upload',
+        image: `data:image/png;base64,${png.toString('base64')}`,
+        submittedBy: 'tester@ces3',
+        contestId: 'test-contest',
+      })
+
+      // The vote must not queue behind the render holding the logos/votes transaction.
+      await started
+      await recordVote('logo-1', 'logo-2', 'voter-during-upload', 'test-contest')
+      releaseRender()
+      await upload
+
+      expect((await getEloState('test-contest')).history).toHaveLength(1)
+    } finally {
+      vi.doUnmock('../logo-image-pipeline')
+    }
+  })
+
+  it('rejects logo edits based on a stale revision', async () => {
+    const { updateLogoMetadata } = await import('../data-store')
+    const { ConcurrentUpdateError } = await import('../storage-adapter')
+
+    const first = await updateLogoMetadata('logo-1', { name: 'Alpha Prime' }, 'test-contest', {
+      expectedUpdatedAt: ISO_NOW,
+    })
+    expect(first?.name).toBe('Alpha Prime')
+
+    await expect(
+      updateLogoMetadata('logo-1', { name: 'Alpha Stale' }, 'test-contest', {
+        expectedUpdatedAt: ISO_NOW,
+      }),
+    ).rejects.toBeInstanceOf(ConcurrentUpdateError)
+  })
+
+  it('rejects contest edits based on a stale revision', async () => {
+    const { updateContest } = await import('../contest-store')
+    const { ConcurrentUpdateError } = await import('../storage-adapter')
+
+    await updateContest('test-contest', { title: 'Renamed' }, { expectedUpdatedAt: ISO_NOW })
+    await expect(
+      updateContest('test-contest', { title: 'Stale' }, { expectedUpdatedAt: ISO_NOW }),
+    ).rejects.toBeInstanceOf(ConcurrentUpdateError)
+  })
+
+  it('parses If-Match revisions', async () => {
+    const { formatRevisionEtag, readIfMatchRevision } = await import('../revision-etag')
+    const withHeader = (value: string) => new Request('http://localhost', { headers: { 'If-Match': value } })
+
+    expect(readIfMatchRevision(withHeader(formatRevisionEtag(ISO_NOW)))).toBe(ISO_NOW)
+    expect(readIfMatchRevision(withHeader(`W/"${ISO_NOW}"`))).toBe(ISO_NOW)
+    expect(readIfMatchRevision(withHeader('*'))).toBeNull()
+    expect(readIfMatchRevision(new Request('http://localhost'))).toBeNull()
+  })
+})
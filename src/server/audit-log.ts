@@ -2,8 +2,8 @@ import { randomUUID } from 'node:crypto'
 import { promises as fs } from 'node:fs'
 
 import { ensureDataDir, resolveDataPath } from './storage-utils'
-
-const VOTE_EVENT_LOG = 'vote-events.ndjson'
+import { appendVoteEvent } from './vote-event-log'
+import { resolveClientIp } from './vote-guard'
 
 interface VoteParticipantSnapshot {
   id: string
@@ -17,9 +17,16 @@ interface VoteParticipantSnapshot {
   lossesAfter: number
   matchesBefore: number
   matchesAfter: number
+  /** Artwork version the voter was shown; absent for catalog logos and older events. */
+  version?: number
+}
+
+/** Written by `appendVoteEvent`; null on the first event, absent on events that predate chaining. */
+interface ChainedEvent {
+  prevHash?: string | null
 }
 
-export interface VoteRecordedEvent {
+export interface VoteRecordedEvent extends ChainedEvent {
   id: string
   type: 'vote-recorded'
   occurredAt: string
@@ -31,7 +38,7 @@ export interface VoteRecordedEvent {
   loser: VoteParticipantSnapshot
 }
 
-export interface VotesResetEvent {
+export interface VotesResetEvent extends ChainedEvent {
   id: string
   type: 'votes-reset'
   occurredAt: string
@@ -41,13 +48,26 @@ export interface VotesResetEvent {
   previousMatchCount: number
 }
 
-export type VoteAuditEvent = VoteRecordedEvent | VotesResetEvent
+/**
+ * Moderation marker: replays skip the listed `vote-recorded` events and, when
+ * `voterHash` is set, every vote that voter recorded in the contest up to `occurredAt`.
+ */
+export interface VotesVoidedEvent extends ChainedEvent {
+  id: string
+  type: 'votes-voided'
+  occurredAt: string
+  contestId: string
+  initiator: string | null
+  reason: string
+  eventIds: string[]
+  voterHash: string | null
+  voidedCount: number
+}
+
+export type VoteAuditEvent = VoteRecordedEvent | VotesResetEvent | VotesVoidedEvent
 
 async function appendAuditEvent(event: VoteAuditEvent): Promise<void> {
-  await ensureDataDir()
-  const filePath = resolveDataPath(VOTE_EVENT_LOG)
-  const payload = `${JSON.stringify(event)}\n`
-  await fs.appendFile(filePath, payload, 'utf-8')
+  await appendVoteEvent(event)
 }
 
 export interface VoteRecordedLogInput {
@@ -93,3 +113,298 @@ export async function logVotesReset(input: VotesResetLogInput): Promise<void> {
   }
   await appendAuditEvent(event)
 }
+
+const VOTE_ANOMALY_LOG = 'vote-anomalies.ndjson'
+
+export type VoteAnomalyKind = 'rate-limited' | 'vote-burst' | 'single-logo-bias'
+
+export interface VoteAnomalyEvent {
+  id: string
+  type: 'vote-anomaly'
+  kind: VoteAnomalyKind
+  occurredAt: string
+  contestId: string
+  voterHash: string | null
+  ip: string | null
+  message: string
+  details: Record<string, string | number>
+}
+
+export interface VoteAnomalyLogInput {
+  kind: VoteAnomalyKind
+  contestId: string
+  voterHash: string | null
+  ip: string | null
+  message: string
+  details?: Record<string, string | number>
+}
+
+export async function logVoteAnomaly(input: VoteAnomalyLogInput): Promise<VoteAnomalyEvent> {
+  const event: VoteAnomalyEvent = {
+    id: randomUUID(),
+    type: 'vote-anomaly',
+    kind: input.kind,
+    occurredAt: new Date().toISOString(),
+    contestId: input.contestId,
+    voterHash: input.voterHash,
+    ip: input.ip,
+    message: input.message,
+    details: input.details ?? {},
+  }
+  await ensureDataDir()
+  await fs.appendFile(resolveDataPath(VOTE_ANOMALY_LOG), `${JSON.stringify(event)}\n`, 'utf-8')
+  return event
+}
+
+/**
+ * Returns flagged events newest first, optionally scoped to a contest.
+ */
+export async function readVoteAnomalies(
+  options: { contestId?: string; limit?: number } = {},
+): Promise<VoteAnomalyEvent[]> {
+  await ensureDataDir()
+  let raw: string
+  try {
+    raw = await fs.readFile(resolveDataPath(VOTE_ANOMALY_LOG), 'utf-8')
+  } catch (error) {
+    if (error && typeof error === 'object' && (error as { code?: string }).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+
+  const events: VoteAnomalyEvent[] = []
+  for (const line of raw.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed) {
+      continue
+    }
+    try {
+      const parsed = JSON.parse(trimmed) as VoteAnomalyEvent
+      if (parsed?.type !== 'vote-anomaly') {
+        continue
+      }
+      if (options.contestId && parsed.contestId !== options.contestId) {
+        continue
+      }
+      events.push(parsed)
+    } catch (error) {
+      console.warn('Skipping malformed vote anomaly entry', error)
+    }
+  }
+
+  events.reverse()
+  return typeof options.limit === 'number' ? events.slice(0, Math.max(0, options.limit)) : events
+}
+
+export interface VotesVoidedLogInput {
+  contestId: string
+  initiator?: string | null
+  reason: string
+  eventIds: string[]
+  voterHash?: string | null
+  voidedCount: number
+}
+
+export async function logVotesVoided(input: VotesVoidedLogInput): Promise<VotesVoidedEvent> {
+  const event: VotesVoidedEvent = {
+    id: randomUUID(),
+    type: 'votes-voided',
+    occurredAt: new Date().toISOString(),
+    contestId: input.contestId,
+    initiator: input.initiator ?? null,
+    reason: input.reason,
+    eventIds: input.eventIds,
+    voterHash: input.voterHash ?? null,
+    voidedCount: input.voidedCount,
+  }
+  await appendAuditEvent(event)
+  return event
+}
+
+const ADMIN_EVENT_LOG = 'admin-events.ndjson'
+
+export type AdminAuditAction =
+  | 'contest-created'
+  | 'contest-updated'
+  | 'contest-activated'
+  | 'contest-archived'
+  | 'logo-submitted'
+  | 'logo-edited'
+  | 'logo-owner-changed'
+  | 'logo-removed'
+  | 'logo-image-replaced'
+  | 'roster-password-changed'
+  | 'ratings-recalculated'
+  | 'votes-reset'
+  | 'votes-voided'
+  | 'backup-restored'
+  | 'data-imported'
+  | 'data-exported'
+
+export const ADMIN_AUDIT_ACTIONS: readonly AdminAuditAction[] = [
+  'contest-created',
+  'contest-updated',
+  'contest-activated',
+  'contest-archived',
+  'logo-submitted',
+  'logo-edited',
+  'logo-owner-changed',
+  'logo-removed',
+  'logo-image-replaced',
+  'roster-password-changed',
+  'ratings-recalculated',
+  'votes-reset',
+  'votes-voided',
+  'backup-restored',
+  'data-imported',
+  'data-exported',
+]
+
+export interface AuditRequestMetadata {
+  method: string
+  path: string
+  ip: string | null
+  userAgent: string | null
+}
+
+/**
+ * Administrative or content change. Kept in its own log so vote replays never have to
+ * read past it; `before`/`after` hold the public shape of the record (never password hashes).
+ */
+export interface AdminAuditEvent {
+  id: string
+  type: 'admin-action'
+  action: AdminAuditAction
+  occurredAt: string
+  actor: string | null
+  contestId: string | null
+  targetType: 'contest' | 'logo' | 'user' | 'document'
+  targetId: string
+  before: unknown
+  after: unknown
+  request: AuditRequestMetadata | null
+}
+
+export function describeAuditRequest(request: Request): AuditRequestMetadata {
+  const url = new URL(request.url)
+  return {
+    method: request.method,
+    path: url.pathname,
+    ip: resolveClientIp(request),
+    userAgent: request.headers.get('user-agent'),
+  }
+}
+
+export interface AdminActionLogInput {
+  action: AdminAuditAction
+  actor: string | null
+  contestId?: string | null
+  targetType: AdminAuditEvent['targetType']
+  targetId: string
+  before?: unknown
+  after?: unknown
+  request?: Request | null
+}
+
+/**
+ * Appends an admin event. Failures are logged rather than thrown: the change it describes
+ * has already been written, and the caller's response should reflect that.
+ */
+export async function logAdminAction(input: AdminActionLogInput): Promise<AdminAuditEvent | null> {
+  const event: AdminAuditEvent = {
+    id: randomUUID(),
+    type: 'admin-action',
+    action: input.action,
+    occurredAt: new Date().toISOString(),
+    actor: input.actor,
+    contestId: input.contestId ?? null,
+    targetType: input.targetType,
+    targetId: input.targetId,
+    before: input.before ?? null,
+    after: input.after ?? null,
+    request: input.request ? describeAuditRequest(input.request) : null,
+  }
+  try {
+    await ensureDataDir()
+    await fs.appendFile(resolveDataPath(ADMIN_EVENT_LOG), `${JSON.stringify(event)}\n`, 'utf-8')
+    return event
+  } catch (error) {
+    console.error(`Failed to write ${input.action} audit event`, error)
+    return null
+  }
+}
+
+export interface AdminAuditQuery {
+  action?: AdminAuditAction | null
+  actor?: string | null
+  contestId?: string | null
+  targetId?: string | null
+  /** Inclusive ISO lower bound on `occurredAt`. */
+  since?: string | null
+  /** Exclusive ISO upper bound on `occurredAt`. */
+  until?: string | null
+  offset?: number
+  limit?: number
+}
+
+export interface AdminAuditPage {
+  events: AdminAuditEvent[]
+  total: number
+  offset: number
+  limit: number
+  hasMore: boolean
+}
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50
+export const MAX_AUDIT_PAGE_SIZE = 200
+
+/**
+ * Returns one page of admin events, newest first, after applying the filters.
+ */
+export async function readAdminAuditEvents(query: AdminAuditQuery = {}): Promise<AdminAuditPage> {
+  const offset = Math.max(0, Math.floor(query.offset ?? 0))
+  const limit = Math.min(MAX_AUDIT_PAGE_SIZE, Math.max(1, Math.floor(query.limit ?? DEFAULT_AUDIT_PAGE_SIZE)))
+
+  let raw = ''
+  try {
+    raw = await fs.readFile(resolveDataPath(ADMIN_EVENT_LOG), 'utf-8')
+  } catch (error) {
+    if (!(error && typeof error === 'object' && (error as { code?: string }).code === 'ENOENT')) {
+      throw error
+    }
+  }
+
+  const actor = query.actor?.trim().toLowerCase() || null
+  const matches: AdminAuditEvent[] = []
+  for (const line of raw.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed) {
+      continue
+    }
+    let parsed: AdminAuditEvent
+    try {
+      parsed = JSON.parse(trimmed) as AdminAuditEvent
+    } catch (error) {
+      console.warn('Skipping malformed admin audit entry', error)
+      continue
+    }
+    if (parsed?.type !== 'admin-action') continue
+    if (query.action && parsed.action !== query.action) continue
+    if (actor && parsed.actor?.toLowerCase() !== actor) continue
+    if (query.contestId && parsed.contestId !== query.contestId) continue
+    if (query.targetId && parsed.targetId !== query.targetId) continue
+    if (query.since && parsed.occurredAt < query.since) continue
+    if (query.until && parsed.occurredAt >= query.until) continue
+    matches.push(parsed)
+  }
+
+  matches.reverse()
+  return {
+    events: matches.slice(offset, offset + limit),
+    total: matches.length,
+    offset,
+    limit,
+    hasMore: offset + limit < matches.length,
+  }
+}
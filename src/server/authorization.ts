@@ -0,0 +1,76 @@
+import { normalizeAlias, type AuthUser } from '../lib/auth-utils'
+import type { LogoEntry } from '../lib/logo-utils'
+import { getSessionUser } from './session'
+
+export type AuthorizationResult =
+  | { user: AuthUser; response: null }
+  | { user: null; response: Response }
+
+function errorResponse(status: 401 | 403, error: 'unauthorized' | 'forbidden', message: string) {
+  return new Response(JSON.stringify({ error, message }, null, 2), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+export function unauthorizedResponse(message = 'Sign in to continue.'): Response {
+  return errorResponse(401, 'unauthorized', message)
+}
+
+export function forbiddenResponse(message = 'You do not have permission to perform this action.'): Response {
+  return errorResponse(403, 'forbidden', message)
+}
+
+export function isAdminUser(user: AuthUser | null | undefined): boolean {
+  return user?.role === 'admin'
+}
+
+export async function requireUser(request: Request): Promise<AuthorizationResult> {
+  const user = await getSessionUser(request)
+  if (!user) {
+    return { user: null, response: unauthorizedResponse() }
+  }
+  return { user, response: null }
+}
+
+export async function requireAdmin(request: Request): Promise<AuthorizationResult> {
+  const result = await requireUser(request)
+  if (result.response) {
+    return result
+  }
+  if (!isAdminUser(result.user)) {
+    return { user: null, response: forbiddenResponse('Admin access required.') }
+  }
+  return result
+}
+
+/**
+ * Owners are matched on `ownerAlias`; submitters on `submittedBy`, which holds either an
+ * email or an alias depending on how the logo was created.
+ */
+export function isLogoOwner(user: AuthUser, logo: Pick<LogoEntry, 'ownerAlias' | 'submittedBy'>): boolean {
+  const alias = normalizeAlias(user.alias)
+  if (!alias) {
+    return false
+  }
+
+  if (logo.ownerAlias && normalizeAlias(logo.ownerAlias) === alias) {
+    return true
+  }
+
+  if (logo.submittedBy) {
+    const submittedBy = logo.submittedBy.trim().toLowerCase()
+    if (submittedBy === user.email.toLowerCase() || normalizeAlias(submittedBy) === alias) {
+      return true
+    }
+  }
+
+  return false
+}
+
+export function canEditLogo(user: AuthUser, logo: Pick<LogoEntry, 'ownerAlias' | 'submittedBy'>): boolean {
+  return isAdminUser(user) || isLogoOwner(user, logo)
+}
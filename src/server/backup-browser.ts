@@ -0,0 +1,247 @@
+import { promises as fs } from 'node:fs'
+
+import { resolveJsonBackupPrefix, resolveJsonDocumentPath } from './json-storage'
+import { listBackups, readBackup, restoreBackup, type BackupFileInfo } from './persistence-utils'
+import {
+  STORAGE_DOCUMENTS,
+  getStorageAdapter,
+  withStorageTransaction,
+  type StorageDocument,
+} from './storage-adapter'
+
+const MAX_PREVIEW_CHANGES = 50
+const MAX_PREVIEW_VALUE_LENGTH = 120
+
+export class BackupNotFoundError extends Error {
+  constructor(message = 'Backup not found.') {
+    super(message)
+    this.name = 'BackupNotFoundError'
+  }
+}
+
+export interface DocumentBackups {
+  document: StorageDocument
+  liveSize: number | null
+  liveUpdatedAt: string | null
+  backups: BackupFileInfo[]
+}
+
+export interface BackupChange {
+  path: string
+  kind: 'added' | 'removed' | 'changed'
+  /** Value in the live file, abbreviated. */
+  current?: string
+  /** Value the restore would write, abbreviated. */
+  restored?: string
+}
+
+export interface BackupPreview {
+  document: StorageDocument
+  backup: BackupFileInfo
+  currentSummary: string
+  restoredSummary: string
+  changes: BackupChange[]
+  totalChanges: number
+}
+
+export interface BackupRestoreResult {
+  document: StorageDocument
+  restored: BackupFileInfo
+  /** Snapshot of the live file taken just before the restore, if there was one. */
+  safetyBackup: string | null
+}
+
+export function isBackupDocument(value: unknown): value is StorageDocument {
+  return typeof value === 'string' && (STORAGE_DOCUMENTS as readonly string[]).includes(value)
+}
+
+async function requireJsonPrefix(document: StorageDocument): Promise<string> {
+  const storage = await getStorageAdapter()
+  const prefix = resolveJsonBackupPrefix(document)
+  if (storage.backend !== 'json' || !prefix) {
+    throw new Error('Backups are only available with the JSON storage backend.')
+  }
+  return prefix
+}
+
+async function findBackup(prefix: string, fileName: string): Promise<BackupFileInfo> {
+  const backup = (await listBackups(prefix)).find((entry) => entry.fileName === fileName)
+  if (!backup) {
+    throw new BackupNotFoundError()
+  }
+  return backup
+}
+
+async function readLiveDocument(document: StorageDocument): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(resolveJsonDocumentPath(document), 'utf-8')) as unknown
+  } catch {
+    return null
+  }
+}
+
+export async function listDocumentBackups(): Promise<DocumentBackups[]> {
+  const storage = await getStorageAdapter()
+  if (storage.backend !== 'json') {
+    return []
+  }
+
+  return Promise.all(
+    STORAGE_DOCUMENTS.flatMap((document) => {
+      const prefix = resolveJsonBackupPrefix(document)
+      if (!prefix) {
+        return []
+      }
+      return [
+        (async (): Promise<DocumentBackups> => {
+          const stats = await fs.stat(resolveJsonDocumentPath(document)).catch(() => null)
+          return {
+            document,
+            liveSize: stats?.size ?? null,
+            liveUpdatedAt: stats ? stats.mtime.toISOString() : null,
+            backups: await listBackups(prefix),
+          }
+        })(),
+      ]
+    }),
+  )
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function abbreviate(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.length} item${value.length === 1 ? '' : 's'}]`
+  }
+  if (isRecord(value)) {
+    return `{${Object.keys(value).length} field${Object.keys(value).length === 1 ? '' : 's'}}`
+  }
+  const text = JSON.stringify(value) ?? 'undefined'
+  return text.length > MAX_PREVIEW_VALUE_LENGTH ? `${text.slice(0, MAX_PREVIEW_VALUE_LENGTH - 1)}…` : text
+}
+
+function keyedById(items: unknown[]): Map<string, unknown> | null {
+  const map = new Map<string, unknown>()
+  for (const item of items) {
+    if (!isRecord(item) || typeof item.id !== 'string' || map.has(item.id)) {
+      return null
+    }
+    map.set(item.id, item)
+  }
+  return map
+}
+
+/**
+ * Structural diff from the live document to a backup. Objects are compared field by field
+ * and arrays of `{ id }` records by id; other arrays are reported as a whole.
+ */
+export function diffJsonDocuments(current: unknown, restored: unknown): BackupChange[] {
+  const changes: BackupChange[] = []
+
+  const walk = (path: string, a: unknown, b: unknown) => {
+    if (JSON.stringify(a) === JSON.stringify(b)) {
+      return
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const left = keyedById(a)
+      const right = keyedById(b)
+      if (left && right) {
+        for (const [id, item] of left) {
+          const itemPath = `${path}[${id}]`
+          if (right.has(id)) {
+            walk(itemPath, item, right.get(id))
+          } else {
+            changes.push({ path: itemPath, kind: 'removed', current: abbreviate(item) })
+          }
+        }
+        for (const [id, item] of right) {
+          if (!left.has(id)) {
+            changes.push({ path: `${path}[${id}]`, kind: 'added', restored: abbreviate(item) })
+          }
+        }
+        return
+      }
+    } else if (isRecord(a) && isRecord(b)) {
+      for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+        const keyPath = path ? `${path}.${key}` : key
+        if (!(key in b)) {
+          changes.push({ path: keyPath, kind: 'removed', current: abbreviate(a[key]) })
+        } else if (!(key in a)) {
+          changes.push({ path: keyPath, kind: 'added', restored: abbreviate(b[key]) })
+        } else {
+          walk(keyPath, a[key], b[key])
+        }
+      }
+      return
+    }
+
+    changes.push({ path: path || '(document)', kind: 'changed', current: abbreviate(a), restored: abbreviate(b) })
+  }
+
+  walk('', current, restored)
+  return changes
+}
+
+function countLabel(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+/** One-line description of a document so admins can tell snapshots apart at a glance. */
+export function summarizeDocument(document: StorageDocument, data: unknown): string {
+  if (!isRecord(data)) {
+    return 'missing or unreadable'
+  }
+
+  switch (document) {
+    case 'logos': {
+      const logos = Array.isArray(data.logos) ? data.logos : []
+      const removed = logos.filter((logo) => isRecord(logo) && logo.removedAt).length
+      return `${countLabel(logos.length, 'logo')} (${removed} removed)`
+    }
+    case 'votes': {
+      const contests = isRecord(data.contests) ? Object.values(data.contests) : []
+      const matches = contests.reduce<number>((total, contest) => {
+        const history = isRecord(contest) && isRecord(contest.state) ? contest.state.history : null
+        return total + (Array.isArray(history) ? history.length : 0)
+      }, 0)
+      return `${countLabel(matches, 'recorded match')} across ${countLabel(contests.length, 'contest')}`
+    }
+    case 'contests': {
+      const contests = Array.isArray(data.contests) ? data.contests : []
+      return `${countLabel(contests.length, 'contest')}, active: ${String(data.activeContestId ?? 'none')}`
+    }
+  }
+}
+
+export async function previewBackup(document: StorageDocument, fileName: string): Promise<BackupPreview> {
+  const prefix = await requireJsonPrefix(document)
+  const backup = await findBackup(prefix, fileName)
+  const restored = JSON.parse(await readBackup(prefix, fileName)) as unknown
+  const current = await readLiveDocument(document)
+  const changes = diffJsonDocuments(current, restored)
+
+  return {
+    document,
+    backup,
+    currentSummary: summarizeDocument(document, current),
+    restoredSummary: summarizeDocument(document, restored),
+    changes: changes.slice(0, MAX_PREVIEW_CHANGES),
+    totalChanges: changes.length,
+  }
+}
+
+export async function restoreDocumentBackup(
+  document: StorageDocument,
+  fileName: string,
+): Promise<BackupRestoreResult> {
+  const prefix = await requireJsonPrefix(document)
+  // Hold the document's write lock so an in-flight vote or edit cannot land on top of the restore.
+  return withStorageTransaction([document], async () => {
+    const restored = await findBackup(prefix, fileName)
+    const { safetyBackup } = await restoreBackup(prefix, fileName, resolveJsonDocumentPath(document))
+    return { document, restored, safetyBackup }
+  })
+}
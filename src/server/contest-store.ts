@@ -1,5 +1,3 @@
-import { promises as fs } from 'node:fs'
-
 import {
   DEFAULT_CONTEST_DESCRIPTION,
   DEFAULT_CONTEST_ID,
@@ -11,11 +9,19 @@ import {
   type Contest,
   type ContestStatus,
 } from '../lib/contest-utils'
-import { ensureDataDir, resolveDataPath } from './storage-utils'
+import { normalizeHistoryRetention, type HistoryRetention } from '../lib/history-retention'
+import { normalizeRatingSettings, type RatingSettings } from '../lib/rating-engines'
+import { applyMigrations, currentSchemaVersion } from './migrations'
+import {
+  assertExpectedRevision,
+  getStorageAdapter,
+  withStorageTransaction,
+  type RevisionOptions,
+} from './storage-adapter'
 
-const CONTESTS_FILE = 'contests.json'
+export const CONTEST_SCHEMA_VERSION = currentSchemaVersion('contests')
 
-interface ContestRegistryFile {
+export interface ContestRegistryFile {
   version: number
   activeContestId: string
   contests: Contest[]
@@ -31,6 +37,8 @@ interface ContestCreateInput {
   startsAt?: string | null
   endsAt?: string | null
   votingOpen?: boolean
+  rating?: Partial<RatingSettings> | null
+  historyRetention?: Partial<HistoryRetention> | null
 }
 
 interface ContestUpdateInput {
@@ -44,6 +52,8 @@ interface ContestUpdateInput {
   archivedAt?: string | null
   votingOpen?: boolean
   setActive?: boolean
+  rating?: Partial<RatingSettings> | null
+  historyRetention?: Partial<HistoryRetention> | null
 }
 
 function sanitizeIsoDate(value: string | null | undefined): string | null {
@@ -70,15 +80,31 @@ function sanitizeStatus(value: ContestStatus | null | undefined): ContestStatus
   }
 }
 
+/** Normalises a contests document (e.g. from an import) into the current registry shape. */
+export function migrateContestRegistry(raw: unknown): ContestRegistryFile {
+  const parsed = applyMigrations('contests', raw) as Partial<ContestRegistryFile>
+  const contests = (Array.isArray(parsed.contests) ? parsed.contests : []).map(normalizeContestRecord)
+  if (contests.length === 0) {
+    contests.push(createDefaultContest())
+  }
+  const activeContestId = contests.some((contest) => contest.id === parsed.activeContestId)
+    ? parsed.activeContestId!
+    : contests[0]!.id
+  return {
+    version: CONTEST_SCHEMA_VERSION,
+    activeContestId,
+    contests,
+    updatedAt: sanitizeIso(parsed.updatedAt),
+  }
+}
+
 async function readContestRegistry(): Promise<ContestRegistryFile> {
-  await ensureDataDir()
-  const filePath = resolveDataPath(CONTESTS_FILE)
+  const storage = await getStorageAdapter()
 
   try {
-    const raw = await fs.readFile(filePath, 'utf-8')
-    const parsed = JSON.parse(raw) as Partial<ContestRegistryFile>
-    const contests = Array.isArray(parsed.contests) ? parsed.contests : []
-    if (contests.length > 0 && parsed.activeContestId) {
+    const parsed = (await storage.readDocument('contests')) as Partial<ContestRegistryFile> | null
+    const contests = Array.isArray(parsed?.contests) ? parsed.contests : []
+    if (parsed && contests.length > 0 && parsed.activeContestId) {
       return {
         version: typeof parsed.version === 'number' ? parsed.version : 1,
         activeContestId: parsed.activeContestId,
@@ -87,18 +113,11 @@ async function readContestRegistry(): Promise<ContestRegistryFile> {
       }
     }
   } catch (error) {
-    if (error && typeof error === 'object' && 'code' in error) {
-      const code = (error as { code?: string }).code
-      if (code !== 'ENOENT') {
-        console.warn('Failed to read contests registry, regenerating seed.', error)
-      }
-    } else {
-      console.warn('Failed to read contests registry, regenerating seed.', error)
-    }
+    console.warn('Failed to read contests registry, regenerating seed.', error)
   }
 
   const seeded: ContestRegistryFile = {
-    version: 1,
+    version: CONTEST_SCHEMA_VERSION,
     activeContestId: DEFAULT_CONTEST_ID,
     contests: [createDefaultContest()],
     updatedAt: new Date().toISOString(),
@@ -134,6 +153,8 @@ function normalizeContestRecord(value: Partial<Contest> & { id?: string }): Cont
     endsAt: sanitizeIsoDate(value.endsAt),
     archivedAt: sanitizeIsoDate(value.archivedAt),
     votingOpen: value.votingOpen ?? true,
+    rating: normalizeRatingSettings(value.rating),
+    historyRetention: normalizeHistoryRetention(value.historyRetention),
   }
 }
 
@@ -152,18 +173,19 @@ function createDefaultContest(): Contest {
     endsAt: null,
     archivedAt: null,
     votingOpen: true,
+    rating: normalizeRatingSettings(null),
+    historyRetention: normalizeHistoryRetention(null),
   }
 }
 
 async function writeContestRegistry(schema: ContestRegistryFile) {
-  await ensureDataDir()
-  const filePath = resolveDataPath(CONTESTS_FILE)
+  const storage = await getStorageAdapter()
   const payload: ContestRegistryFile = {
     ...schema,
     contests: schema.contests.map(normalizeContestRecord),
     updatedAt: new Date().toISOString(),
   }
-  await fs.writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, 'utf-8')
+  await storage.writeDocument('contests', payload)
 }
 
 export async function getContestRegistry(): Promise<ContestRegistryFile> {
@@ -220,118 +242,135 @@ function generateContestId(baseSlug: string, existing: Set<string>): string {
 }
 
 export async function createContest(input: ContestCreateInput): Promise<Contest> {
-  const registry = await readContestRegistry()
-  const nextContests = [...registry.contests]
-  const existingIds = new Set(nextContests.map((entry) => entry.id))
-
-  const title = sanitizeContestTitle(input.title)
-  const slugRaw = input.slug ? sanitizeContestSlug(input.slug) : sanitizeContestSlug(title)
-  const contestId = generateContestId(slugRaw || `contest-${nextContests.length + 1}`, existingIds)
-
-  const timestamp = new Date().toISOString()
-  const contest: Contest = normalizeContestRecord({
-    id: contestId,
-    slug: slugRaw || contestId,
-    title,
-    subtitle: input.subtitle ?? null,
-    description: input.description ?? null,
-    status: sanitizeStatus(input.status ?? 'draft'),
-    createdAt: timestamp,
-    updatedAt: timestamp,
-    startsAt: sanitizeIsoDate(input.startsAt),
-    endsAt: sanitizeIsoDate(input.endsAt),
-    archivedAt: null,
-    votingOpen: input.votingOpen ?? false,
-  })
-
-  nextContests.push(contest)
-
-  const nextRegistry: ContestRegistryFile = {
-    ...registry,
-    contests: nextContests,
-    updatedAt: timestamp,
-  }
+  return withStorageTransaction(['contests'], async () => {
+    const registry = await readContestRegistry()
+    const nextContests = [...registry.contests]
+    const existingIds = new Set(nextContests.map((entry) => entry.id))
+
+    const title = sanitizeContestTitle(input.title)
+    const slugRaw = input.slug ? sanitizeContestSlug(input.slug) : sanitizeContestSlug(title)
+    const contestId = generateContestId(slugRaw || `contest-${nextContests.length + 1}`, existingIds)
+
+    const timestamp = new Date().toISOString()
+    const contest: Contest = normalizeContestRecord({
+      id: contestId,
+      slug: slugRaw || contestId,
+      title,
+      subtitle: input.subtitle ?? null,
+      description: input.description ?? null,
+      status: sanitizeStatus(input.status ?? 'draft'),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      startsAt: sanitizeIsoDate(input.startsAt),
+      endsAt: sanitizeIsoDate(input.endsAt),
+      archivedAt: null,
+      votingOpen: input.votingOpen ?? false,
+      rating: normalizeRatingSettings(input.rating),
+      historyRetention: normalizeHistoryRetention(input.historyRetention),
+    })
+
+    nextContests.push(contest)
+
+    const nextRegistry: ContestRegistryFile = {
+      ...registry,
+      contests: nextContests,
+      updatedAt: timestamp,
+    }
 
-  if (contest.status === 'active' || registry.contests.length === 0) {
-    nextRegistry.activeContestId = contest.id
-    nextRegistry.contests = nextContests.map((entry) =>
-      entry.id === contest.id ? { ...entry, status: 'active' } : entry,
-    )
-  }
+    if (contest.status === 'active' || registry.contests.length === 0) {
+      nextRegistry.activeContestId = contest.id
+      nextRegistry.contests = nextContests.map((entry) =>
+        entry.id === contest.id ? { ...entry, status: 'active' } : entry,
+      )
+    }
 
-  await writeContestRegistry(nextRegistry)
-  return contest
+    await writeContestRegistry(nextRegistry)
+    return contest
+  })
 }
 
-export async function updateContest(id: string, updates: ContestUpdateInput): Promise<Contest> {
-  const registry = await readContestRegistry()
-  const index = registry.contests.findIndex((entry) => entry.id === id)
-  if (index === -1) {
-    throw new Error('Contest not found.')
-  }
-
-  const current = registry.contests[index]!
-  const timestamp = new Date().toISOString()
-
-  const nextSlug = updates.slug ? sanitizeContestSlug(updates.slug) : current.slug
-  const nextTitle = updates.title ? sanitizeContestTitle(updates.title) : current.title
-  const nextStatus = updates.status ? sanitizeStatus(updates.status) : current.status
-  const nextStartsAt =
-    updates.startsAt !== undefined ? sanitizeIsoDate(updates.startsAt) : current.startsAt
-  const nextEndsAt = updates.endsAt !== undefined ? sanitizeIsoDate(updates.endsAt) : current.endsAt
-  const nextArchivedAt =
-    updates.archivedAt !== undefined ? sanitizeIsoDate(updates.archivedAt) : current.archivedAt
-
-  const nextContest: Contest = normalizeContestRecord({
-    ...current,
-    slug: nextSlug,
-    title: nextTitle,
-    subtitle: updates.subtitle !== undefined ? updates.subtitle : current.subtitle,
-    description: updates.description !== undefined ? updates.description : current.description,
-    status: nextStatus,
-    startsAt: nextStartsAt,
-    endsAt: nextEndsAt,
-    archivedAt: nextArchivedAt,
-    updatedAt: timestamp,
-    votingOpen: updates.votingOpen !== undefined ? Boolean(updates.votingOpen) : current.votingOpen,
-  })
+export async function updateContest(
+  id: string,
+  updates: ContestUpdateInput,
+  options: RevisionOptions = {},
+): Promise<Contest> {
+  return withStorageTransaction(['contests'], async () => {
+    const registry = await readContestRegistry()
+    const index = registry.contests.findIndex((entry) => entry.id === id)
+    if (index === -1) {
+      throw new Error('Contest not found.')
+    }
 
-  const nextRegistry: ContestRegistryFile = {
-    ...registry,
-    contests: registry.contests.map((entry, idx) => (idx === index ? nextContest : entry)),
-    updatedAt: timestamp,
-    activeContestId: registry.activeContestId,
-  }
+    const current = registry.contests[index]!
+    assertExpectedRevision(current.updatedAt, options)
+    const timestamp = new Date().toISOString()
+
+    const nextSlug = updates.slug ? sanitizeContestSlug(updates.slug) : current.slug
+    const nextTitle = updates.title ? sanitizeContestTitle(updates.title) : current.title
+    const nextStatus = updates.status ? sanitizeStatus(updates.status) : current.status
+    const nextStartsAt =
+      updates.startsAt !== undefined ? sanitizeIsoDate(updates.startsAt) : current.startsAt
+    const nextEndsAt = updates.endsAt !== undefined ? sanitizeIsoDate(updates.endsAt) : current.endsAt
+    const nextArchivedAt =
+      updates.archivedAt !== undefined ? sanitizeIsoDate(updates.archivedAt) : current.archivedAt
+
+    const nextContest: Contest = normalizeContestRecord({
+      ...current,
+      slug: nextSlug,
+      title: nextTitle,
+      subtitle: updates.subtitle !== undefined ? updates.subtitle : current.subtitle,
+      description: updates.description !== undefined ? updates.description : current.description,
+      status: nextStatus,
+      startsAt: nextStartsAt,
+      endsAt: nextEndsAt,
+      archivedAt: nextArchivedAt,
+      updatedAt: timestamp,
+      votingOpen: updates.votingOpen !== undefined ? Boolean(updates.votingOpen) : current.votingOpen,
+      rating: updates.rating ? normalizeRatingSettings({ ...current.rating, ...updates.rating }) : current.rating,
+      historyRetention: updates.historyRetention
+        ? normalizeHistoryRetention({ ...current.historyRetention, ...updates.historyRetention })
+        : current.historyRetention,
+    })
+
+    const nextRegistry: ContestRegistryFile = {
+      ...registry,
+      contests: registry.contests.map((entry, idx) => (idx === index ? nextContest : entry)),
+      updatedAt: timestamp,
+      activeContestId: registry.activeContestId,
+    }
 
-  if (updates.setActive || nextStatus === 'active') {
-    nextRegistry.activeContestId = nextContest.id
-    nextRegistry.contests = nextRegistry.contests.map((entry) =>
-      entry.id === nextContest.id
-        ? { ...entry, status: 'active' }
-        : entry.id === registry.activeContestId
-          ? { ...entry, status: entry.status === 'archived' ? 'archived' : 'upcoming' }
-          : entry,
-    )
-  } else if (registry.activeContestId === nextContest.id && nextContest.status !== 'active') {
-    const fallback = nextRegistry.contests.find((entry) => entry.status === 'active')
-    if (fallback) {
-      nextRegistry.activeContestId = fallback.id
-    } else {
-      const firstContest = nextRegistry.contests[0]
-      if (firstContest) {
-        nextRegistry.activeContestId = firstContest.id
-        nextRegistry.contests = nextRegistry.contests.map((entry, idx) =>
-          idx === 0 ? { ...entry, status: 'active' } : entry,
-        )
+    if (updates.setActive || nextStatus === 'active') {
+      nextRegistry.activeContestId = nextContest.id
+      nextRegistry.contests = nextRegistry.contests.map((entry) =>
+        entry.id === nextContest.id
+          ? { ...entry, status: 'active' }
+          : entry.id === registry.activeContestId
+            ? { ...entry, status: entry.status === 'archived' ? 'archived' : 'upcoming' }
+            : entry,
+      )
+    } else if (registry.activeContestId === nextContest.id && nextContest.status !== 'active') {
+      const fallback = nextRegistry.contests.find((entry) => entry.status === 'active')
+      if (fallback) {
+        nextRegistry.activeContestId = fallback.id
+      } else {
+        const firstContest = nextRegistry.contests[0]
+        if (firstContest) {
+          nextRegistry.activeContestId = firstContest.id
+          nextRegistry.contests = nextRegistry.contests.map((entry, idx) =>
+            idx === 0 ? { ...entry, status: 'active' } : entry,
+          )
+        }
       }
     }
-  }
 
-  await writeContestRegistry(nextRegistry)
-  return nextContest
+    await writeContestRegistry(nextRegistry)
+    return nextContest
+  })
 }
 
 export async function setActiveContest(id: string): Promise<Contest> {
-  await ensureContest(id)
-  return updateContest(id, { status: 'active', setActive: true })
+  return withStorageTransaction(['contests'], async () => {
+    await ensureContest(id)
+    return updateContest(id, { status: 'active', setActive: true })
+  })
 }
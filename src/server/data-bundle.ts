@@ -0,0 +1,681 @@
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { Readable, pipeline } from 'node:stream'
+import { createGzip, gunzipSync, gzipSync } from 'node:zlib'
+
+import { normalizeAlias } from '../lib/auth-utils'
+import type { Contest } from '../lib/contest-utils'
+import type { MatchHistoryEntry } from '../lib/elo-engine'
+import { sortLogos, type LogoEntry } from '../lib/logo-utils'
+import {
+  CONTEST_SCHEMA_VERSION,
+  migrateContestRegistry,
+  type ContestRegistryFile,
+} from './contest-store'
+import {
+  LOGO_SCHEMA_VERSION,
+  VOTE_SCHEMA_VERSION,
+  migrateLogosDocument,
+  migrateVotesDocument,
+  rebuildContestRatings,
+  type VotesFileSchema,
+} from './data-store'
+import {
+  archiveMatches,
+  clearArchivedMatches,
+  listArchivedContests,
+  readArchivedMatches,
+  replaceArchivedMatches,
+} from './history-archive'
+import { readRoster, writeRoster, type AllowedUserRecord } from './roster-store'
+import {
+  STORAGE_DOCUMENTS,
+  getStorageAdapter,
+  withStorageTransaction,
+  type StorageBackend,
+  type StorageDocument,
+} from './storage-adapter'
+import { ensureDataDir, resolveDataPath } from './storage-utils'
+import { appendVoteEventLines, readVoteEventLogText, replaceVoteEventLog } from './vote-event-log'
+
+export const BUNDLE_FORMAT = 'ces3-badge-bundle'
+export const BUNDLE_VERSION = 1
+
+const LOGO_ASSETS_DIR = 'logos'
+const ASSET_PATH_PATTERN = /^logos\/[\w.-]+$/
+const GZIP_MAGIC = [0x1f, 0x8b]
+
+const SCHEMA_VERSIONS: Record<StorageDocument, number> = {
+  logos: LOGO_SCHEMA_VERSION,
+  votes: VOTE_SCHEMA_VERSION,
+  contests: CONTEST_SCHEMA_VERSION,
+}
+
+export type BundleImportMode = 'replace' | 'merge'
+
+export interface DataBundleManifest {
+  format: typeof BUNDLE_FORMAT
+  bundleVersion: number
+  exportedAt: string
+  storageBackend: StorageBackend
+  schemaVersions: Record<StorageDocument, number>
+  /** False when roster password hashes were left out; missing in bundles from before the option. */
+  credentialsIncluded?: boolean
+  counts: {
+    logos: number
+    contests: number
+    matches: number
+    allowedUsers: number
+    voteEvents: number
+    archivedMatches: number
+    assets: number
+  }
+}
+
+export interface DataBundleAsset {
+  /** Path relative to `DATA_DIR`, e.g. `logos/<logoId>.png`. */
+  path: string
+  size: number
+  sha256: string
+  /** Base64-encoded file contents. */
+  data: string
+}
+
+export interface DataBundle {
+  manifest: DataBundleManifest
+  documents: {
+    logos: unknown
+    votes: unknown
+    contests: unknown
+    /** Null when the bundle has no roster, so imports leave the current roster alone. */
+    allowedUsers: AllowedUserRecord[] | null
+    /** Raw `vote-events.ndjson` contents; null when the bundle has no audit log. */
+    voteEvents: string | null
+    /** Matches moved out of live history by retention, per contest; null in older bundles. */
+    historyArchive: Record<string, MatchHistoryEntry[]> | null
+  }
+  assets: DataBundleAsset[]
+}
+
+export interface DataBundleExportOptions {
+  /** Keep roster password hashes in the bundle. Off by default, since bundles get passed around. */
+  includeCredentials?: boolean
+}
+
+export interface BundleImportSummary {
+  mode: BundleImportMode
+  /** Documents that were stored in an older schema version and upgraded on import. */
+  migrated: StorageDocument[]
+  logos: { added: number; updated: number }
+  contests: { added: number; updated: number }
+  votes: { contestsAdded: number; contestsMerged: number; matchesAdded: number }
+  allowedUsers: { added: number }
+  voteEvents: { added: number }
+  historyArchive: { matchesAdded: number }
+  assets: { written: number }
+}
+
+export class BundleValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BundleValidationError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex')
+}
+
+function documentVersion(value: unknown): number | null {
+  return isRecord(value) && typeof value.version === 'number' ? value.version : null
+}
+
+function countMatches(votes: unknown): number {
+  if (!isRecord(votes) || !isRecord(votes.contests)) {
+    return 0
+  }
+  return Object.values(votes.contests).reduce<number>((total, contest) => {
+    const history = isRecord(contest) && isRecord(contest.state) ? contest.state.history : null
+    return total + (Array.isArray(history) ? history.length : 0)
+  }, 0)
+}
+
+async function readHistoryArchive(): Promise<Record<string, MatchHistoryEntry[]>> {
+  const archive: Record<string, MatchHistoryEntry[]> = {}
+  for (const contestId of await listArchivedContests()) {
+    archive[contestId] = await readArchivedMatches(contestId)
+  }
+  return archive
+}
+
+function isMatchHistoryEntry(value: unknown): value is MatchHistoryEntry {
+  return (
+    isRecord(value) &&
+    typeof value.winnerId === 'string' &&
+    typeof value.loserId === 'string' &&
+    typeof value.timestamp === 'number'
+  )
+}
+
+async function listAssetPaths(): Promise<string[]> {
+  const entries = await fs.readdir(resolveDataPath(LOGO_ASSETS_DIR), { withFileTypes: true }).catch(() => [])
+  return entries
+    .filter((item) => item.isFile())
+    .map((item) => path.posix.join(LOGO_ASSETS_DIR, item.name))
+    .filter((relativePath) => ASSET_PATH_PATTERN.test(relativePath))
+    .sort()
+}
+
+/** Null when the file has gone since it was listed, e.g. a replace import ran in between. */
+async function readAsset(relativePath: string): Promise<DataBundleAsset | null> {
+  let buffer: Buffer
+  try {
+    buffer = await fs.readFile(resolveDataPath(relativePath))
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      console.warn(`Skipping ${relativePath} in the export; it was removed while exporting.`)
+      return null
+    }
+    throw error
+  }
+  return { path: relativePath, size: buffer.length, sha256: sha256(buffer), data: buffer.toString('base64') }
+}
+
+function withoutCredentials(record: AllowedUserRecord): AllowedUserRecord {
+  const { passwordHash: _passwordHash, ...rest } = record
+  return rest
+}
+
+type DataBundleSnapshot = Omit<DataBundle, 'assets'> & { assetPaths: string[] }
+
+/**
+ * Reads the documents, roster, audit log, archive and the asset listing under every document
+ * lock, so they are consistent with each other. Asset files are read after the locks are
+ * released: each logo version is written to its own file, so a listed file does not change.
+ */
+async function snapshotDataBundle(options: DataBundleExportOptions): Promise<DataBundleSnapshot> {
+  await ensureDataDir()
+  const storage = await getStorageAdapter()
+  const includeCredentials = options.includeCredentials ?? false
+
+  return withStorageTransaction(STORAGE_DOCUMENTS, async () => {
+    const [logos, votes, contests] = await Promise.all(
+      (['logos', 'votes', 'contests'] as const).map((name) => storage.readDocument(name)),
+    )
+    const [roster, voteEvents, historyArchive, assetPaths] = await Promise.all([
+      readRoster(),
+      readVoteEventLogText(),
+      readHistoryArchive(),
+      listAssetPaths(),
+    ])
+    const allowedUsers = includeCredentials ? roster : roster.map(withoutCredentials)
+
+    return {
+      manifest: {
+        format: BUNDLE_FORMAT,
+        bundleVersion: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        storageBackend: storage.backend,
+        schemaVersions: {
+          logos: documentVersion(logos) ?? LOGO_SCHEMA_VERSION,
+          votes: documentVersion(votes) ?? VOTE_SCHEMA_VERSION,
+          contests: documentVersion(contests) ?? CONTEST_SCHEMA_VERSION,
+        },
+        credentialsIncluded: includeCredentials,
+        counts: {
+          logos: isRecord(logos) && Array.isArray(logos.logos) ? logos.logos.length : 0,
+          contests: isRecord(contests) && Array.isArray(contests.contests) ? contests.contests.length : 0,
+          matches: countMatches(votes),
+          allowedUsers: allowedUsers.length,
+          voteEvents: voteEvents.split('\n').filter((line) => line.trim()).length,
+          archivedMatches: Object.values(historyArchive).reduce((total, matches) => total + matches.length, 0),
+          assets: assetPaths.length,
+        },
+      },
+      documents: { logos, votes, contests, allowedUsers, voteEvents, historyArchive },
+      assetPaths,
+    }
+  })
+}
+
+/**
+ * Snapshots every runtime document, the roster, the vote audit log and logo assets. Roster
+ * password hashes are left out unless `includeCredentials` is set.
+ */
+export async function createDataBundle(options: DataBundleExportOptions = {}): Promise<DataBundle> {
+  const { assetPaths, ...snapshot } = await snapshotDataBundle(options)
+  const assets: DataBundleAsset[] = []
+  for (const assetPath of assetPaths) {
+    const asset = await readAsset(assetPath)
+    if (asset) {
+      assets.push(asset)
+    }
+  }
+  return { ...snapshot, assets }
+}
+
+/**
+ * Same bundle as `encodeDataBundle(await createDataBundle())`, but gzipped as it is written:
+ * only one asset is held in memory at a time.
+ */
+export async function streamDataBundle(
+  options: DataBundleExportOptions = {},
+): Promise<{ manifest: DataBundleManifest; stream: Readable }> {
+  const { manifest, documents, assetPaths } = await snapshotDataBundle(options)
+
+  async function* serialize() {
+    yield `{"manifest":${JSON.stringify(manifest)},"documents":${JSON.stringify(documents)},"assets":[`
+    let separator = ''
+    for (const assetPath of assetPaths) {
+      const asset = await readAsset(assetPath)
+      if (asset) {
+        yield `${separator}${JSON.stringify(asset)}`
+        separator = ','
+      }
+    }
+    yield ']}'
+  }
+
+  const gzip = createGzip()
+  // pipeline destroys the gzip stream on failure, which aborts the download instead of truncating it silently.
+  pipeline(Readable.from(serialize()), gzip, (error) => {
+    if (error) {
+      console.error('Failed to stream data bundle', error)
+    }
+  })
+  return { manifest, stream: gzip }
+}
+
+export function encodeDataBundle(bundle: DataBundle): Buffer {
+  return gzipSync(Buffer.from(JSON.stringify(bundle), 'utf-8'))
+}
+
+/**
+ * Decodes a bundle (gzipped or plain JSON) and validates its format, schema versions and
+ * asset checksums. Throws `BundleValidationError` when it cannot be imported safely.
+ */
+export function parseDataBundle(input: Buffer | string): DataBundle {
+  let buffer = typeof input === 'string' ? Buffer.from(input, 'utf-8') : input
+  if (buffer[0] === GZIP_MAGIC[0] && buffer[1] === GZIP_MAGIC[1]) {
+    try {
+      buffer = gunzipSync(buffer)
+    } catch {
+      throw new BundleValidationError('Bundle is not a valid gzip archive.')
+    }
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(buffer.toString('utf-8'))
+  } catch {
+    throw new BundleValidationError('Bundle is not valid JSON.')
+  }
+
+  if (!isRecord(parsed) || !isRecord(parsed.manifest) || parsed.manifest.format !== BUNDLE_FORMAT) {
+    throw new BundleValidationError('This file is not a badge site export bundle.')
+  }
+  const bundleVersion = parsed.manifest.bundleVersion
+  if (typeof bundleVersion !== 'number' || bundleVersion > BUNDLE_VERSION) {
+    throw new BundleValidationError(
+      `Bundle version ${String(bundleVersion)} is newer than this server supports (${BUNDLE_VERSION}).`,
+    )
+  }
+  if (!isRecord(parsed.documents)) {
+    throw new BundleValidationError('Bundle is missing its documents.')
+  }
+
+  const documents = parsed.documents
+  for (const name of STORAGE_DOCUMENTS) {
+    const version = documentVersion(documents[name])
+    if (version !== null && version > SCHEMA_VERSIONS[name]) {
+      throw new BundleValidationError(
+        `The ${name} document uses schema version ${version}, but this server only understands up to ${SCHEMA_VERSIONS[name]}. Upgrade before importing.`,
+      )
+    }
+  }
+
+  const assets = Array.isArray(parsed.assets) ? parsed.assets : []
+  for (const asset of assets) {
+    if (
+      !isRecord(asset) ||
+      typeof asset.path !== 'string' ||
+      !ASSET_PATH_PATTERN.test(asset.path) ||
+      typeof asset.data !== 'string'
+    ) {
+      throw new BundleValidationError('Bundle contains an invalid asset entry.')
+    }
+    if (typeof asset.sha256 === 'string' && sha256(Buffer.from(asset.data, 'base64')) !== asset.sha256) {
+      throw new BundleValidationError(`Asset ${asset.path} failed its checksum.`)
+    }
+  }
+
+  return {
+    manifest: parsed.manifest as unknown as DataBundleManifest,
+    documents: {
+      logos: documents.logos ?? null,
+      votes: documents.votes ?? null,
+      contests: documents.contests ?? null,
+      allowedUsers: Array.isArray(documents.allowedUsers)
+        ? (documents.allowedUsers as AllowedUserRecord[])
+        : null,
+      voteEvents: typeof documents.voteEvents === 'string' ? documents.voteEvents : null,
+      historyArchive: isRecord(documents.historyArchive)
+        ? Object.fromEntries(
+            Object.entries(documents.historyArchive).map(([contestId, matches]) => [
+              contestId,
+              Array.isArray(matches) ? matches.filter(isMatchHistoryEntry) : [],
+            ]),
+          )
+        : null,
+    },
+    assets: assets as DataBundleAsset[],
+  }
+}
+
+function isNewer(candidate: { updatedAt: string }, current: { updatedAt: string }): boolean {
+  return Date.parse(candidate.updatedAt) > Date.parse(current.updatedAt)
+}
+
+/** Unions records by id; on conflicts the more recently updated record wins. */
+function mergeById<T extends { id: string; updatedAt: string }>(
+  current: T[],
+  incoming: T[],
+): { records: T[]; added: number; updated: number; taken: Set<string> } {
+  const byId = new Map(current.map((record) => [record.id, record]))
+  const taken = new Set<string>()
+  let added = 0
+  let updated = 0
+  for (const record of incoming) {
+    const existing = byId.get(record.id)
+    if (!existing) {
+      added += 1
+    } else if (isNewer(record, existing)) {
+      updated += 1
+    } else {
+      continue
+    }
+    byId.set(record.id, record)
+    taken.add(record.id)
+  }
+  return { records: [...byId.values()], added, updated, taken }
+}
+
+function matchKey(match: MatchHistoryEntry): string {
+  return [match.winnerId, match.loserId, match.voterHash ?? '', match.timestamp].join('|')
+}
+
+function mergeVotes(current: VotesFileSchema, incoming: VotesFileSchema) {
+  const contests = { ...current.contests }
+  const rebuild: string[] = []
+  let contestsAdded = 0
+  let matchesAdded = 0
+
+  for (const [contestId, imported] of Object.entries(incoming.contests)) {
+    const existing = contests[contestId]
+    if (!existing) {
+      contests[contestId] = imported
+      contestsAdded += 1
+      matchesAdded += imported.state.history.length
+      continue
+    }
+
+    const seen = new Set(existing.state.history.map(matchKey))
+    const additions = imported.state.history.filter((match) => !seen.has(matchKey(match)))
+    if (additions.length === 0) {
+      continue
+    }
+    matchesAdded += additions.length
+    contests[contestId] = {
+      state: {
+        entries: existing.state.entries,
+        history: [...existing.state.history, ...additions].sort((a, b) => b.timestamp - a.timestamp),
+      },
+      updatedAt: new Date().toISOString(),
+    }
+    rebuild.push(contestId)
+  }
+
+  return {
+    schema: { version: VOTE_SCHEMA_VERSION, contests, updatedAt: new Date().toISOString() },
+    rebuild,
+    contestsAdded,
+    matchesAdded,
+  }
+}
+
+function mergeRoster(current: AllowedUserRecord[], incoming: AllowedUserRecord[]) {
+  const known = new Set(current.map((record) => normalizeAlias(record.alias)))
+  const additions = incoming.filter((record) => {
+    const alias = normalizeAlias(record.alias)
+    if (!alias || known.has(alias)) {
+      return false
+    }
+    known.add(alias)
+    return true
+  })
+  return { records: [...current, ...additions], added: additions.length }
+}
+
+/** Bundles exported without credentials keep each alias's current password on a replace import. */
+function keepLocalCredentials(current: AllowedUserRecord[], incoming: AllowedUserRecord[]): AllowedUserRecord[] {
+  const credentials = new Map(
+    current
+      .filter((record) => record.passwordHash)
+      .map((record): [string, Pick<AllowedUserRecord, 'passwordHash' | 'passwordChangedAt'>] => [
+        normalizeAlias(record.alias),
+        record.passwordChangedAt
+          ? { passwordHash: record.passwordHash, passwordChangedAt: record.passwordChangedAt }
+          : { passwordHash: record.passwordHash },
+      ]),
+  )
+  return incoming.map((record) => {
+    const local = credentials.get(normalizeAlias(record.alias))
+    return local ? { ...record, ...local } : record
+  })
+}
+
+function eventId(line: string): string {
+  try {
+    const parsed = JSON.parse(line) as { id?: unknown }
+    return typeof parsed.id === 'string' ? parsed.id : line
+  } catch {
+    return line
+  }
+}
+
+/** Incoming event lines whose ids are not in `current`, in their original order. */
+function newEventLines(current: string, incoming: string): string[] {
+  const seen = new Set(
+    current
+      .split('\n')
+      .filter((line) => line.trim())
+      .map(eventId),
+  )
+  return incoming
+    .split('\n')
+    .filter((line) => line.trim())
+    .filter((line) => {
+      const id = eventId(line)
+      if (seen.has(id)) {
+        return false
+      }
+      seen.add(id)
+      return true
+    })
+}
+
+async function writeAsset(asset: DataBundleAsset): Promise<void> {
+  const target = resolveDataPath(asset.path)
+  await fs.mkdir(path.dirname(target), { recursive: true })
+  await fs.writeFile(target, Buffer.from(asset.data, 'base64'))
+}
+
+/**
+ * Imports a parsed bundle into `DATA_DIR`. `replace` swaps every document, the roster, the
+ * vote audit log and the asset folder for the bundle's contents; `merge` adds records the
+ * deployment does not have yet, keeps the newer copy of records both sides changed, and
+ * replays ratings for contests that gained matches. Current documents are snapshotted into
+ * the backups folder first.
+ */
+export async function importDataBundle(
+  bundle: DataBundle,
+  options: { mode: BundleImportMode },
+): Promise<BundleImportSummary> {
+  await ensureDataDir()
+  const storage = await getStorageAdapter()
+  const { mode } = options
+
+  return withStorageTransaction(STORAGE_DOCUMENTS, async () => {
+    const summary: BundleImportSummary = {
+      mode,
+      migrated: STORAGE_DOCUMENTS.filter((name) => {
+        const version = documentVersion(bundle.documents[name])
+        return bundle.documents[name] !== null && version !== SCHEMA_VERSIONS[name]
+      }),
+      logos: { added: 0, updated: 0 },
+      contests: { added: 0, updated: 0 },
+      votes: { contestsAdded: 0, contestsMerged: 0, matchesAdded: 0 },
+      allowedUsers: { added: 0 },
+      voteEvents: { added: 0 },
+      historyArchive: { matchesAdded: 0 },
+      assets: { written: 0 },
+    }
+
+    const current = {
+      logos: await storage.readDocument('logos'),
+      votes: await storage.readDocument('votes'),
+      contests: await storage.readDocument('contests'),
+    }
+    for (const name of STORAGE_DOCUMENTS) {
+      if (current[name] !== null) {
+        await storage.writeDocument(name, current[name], { forceBackup: true })
+      }
+    }
+
+    const incomingLogos = bundle.documents.logos !== null ? migrateLogosDocument(bundle.documents.logos) : null
+    const incomingVotes = bundle.documents.votes !== null ? migrateVotesDocument(bundle.documents.votes) : null
+    const incomingContests =
+      bundle.documents.contests !== null ? migrateContestRegistry(bundle.documents.contests) : null
+
+    let takenLogoIds = new Set<string>()
+    let contestsToRebuild: string[] = []
+
+    if (mode === 'replace') {
+      if (incomingContests) {
+        await storage.writeDocument('contests', incomingContests)
+        summary.contests.added = incomingContests.contests.length
+      }
+      if (incomingLogos) {
+        await storage.writeDocument('logos', incomingLogos)
+        summary.logos.added = incomingLogos.logos.length
+      }
+      if (incomingVotes) {
+        await storage.writeDocument('votes', incomingVotes)
+        summary.votes.contestsAdded = Object.keys(incomingVotes.contests).length
+        summary.votes.matchesAdded = countMatches(incomingVotes)
+      }
+      if (bundle.documents.allowedUsers) {
+        await writeRoster(
+          bundle.manifest.credentialsIncluded === false
+            ? keepLocalCredentials(await readRoster(), bundle.documents.allowedUsers)
+            : bundle.documents.allowedUsers,
+        )
+        summary.allowedUsers.added = bundle.documents.allowedUsers.length
+      }
+      if (bundle.documents.voteEvents !== null) {
+        const lines = newEventLines('', bundle.documents.voteEvents)
+        await replaceVoteEventLog(lines.length > 0 ? `${lines.join('\n')}\n` : '')
+        summary.voteEvents.added = lines.length
+      }
+      if (bundle.documents.historyArchive) {
+        for (const contestId of await listArchivedContests()) {
+          await clearArchivedMatches(contestId)
+        }
+        for (const [contestId, matches] of Object.entries(bundle.documents.historyArchive)) {
+          await replaceArchivedMatches(contestId, matches)
+          summary.historyArchive.matchesAdded += matches.length
+        }
+      }
+      await fs.rm(resolveDataPath(LOGO_ASSETS_DIR), { recursive: true, force: true })
+      takenLogoIds = new Set(incomingLogos?.logos.map((logo) => logo.id) ?? [])
+    } else {
+      if (incomingContests) {
+        const registry: ContestRegistryFile = current.contests
+          ? migrateContestRegistry(current.contests)
+          : incomingContests
+        const merged = mergeById<Contest>(
+          current.contests ? registry.contests : [],
+          incomingContests.contests,
+        )
+        await storage.writeDocument('contests', { ...registry, contests: merged.records })
+        summary.contests = { added: merged.added, updated: merged.updated }
+      }
+      if (incomingLogos) {
+        const existing = current.logos ? migrateLogosDocument(current.logos).logos : []
+        const merged = mergeById<LogoEntry>(existing, incomingLogos.logos)
+        await storage.writeDocument('logos', { ...incomingLogos, logos: sortLogos(merged.records) })
+        summary.logos = { added: merged.added, updated: merged.updated }
+        takenLogoIds = merged.taken
+      }
+      if (incomingVotes) {
+        const existing = current.votes
+          ? migrateVotesDocument(current.votes)
+          : { version: VOTE_SCHEMA_VERSION, contests: {}, updatedAt: new Date().toISOString() }
+        const merged = mergeVotes(existing, incomingVotes)
+        await storage.writeDocument('votes', merged.schema)
+        contestsToRebuild = merged.rebuild
+        summary.votes = {
+          contestsAdded: merged.contestsAdded,
+          contestsMerged: merged.rebuild.length,
+          matchesAdded: merged.matchesAdded,
+        }
+      }
+      if (bundle.documents.allowedUsers) {
+        const roster = mergeRoster(await readRoster(), bundle.documents.allowedUsers)
+        await writeRoster(roster.records)
+        summary.allowedUsers.added = roster.added
+      }
+      if (bundle.documents.voteEvents !== null) {
+        // Appended events are re-linked into this deployment's hash chain.
+        const lines = newEventLines(await readVoteEventLogText(), bundle.documents.voteEvents)
+        await appendVoteEventLines(lines)
+        summary.voteEvents.added = lines.length
+      }
+      if (bundle.documents.historyArchive) {
+        // Merged contests are rebuilt below, which folds these back in and re-applies retention.
+        for (const [contestId, matches] of Object.entries(bundle.documents.historyArchive)) {
+          const seen = new Set((await readArchivedMatches(contestId)).map(matchKey))
+          const additions = matches.filter((match) => !seen.has(matchKey(match)))
+          await archiveMatches(contestId, additions)
+          summary.historyArchive.matchesAdded += additions.length
+          if (additions.length > 0 && !contestsToRebuild.includes(contestId)) {
+            contestsToRebuild.push(contestId)
+          }
+        }
+      }
+    }
+
+    for (const asset of bundle.assets) {
+      const logoId = path.posix.basename(asset.path).replace(/\.[^.]+$/, '')
+      const exists = await fs
+        .access(resolveDataPath(asset.path))
+        .then(() => true)
+        .catch(() => false)
+      if (!exists || takenLogoIds.has(logoId)) {
+        await writeAsset(asset)
+        summary.assets.written += 1
+      }
+    }
+
+    for (const contestId of contestsToRebuild) {
+      await rebuildContestRatings(contestId)
+    }
+
+    return summary
+  })
+}
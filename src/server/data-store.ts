@@ -6,51 +6,108 @@ import { logoCatalog } from '../data/logo-catalog'
 import {
   BASE_CATALOG_TIMESTAMP,
   type LogoEntry,
+  type LogoRendition,
+  type LogoRevision,
   type SubmitLogoInput,
   type UpdateLogoInput,
+  buildLogoImageUrl,
   createCatalogEntry,
   generateCodename,
+  getLogoVersion,
   normalizeOwnerAlias,
   sortLogos,
 } from '../lib/logo-utils'
 import {
-  applyMatch,
   pruneEntries,
   ensureEntries,
   parseEloState,
   createEmptyEntry,
   calculateTotalMatches,
+  createPairKey,
+  pickMatchVersions,
+  HISTORY_LIMIT,
   type EloState,
+  type MatchHistoryEntry,
 } from '../lib/elo-engine'
+import { getRatingEngine, type RatingEngine } from '../lib/rating-engines'
+import {
+  bootstrapRatingConfidenceAsync,
+  type ChampionSignificance,
+  type RatingConfidence,
+  type RatingInterval,
+} from '../lib/rating-confidence'
 import { DEFAULT_CONTEST_ID, type ChampionInsights } from '../lib/contest-utils'
 import { ensureContest, getActiveContestId } from './contest-store'
 import {
   logVoteRecorded,
   logVotesReset,
+  logVotesVoided,
   type VoteAuditEvent,
+  type VoteRecordedEvent,
+  type VotesVoidedEvent,
 } from './audit-log'
-import { restoreLatestBackup, writeJsonWithBackup } from './persistence-utils'
+import {
+  assertExpectedRevision,
+  getStorageAdapter,
+  onDocumentChange,
+  withStorageTransaction,
+  type RevisionOptions,
+} from './storage-adapter'
+import { LruCache } from './lru-cache'
+import { applyMigrations, currentSchemaVersion, SchemaVersionError } from './migrations'
 import { ensureDataDir, resolveDataPath } from './storage-utils'
-
-const LOGOS_FILE = 'logos.json'
-const VOTES_FILE = 'votes.json'
-const LOGO_SCHEMA_VERSION = 3
-const VOTE_SCHEMA_VERSION = 2
+import {
+  hashVoteEventLine,
+  readVoteEventLines,
+  VoteEventLogPositionError,
+  type VoteEventLogPosition,
+} from './vote-event-log'
+import {
+  clearRatingCheckpoints,
+  findLatestCheckpoint,
+  readCheckpointHistory,
+  recordRatingCheckpoint,
+  resolveCheckpointInterval,
+  resolveCheckpointKeys,
+  type RatingCheckpoint,
+} from './rating-checkpoints'
+import { publishScoreboardEvent } from './live-scoreboard'
+import {
+  LOGO_IMAGE_MIME_TYPES,
+  LogoImageError,
+  processLogoImage,
+  resolveMaxLogoBytes,
+  type ProcessedLogoFile,
+  type ProcessedLogoImage,
+} from './logo-image-pipeline'
+import {
+  archiveMatches,
+  clearArchivedMatches,
+  combineMatchHistory,
+  listArchivedVoterPairs,
+  readArchivedMatches,
+  replaceArchivedMatches,
+} from './history-archive'
+import { computeHeadToHeadMatrix, type HeadToHeadMatrix } from '../lib/head-to-head'
+import { splitRetainedHistory } from '../lib/history-retention'
+import type { ScoreboardRatingChange } from '../lib/scoreboard-stream'
+
+export const LOGO_SCHEMA_VERSION = currentSchemaVersion('logos')
+export const VOTE_SCHEMA_VERSION = currentSchemaVersion('votes')
 const LOGO_ASSETS_DIR = 'logos'
-const VOTE_EVENT_LOG_FILE = 'vote-events.ndjson'
 
-interface LogosFileSchema {
+export interface LogosFileSchema {
   version: number
   logos: LogoEntry[]
   updatedAt: string
 }
 
-interface VotesFileContestState {
+export interface VotesFileContestState {
   state: EloState
   updatedAt: string
 }
 
-interface VotesFileSchema {
+export interface VotesFileSchema {
   version: number
   contests: Record<string, VotesFileContestState>
   updatedAt: string
@@ -66,43 +123,18 @@ interface SanitizedSubmitInput {
 
 const DATA_URL_REGEX = /^data:(?<mime>[^;]+);base64,(?<data>.+)$/i
 
-const MIME_EXTENSION_MAP: Record<string, string> = {
-  'image/png': 'png',
-  'image/jpeg': 'jpg',
-  'image/jpg': 'jpg',
-  'image/gif': 'gif',
-  'image/webp': 'webp',
-  'image/svg+xml': 'svg',
-}
-
-function inferFileExtension(mimeType: string): string {
-  const lower = mimeType.toLowerCase()
-  if (MIME_EXTENSION_MAP[lower]) {
-    return MIME_EXTENSION_MAP[lower]
-  }
-  if (lower.includes('svg')) {
-    return 'svg'
-  }
-  if (lower.includes('png')) {
-    return 'png'
-  }
-  if (lower.includes('jpeg') || lower.includes('jpg')) {
-    return 'jpg'
-  }
-  if (lower.includes('webp')) {
-    return 'webp'
-  }
-  return 'bin'
+// Version 1 keeps the original `<id>.<ext>` names; later versions get their own files so
+// earlier artwork stays on disk as a revision.
+function buildLogoFileStem(logoId: string, version: number): string {
+  return version > 1 ? `${logoId}-v${version}` : logoId
 }
 
-function buildLogoAssetFilename(logoId: string, extension: string): string {
-  return `${logoId}.${extension}`
+function buildLogoAssetFilename(logoId: string, extension: string, version: number): string {
+  return `${buildLogoFileStem(logoId, version)}.${extension}`
 }
 
-function buildLogoImageUrl(logoId: string, updatedAt: string): string {
-  const timestamp = Date.parse(updatedAt)
-  const version = Number.isNaN(timestamp) ? Date.now() : timestamp
-  return `/api/logos/${encodeURIComponent(logoId)}/image?v=${version}`
+function buildLogoRenditionFilename(logoId: string, rendition: ProcessedLogoFile, version: number): string {
+  return `${buildLogoFileStem(logoId, version)}-${rendition.width}.${rendition.format}`
 }
 
 function normalizeAssetPath(value: unknown): string | null {
@@ -123,7 +155,105 @@ function normalizeAssetPath(value: unknown): string | null {
   return `${LOGO_ASSETS_DIR}/${path.posix.basename(normalized)}`
 }
 
-async function persistLogoAssetFromDataUrl(logoId: string, dataUrl: string): Promise<{ assetPath: string; mimeType: string }> {
+function normalizeRenditions(value: unknown): LogoRendition[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined
+  }
+  const renditions = value.flatMap((item): LogoRendition[] => {
+    if (!item || typeof item !== 'object') {
+      return []
+    }
+    const record = item as Record<string, unknown>
+    const renditionPath = normalizeAssetPath(record.assetPath)
+    const format = record.format
+    if (!renditionPath || (format !== 'png' && format !== 'webp' && format !== 'svg')) {
+      return []
+    }
+    return [
+      {
+        format,
+        width: Number(record.width) || 0,
+        height: Number(record.height) || 0,
+        assetPath: renditionPath,
+        bytes: Number(record.bytes) || 0,
+      },
+    ]
+  })
+  return renditions.length > 0 ? renditions : undefined
+}
+
+function normalizeLogoVersion(value: unknown): number | undefined {
+  const version = Number(value)
+  return Number.isInteger(version) && version > 0 ? version : undefined
+}
+
+function normalizeRevisions(value: unknown): LogoRevision[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined
+  }
+  const seen = new Set<number>()
+  const revisions = value.flatMap((item): LogoRevision[] => {
+    if (!item || typeof item !== 'object') {
+      return []
+    }
+    const record = item as Record<string, unknown>
+    const version = normalizeLogoVersion(record.version)
+    const assetPath = normalizeAssetPath(record.assetPath)
+    if (!version || !assetPath || seen.has(version)) {
+      return []
+    }
+    seen.add(version)
+    const renditions = normalizeRenditions(record.renditions)
+    return [
+      {
+        version,
+        assetPath,
+        ...(renditions ? { renditions } : {}),
+        createdAt: sanitizeIsoString(record.createdAt, BASE_CATALOG_TIMESTAMP),
+        createdBy: typeof record.createdBy === 'string' && record.createdBy.trim() ? record.createdBy.trim() : null,
+      },
+    ]
+  })
+  return revisions.length > 0 ? revisions.sort((a, b) => b.version - a.version) : undefined
+}
+
+interface PersistedLogoAsset {
+  assetPath: string
+  mimeType: string
+  renditions: LogoRendition[]
+}
+
+async function writeLogoAssets(
+  logoId: string,
+  processed: ProcessedLogoImage,
+  version = 1,
+): Promise<PersistedLogoAsset> {
+  await ensureDataDir()
+  await fs.mkdir(resolveDataPath(LOGO_ASSETS_DIR), { recursive: true })
+
+  const assetPath = path.posix.join(
+    LOGO_ASSETS_DIR,
+    buildLogoAssetFilename(logoId, processed.primary.format, version),
+  )
+  await fs.writeFile(resolveDataPath(assetPath), processed.primary.data)
+
+  const renditions: LogoRendition[] = []
+  for (const rendition of processed.renditions) {
+    const renditionPath = path.posix.join(LOGO_ASSETS_DIR, buildLogoRenditionFilename(logoId, rendition, version))
+    await fs.writeFile(resolveDataPath(renditionPath), rendition.data)
+    renditions.push({
+      format: rendition.format,
+      width: rendition.width,
+      height: rendition.height,
+      assetPath: renditionPath,
+      bytes: rendition.data.length,
+    })
+  }
+
+  return { assetPath, mimeType: LOGO_IMAGE_MIME_TYPES[processed.primary.format], renditions }
+}
+
+async function renderLogoImageFromDataUrl(dataUrl: string): Promise<ProcessedLogoImage> {
   const match = DATA_URL_REGEX.exec(dataUrl.trim())
   if (!match?.groups?.data) {
     throw new Error('Logo image must be a base64 data URL.')
@@ -131,21 +261,40 @@ async function persistLogoAssetFromDataUrl(logoId: string, dataUrl: string): Pro
 
   const mimeType = (match.groups.mime ?? 'application/octet-stream').toLowerCase()
   const base64Payload = match.groups.data.replace(/\s/g, '')
+  // Refuse oversized payloads before decoding them.
+  const maxBytes = resolveMaxLogoBytes()
+  if (Math.floor((base64Payload.length * 3) / 4) > maxBytes + 2) {
+    throw new LogoImageError(`Logo images must be ${Math.floor(maxBytes / 1024)} KB or smaller.`, 413)
+  }
   const buffer = Buffer.from(base64Payload, 'base64')
 
-  await ensureDataDir()
-  const extension = inferFileExtension(mimeType)
-  const filename = buildLogoAssetFilename(logoId, extension)
-  const relativePath = path.posix.join(LOGO_ASSETS_DIR, filename)
-  const absolutePath = resolveDataPath(relativePath)
+  return processLogoImage(buffer, { declaredMimeType: mimeType })
+}
 
-  await fs.mkdir(path.dirname(absolutePath), { recursive: true })
-  await fs.writeFile(absolutePath, buffer)
+/** Artwork already streamed to disk, e.g. by a multipart upload. */
+export interface LogoImageUpload {
+  filePath: string
+  /** Type the client declared for the file; checked against its bytes. */
+  mimeType: string | null
+}
 
-  return {
-    assetPath: relativePath,
-    mimeType,
+async function renderLogoImageFromFile(upload: LogoImageUpload): Promise<ProcessedLogoImage> {
+  const maxBytes = resolveMaxLogoBytes()
+  const { size } = await fs.stat(upload.filePath)
+  if (size > maxBytes) {
+    throw new LogoImageError(`Logo images must be ${Math.floor(maxBytes / 1024)} KB or smaller.`, 413)
   }
+  const buffer = await fs.readFile(upload.filePath)
+  return processLogoImage(buffer, { declaredMimeType: upload.mimeType })
+}
+
+/**
+ * Validates and renders artwork without touching the stores. Rendering takes a while, so
+ * callers do it before opening a storage transaction and only write the files inside it;
+ * otherwise one upload would hold up every vote for the length of image processing.
+ */
+function renderLogoImage(source: string | LogoImageUpload): Promise<ProcessedLogoImage> {
+  return typeof source === 'string' ? renderLogoImageFromDataUrl(source) : renderLogoImageFromFile(source)
 }
 
 function sanitizeIsoString(value: unknown, fallback: string): string {
@@ -186,6 +335,9 @@ function coerceLogoEntry(value: unknown): LogoEntry | null {
         ? 'ces3@system'
         : undefined
   const assetPath = normalizeAssetPath(record.assetPath)
+  const renditions = assetPath ? normalizeRenditions(record.renditions) : undefined
+  const version = assetPath ? normalizeLogoVersion(record.version) : undefined
+  const revisions = assetPath ? normalizeRevisions(record.revisions) : undefined
 
   const createdAt = sanitizeIsoString(record.createdAt, BASE_CATALOG_TIMESTAMP)
   const updatedAt = sanitizeIsoString(record.updatedAt, createdAt)
@@ -206,7 +358,10 @@ function coerceLogoEntry(value: unknown): LogoEntry | null {
     codename: codenameField && codenameField.length > 0 ? codenameField : generateCodename(nameField),
     description,
     image,
-  assetPath,
+    assetPath,
+    ...(renditions ? { renditions } : {}),
+    ...(version ? { version } : {}),
+    ...(revisions ? { revisions } : {}),
     ownerAlias,
     source,
     submittedBy,
@@ -238,11 +393,12 @@ async function normalizeUserLogoEntries(logos: LogoEntry[]): Promise<{ logos: Lo
 
     if (!next.assetPath && typeof next.image === 'string' && next.image.startsWith('data:')) {
       try {
-        const { assetPath } = await persistLogoAssetFromDataUrl(next.id, next.image)
+        const { assetPath, renditions } = await writeLogoAssets(next.id, await renderLogoImageFromDataUrl(next.image))
         const updatedAt = new Date().toISOString()
         next.assetPath = assetPath
+        next.renditions = renditions
         next.updatedAt = updatedAt
-        next.image = buildLogoImageUrl(next.id, updatedAt)
+        next.image = buildLogoImageUrl(next.id, getLogoVersion(next) ?? 1)
         mutated = true
       } catch (error) {
         console.warn(`Failed to persist logo asset for ${next.id}`, error)
@@ -250,7 +406,7 @@ async function normalizeUserLogoEntries(logos: LogoEntry[]): Promise<{ logos: Lo
     }
 
     if (next.assetPath) {
-      const desiredImage = buildLogoImageUrl(next.id, next.updatedAt)
+      const desiredImage = buildLogoImageUrl(next.id, getLogoVersion(next) ?? 1)
       if (next.image !== desiredImage) {
         next.image = desiredImage
         mutated = true
@@ -267,19 +423,55 @@ async function normalizeUserLogoEntries(logos: LogoEntry[]): Promise<{ logos: Lo
   return { logos: normalized, changed }
 }
 
+/**
+ * Brings a logos document from any earlier schema version to the current one via the
+ * migration registry, then coerces the entries. Entries that cannot be coerced are dropped;
+ * image assets are normalised on the next read.
+ */
+export function migrateLogosDocument(raw: unknown): LogosFileSchema {
+  const parsed = applyMigrations('logos', raw) as Partial<LogosFileSchema>
+  const logos = Array.isArray(parsed.logos)
+    ? parsed.logos.map(coerceLogoEntry).filter((entry): entry is LogoEntry => Boolean(entry))
+    : []
+  return {
+    version: LOGO_SCHEMA_VERSION,
+    logos: sortLogos(logos),
+    updatedAt: sanitizeIsoString(parsed.updatedAt, new Date().toISOString()),
+  }
+}
+
+/**
+ * Brings a votes document to the current schema via the migration registry, then sanitises
+ * each contest's Elo state.
+ */
+export function migrateVotesDocument(raw: unknown): VotesFileSchema {
+  const parsed = applyMigrations('votes', raw) as Partial<VotesFileSchema>
+  const contests: Record<string, VotesFileContestState> = {}
+  for (const [contestId, contestState] of Object.entries(parsed.contests ?? {})) {
+    if (!contestState || typeof contestState !== 'object') continue
+    contests[contestId] = {
+      state: sanitizeEloState(contestState.state),
+      updatedAt: sanitizeIsoString(contestState.updatedAt, new Date().toISOString()),
+    }
+  }
+  return {
+    version: VOTE_SCHEMA_VERSION,
+    contests,
+    updatedAt: sanitizeIsoString(parsed.updatedAt, new Date().toISOString()),
+  }
+}
+
 async function readLogosFile(options: { allowRestore?: boolean } = {}): Promise<LogosFileSchema> {
   const { allowRestore = true } = options
-  await ensureDataDir()
-  const filePath = resolveDataPath(LOGOS_FILE)
+  const storage = await getStorageAdapter()
 
   try {
-    const raw = await fs.readFile(filePath, 'utf-8')
-    const parsed = JSON.parse(raw) as Partial<LogosFileSchema>
-    const logos = Array.isArray(parsed.logos)
+    const parsed = (await storage.readDocument('logos')) as Partial<LogosFileSchema> | null
+    const logos = Array.isArray(parsed?.logos)
       ? parsed.logos.map(coerceLogoEntry).filter((entry): entry is LogoEntry => Boolean(entry))
       : []
 
-    if (logos.length > 0) {
+    if (parsed && logos.length > 0) {
       const { logos: normalizedLogos, changed } = await normalizeUserLogoEntries(logos)
       const schema: LogosFileSchema = {
         version: typeof parsed.version === 'number' ? parsed.version : LOGO_SCHEMA_VERSION,
@@ -293,20 +485,14 @@ async function readLogosFile(options: { allowRestore?: boolean } = {}): Promise<
 
       return schema
     }
+
+    if (!parsed && allowRestore && (await storage.restoreLatestBackup('logos'))) {
+      return readLogosFile({ allowRestore: false })
+    }
   } catch (error: unknown) {
-    if (error && typeof error === 'object' && 'code' in error) {
-      const code = (error as { code?: string }).code
-      if (code !== 'ENOENT') {
-        console.warn('Failed to read logos file, regenerating seed.', error)
-      }
-      if (allowRestore && (await restoreLatestBackup('logos', filePath))) {
-        return readLogosFile({ allowRestore: false })
-      }
-    } else {
-      console.warn('Failed to read logos file, regenerating seed.', error)
-      if (allowRestore && (await restoreLatestBackup('logos', filePath))) {
-        return readLogosFile({ allowRestore: false })
-      }
+    console.warn('Failed to read logos file, regenerating seed.', error)
+    if (allowRestore && (await storage.restoreLatestBackup('logos'))) {
+      return readLogosFile({ allowRestore: false })
     }
   }
 
@@ -321,21 +507,13 @@ async function readLogosFile(options: { allowRestore?: boolean } = {}): Promise<
 }
 
 async function writeLogosFile(schema: LogosFileSchema, options: { forceBackup?: boolean } = {}) {
-  await ensureDataDir()
-  const filePath = resolveDataPath(LOGOS_FILE)
+  const storage = await getStorageAdapter()
   const payload: LogosFileSchema = {
     version: LOGO_SCHEMA_VERSION,
     logos: sortLogos(schema.logos),
     updatedAt: new Date().toISOString(),
   }
-  await writeJsonWithBackup({
-    filePath,
-    data: payload,
-    prefix: 'logos',
-    minIntervalMs: 5 * 60_000,
-    maxRetained: 24,
-    forceBackup: options.forceBackup ?? false,
-  })
+  await storage.writeDocument('logos', payload, { forceBackup: options.forceBackup ?? false })
 }
 
 function sanitizeEloState(raw: unknown): EloState {
@@ -344,63 +522,37 @@ function sanitizeEloState(raw: unknown): EloState {
 
 async function readVotesFile(options: { allowRestore?: boolean } = {}): Promise<VotesFileSchema> {
   const { allowRestore = true } = options
-  await ensureDataDir()
-  const filePath = resolveDataPath(VOTES_FILE)
+  const storage = await getStorageAdapter()
 
   try {
-    const raw = await fs.readFile(filePath, 'utf-8')
-    const parsed = JSON.parse(raw) as Partial<VotesFileSchema & { state?: unknown }>
-
-    if (parsed && typeof parsed === 'object' && parsed.version === VOTE_SCHEMA_VERSION && parsed.contests) {
-      const contests: Record<string, VotesFileContestState> = {}
-      for (const [contestId, contestState] of Object.entries(parsed.contests)) {
-        if (!contestState || typeof contestState !== 'object') continue
-        const state = sanitizeEloState((contestState as VotesFileContestState).state)
-        const updatedAt = sanitizeIsoString(
-          (contestState as VotesFileContestState).updatedAt,
-          new Date().toISOString(),
-        )
-        contests[contestId] = { state, updatedAt }
-      }
-
-      return {
-        version: VOTE_SCHEMA_VERSION,
-        contests,
-        updatedAt: sanitizeIsoString(parsed.updatedAt, new Date().toISOString()),
-      }
-    }
-
-    const legacyState = sanitizeEloState(parsed.state ?? parsed)
-    const converted: VotesFileSchema = {
-      version: VOTE_SCHEMA_VERSION,
-      contests: {
-        [DEFAULT_CONTEST_ID]: {
-          state: legacyState,
-          updatedAt: sanitizeIsoString(parsed.updatedAt, new Date().toISOString()),
-        },
-      },
-      updatedAt: sanitizeIsoString(parsed.updatedAt, new Date().toISOString()),
-    }
+    const parsed = (await storage.readDocument('votes')) as Partial<VotesFileSchema & { state?: unknown }> | null
 
-    await writeVotesFile(converted)
-    return converted
-  } catch (error: unknown) {
-    if (error && typeof error === 'object' && 'code' in error) {
-      const code = (error as { code?: string }).code
-      if (code !== 'ENOENT') {
-        console.warn('Failed to read votes file, creating new state.', error)
-      }
-      if (allowRestore && (await restoreLatestBackup('votes', filePath))) {
+    if (!parsed) {
+      if (allowRestore && (await storage.restoreLatestBackup('votes'))) {
         return readVotesFile({ allowRestore: false })
       }
+    } else if (typeof parsed === 'object' && parsed.version === VOTE_SCHEMA_VERSION && parsed.contests) {
+      return migrateVotesDocument(parsed)
     } else {
-      console.warn('Failed to read votes file, creating new state.', error)
-      if (allowRestore && (await restoreLatestBackup('votes', filePath))) {
-        return readVotesFile({ allowRestore: false })
-      }
+      const converted = migrateVotesDocument(parsed)
+      await writeVotesFile(converted)
+      return converted
+    }
+  } catch (error: unknown) {
+    if (error instanceof SchemaVersionError) {
+      // Data from a newer release must not be replaced by an older backup or a fresh seed.
+      throw error
+    }
+    console.warn('Failed to read votes file, creating new state.', error)
+    if (allowRestore && (await storage.restoreLatestBackup('votes'))) {
+      return readVotesFile({ allowRestore: false })
     }
   }
 
+  return seedVotesFile()
+}
+
+async function seedVotesFile(): Promise<VotesFileSchema> {
   const logosFile = await readLogosFile()
   const defaultLogos = logosFile.logos.filter(
     (logo) => logo.contestId === DEFAULT_CONTEST_ID && !logo.removedAt,
@@ -421,81 +573,79 @@ async function readVotesFile(options: { allowRestore?: boolean } = {}): Promise<
 }
 
 async function writeVotesFile(schema: VotesFileSchema, options: { forceBackup?: boolean } = {}) {
-  await ensureDataDir()
-  const filePath = resolveDataPath(VOTES_FILE)
+  const storage = await getStorageAdapter()
   const payload: VotesFileSchema = {
     version: VOTE_SCHEMA_VERSION,
     contests: schema.contests,
     updatedAt: new Date().toISOString(),
   }
-  await writeJsonWithBackup({
-    filePath,
-    data: payload,
-    prefix: 'votes',
-    minIntervalMs: 15_000,
-    maxRetained: 200,
-    forceBackup: options.forceBackup ?? false,
-  })
+  await storage.writeDocument('votes', payload, { forceBackup: options.forceBackup ?? false })
 }
 
-async function readVoteAuditEvents(): Promise<VoteAuditEvent[]> {
-  await ensureDataDir()
-  const filePath = resolveDataPath(VOTE_EVENT_LOG_FILE)
-
-  try {
-    const raw = await fs.readFile(filePath, 'utf-8')
-    const lines = raw.split('\n')
-    const events: VoteAuditEvent[] = []
-
-    for (const line of lines) {
-      const trimmed = line.trim()
-      if (!trimmed) {
-        continue
-      }
-      try {
-        const parsed = JSON.parse(trimmed) as VoteAuditEvent
-        if (parsed && (parsed.type === 'vote-recorded' || parsed.type === 'votes-reset')) {
-          events.push(parsed)
-        }
-      } catch (error) {
-        console.warn('Skipping malformed vote audit entry', error)
-      }
-    }
-
-    return events
-  } catch (error) {
-    if (error && typeof error === 'object' && 'code' in error) {
-      const code = (error as { code?: string }).code
-      if (code === 'ENOENT') {
-        return []
+/**
+ * Streams the vote event log (rotated segments, then the active file) and keeps only the
+ * requested contest's events, so replays never hold the whole log in memory. With `from`, only
+ * the lines after that log position are read. Read errors propagate: replaying an empty list
+ * would overwrite the standings with nothing. Also returns the position the read ended at.
+ */
+async function readVoteAuditLog(
+  contestId?: string,
+  from?: VoteEventLogPosition,
+): Promise<{ events: VoteAuditEvent[]; position: VoteEventLogPosition }> {
+  const events: VoteAuditEvent[] = []
+  let lastLine: { index: number; text: string } | null = null
+
+  for await (const { index, text } of readVoteEventLines({ from })) {
+    lastLine = { index, text }
+    try {
+      const parsed = JSON.parse(text) as VoteAuditEvent
+      if (
+        parsed &&
+        (parsed.type === 'vote-recorded' ||
+          parsed.type === 'votes-reset' ||
+          parsed.type === 'votes-voided') &&
+        (!contestId || parsed.contestId === contestId)
+      ) {
+        events.push(parsed)
       }
+    } catch (error) {
+      console.warn('Skipping malformed vote audit entry', error)
     }
-    console.warn('Failed to read vote audit log; continuing without history replay.', error)
-    return []
   }
+
+  const position = lastLine
+    ? { lines: lastLine.index + 1, lastHash: hashVoteEventLine(lastLine.text) }
+    : (from ?? { lines: 0, lastHash: null })
+  return { events, position }
 }
 
-function sortVoteAuditEvents(events: VoteAuditEvent[]): VoteAuditEvent[] {
-  return [...events].sort((a, b) => {
-    const timeA = Number.isFinite(Date.parse(a.occurredAt)) ? Date.parse(a.occurredAt) : 0
-    const timeB = Number.isFinite(Date.parse(b.occurredAt)) ? Date.parse(b.occurredAt) : 0
+async function readVoteAuditEvents(contestId?: string): Promise<VoteAuditEvent[]> {
+  return (await readVoteAuditLog(contestId)).events
+}
 
-    if (timeA !== timeB) {
-      return timeA - timeB
-    }
+function compareVoteAuditEvents(a: VoteAuditEvent, b: VoteAuditEvent): number {
+  const timeA = Number.isFinite(Date.parse(a.occurredAt)) ? Date.parse(a.occurredAt) : 0
+  const timeB = Number.isFinite(Date.parse(b.occurredAt)) ? Date.parse(b.occurredAt) : 0
 
-    if (a.type === 'vote-recorded' && b.type === 'vote-recorded') {
-      return a.matchTimestamp - b.matchTimestamp
-    }
+  if (timeA !== timeB) {
+    return timeA - timeB
+  }
 
-    if (a.type === 'vote-recorded') {
-      return 1
-    }
-    if (b.type === 'vote-recorded') {
-      return -1
-    }
-    return 0
-  })
+  if (a.type === 'vote-recorded' && b.type === 'vote-recorded') {
+    return a.matchTimestamp - b.matchTimestamp
+  }
+
+  if (a.type === 'vote-recorded') {
+    return 1
+  }
+  if (b.type === 'vote-recorded') {
+    return -1
+  }
+  return 0
+}
+
+function sortVoteAuditEvents(events: VoteAuditEvent[]): VoteAuditEvent[] {
+  return [...events].sort(compareVoteAuditEvents)
 }
 
 function ensureContestVotes(
@@ -548,20 +698,46 @@ async function resolveContestId(contestId?: string | null): Promise<string> {
   return contest.id
 }
 
-function sanitizeSubmitInput(input: SubmitLogoInput): SanitizedSubmitInput {
+async function resolveRatingEngine(contestId: string): Promise<RatingEngine> {
+  const contest = await ensureContest(contestId)
+  return getRatingEngine(contest.rating)
+}
+
+/**
+ * Applies the contest's retention policy before a state is written. `dropped` holds matches the
+ * engine already cut at HISTORY_LIMIT. Everything trimmed is archived first, so a failure before
+ * the state is written leaves a duplicate in the archive rather than a lost match.
+ */
+async function retainContestHistory(
+  contestId: string,
+  state: EloState,
+  dropped: MatchHistoryEntry[] = [],
+): Promise<EloState> {
+  const { historyRetention } = await ensureContest(contestId)
+  const { retained, trimmed } = splitRetainedHistory(state.history, historyRetention)
+  await archiveMatches(contestId, [...trimmed, ...dropped])
+  return trimmed.length === 0 ? state : { ...state, history: retained }
+}
+
+function filterActiveMatches(history: MatchHistoryEntry[], logos: LogoEntry[]): MatchHistoryEntry[] {
+  const activeIds = new Set(logos.map((logo) => logo.id))
+  return history.filter((match) => activeIds.has(match.winnerId) && activeIds.has(match.loserId))
+}
+
+function sanitizeSubmitInput(input: SubmitLogoInput, hasUpload = false): SanitizedSubmitInput {
   const name = input.name.trim()
   const description = input.description?.trim()
-  const image = input.image.trim()
+  const image = hasUpload ? '' : (input.image ?? '').trim()
   const submittedBy = input.submittedBy.trim()
   const ownerAlias = normalizeOwnerAlias(input.ownerAlias)
 
   if (!name) {
     throw new Error('Name is required')
   }
-  if (!image) {
+  if (!hasUpload && !image) {
     throw new Error('Image is required')
   }
-  if (!DATA_URL_REGEX.test(image)) {
+  if (!hasUpload && !DATA_URL_REGEX.test(image)) {
     throw new Error('Image must be provided as a base64 data URL')
   }
   if (!submittedBy) {
@@ -610,172 +786,283 @@ export async function findLogoById(id: string): Promise<LogoEntry | null> {
   return logo ?? null
 }
 
-export async function addLogo(input: SubmitLogoInput): Promise<LogoEntry> {
-  const [resolvedContestId, sanitized] = await Promise.all([
-    resolveContestId(input.contestId),
-    Promise.resolve(sanitizeSubmitInput(input)),
-  ])
+const LOGO_LOOKUP_CACHE_SIZE = 500
+const logoLookupCache = new LruCache<string, LogoEntry | null>(LOGO_LOOKUP_CACHE_SIZE)
+let logoLookupGeneration = 0
+
+onDocumentChange((name) => {
+  if (name === 'logos') {
+    logoLookupGeneration += 1
+    logoLookupCache.clear()
+  }
+})
+
+/**
+ * findLogoById for hot paths such as image requests: recent lookups (misses included) are kept
+ * in an LRU so they skip re-reading and re-normalizing logos.json. The cache is dropped whenever
+ * the logos document is written through the storage adapter; hand edits to the file are only
+ * seen after a restart. The returned entry is shared, so callers must not mutate it.
+ */
+export async function findLogoByIdCached(id: string): Promise<LogoEntry | null> {
+  if (logoLookupCache.has(id)) {
+    return logoLookupCache.get(id) ?? null
+  }
+  // A write landing mid-read would leave this result stale; only cache it if none did.
+  const generation = logoLookupGeneration
+  const logo = await findLogoById(id)
+  if (generation === logoLookupGeneration) {
+    logoLookupCache.set(id, logo)
+  }
+  return logo
+}
 
-  const logosFile = await readLogosFile()
+/**
+ * Adds a user logo. Artwork comes from `input.image` (a base64 data URL) unless `upload` points
+ * at a file already on disk, in which case `input.image` is ignored.
+ */
+export async function addLogo(input: SubmitLogoInput, upload?: LogoImageUpload): Promise<LogoEntry> {
+  const sanitized = sanitizeSubmitInput(input, Boolean(upload))
+  const processed = await renderLogoImage(upload ?? sanitized.image)
+
+  return withStorageTransaction(['logos', 'votes'], async () => {
+    const resolvedContestId = await resolveContestId(input.contestId)
+    const logosFile = await readLogosFile()
+
+    const logoId = randomUUID()
+    const { assetPath, renditions } = await writeLogoAssets(logoId, processed)
+    const timestamp = new Date().toISOString()
+    const entry: LogoEntry = {
+      id: logoId,
+      contestId: resolvedContestId,
+      name: sanitized.name,
+      codename: generateCodename(sanitized.name),
+      description: sanitized.description,
+      image: buildLogoImageUrl(logoId, 1),
+      assetPath,
+      renditions,
+      ownerAlias: sanitized.ownerAlias,
+      source: 'user',
+      submittedBy: sanitized.submittedBy,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      removedAt: null,
+      removedBy: null,
+    }
 
-  const logoId = randomUUID()
-  const { assetPath } = await persistLogoAssetFromDataUrl(logoId, sanitized.image)
-  const timestamp = new Date().toISOString()
-  const entry: LogoEntry = {
-    id: logoId,
-    contestId: resolvedContestId,
-    name: sanitized.name,
-    codename: generateCodename(sanitized.name),
-    description: sanitized.description,
-    image: buildLogoImageUrl(logoId, timestamp),
-    assetPath,
-    ownerAlias: sanitized.ownerAlias,
-    source: 'user',
-    submittedBy: sanitized.submittedBy,
-    createdAt: timestamp,
-    updatedAt: timestamp,
-    removedAt: null,
-    removedBy: null,
-  }
-
-  const nextLogos = sortLogos([
-    ...logosFile.logos.filter((logo) => logo.id !== entry.id),
-    entry,
-  ])
+    const nextLogos = sortLogos([
+      ...logosFile.logos.filter((logo) => logo.id !== entry.id),
+      entry,
+    ])
 
-  await writeLogosFile({
-    version: LOGO_SCHEMA_VERSION,
-    logos: nextLogos,
-    updatedAt: timestamp,
-  })
+    await writeLogosFile({
+      version: LOGO_SCHEMA_VERSION,
+      logos: nextLogos,
+      updatedAt: timestamp,
+    })
 
-  const activeLogos = nextLogos.filter(
-    (logo) => logo.contestId === resolvedContestId && !logo.removedAt,
-  )
-  const votesFile = await readVotesFile()
-  const { schema: ensuredVotes, changed } = ensureContestVotes(
-    votesFile,
-    resolvedContestId,
-    activeLogos,
-  )
-  if (changed) {
-    await writeVotesFile(ensuredVotes)
-  }
+    const activeLogos = nextLogos.filter(
+      (logo) => logo.contestId === resolvedContestId && !logo.removedAt,
+    )
+    const votesFile = await readVotesFile()
+    const { schema: ensuredVotes, changed } = ensureContestVotes(
+      votesFile,
+      resolvedContestId,
+      activeLogos,
+    )
+    if (changed) {
+      await writeVotesFile(ensuredVotes)
+    }
 
-  return entry
+    return entry
+  })
 }
 
-export async function updateLogoMetadata(
+/**
+ * Uploads new artwork for a user logo as its next version. The logo keeps its id, ratings and
+ * votes; earlier versions stay on disk and in `revisions`, and the image URL moves to the new
+ * version.
+ */
+export async function replaceLogoImage(
   id: string,
-  updates: UpdateLogoInput,
+  source: string | LogoImageUpload,
+  uploadedBy: string | null,
   contestId?: string,
+  options: RevisionOptions = {},
 ): Promise<LogoEntry | null> {
-  const logosFile = await readLogosFile()
-  const resolvedContestId = contestId ? await resolveContestId(contestId) : null
+  const processed = await renderLogoImage(source)
 
-  const index = logosFile.logos.findIndex(
-    (logo) => logo.id === id && (!resolvedContestId || logo.contestId === resolvedContestId),
-  )
-  if (index === -1) {
-    return null
-  }
+  return withStorageTransaction(['logos'], async () => {
+    const logosFile = await readLogosFile()
+    const resolvedContestId = contestId ? await resolveContestId(contestId) : null
 
-  const target = logosFile.logos[index]!
-  const updatedContestId = resolvedContestId ?? target.contestId
+    const index = logosFile.logos.findIndex(
+      (logo) => logo.id === id && (!resolvedContestId || logo.contestId === resolvedContestId),
+    )
+    if (index === -1) {
+      return null
+    }
 
-  let next: LogoEntry = { ...target }
-  let mutated = false
+    const target = logosFile.logos[index]!
+    assertExpectedRevision(target.updatedAt, options)
+    if (target.source !== 'user' || !target.assetPath) {
+      throw new Error('Only uploaded logos can have their artwork replaced.')
+    }
 
-  if (typeof updates.name === 'string') {
-    const trimmed = updates.name.trim()
-    if (!trimmed) {
-      throw new Error('Logo name cannot be empty.')
+    const currentVersion = getLogoVersion(target) ?? 1
+    // Logos uploaded before revisions existed get their original artwork recorded as version 1.
+    const previousRevisions: LogoRevision[] = target.revisions ?? [
+      {
+        version: currentVersion,
+        assetPath: target.assetPath,
+        ...(target.renditions ? { renditions: target.renditions } : {}),
+        createdAt: target.createdAt,
+        createdBy: target.submittedBy ?? null,
+      },
+    ]
+    const version = Math.max(currentVersion, ...previousRevisions.map((revision) => revision.version)) + 1
+
+    const { assetPath, renditions } = await writeLogoAssets(id, processed, version)
+    const timestamp = new Date().toISOString()
+    const next: LogoEntry = {
+      ...target,
+      image: buildLogoImageUrl(id, version),
+      assetPath,
+      renditions,
+      version,
+      revisions: [
+        { version, assetPath, renditions, createdAt: timestamp, createdBy: uploadedBy },
+        ...previousRevisions,
+      ],
+      updatedAt: timestamp,
     }
-    if (trimmed !== target.name) {
-      next = {
-        ...next,
-        name: trimmed,
-        codename: generateCodename(trimmed),
-      }
-      mutated = true
+
+    const nextLogos = [...logosFile.logos]
+    nextLogos[index] = next
+    await writeLogosFile({
+      version: LOGO_SCHEMA_VERSION,
+      logos: sortLogos(nextLogos),
+      updatedAt: timestamp,
+    })
+
+    return next
+  })
+}
+
+export async function updateLogoMetadata(
+  id: string,
+  updates: UpdateLogoInput,
+  contestId?: string,
+  options: RevisionOptions = {},
+): Promise<LogoEntry | null> {
+  return withStorageTransaction(['logos', 'votes'], async () => {
+    const logosFile = await readLogosFile()
+    const resolvedContestId = contestId ? await resolveContestId(contestId) : null
+
+    const index = logosFile.logos.findIndex(
+      (logo) => logo.id === id && (!resolvedContestId || logo.contestId === resolvedContestId),
+    )
+    if (index === -1) {
+      return null
     }
-  }
 
-  if (Object.prototype.hasOwnProperty.call(updates, 'description')) {
-    const rawDescription = updates.description
-    const normalizedDescription =
-      typeof rawDescription === 'string'
-        ? rawDescription.trim()
-        : rawDescription === null
-          ? ''
-          : null
+    const target = logosFile.logos[index]!
+    assertExpectedRevision(target.updatedAt, options)
+    const updatedContestId = resolvedContestId ?? target.contestId
 
-    const descriptionValue =
-      normalizedDescription && normalizedDescription.length > 0
-        ? normalizedDescription
-        : undefined
+    let next: LogoEntry = { ...target }
+    let mutated = false
 
-    if (descriptionValue !== target.description) {
-      next = {
-        ...next,
-        description: descriptionValue,
+    if (typeof updates.name === 'string') {
+      const trimmed = updates.name.trim()
+      if (!trimmed) {
+        throw new Error('Logo name cannot be empty.')
+      }
+      if (trimmed !== target.name) {
+        next = {
+          ...next,
+          name: trimmed,
+          codename: generateCodename(trimmed),
+        }
+        mutated = true
       }
-      mutated = true
     }
-  }
 
-  if (Object.prototype.hasOwnProperty.call(updates, 'ownerAlias')) {
-    const normalizedOwner = normalizeOwnerAlias(updates.ownerAlias ?? null)
-    if (normalizedOwner !== target.ownerAlias) {
-      next = {
-        ...next,
-        ownerAlias: normalizedOwner,
+    if (Object.prototype.hasOwnProperty.call(updates, 'description')) {
+      const rawDescription = updates.description
+      const normalizedDescription =
+        typeof rawDescription === 'string'
+          ? rawDescription.trim()
+          : rawDescription === null
+            ? ''
+            : null
+
+      const descriptionValue =
+        normalizedDescription && normalizedDescription.length > 0
+          ? normalizedDescription
+          : undefined
+
+      if (descriptionValue !== target.description) {
+        next = {
+          ...next,
+          description: descriptionValue,
+        }
+        mutated = true
       }
-      mutated = true
     }
-  }
 
-  if (!mutated) {
-    return target
-  }
+    if (Object.prototype.hasOwnProperty.call(updates, 'ownerAlias')) {
+      const normalizedOwner = normalizeOwnerAlias(updates.ownerAlias ?? null)
+      if (normalizedOwner !== target.ownerAlias) {
+        next = {
+          ...next,
+          ownerAlias: normalizedOwner,
+        }
+        mutated = true
+      }
+    }
 
-  const timestamp = new Date().toISOString()
+    if (!mutated) {
+      return target
+    }
 
-  const updated: LogoEntry = {
-    ...next,
-    updatedAt: timestamp,
-  }
+    const timestamp = new Date().toISOString()
 
-  if (updated.assetPath) {
-    updated.image = buildLogoImageUrl(updated.id, updated.updatedAt)
-  }
+    const updated: LogoEntry = {
+      ...next,
+      updatedAt: timestamp,
+    }
 
-  const nextLogos = sortLogos([
-    ...logosFile.logos.slice(0, index),
-    updated,
-    ...logosFile.logos.slice(index + 1),
-  ])
+    if (updated.assetPath) {
+      updated.image = buildLogoImageUrl(updated.id, getLogoVersion(updated) ?? 1)
+    }
 
-  await writeLogosFile({
-    version: LOGO_SCHEMA_VERSION,
-    logos: nextLogos,
-    updatedAt: new Date().toISOString(),
-  })
+    const nextLogos = sortLogos([
+      ...logosFile.logos.slice(0, index),
+      updated,
+      ...logosFile.logos.slice(index + 1),
+    ])
 
-  const activeLogos = nextLogos.filter(
-    (logo) => logo.contestId === updatedContestId && !logo.removedAt,
-  )
-  const votesFile = await readVotesFile()
-  const { schema: ensuredVotes, changed } = ensureContestVotes(
-    votesFile,
-    updatedContestId,
-    activeLogos,
-  )
-  if (changed) {
-    await writeVotesFile(ensuredVotes)
-  }
+    await writeLogosFile({
+      version: LOGO_SCHEMA_VERSION,
+      logos: nextLogos,
+      updatedAt: new Date().toISOString(),
+    })
 
-  return updated
+    const activeLogos = nextLogos.filter(
+      (logo) => logo.contestId === updatedContestId && !logo.removedAt,
+    )
+    const votesFile = await readVotesFile()
+    const { schema: ensuredVotes, changed } = ensureContestVotes(
+      votesFile,
+      updatedContestId,
+      activeLogos,
+    )
+    if (changed) {
+      await writeVotesFile(ensuredVotes)
+    }
+
+    return updated
+  })
 }
 
 export async function updateLogoOwner(
@@ -783,13 +1070,15 @@ export async function updateLogoOwner(
   ownerAlias: string | null,
   contestId?: string,
 ): Promise<LogoEntry | null> {
-  return updateLogoMetadata(
-    id,
-    {
-      ownerAlias,
-    },
-    contestId,
-  )
+  return withStorageTransaction(['logos', 'votes'], async () => {
+    return updateLogoMetadata(
+      id,
+      {
+        ownerAlias,
+      },
+      contestId,
+    )
+  })
 }
 
 export async function removeLogo(
@@ -797,60 +1086,62 @@ export async function removeLogo(
   removedBy: string | null,
   contestId?: string,
 ): Promise<LogoEntry | null> {
-  const logosFile = await readLogosFile()
-  const resolvedContestId = contestId ? await resolveContestId(contestId) : null
-
-  const index = logosFile.logos.findIndex(
-    (logo) => logo.id === id && (!resolvedContestId || logo.contestId === resolvedContestId),
-  )
-  if (index === -1) {
-    return null
-  }
-
-  const timestamp = new Date().toISOString()
-  const target = logosFile.logos[index]!
-  const updatedContestId = resolvedContestId ?? target.contestId
+  return withStorageTransaction(['logos', 'votes'], async () => {
+    const logosFile = await readLogosFile()
+    const resolvedContestId = contestId ? await resolveContestId(contestId) : null
+
+    const index = logosFile.logos.findIndex(
+      (logo) => logo.id === id && (!resolvedContestId || logo.contestId === resolvedContestId),
+    )
+    if (index === -1) {
+      return null
+    }
 
-  const updated: LogoEntry = {
-    ...target,
-    removedAt: timestamp,
-    removedBy: removedBy && removedBy.trim().length > 0 ? removedBy.trim() : null,
-    updatedAt: timestamp,
-  }
+    const timestamp = new Date().toISOString()
+    const target = logosFile.logos[index]!
+    const updatedContestId = resolvedContestId ?? target.contestId
 
-  if (updated.assetPath) {
-    updated.image = buildLogoImageUrl(updated.id, updated.updatedAt)
-  }
+    const updated: LogoEntry = {
+      ...target,
+      removedAt: timestamp,
+      removedBy: removedBy && removedBy.trim().length > 0 ? removedBy.trim() : null,
+      updatedAt: timestamp,
+    }
 
-  const nextLogos = sortLogos([
-    ...logosFile.logos.slice(0, index),
-    updated,
-    ...logosFile.logos.slice(index + 1),
-  ])
+    if (updated.assetPath) {
+      updated.image = buildLogoImageUrl(updated.id, getLogoVersion(updated) ?? 1)
+    }
 
-  await writeLogosFile({
-    version: LOGO_SCHEMA_VERSION,
-    logos: nextLogos,
-    updatedAt: timestamp,
-  })
+    const nextLogos = sortLogos([
+      ...logosFile.logos.slice(0, index),
+      updated,
+      ...logosFile.logos.slice(index + 1),
+    ])
 
-  const activeLogos = nextLogos.filter(
-    (logo) => logo.contestId === updatedContestId && !logo.removedAt,
-  )
-  const votesFile = await readVotesFile()
-  const { schema: ensuredVotes, changed, state } = ensureContestVotes(
-    votesFile,
-    updatedContestId,
-    activeLogos,
-  )
+    await writeLogosFile({
+      version: LOGO_SCHEMA_VERSION,
+      logos: nextLogos,
+      updatedAt: timestamp,
+    })
 
-  if (changed) {
-    await writeVotesFile(ensuredVotes)
-  } else if (state !== votesFile.contests[updatedContestId]?.state) {
-    await writeVotesFile(ensuredVotes)
-  }
+    const activeLogos = nextLogos.filter(
+      (logo) => logo.contestId === updatedContestId && !logo.removedAt,
+    )
+    const votesFile = await readVotesFile()
+    const { schema: ensuredVotes, changed, state } = ensureContestVotes(
+      votesFile,
+      updatedContestId,
+      activeLogos,
+    )
+
+    if (changed) {
+      await writeVotesFile(ensuredVotes)
+    } else if (state !== votesFile.contests[updatedContestId]?.state) {
+      await writeVotesFile(ensuredVotes)
+    }
 
-  return updated
+    return updated
+  })
 }
 
 export async function getEloState(contestId?: string): Promise<EloState> {
@@ -871,132 +1162,268 @@ export async function getEloState(contestId?: string): Promise<EloState> {
   return state
 }
 
-export async function recordVote(
-  winnerId: string,
-  loserId: string,
-  voterHash: string | null,
-  contestId?: string,
-): Promise<EloState> {
-  const resolvedContestId = await resolveContestId(contestId)
-  const { logos } = await getContestLogosInternal(resolvedContestId)
-  const logoIndex = new Map(logos.map((logo) => [logo.id, logo]))
-  const votesFile = await readVotesFile()
-
-  const { state: ensuredState } = ensureContestVotes(votesFile, resolvedContestId, logos)
+/**
+ * Raised when a voter has already judged the same pair of logos in a contest. Routes map
+ * it to 409 so clients can move on to a fresh matchup.
+ */
+export class DuplicateVoteError extends Error {
+  constructor(message = 'You have already voted on this matchup.') {
+    super(message)
+    this.name = 'DuplicateVoteError'
+  }
+}
 
-  const previousWinner = ensuredState.entries[winnerId]
-    ? { ...ensuredState.entries[winnerId] }
-    : createEmptyEntry()
-  const previousLoser = ensuredState.entries[loserId]
-    ? { ...ensuredState.entries[loserId] }
-    : createEmptyEntry()
+/** Artwork versions the voter says they were shown, checked against what each logo has had. */
+export interface ShownLogoVersions {
+  winnerVersion?: number | null
+  loserVersion?: number | null
+}
 
-  const nextState = applyMatch(ensuredState, winnerId, loserId, voterHash)
+export interface RecordVoteOptions extends ShownLogoVersions {
+  /** Older hashes of the same voter (see deriveLegacyVoterHash), counted by the duplicate check. */
+  legacyVoterHashes?: string[]
+}
 
-  const nextSchema: VotesFileSchema = {
-    version: VOTE_SCHEMA_VERSION,
-    contests: {
-      ...votesFile.contests,
-      [resolvedContestId]: {
-        state: nextState,
-        updatedAt: new Date().toISOString(),
-      },
-    },
-    updatedAt: new Date().toISOString(),
+/**
+ * Pair keys the voter has judged in a contest under any of their hashes, from the live history
+ * and the archive. recordVote refuses these pairs, so the matchmaker skips them as well.
+ */
+export async function listVoterJudgedPairs(
+  contestId: string,
+  history: MatchHistoryEntry[],
+  voterHashes: Array<string | null>,
+): Promise<Set<string>> {
+  const hashes = new Set(voterHashes.filter((hash): hash is string => Boolean(hash)))
+  const judged = new Set<string>()
+  for (const match of history) {
+    if (match.voterHash && hashes.has(match.voterHash)) {
+      judged.add(createPairKey(match.winnerId, match.loserId))
+    }
+  }
+  for (const hash of hashes) {
+    for (const key of await listArchivedVoterPairs(contestId, hash)) {
+      judged.add(key)
+    }
   }
+  return judged
+}
 
-  await writeVotesFile(nextSchema)
+// A version the logo never had (or a stale client sending none) falls back to the current one.
+function resolveShownVersion(logo: LogoEntry | undefined, requested: number | null | undefined): number | null {
+  const current = logo ? getLogoVersion(logo) : null
+  if (current === null || typeof requested !== 'number') {
+    return current
+  }
+  const known = requested === current || (logo?.revisions ?? []).some((revision) => revision.version === requested)
+  return known ? requested : current
+}
 
-  const nextWinner = nextState.entries[winnerId] ?? createEmptyEntry()
-  const nextLoser = nextState.entries[loserId] ?? createEmptyEntry()
-  const latestMatch = nextState.history[0] ?? {
-    winnerId,
-    loserId,
-    timestamp: Date.now(),
-    voterHash,
+/** Engines build history entries from ids alone; this puts the shown versions on the newest one. */
+function withShownVersions(state: EloState, match: Pick<MatchHistoryEntry, 'winnerVersion' | 'loserVersion'>): EloState {
+  const versions = pickMatchVersions(match.winnerVersion, match.loserVersion)
+  const [latest, ...rest] = state.history
+  if (!latest || Object.keys(versions).length === 0) {
+    return state
   }
+  return { ...state, history: [{ ...latest, ...versions }, ...rest] }
+}
 
-  const winnerLogo = logoIndex.get(winnerId)
-  const loserLogo = logoIndex.get(loserId)
+export async function recordVote(
+  winnerId: string,
+  loserId: string,
+  voterHash: string | null,
+  contestId?: string,
+  options: RecordVoteOptions = {},
+): Promise<EloState> {
+  const committed = await withStorageTransaction(['votes'], async () => {
+    if (winnerId === loserId) {
+      throw new Error('A logo cannot be matched against itself.')
+    }
 
-  try {
-    await logVoteRecorded({
-      contestId: resolvedContestId,
-      voterHash: latestMatch.voterHash ?? null,
-      matchTimestamp: latestMatch.timestamp,
-      matchHistoryLength: nextState.history.length,
-      winner: {
-        id: winnerId,
-        name: winnerLogo?.name ?? '(unknown)',
-        codename: winnerLogo?.codename ?? winnerLogo?.name ?? '(unknown)',
-        ratingBefore: previousWinner.rating,
-        ratingAfter: nextWinner.rating,
-        winsBefore: previousWinner.wins,
-        winsAfter: nextWinner.wins,
-        lossesBefore: previousWinner.losses,
-        lossesAfter: nextWinner.losses,
-        matchesBefore: previousWinner.matches,
-        matchesAfter: nextWinner.matches,
-      },
-      loser: {
-        id: loserId,
-        name: loserLogo?.name ?? '(unknown)',
-        codename: loserLogo?.codename ?? loserLogo?.name ?? '(unknown)',
-        ratingBefore: previousLoser.rating,
-        ratingAfter: nextLoser.rating,
-        winsBefore: previousLoser.wins,
-        winsAfter: nextLoser.wins,
-        lossesBefore: previousLoser.losses,
-        lossesAfter: nextLoser.losses,
-        matchesBefore: previousLoser.matches,
-        matchesAfter: nextLoser.matches,
-      },
+    const resolvedContestId = await resolveContestId(contestId)
+    const { logos } = await getContestLogosInternal(resolvedContestId)
+    const logoIndex = new Map(logos.map((logo) => [logo.id, logo]))
+    if (!logoIndex.has(winnerId) || !logoIndex.has(loserId)) {
+      throw new Error('Both logos must belong to the contest.')
+    }
+
+    const votesFile = await readVotesFile()
+
+    const { state: ensuredState } = ensureContestVotes(votesFile, resolvedContestId, logos)
+
+    const voterHashes = voterHash ? [voterHash, ...(options.legacyVoterHashes ?? [])] : []
+    const judged = await listVoterJudgedPairs(resolvedContestId, ensuredState.history, voterHashes)
+    if (judged.has(createPairKey(winnerId, loserId))) {
+      throw new DuplicateVoteError()
+    }
+
+    const previousWinner = ensuredState.entries[winnerId]
+      ? { ...ensuredState.entries[winnerId] }
+      : createEmptyEntry()
+    const previousLoser = ensuredState.entries[loserId]
+      ? { ...ensuredState.entries[loserId] }
+      : createEmptyEntry()
+
+    const winnerLogo = logoIndex.get(winnerId)
+    const loserLogo = logoIndex.get(loserId)
+    const winnerVersion = resolveShownVersion(winnerLogo, options.winnerVersion)
+    const loserVersion = resolveShownVersion(loserLogo, options.loserVersion)
+
+    const engine = await resolveRatingEngine(resolvedContestId)
+    const applied = withShownVersions(engine.applyMatch(ensuredState, winnerId, loserId, voterHash), {
+      winnerVersion: winnerVersion ?? undefined,
+      loserVersion: loserVersion ?? undefined,
     })
-  } catch (error) {
-    console.error('Failed to write vote audit event', error)
-  }
+    // Engines prepend the match and cap history at HISTORY_LIMIT; anything that fell off the end is archived.
+    const dropped = ensuredState.history.slice(Math.max(0, applied.history.length - 1))
+    const nextState = await retainContestHistory(resolvedContestId, applied, dropped)
 
-  return nextState
+    const nextSchema: VotesFileSchema = {
+      version: VOTE_SCHEMA_VERSION,
+      contests: {
+        ...votesFile.contests,
+        [resolvedContestId]: {
+          state: nextState,
+          updatedAt: new Date().toISOString(),
+        },
+      },
+      updatedAt: new Date().toISOString(),
+    }
+
+    await writeVotesFile(nextSchema)
+
+    const nextWinner = nextState.entries[winnerId] ?? createEmptyEntry()
+    const nextLoser = nextState.entries[loserId] ?? createEmptyEntry()
+    const latestMatch = nextState.history[0] ?? {
+      winnerId,
+      loserId,
+      timestamp: Date.now(),
+      voterHash,
+    }
+
+    try {
+      await logVoteRecorded({
+        contestId: resolvedContestId,
+        voterHash: latestMatch.voterHash ?? null,
+        matchTimestamp: latestMatch.timestamp,
+        matchHistoryLength: nextState.history.length,
+        winner: {
+          id: winnerId,
+          name: winnerLogo?.name ?? '(unknown)',
+          codename: winnerLogo?.codename ?? winnerLogo?.name ?? '(unknown)',
+          ratingBefore: previousWinner.rating,
+          ratingAfter: nextWinner.rating,
+          winsBefore: previousWinner.wins,
+          winsAfter: nextWinner.wins,
+          lossesBefore: previousWinner.losses,
+          lossesAfter: nextWinner.losses,
+          matchesBefore: previousWinner.matches,
+          matchesAfter: nextWinner.matches,
+          ...(winnerVersion !== null ? { version: winnerVersion } : {}),
+        },
+        loser: {
+          id: loserId,
+          name: loserLogo?.name ?? '(unknown)',
+          codename: loserLogo?.codename ?? loserLogo?.name ?? '(unknown)',
+          ratingBefore: previousLoser.rating,
+          ratingAfter: nextLoser.rating,
+          winsBefore: previousLoser.wins,
+          winsAfter: nextLoser.wins,
+          lossesBefore: previousLoser.losses,
+          lossesAfter: nextLoser.losses,
+          matchesBefore: previousLoser.matches,
+          matchesAfter: nextLoser.matches,
+          ...(loserVersion !== null ? { version: loserVersion } : {}),
+        },
+      })
+    } catch (error) {
+      console.error('Failed to write vote audit event', error)
+    }
+
+    return { contestId: resolvedContestId, previousState: ensuredState, nextState, latestMatch }
+  })
+
+  // Broadcast only after the transaction commits so streams never show a vote that rolled back.
+  publishScoreboardEvent({
+    type: 'match',
+    contestId: committed.contestId,
+    match: committed.latestMatch,
+    changes: collectRatingChanges(committed.previousState, committed.nextState),
+    totalMatches: calculateTotalMatches(committed.nextState.entries),
+  })
+  noteVoteForCheckpoint(committed.contestId)
+  return committed.nextState
 }
 
-export async function resetContestVotes(contestId?: string): Promise<EloState> {
-  const resolvedContestId = await resolveContestId(contestId)
-  const { logos } = await getContestLogosInternal(resolvedContestId)
-  const blankState = pruneEntries(ensureEntries({ entries: {}, history: [] }, logos), logos)
+function collectRatingChanges(previous: EloState, next: EloState): ScoreboardRatingChange[] {
+  return Object.entries(next.entries)
+    .filter(([logoId, entry]) => {
+      const before = previous.entries[logoId]
+      return (
+        !before ||
+        before.rating !== entry.rating ||
+        before.matches !== entry.matches ||
+        before.deviation !== entry.deviation
+      )
+    })
+    .map(([logoId, entry]) => ({
+      logoId,
+      ratingBefore: previous.entries[logoId]?.rating ?? entry.rating,
+      entry,
+    }))
+}
 
-  const votesFile = await readVotesFile()
-  const previousState = votesFile.contests[resolvedContestId]?.state ?? { entries: {}, history: [] }
-  const previousMatchCount = calculateTotalMatches(previousState.entries)
+export async function resetContestVotes(
+  contestId?: string,
+  options: { initiator?: string | null } = {},
+): Promise<EloState> {
+  const reset = await withStorageTransaction(['votes'], async () => {
+    const resolvedContestId = await resolveContestId(contestId)
+    const { logos } = await getContestLogosInternal(resolvedContestId)
+    const blankState = pruneEntries(ensureEntries({ entries: {}, history: [] }, logos), logos)
 
-  const nextSchema: VotesFileSchema = {
-    version: VOTE_SCHEMA_VERSION,
-    contests: {
-      ...votesFile.contests,
-      [resolvedContestId]: {
-        state: blankState,
-        updatedAt: new Date().toISOString(),
+    const votesFile = await readVotesFile()
+    const previousState = votesFile.contests[resolvedContestId]?.state ?? { entries: {}, history: [] }
+    const previousMatchCount = calculateTotalMatches(previousState.entries)
+
+    const nextSchema: VotesFileSchema = {
+      version: VOTE_SCHEMA_VERSION,
+      contests: {
+        ...votesFile.contests,
+        [resolvedContestId]: {
+          state: blankState,
+          updatedAt: new Date().toISOString(),
+        },
       },
-    },
-    updatedAt: new Date().toISOString(),
-  }
+      updatedAt: new Date().toISOString(),
+    }
 
-  await writeVotesFile(nextSchema, { forceBackup: true })
+    await writeVotesFile(nextSchema, { forceBackup: true })
+    await clearArchivedMatches(resolvedContestId)
+
+    try {
+      await logVotesReset({
+        contestId: resolvedContestId,
+        initiator: options.initiator ?? null,
+        reason: 'manual-reset',
+        previousMatchCount,
+      })
+    } catch (error) {
+      console.error('Failed to write vote reset audit event', error)
+    }
 
-  try {
-    await logVotesReset({
-      contestId: resolvedContestId,
-      initiator: null,
-      reason: 'manual-reset',
-      previousMatchCount,
-    })
-  } catch (error) {
-    console.error('Failed to write vote reset audit event', error)
-  }
+    return { contestId: resolvedContestId, state: blankState }
+  })
 
-  return blankState
+  publishScoreboardEvent({ type: 'resync', contestId: reset.contestId, reason: 'reset' })
+  return reset.state
 }
 
-function buildLeaderboard(logos: LogoEntry[], state: EloState) {
+function buildLeaderboard(
+  logos: LogoEntry[],
+  state: EloState,
+  intervals: Record<string, RatingInterval> = {},
+) {
   const logoIndex = new Map(logos.map((logo) => [logo.id, logo]))
 
   return Object.entries(state.entries)
@@ -1011,6 +1438,8 @@ function buildLeaderboard(logos: LogoEntry[], state: EloState) {
         logoCodename: logo.codename,
         logoImage: logo.image,
         rating: entry.rating,
+        deviation: entry.deviation ?? null,
+        interval: intervals[logoId] ?? null,
         wins: entry.wins,
         losses: entry.losses,
         matches: entry.matches,
@@ -1156,18 +1585,10 @@ export async function getContestMetrics(
 ): Promise<{
   logoCount: number
   matchCount: number
-  leaderboard: Array<{
-    logoId: string
-    logoName: string
-    logoCodename: string
-    logoImage: string
-    rating: number
-    wins: number
-    losses: number
-    matches: number
-  }>
+  leaderboard: ReturnType<typeof buildLeaderboard>
   lastMatchAt: string | null
   championInsights: ChampionInsights | null
+  championSignificance: ChampionSignificance | null
 }> {
   const resolvedContestId = await resolveContestId(contestId)
   const { logos } = await getContestLogosInternal(resolvedContestId)
@@ -1182,8 +1603,21 @@ export async function getContestMetrics(
     await writeVotesFile(ensuredVotes)
   }
 
-  const leaderboard = buildLeaderboard(logos, state)
-  const championInsights = computeChampionInsights(logos, state, leaderboard)
+  const pointLeaderboard = buildLeaderboard(logos, state)
+  const engine = await resolveRatingEngine(resolvedContestId)
+  const confidence = getRatingConfidence(
+    resolvedContestId,
+    engine,
+    state,
+    logos,
+    pointLeaderboard.map((entry) => entry.logoId),
+  )
+  const leaderboard = buildLeaderboard(logos, state, confidence.intervals)
+  const fullHistory = filterActiveMatches(
+    combineMatchHistory(state.history, await readArchivedMatches(resolvedContestId)),
+    logos,
+  )
+  const championInsights = computeChampionInsights(logos, { ...state, history: fullHistory }, leaderboard)
   const lastMatchAt = getLastMatchTimestamp(state)
 
   return {
@@ -1192,7 +1626,111 @@ export async function getContestMetrics(
     leaderboard,
     lastMatchAt,
     championInsights,
+    championSignificance: confidence.significance,
+  }
+}
+
+/** Minimum gap between bootstrap runs for one contest; votes in between go into the next run. */
+const CONFIDENCE_REFRESH_INTERVAL_MS = 30_000
+
+const EMPTY_CONFIDENCE: RatingConfidence = { intervals: {}, significance: null }
+
+interface ConfidenceInput {
+  signature: string
+  engine: RatingEngine
+  state: EloState
+  logos: LogoEntry[]
+  ranking: string[]
+}
+
+interface ConfidenceJob {
+  /** Signature of the inputs `confidence` was computed from. */
+  signature: string | null
+  confidence: RatingConfidence | null
+  /** Newest inputs seen; picked up by the next run. */
+  latest: ConfidenceInput | null
+  running: boolean
+  timer: ReturnType<typeof setTimeout> | null
+  lastStartedAt: number
+}
+
+const confidenceJobs = new Map<string, ConfidenceJob>()
+
+function scheduleConfidenceRefresh(job: ConfidenceJob) {
+  if (job.running || job.timer) {
+    return
   }
+  const delay = Math.max(0, job.lastStartedAt + CONFIDENCE_REFRESH_INTERVAL_MS - Date.now())
+  job.timer = setTimeout(() => {
+    job.timer = null
+    void runConfidenceRefresh(job)
+  }, delay)
+  job.timer.unref?.()
+}
+
+async function runConfidenceRefresh(job: ConfidenceJob) {
+  const input = job.latest
+  if (!input || input.signature === job.signature) {
+    return
+  }
+  job.running = true
+  job.lastStartedAt = Date.now()
+  try {
+    job.confidence = await bootstrapRatingConfidenceAsync(input.engine, input.state, input.logos, input.ranking)
+  } catch (error) {
+    console.error('Failed to bootstrap rating confidence', error)
+  } finally {
+    // Recorded even on failure, so a bad input is not retried until the history changes.
+    job.signature = input.signature
+    job.running = false
+  }
+  if (job.latest && job.latest.signature !== job.signature) {
+    scheduleConfidenceRefresh(job)
+  }
+}
+
+/**
+ * Bootstrapping re-rates the history a few hundred times, which takes seconds on a long
+ * history, so it never runs on the request path. Requests get the contest's last result while
+ * a background run (at most one per CONFIDENCE_REFRESH_INTERVAL_MS) catches up with new votes.
+ * Until the first run finishes there are no intervals, and a significance computed for a
+ * different leader and runner-up is withheld rather than shown against the new ranking.
+ */
+function getRatingConfidence(
+  contestId: string,
+  engine: RatingEngine,
+  state: EloState,
+  logos: LogoEntry[],
+  ranking: string[],
+): RatingConfidence {
+  const history = state.history
+  if (history.length === 0 || logos.length === 0) {
+    return EMPTY_CONFIDENCE
+  }
+  const signature = [
+    engine.label,
+    history.length,
+    history[0]?.timestamp ?? '',
+    history[history.length - 1]?.timestamp ?? '',
+    ranking.join(','),
+  ].join('|')
+
+  let job = confidenceJobs.get(contestId)
+  if (!job) {
+    job = { signature: null, confidence: null, latest: null, running: false, timer: null, lastStartedAt: 0 }
+    confidenceJobs.set(contestId, job)
+  }
+  if (job.signature !== signature) {
+    job.latest = { signature, engine, state, logos, ranking }
+    scheduleConfidenceRefresh(job)
+  }
+
+  const confidence = job.confidence ?? EMPTY_CONFIDENCE
+  const significance = confidence.significance
+  if (significance && (significance.leaderId !== ranking[0] || significance.runnerUpId !== ranking[1])) {
+    return { ...confidence, significance: null }
+  }
+  return confidence
 }
 
 export interface EloRecalculationDifference {
@@ -1220,68 +1758,287 @@ export interface EloRecalculationResult {
   currentState: EloState
   proposedLeaderboard: ReturnType<typeof buildLeaderboard>
   lastMatchAt: string | null
+  replay: {
+    totalEvents: number
+    /** Event offset of the checkpoint the replay resumed from; null for a full replay. */
+    resumedFromEvent: number | null
+  }
 }
 
-export async function recalculateContestElo(
-  contestId: string,
-  options: { dryRun?: boolean } = {},
-): Promise<EloRecalculationResult> {
-  const dryRun = options.dryRun ?? false
-  const resolvedContestId = await resolveContestId(contestId)
+interface VoteVoidRule {
+  eventIds: Set<string>
+  voters: Map<string, number>
+  reasons: Map<string, string>
+}
 
-  const [{ logos: activeLogos }, { logos: allLogos }] = await Promise.all([
-    getContestLogosInternal(resolvedContestId),
-    getContestLogosInternal(resolvedContestId, { includeRemoved: true }),
-  ])
+interface PendingVoteVoid {
+  eventIds: string[]
+  voterHash: string | null
+  reason: string
+  occurredAt: string
+}
 
-  const votesFile = await readVotesFile()
-  const ensured = ensureContestVotes(votesFile, resolvedContestId, activeLogos)
-  if (ensured.changed) {
-    await writeVotesFile(ensured.schema)
+function collectVoteVoids(events: VoteAuditEvent[], pending: PendingVoteVoid | null = null): VoteVoidRule {
+  const rule: VoteVoidRule = { eventIds: new Set(), voters: new Map(), reasons: new Map() }
+  const voids = events.filter((event) => event.type === 'votes-voided')
+  const entries = pending ? [...voids, { ...pending, type: 'votes-voided' as const }] : voids
+
+  for (const entry of entries) {
+    for (const eventId of entry.eventIds) {
+      rule.eventIds.add(eventId)
+      rule.reasons.set(eventId, entry.reason)
+    }
+    if (entry.voterHash) {
+      const voidedAt = Date.parse(entry.occurredAt)
+      const previous = rule.voters.get(entry.voterHash) ?? Number.NEGATIVE_INFINITY
+      rule.voters.set(entry.voterHash, Math.max(previous, Number.isFinite(voidedAt) ? voidedAt : 0))
+      rule.reasons.set(`voter:${entry.voterHash}`, entry.reason)
+    }
   }
 
-  const currentState = ensured.state
-  const baseVotesSchema = ensured.changed ? ensured.schema : votesFile
+  return rule
+}
 
-  const events = await readVoteAuditEvents()
-  const contestEvents = sortVoteAuditEvents(
-    events.filter((event) => event.contestId === resolvedContestId),
-  )
+function findVoidReason(rule: VoteVoidRule, event: VoteRecordedEvent): string | null {
+  if (rule.eventIds.has(event.id)) {
+    return rule.reasons.get(event.id) ?? ''
+  }
+  if (event.voterHash) {
+    const voidedAt = rule.voters.get(event.voterHash)
+    const occurredAt = Date.parse(event.occurredAt)
+    if (voidedAt !== undefined && Number.isFinite(occurredAt) && occurredAt <= voidedAt) {
+      return rule.reasons.get(`voter:${event.voterHash}`) ?? ''
+    }
+  }
+  return null
+}
 
-  let replayState = ensureEntries({ entries: {}, history: [] }, allLogos)
+function countedMatch(event: VoteAuditEvent, voids: VoteVoidRule): MatchHistoryEntry | null {
+  if (event.type !== 'vote-recorded' || findVoidReason(voids, event) !== null) {
+    return null
+  }
+  const winnerId = event.winner?.id
+  const loserId = event.loser?.id
+  if (!winnerId || !loserId) {
+    return null
+  }
+  return {
+    winnerId,
+    loserId,
+    timestamp: Number.isFinite(event.matchTimestamp) ? event.matchTimestamp : Date.now(),
+    voterHash: event.voterHash ?? null,
+    ...pickMatchVersions(event.winner.version, event.loser.version),
+  }
+}
 
+/** Every counted match since the contest's last reset, newest first and without the HISTORY_LIMIT cap. */
+function collectReplayHistory(contestEvents: VoteAuditEvent[], voids: VoteVoidRule): MatchHistoryEntry[] {
+  let oldestFirst: MatchHistoryEntry[] = []
   for (const event of contestEvents) {
     if (event.type === 'votes-reset') {
-      replayState = ensureEntries({ entries: {}, history: [] }, allLogos)
+      oldestFirst = []
       continue
     }
+    const match = countedMatch(event, voids)
+    if (match) {
+      oldestFirst.push(match)
+    }
+  }
+  return oldestFirst.reverse()
+}
 
-    const winnerId = event.winner?.id
-    const loserId = event.loser?.id
+interface ReplayStart {
+  entries: EloState['entries']
+  /** Counted matches already folded into `entries`, oldest first. */
+  history: MatchHistoryEntry[]
+}
 
-    if (!winnerId || !loserId) {
+/**
+ * Folds a contest's sorted events into a rating state. Without a start the full history is
+ * rebuilt in one go; with one, the events are applied on top of its entries. Returns the
+ * engine's raw state, before removed logos are pruned, and every counted match since the last
+ * reset, newest first.
+ */
+function foldContestEvents(
+  contestEvents: VoteAuditEvent[],
+  voids: VoteVoidRule,
+  engine: RatingEngine,
+  allLogos: LogoEntry[],
+  start: ReplayStart | null = null,
+): { rawState: EloState; history: MatchHistoryEntry[] } {
+  if (!start) {
+    const history = collectReplayHistory(contestEvents, voids)
+    return { rawState: engine.rebuild(history, allLogos), history }
+  }
+
+  const oldestFirst = [...start.history]
+  // Engines that read the history (Bradley–Terry) get the folded matches, newest first like EloState.history.
+  let state: EloState = { entries: start.entries, history: oldestFirst.slice(-HISTORY_LIMIT).reverse() }
+  for (const event of contestEvents) {
+    if (event.type === 'votes-reset') {
+      state = engine.rebuild([], allLogos)
+      oldestFirst.length = 0
       continue
     }
+    const match = countedMatch(event, voids)
+    if (match) {
+      state = withShownVersions(
+        engine.applyMatch(state, match.winnerId, match.loserId, match.voterHash, {
+          timestamp: match.timestamp,
+        }),
+        match,
+      )
+      oldestFirst.push(match)
+    }
+  }
+  return { rawState: state, history: oldestFirst.reverse() }
+}
 
-    replayState = applyMatch(replayState, winnerId, loserId, event.voterHash ?? null, {
-      timestamp: Number.isFinite(event.matchTimestamp) ? event.matchTimestamp : undefined,
-    })
+interface ContestReplay {
+  rawState: EloState
+  /** Every counted match since the contest's last reset, newest first and uncapped. */
+  history: MatchHistoryEntry[]
+  totalEvents: number
+  resumedFrom: RatingCheckpoint | null
+  /** Where the replay stopped, and what a checkpoint taken there must carry forward. */
+  position: VoteEventLogPosition
+  lastEvent: VoteAuditEvent | null
+  voids: VotesVoidedEvent[]
+}
+
+function isVotesVoided(event: VoteAuditEvent): event is VotesVoidedEvent {
+  return event.type === 'votes-voided'
+}
+
+async function replayFromStart(
+  contestId: string,
+  engine: RatingEngine,
+  allLogos: LogoEntry[],
+  pendingVoid: PendingVoteVoid | null,
+): Promise<ContestReplay> {
+  const { events: unsorted, position } = await readVoteAuditLog(contestId)
+  const contestEvents = sortVoteAuditEvents(unsorted)
+  const folded = foldContestEvents(contestEvents, collectVoteVoids(contestEvents, pendingVoid), engine, allLogos)
+  return {
+    ...folded,
+    totalEvents: contestEvents.length,
+    resumedFrom: null,
+    position,
+    lastEvent: contestEvents.at(-1) ?? null,
+    voids: contestEvents.filter(isVotesVoided),
+  }
+}
+
+/**
+ * Reads only the log lines after the checkpoint and folds the contest's events among them on
+ * top of it. Returns null when the checkpoint cannot be resumed exactly: the log no longer
+ * continues from it, a newer event sorts before it (e.g. one merged from a bundle), a void
+ * landed after it, or its history file was rewritten.
+ */
+async function resumeFromCheckpoint(
+  checkpoint: RatingCheckpoint,
+  engine: RatingEngine,
+  allLogos: LogoEntry[],
+): Promise<ContestReplay | null> {
+  let tail: Awaited<ReturnType<typeof readVoteAuditLog>>
+  try {
+    tail = await readVoteAuditLog(checkpoint.contestId, checkpoint.logPosition)
+  } catch (error) {
+    if (error instanceof VoteEventLogPositionError) {
+      return null
+    }
+    throw error
+  }
+
+  const contestEvents = sortVoteAuditEvents(tail.events)
+  const { lastEvent } = checkpoint
+  if (
+    contestEvents.some(isVotesVoided) ||
+    (lastEvent && contestEvents[0] && compareVoteAuditEvents(contestEvents[0], lastEvent) < 0)
+  ) {
+    return null
+  }
+  const history = await readCheckpointHistory(checkpoint)
+  if (!history) {
+    return null
+  }
+
+  const folded = foldContestEvents(contestEvents, collectVoteVoids(checkpoint.voids), engine, allLogos, {
+    entries: checkpoint.entries,
+    history,
+  })
+  return {
+    ...folded,
+    totalEvents: checkpoint.eventOffset + contestEvents.length,
+    resumedFrom: checkpoint,
+    position: tail.position,
+    lastEvent: contestEvents.at(-1) ?? lastEvent,
+    voids: checkpoint.voids,
   }
+}
 
-  replayState = pruneEntries(replayState, activeLogos)
-  replayState = ensureEntries(replayState, activeLogos)
+/**
+ * Replays a contest from its newest checkpoint when one applies and from the start of the log
+ * otherwise, then records a checkpoint for the result unless `record` is false. A pending void
+ * (a dry-run preview) changes history retroactively, so it always replays in full and records
+ * nothing.
+ */
+async function replayContest(
+  contestId: string,
+  allLogos: LogoEntry[],
+  options: { pendingVoid?: PendingVoteVoid | null; resume?: boolean; record?: boolean } = {},
+): Promise<ContestReplay> {
+  const pendingVoid = options.pendingVoid ?? null
+  const contest = await ensureContest(contestId)
+  const engine = getRatingEngine(contest.rating)
+  const checkpointKeys = resolveCheckpointKeys(contest.rating, allLogos)
+
+  const checkpoint =
+    pendingVoid || options.resume === false ? null : await findLatestCheckpoint(contestId, checkpointKeys)
+  const replay =
+    (checkpoint && (await resumeFromCheckpoint(checkpoint, engine, allLogos))) ??
+    (await replayFromStart(contestId, engine, allLogos, pendingVoid))
+
+  const unchanged = replay.resumedFrom?.logPosition.lines === replay.position.lines
+  if (options.record !== false && !pendingVoid && !unchanged) {
+    try {
+      await recordRatingCheckpoint({
+        contestId,
+        ...checkpointKeys,
+        eventOffset: replay.totalEvents,
+        logPosition: replay.position,
+        lastEvent: replay.lastEvent,
+        voids: replay.voids,
+        entries: replay.rawState.entries,
+        history: [...replay.history].reverse(),
+      })
+    } catch (error) {
+      console.warn('Failed to record rating checkpoint', error)
+    }
+  }
+  return replay
+}
 
-  const logoLookup = new Map(activeLogos.map((logo) => [logo.id, logo]))
+function finalizeReplayState(rawState: EloState, activeLogos: LogoEntry[]): EloState {
+  return ensureEntries(pruneEntries(rawState, activeLogos), activeLogos)
+}
+
+function diffEloStates(
+  currentState: EloState,
+  nextState: EloState,
+  logos: LogoEntry[],
+): EloRecalculationDifference[] {
+  const logoLookup = new Map(logos.map((logo) => [logo.id, logo]))
   const comparedIds = new Set([
     ...Object.keys(currentState.entries),
-    ...Object.keys(replayState.entries),
+    ...Object.keys(nextState.entries),
   ])
 
   const differences: EloRecalculationDifference[] = []
 
   for (const logoId of comparedIds) {
     const before = currentState.entries[logoId] ?? createEmptyEntry()
-    const after = replayState.entries[logoId] ?? createEmptyEntry()
+    const after = nextState.entries[logoId] ?? createEmptyEntry()
 
     const ratingChanged = before.rating !== after.rating
     const winsChanged = before.wins !== after.wins
@@ -1319,8 +2076,46 @@ export async function recalculateContestElo(
     return a.logoName.localeCompare(b.logoName)
   })
 
+  return differences
+}
+
+async function runContestReplay(
+  contestId: string,
+  options: { dryRun: boolean; pendingVoid?: PendingVoteVoid | null },
+): Promise<EloRecalculationResult> {
+  const { dryRun } = options
+  const resolvedContestId = await resolveContestId(contestId)
+
+  const [{ logos: activeLogos }, { logos: allLogos }] = await Promise.all([
+    getContestLogosInternal(resolvedContestId),
+    getContestLogosInternal(resolvedContestId, { includeRemoved: true }),
+  ])
+
+  const votesFile = await readVotesFile()
+  const ensured = ensureContestVotes(votesFile, resolvedContestId, activeLogos)
+  if (ensured.changed) {
+    await writeVotesFile(ensured.schema)
+  }
+
+  const currentState = ensured.state
+  const baseVotesSchema = ensured.changed ? ensured.schema : votesFile
+
+  const replay = await replayContest(resolvedContestId, allLogos, { pendingVoid: options.pendingVoid })
+  const contest = await ensureContest(resolvedContestId)
+  // The audit log holds the complete record, so the replay re-derives both the live history and its archive.
+  const { retained, trimmed } = splitRetainedHistory(replay.history, contest.historyRetention)
+  const replayState = {
+    ...finalizeReplayState(replay.rawState, activeLogos),
+    history: filterActiveMatches(retained, activeLogos),
+  }
+
+  const differences = diffEloStates(currentState, replayState, activeLogos)
   const changesDetected = differences.length > 0
 
+  if (!dryRun) {
+    await replaceArchivedMatches(resolvedContestId, trimmed)
+  }
+
   if (!dryRun && changesDetected) {
     const nextSchema: VotesFileSchema = {
       version: VOTE_SCHEMA_VERSION,
@@ -1345,5 +2140,411 @@ export async function recalculateContestElo(
     currentState,
     proposedLeaderboard: buildLeaderboard(activeLogos, replayState),
     lastMatchAt: getLastMatchTimestamp(replayState),
+    replay: {
+      totalEvents: replay.totalEvents,
+      resumedFromEvent: replay.resumedFrom?.eventOffset ?? null,
+    },
+  }
+}
+
+export async function recalculateContestElo(
+  contestId: string,
+  options: { dryRun?: boolean } = {},
+): Promise<EloRecalculationResult> {
+  const result = await withStorageTransaction(['votes'], async () => {
+    return runContestReplay(contestId, { dryRun: options.dryRun ?? false })
+  })
+  if (!result.dryRun && result.changesDetected) {
+    publishScoreboardEvent({ type: 'resync', contestId: await resolveContestId(contestId), reason: 'recalculated' })
+  }
+  return result
+}
+
+const votesSinceCheckpoint = new Map<string, number>()
+const checkpointRefreshes = new Map<string, Promise<void>>()
+
+/**
+ * Counts a recorded vote and, every RATING_CHECKPOINT_INTERVAL votes, folds the contest's new
+ * events into a fresh checkpoint in the background, so a recalculation only replays the votes
+ * since then. Checkpoints no longer depend on someone running a recalculation first.
+ */
+function noteVoteForCheckpoint(contestId: string): void {
+  const count = (votesSinceCheckpoint.get(contestId) ?? 0) + 1
+  if (count < resolveCheckpointInterval() || checkpointRefreshes.has(contestId)) {
+    votesSinceCheckpoint.set(contestId, count)
+    return
+  }
+  votesSinceCheckpoint.set(contestId, 0)
+  const refresh = refreshRatingCheckpoint(contestId)
+    .catch((error) => console.warn('Failed to refresh rating checkpoint', error))
+    .finally(() => checkpointRefreshes.delete(contestId))
+  checkpointRefreshes.set(contestId, refresh)
+}
+
+/**
+ * Replays the contest from its newest checkpoint and records a checkpoint at the end of the
+ * log. Read-only apart from the checkpoint files, so it does not take the votes lock.
+ */
+export async function refreshRatingCheckpoint(contestId: string): Promise<void> {
+  const resolvedContestId = await resolveContestId(contestId)
+  const { logos: allLogos } = await getContestLogosInternal(resolvedContestId, { includeRemoved: true })
+  await replayContest(resolvedContestId, allLogos)
+}
+
+export interface ReplayVerification {
+  contestId: string
+  status: 'running' | 'completed' | 'failed'
+  startedAt: string
+  finishedAt: string | null
+  totalEvents: number
+  /** Checkpoint the incremental replay resumed from; null when none was usable. */
+  checkpointOffset: number | null
+  /** Entries where the checkpoint-based replay disagrees with a full replay. */
+  drift: EloRecalculationDifference[]
+  error: string | null
+}
+
+const replayVerifications = new Map<string, ReplayVerification>()
+
+/**
+ * Replays a contest both from its newest usable checkpoint and from scratch and compares the
+ * results. Drifting checkpoints are discarded so the next recalculation replays in full.
+ * Read-only apart from that, so it does not take the votes lock.
+ */
+export async function verifyContestReplay(contestId: string): Promise<ReplayVerification> {
+  const startedAt = new Date().toISOString()
+  const resolvedContestId = await resolveContestId(contestId)
+  const [{ logos: activeLogos }, { logos: allLogos }] = await Promise.all([
+    getContestLogosInternal(resolvedContestId),
+    getContestLogosInternal(resolvedContestId, { includeRemoved: true }),
+  ])
+
+  const full = await replayContest(resolvedContestId, allLogos, { resume: false, record: false })
+  const resumed = await replayContest(resolvedContestId, allLogos, { record: false })
+  const checkpoint = resumed.resumedFrom
+
+  const drift = checkpoint
+    ? diffEloStates(
+        finalizeReplayState(full.rawState, activeLogos),
+        finalizeReplayState(resumed.rawState, activeLogos),
+        activeLogos,
+      )
+    : []
+
+  if (drift.length > 0) {
+    await clearRatingCheckpoints(resolvedContestId)
+  }
+
+  return {
+    contestId: resolvedContestId,
+    status: 'completed',
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    totalEvents: full.totalEvents,
+    checkpointOffset: checkpoint?.eventOffset ?? null,
+    drift,
+    error: null,
+  }
+}
+
+/**
+ * Starts `verifyContestReplay` without waiting for it. Returns the running job, or the one
+ * already in progress for the contest.
+ */
+export function startContestReplayVerification(contestId: string): ReplayVerification {
+  const existing = replayVerifications.get(contestId)
+  if (existing?.status === 'running') {
+    return existing
+  }
+
+  const job: ReplayVerification = {
+    contestId,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    totalEvents: 0,
+    checkpointOffset: null,
+    drift: [],
+    error: null,
+  }
+  replayVerifications.set(contestId, job)
+
+  void verifyContestReplay(contestId)
+    .then((result) => {
+      replayVerifications.set(contestId, { ...result, startedAt: job.startedAt })
+    })
+    .catch((error: unknown) => {
+      console.error('Replay verification failed', error)
+      replayVerifications.set(contestId, {
+        ...job,
+        status: 'failed',
+        finishedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Replay verification failed.',
+      })
+    })
+
+  return job
+}
+
+export function getContestReplayVerification(contestId: string): ReplayVerification | null {
+  return replayVerifications.get(contestId) ?? null
+}
+
+export interface ContestVoteRecord {
+  eventId: string
+  occurredAt: string
+  voterHash: string | null
+  winnerId: string
+  winnerName: string
+  loserId: string
+  loserName: string
+  voided: boolean
+  voidReason: string | null
+}
+
+/**
+ * Lists recorded votes for moderation, newest first. Votes cleared by a later reset are
+ * omitted because they no longer influence the standings.
+ */
+export async function listContestVotes(
+  contestId: string,
+  options: { voterHash?: string | null; limit?: number } = {},
+): Promise<ContestVoteRecord[]> {
+  const resolvedContestId = await resolveContestId(contestId)
+  const events = sortVoteAuditEvents(
+    await readVoteAuditEvents(resolvedContestId),
+  )
+  const voids = collectVoteVoids(events)
+
+  let lastResetIndex = -1
+  events.forEach((event, index) => {
+    if (event.type === 'votes-reset') {
+      lastResetIndex = index
+    }
+  })
+
+  const records: ContestVoteRecord[] = []
+  for (const event of events.slice(lastResetIndex + 1)) {
+    if (event.type !== 'vote-recorded') {
+      continue
+    }
+    if (options.voterHash && event.voterHash !== options.voterHash) {
+      continue
+    }
+    const voidReason = findVoidReason(voids, event)
+    records.push({
+      eventId: event.id,
+      occurredAt: event.occurredAt,
+      voterHash: event.voterHash ?? null,
+      winnerId: event.winner.id,
+      winnerName: event.winner.name,
+      loserId: event.loser.id,
+      loserName: event.loser.name,
+      voided: voidReason !== null,
+      voidReason: voidReason || null,
+    })
+  }
+
+  records.reverse()
+  return typeof options.limit === 'number' ? records.slice(0, Math.max(0, options.limit)) : records
+}
+
+export interface VoidContestVotesInput {
+  eventIds?: string[]
+  voterHash?: string | null
+  reason: string
+  initiator?: string | null
+  dryRun?: boolean
+}
+
+export interface VoidContestVotesResult extends EloRecalculationResult {
+  voidedCount: number
+  voidedEventIds: string[]
+}
+
+/**
+ * Voids individual votes and/or every vote from one voter, then replays the audit log so
+ * standings no longer count them. Dry runs return the diff without logging the void.
+ */
+export async function voidContestVotes(
+  contestId: string,
+  input: VoidContestVotesInput,
+): Promise<VoidContestVotesResult> {
+  const result = await withStorageTransaction(['votes'], async (): Promise<VoidContestVotesResult> => {
+    const reason = input.reason.trim()
+    if (!reason) {
+      throw new Error('A reason is required to void votes.')
+    }
+
+    const eventIds = Array.from(
+      new Set((input.eventIds ?? []).map((id) => id.trim()).filter((id) => id.length > 0)),
+    )
+    const voterHash = input.voterHash?.trim() || null
+    if (eventIds.length === 0 && !voterHash) {
+      throw new Error('Select at least one vote or a voter to void.')
+    }
+
+    const resolvedContestId = await resolveContestId(contestId)
+    const votes = await listContestVotes(resolvedContestId)
+    const knownIds = new Set(votes.map((vote) => vote.eventId))
+    const unknownId = eventIds.find((id) => !knownIds.has(id))
+    if (unknownId) {
+      throw new Error(`Vote ${unknownId} was not found in this contest.`)
+    }
+
+    const occurredAt = new Date().toISOString()
+    const voidedEventIds = votes
+      .filter(
+        (vote) =>
+          !vote.voided &&
+          (eventIds.includes(vote.eventId) || (voterHash !== null && vote.voterHash === voterHash)),
+      )
+      .map((vote) => vote.eventId)
+
+    const dryRun = input.dryRun ?? false
+    const pendingVoid: PendingVoteVoid = { eventIds, voterHash, reason, occurredAt }
+
+    if (dryRun) {
+      const preview = await runContestReplay(resolvedContestId, { dryRun: true, pendingVoid })
+      return { ...preview, voidedCount: voidedEventIds.length, voidedEventIds }
+    }
+
+    if (voidedEventIds.length === 0) {
+      throw new Error('No matching votes remain to void.')
+    }
+
+    await logVotesVoided({
+      contestId: resolvedContestId,
+      initiator: input.initiator ?? null,
+      reason,
+      eventIds,
+      voterHash,
+      voidedCount: voidedEventIds.length,
+    })
+
+    const replay = await runContestReplay(resolvedContestId, { dryRun: false })
+    return { ...replay, voidedCount: voidedEventIds.length, voidedEventIds }
+  })
+  if (!result.dryRun && result.changesDetected) {
+    publishScoreboardEvent({ type: 'resync', contestId: await resolveContestId(contestId), reason: 'voided' })
   }
+  return result
+}
+
+/**
+ * Re-rates the stored match history with the contest's current engine. Used when an admin
+ * switches algorithms or K-factor so existing standings follow the new settings.
+ */
+export async function rebuildContestRatings(contestId: string): Promise<EloState> {
+  const rebuilt = await withStorageTransaction(['votes'], async () => {
+    const resolvedContestId = await resolveContestId(contestId)
+    const [{ logos: activeLogos }, engine] = await Promise.all([
+      getContestLogosInternal(resolvedContestId),
+      resolveRatingEngine(resolvedContestId),
+    ])
+
+    const votesFile = await readVotesFile()
+    const { schema, state } = ensureContestVotes(votesFile, resolvedContestId, activeLogos)
+    // Re-rate the archived matches too, then split the result by the current retention policy.
+    const fullHistory = combineMatchHistory(state.history, await readArchivedMatches(resolvedContestId))
+    const { historyRetention } = await ensureContest(resolvedContestId)
+    const { retained, trimmed } = splitRetainedHistory(fullHistory, historyRetention)
+    const rebuilt = {
+      ...ensureEntries(engine.rebuild(filterActiveMatches(fullHistory, activeLogos), activeLogos), activeLogos),
+      history: filterActiveMatches(retained, activeLogos),
+    }
+
+    // Archive the trimmed matches before the write and drop the now-live ones only after it.
+    await archiveMatches(resolvedContestId, trimmed)
+
+    await writeVotesFile(
+      {
+        version: VOTE_SCHEMA_VERSION,
+        contests: {
+          ...schema.contests,
+          [resolvedContestId]: {
+            state: rebuilt,
+            updatedAt: new Date().toISOString(),
+          },
+        },
+        updatedAt: new Date().toISOString(),
+      },
+      { forceBackup: true },
+    )
+    await replaceArchivedMatches(resolvedContestId, trimmed)
+
+    return { contestId: resolvedContestId, state: rebuilt }
+  })
+
+  publishScoreboardEvent({ type: 'resync', contestId: rebuilt.contestId, reason: 'rebuilt' })
+  return rebuilt.state
+}
+
+export interface HistoryRetentionResult {
+  retained: number
+  archived: number
+}
+
+/**
+ * Moves matches outside the contest's retention policy into its archive now, rather than on
+ * the next vote. Ratings are untouched: the archive only changes where matches are stored.
+ */
+export async function applyHistoryRetention(contestId: string): Promise<HistoryRetentionResult> {
+  return withStorageTransaction(['votes'], async () => {
+    const resolvedContestId = await resolveContestId(contestId)
+    const { logos } = await getContestLogosInternal(resolvedContestId)
+    const votesFile = await readVotesFile()
+    const { schema, state } = ensureContestVotes(votesFile, resolvedContestId, logos)
+    const { historyRetention } = await ensureContest(resolvedContestId)
+    const { retained, trimmed } = splitRetainedHistory(state.history, historyRetention)
+
+    if (trimmed.length > 0) {
+      await archiveMatches(resolvedContestId, trimmed)
+      await writeVotesFile({
+        version: VOTE_SCHEMA_VERSION,
+        contests: {
+          ...schema.contests,
+          [resolvedContestId]: {
+            state: { ...state, history: retained },
+            updatedAt: new Date().toISOString(),
+          },
+        },
+        updatedAt: new Date().toISOString(),
+      })
+    }
+
+    const archived = await readArchivedMatches(resolvedContestId)
+    return { retained: retained.length, archived: archived.length }
+  })
+}
+
+/**
+ * The contest's complete match record, newest first: live history plus archived matches,
+ * limited to logos still in the contest. Used for stats that must not depend on retention.
+ */
+export async function getContestMatchHistory(contestId?: string): Promise<MatchHistoryEntry[]> {
+  const resolvedContestId = await resolveContestId(contestId)
+  const [state, { logos }, archived] = await Promise.all([
+    getEloState(resolvedContestId),
+    getContestLogosInternal(resolvedContestId),
+    readArchivedMatches(resolvedContestId),
+  ])
+  return filterActiveMatches(combineMatchHistory(state.history, archived), logos)
+}
+
+/** Pairwise results between every active logo, ordered by the current leaderboard. */
+export async function getContestHeadToHead(contestId: string): Promise<HeadToHeadMatrix> {
+  const resolvedContestId = await resolveContestId(contestId)
+  const [state, { logos }, history] = await Promise.all([
+    getEloState(resolvedContestId),
+    getContestLogosInternal(resolvedContestId),
+    getContestMatchHistory(resolvedContestId),
+  ])
+  const order = buildLeaderboard(logos, state).map(({ logoId, logoName, logoCodename, logoImage }) => ({
+    logoId,
+    logoName,
+    logoCodename,
+    logoImage,
+  }))
+  return computeHeadToHeadMatrix(order, history)
 }
@@ -0,0 +1,149 @@
+import { createReadStream, promises as fs, type Stats } from 'node:fs'
+import { Readable } from 'node:stream'
+
+/**
+ * Serves a file from disk with the HTTP caching and partial-content semantics browsers and
+ * CDNs expect: a strong ETag and Last-Modified derived from the file's stats, `304 Not
+ * Modified` for matching If-None-Match / If-Modified-Since, and single `Range: bytes=` requests
+ * (honouring If-Range) answered with 206 or 416. Bodies are streamed rather than buffered, and
+ * HEAD requests get the headers alone.
+ */
+
+/** A satisfiable byte range, inclusive at both ends. */
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+export function formatFileEtag(stats: Pick<Stats, 'size' | 'mtimeMs'>): string {
+  return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`
+}
+
+function parseEtagList(header: string): string[] {
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .filter(Boolean)
+}
+
+/** HTTP dates carry whole seconds, so file times are compared at that precision. */
+function toHttpSeconds(time: number): number {
+  return Math.floor(time / 1000)
+}
+
+function isNotModified(request: Request, etag: string, mtimeMs: number): boolean {
+  // If-None-Match takes precedence; If-Modified-Since is only consulted without it.
+  const ifNoneMatch = request.headers.get('if-none-match')
+  if (ifNoneMatch !== null) {
+    const tags = parseEtagList(ifNoneMatch)
+    return tags.includes('*') || tags.includes(etag)
+  }
+  const since = Date.parse(request.headers.get('if-modified-since') ?? '')
+  return Number.isFinite(since) && toHttpSeconds(mtimeMs) <= toHttpSeconds(since)
+}
+
+/** If-Range needs a strong match: the exact ETag, or a date equal to Last-Modified. */
+function isRangeApplicable(request: Request, etag: string, mtimeMs: number): boolean {
+  const ifRange = request.headers.get('if-range')?.trim()
+  if (!ifRange) {
+    return true
+  }
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag
+  }
+  const date = Date.parse(ifRange)
+  return Number.isFinite(date) && toHttpSeconds(date) === toHttpSeconds(mtimeMs)
+}
+
+/**
+ * Parses a `Range` header against a file of `size` bytes. Returns null when the header should
+ * be ignored (absent, malformed, another unit, or several ranges, which we serve whole),
+ * 'unsatisfiable' when no requested byte exists, and the clamped range otherwise.
+ */
+export function parseByteRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = /^bytes=\s*(\d*)-(\d*)\s*$/i.exec(header?.trim() ?? '')
+  if (!match || (!match[1] && !match[2])) {
+    return null
+  }
+  if (!match[1]) {
+    // Suffix range: the last N bytes.
+    const length = Number(match[2])
+    if (length === 0 || size === 0) {
+      return 'unsatisfiable'
+    }
+    return { start: Math.max(0, size - length), end: size - 1 }
+  }
+  const start = Number(match[1])
+  const end = match[2] ? Number(match[2]) : Number.POSITIVE_INFINITY
+  if (end < start) {
+    return null
+  }
+  if (start >= size) {
+    return 'unsatisfiable'
+  }
+  return { start, end: Math.min(end, size - 1) }
+}
+
+function streamFile(filePath: string, range?: ByteRange): ReadableStream<Uint8Array> {
+  const stream = createReadStream(filePath, range ? { start: range.start, end: range.end } : {})
+  return Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>
+}
+
+/**
+ * Builds the response for GET or HEAD of `filePath`, with `headers` (content type, caching
+ * policy and the like) on every outcome. Returns null when the file does not exist.
+ */
+export async function createFileResponse(
+  request: Request,
+  filePath: string,
+  headers: Record<string, string>,
+): Promise<Response | null> {
+  let stats: Stats
+  try {
+    stats = await fs.stat(filePath)
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code?: string }).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+  if (!stats.isFile()) {
+    return null
+  }
+
+  const etag = formatFileEtag(stats)
+  const validators = {
+    ...headers,
+    ETag: etag,
+    'Last-Modified': stats.mtime.toUTCString(),
+    'Accept-Ranges': 'bytes',
+  }
+  if (isNotModified(request, etag, stats.mtimeMs)) {
+    return new Response(null, { status: 304, headers: validators })
+  }
+
+  const isHead = request.method === 'HEAD'
+  const range = isRangeApplicable(request, etag, stats.mtimeMs)
+    ? parseByteRange(request.headers.get('range'), stats.size)
+    : null
+  if (range === 'unsatisfiable') {
+    return new Response(null, {
+      status: 416,
+      headers: { ...validators, 'Content-Range': `bytes */${stats.size}` },
+    })
+  }
+  if (range) {
+    return new Response(isHead ? null : streamFile(filePath, range), {
+      status: 206,
+      headers: {
+        ...validators,
+        'Content-Range': `bytes ${range.start}-${range.end}/${stats.size}`,
+        'Content-Length': String(range.end - range.start + 1),
+      },
+    })
+  }
+  return new Response(isHead || stats.size === 0 ? null : streamFile(filePath), {
+    status: 200,
+    headers: { ...validators, 'Content-Length': String(stats.size) },
+  })
+}
@@ -0,0 +1,207 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import { createMatchKey, createPairKey, pickMatchVersions, type MatchHistoryEntry } from '../lib/elo-engine'
+import { atomicWrite } from './persistence-utils'
+import { resolveDataPath } from './storage-utils'
+
+/**
+ * Matches trimmed from a contest's live history by its retention policy (or by the engine's
+ * HISTORY_LIMIT), one NDJSON file per contest. Appends are not de-duplicated, so readers
+ * de-duplicate instead; an archived match that is still in the live history is harmless.
+ */
+const ARCHIVE_DIR = 'history-archive'
+
+export function resolveHistoryArchivePath(contestId: string): string {
+  return resolveDataPath(path.join(ARCHIVE_DIR, `${encodeURIComponent(contestId)}.ndjson`))
+}
+
+function serialize(matches: MatchHistoryEntry[]): string {
+  return matches.map((match) => `${JSON.stringify(match)}\n`).join('')
+}
+
+function parseMatch(line: string): MatchHistoryEntry | null {
+  try {
+    const record = JSON.parse(line) as Partial<MatchHistoryEntry>
+    if (
+      typeof record.winnerId !== 'string' ||
+      typeof record.loserId !== 'string' ||
+      typeof record.timestamp !== 'number'
+    ) {
+      return null
+    }
+    return {
+      winnerId: record.winnerId,
+      loserId: record.loserId,
+      timestamp: record.timestamp,
+      voterHash: typeof record.voterHash === 'string' ? record.voterHash : null,
+      ...pickMatchVersions(record.winnerVersion, record.loserVersion),
+    }
+  } catch {
+    return null
+  }
+}
+
+let queue: Promise<unknown> = Promise.resolve()
+
+// Parsed archives keyed by contest and validated against the file's size and mtime, so metrics
+// requests do not re-read an unchanged archive.
+const readCache = new Map<string, { size: number; mtimeMs: number; matches: MatchHistoryEntry[] }>()
+
+// Pair keys of archived matches per contest and voter, so the one-vote-per-pair rule still holds
+// after a voter's earlier match left the live history. Loaded lazily, dropped on rewrites.
+type VoterPairIndex = Map<string, Set<string>>
+const voterPairIndexes = new Map<string, Promise<VoterPairIndex>>()
+
+const NO_PAIRS: ReadonlySet<string> = new Set()
+
+function indexVoterPairs(index: VoterPairIndex, matches: MatchHistoryEntry[]) {
+  for (const match of matches) {
+    if (!match.voterHash) continue
+    let pairs = index.get(match.voterHash)
+    if (!pairs) {
+      pairs = new Set()
+      index.set(match.voterHash, pairs)
+    }
+    pairs.add(createPairKey(match.winnerId, match.loserId))
+  }
+}
+
+function loadVoterPairIndex(contestId: string): Promise<VoterPairIndex> {
+  let index = voterPairIndexes.get(contestId)
+  if (!index) {
+    index = readArchivedMatches(contestId).then((matches) => {
+      const loaded: VoterPairIndex = new Map()
+      indexVoterPairs(loaded, matches)
+      return loaded
+    })
+    voterPairIndexes.set(contestId, index)
+    index.catch(() => voterPairIndexes.delete(contestId))
+  }
+  return index
+}
+
+/** Pair keys (createPairKey) the voter judged in archived matches of the contest. */
+export async function listArchivedVoterPairs(contestId: string, voterHash: string | null): Promise<ReadonlySet<string>> {
+  if (!voterHash) {
+    return NO_PAIRS
+  }
+  return (await loadVoterPairIndex(contestId)).get(voterHash) ?? NO_PAIRS
+}
+
+export async function hasArchivedVoterPair(
+  contestId: string,
+  voterHash: string | null,
+  a: string,
+  b: string,
+): Promise<boolean> {
+  return (await listArchivedVoterPairs(contestId, voterHash)).has(createPairKey(a, b))
+}
+
+function enqueue<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queue.then(fn)
+  queue = run.catch(() => {})
+  return run
+}
+
+export async function archiveMatches(contestId: string, matches: MatchHistoryEntry[]): Promise<void> {
+  if (matches.length === 0) {
+    return
+  }
+  await enqueue(async () => {
+    readCache.delete(contestId)
+    const filePath = resolveHistoryArchivePath(contestId)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.appendFile(filePath, serialize(matches), 'utf-8')
+    const index = voterPairIndexes.get(contestId)
+    if (index) {
+      indexVoterPairs(await index, matches)
+    }
+  })
+}
+
+/** Rewrites the archive wholesale, e.g. after a replay re-derived history from the audit log. */
+export async function replaceArchivedMatches(contestId: string, matches: MatchHistoryEntry[]): Promise<void> {
+  await enqueue(async () => {
+    voterPairIndexes.delete(contestId)
+    readCache.delete(contestId)
+    const filePath = resolveHistoryArchivePath(contestId)
+    if (matches.length === 0) {
+      await fs.rm(filePath, { force: true })
+      return
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await atomicWrite(filePath, serialize(matches))
+  })
+}
+
+export async function clearArchivedMatches(contestId: string): Promise<void> {
+  await replaceArchivedMatches(contestId, [])
+}
+
+/** Archived matches for a contest, newest first and de-duplicated. Treat the result as read-only. */
+export async function readArchivedMatches(contestId: string): Promise<MatchHistoryEntry[]> {
+  const filePath = resolveHistoryArchivePath(contestId)
+  let raw: string
+  let stat: { size: number; mtimeMs: number }
+  try {
+    stat = await fs.stat(filePath)
+    const cached = readCache.get(contestId)
+    if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+      return cached.matches
+    }
+    raw = await fs.readFile(filePath, 'utf-8')
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+
+  const seen = new Set<string>()
+  const matches: MatchHistoryEntry[] = []
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue
+    const match = parseMatch(line)
+    if (!match) continue
+    const key = createMatchKey(match)
+    if (seen.has(key)) continue
+    seen.add(key)
+    matches.push(match)
+  }
+  matches.sort((a, b) => b.timestamp - a.timestamp)
+  readCache.set(contestId, { size: stat.size, mtimeMs: stat.mtimeMs, matches })
+  return matches
+}
+
+/** Contest ids with an archive file, for exports. */
+export async function listArchivedContests(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(resolveDataPath(ARCHIVE_DIR))
+    return files
+      .filter((file) => file.endsWith('.ndjson'))
+      .map((file) => decodeURIComponent(file.slice(0, -'.ndjson'.length)))
+      .sort()
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
+
+/**
+ * Live history followed by archived matches it no longer holds: the complete, newest-first
+ * match record for a contest.
+ */
+export function combineMatchHistory(
+  live: MatchHistoryEntry[],
+  archived: MatchHistoryEntry[],
+): MatchHistoryEntry[] {
+  if (archived.length === 0) {
+    return live
+  }
+  const seen = new Set(live.map(createMatchKey))
+  const older = archived.filter((match) => !seen.has(createMatchKey(match)))
+  return [...live, ...older].sort((a, b) => b.timestamp - a.timestamp)
+}
@@ -0,0 +1,136 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { promises as fs } from 'node:fs'
+
+import { restoreLatestBackup, writeJsonWithBackup } from './persistence-utils'
+import { STORAGE_DOCUMENTS, type StorageAdapter, type StorageDocument } from './storage-adapter'
+import { ensureDataDir, resolveDataPath } from './storage-utils'
+
+interface JsonDocumentConfig {
+  fileName: string
+  backup: { prefix: string; minIntervalMs: number; maxRetained: number } | null
+}
+
+const JSON_DOCUMENTS: Record<StorageDocument, JsonDocumentConfig> = {
+  logos: {
+    fileName: 'logos.json',
+    backup: { prefix: 'logos', minIntervalMs: 5 * 60_000, maxRetained: 24 },
+  },
+  votes: {
+    fileName: 'votes.json',
+    backup: { prefix: 'votes', minIntervalMs: 15_000, maxRetained: 200 },
+  },
+  contests: {
+    fileName: 'contests.json',
+    backup: { prefix: 'contests', minIntervalMs: 5 * 60_000, maxRetained: 48 },
+  },
+}
+
+export function resolveJsonDocumentPath(name: StorageDocument): string {
+  return resolveDataPath(JSON_DOCUMENTS[name].fileName)
+}
+
+/** Backup settings for a document, or null when it is not backed up. */
+export function resolveJsonBackupPolicy(name: StorageDocument): JsonDocumentConfig['backup'] {
+  return JSON_DOCUMENTS[name].backup
+}
+
+/** Backup folder under `DATA_DIR/backups` for a document, or null when it is not backed up. */
+export function resolveJsonBackupPrefix(name: StorageDocument): string | null {
+  return JSON_DOCUMENTS[name].backup?.prefix ?? null
+}
+
+/** In-process FIFO mutex per document; each waiter chains onto the previous holder. */
+function createDocumentLocks() {
+  const tails = new Map<StorageDocument, Promise<void>>()
+
+  return async function acquire(name: StorageDocument): Promise<() => void> {
+    const previous = tails.get(name) ?? Promise.resolve()
+    let release!: () => void
+    const held = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    const tail = previous.then(() => held)
+    tails.set(name, tail)
+    await previous
+    return () => {
+      release()
+      if (tails.get(name) === tail) {
+        tails.delete(name)
+      }
+    }
+  }
+}
+
+/**
+ * The original file-per-document store under `DATA_DIR`, with atomic writes and rolling
+ * backups. Transactions hold a per-file lock for their whole read-modify-write cycle, which
+ * protects against lost updates within one server process (not across replicas).
+ */
+export function createJsonStorageAdapter(): StorageAdapter {
+  const acquire = createDocumentLocks()
+  const heldDocuments = new AsyncLocalStorage<ReadonlySet<StorageDocument>>()
+
+  async function withLocks<T>(documents: readonly StorageDocument[], fn: () => Promise<T>): Promise<T> {
+    const held = heldDocuments.getStore()
+    const needed = STORAGE_DOCUMENTS.filter((name) => documents.includes(name) && !held?.has(name))
+    if (needed.length === 0) {
+      return fn()
+    }
+
+    const releases: Array<() => void> = []
+    try {
+      for (const name of needed) {
+        releases.push(await acquire(name))
+      }
+      return await heldDocuments.run(new Set([...(held ?? []), ...needed]), fn)
+    } finally {
+      for (const release of releases.reverse()) {
+        release()
+      }
+    }
+  }
+
+  return {
+    backend: 'json',
+    async readDocument(name) {
+      await ensureDataDir()
+      let raw: string
+      try {
+        raw = await fs.readFile(resolveJsonDocumentPath(name), 'utf-8')
+      } catch (error) {
+        if (error && typeof error === 'object' && (error as { code?: string }).code === 'ENOENT') {
+          return null
+        }
+        throw error
+      }
+      return JSON.parse(raw) as unknown
+    },
+    // Standalone writes (e.g. normalisation while reading) still wait for any transaction
+    // that holds the file, so they cannot land in the middle of its read-modify-write.
+    writeDocument: (name, data, options = {}) => withLocks([name], async () => {
+      await ensureDataDir()
+      const config = JSON_DOCUMENTS[name]
+      const filePath = resolveJsonDocumentPath(name)
+      if (!config.backup) {
+        await fs.writeFile(filePath, `${JSON.stringify(data, null, 2)}\n`, 'utf-8')
+        return
+      }
+      await writeJsonWithBackup({
+        filePath,
+        data,
+        prefix: config.backup.prefix,
+        minIntervalMs: config.backup.minIntervalMs,
+        maxRetained: config.backup.maxRetained,
+        forceBackup: options.forceBackup ?? false,
+      })
+    }),
+    transaction: withLocks,
+    async restoreLatestBackup(name) {
+      const config = JSON_DOCUMENTS[name]
+      if (!config.backup) {
+        return false
+      }
+      return restoreLatestBackup(config.backup.prefix, resolveJsonDocumentPath(name))
+    },
+  }
+}
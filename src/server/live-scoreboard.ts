@@ -0,0 +1,162 @@
+import type {
+  ScoreboardEvent,
+  ScoreboardMatchEvent,
+  ScoreboardResyncEvent,
+} from '../lib/scoreboard-stream'
+
+/** Enough recent events for a client that briefly lost its connection to catch up. */
+const RECENT_EVENT_LIMIT = 200
+/** Keeps proxies from closing an idle stream between votes. */
+const HEARTBEAT_INTERVAL_MS = 25_000
+const RECONNECT_DELAY_MS = 3_000
+
+export type ScoreboardEventInput = Omit<ScoreboardMatchEvent, 'id'> | Omit<ScoreboardResyncEvent, 'id'>
+
+type ScoreboardListener = (event: ScoreboardEvent) => void
+
+// Seeded from the clock so ids keep increasing across restarts; a client resuming with an id
+// from a previous process then always falls outside the buffer and resyncs.
+let nextEventId = Date.now()
+const recentEvents: ScoreboardEvent[] = []
+const listeners = new Map<string, Set<ScoreboardListener>>()
+
+/**
+ * Broadcasts a committed scoreboard change to every open stream for the contest. Listener
+ * failures are logged so one broken connection cannot fail the vote that triggered it.
+ */
+export function publishScoreboardEvent(input: ScoreboardEventInput): ScoreboardEvent {
+  const event = { ...input, id: nextEventId } as ScoreboardEvent
+  nextEventId += 1
+
+  recentEvents.push(event)
+  if (recentEvents.length > RECENT_EVENT_LIMIT) {
+    recentEvents.splice(0, recentEvents.length - RECENT_EVENT_LIMIT)
+  }
+
+  listeners.get(event.contestId)?.forEach((listener) => {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('Failed to deliver scoreboard event', error)
+    }
+  })
+  return event
+}
+
+export function subscribeScoreboard(contestId: string, listener: ScoreboardListener): () => void {
+  const contestListeners = listeners.get(contestId) ?? new Set<ScoreboardListener>()
+  contestListeners.add(listener)
+  listeners.set(contestId, contestListeners)
+
+  return () => {
+    contestListeners.delete(listener)
+    if (contestListeners.size === 0) {
+      listeners.delete(contestId)
+    }
+  }
+}
+
+export function countScoreboardSubscribers(contestId: string): number {
+  return listeners.get(contestId)?.size ?? 0
+}
+
+export function latestScoreboardEventId(): number {
+  return nextEventId - 1
+}
+
+/**
+ * Events for the contest published after `lastEventId`, or null when some of them are no
+ * longer buffered (or the id predates a server restart) and the client must resync.
+ */
+export function readScoreboardEventsSince(contestId: string, lastEventId: number): ScoreboardEvent[] | null {
+  if (lastEventId > latestScoreboardEventId()) {
+    return null
+  }
+  const oldestId = recentEvents[0]?.id ?? nextEventId
+  if (lastEventId < oldestId - 1) {
+    return null
+  }
+  return recentEvents.filter((event) => event.id > lastEventId && event.contestId === contestId)
+}
+
+export function formatServerSentEvent(event: ScoreboardEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+export interface ScoreboardStreamOptions {
+  contestId: string
+  lastEventId: number | null
+  /** Aborted when the client disconnects; cancelling the stream has the same effect. */
+  signal: AbortSignal
+  /** Applied to every event before it is sent, e.g. to hide voter hashes. */
+  project?: (event: ScoreboardEvent) => ScoreboardEvent
+}
+
+/**
+ * Opens a server-sent event stream for the contest: missed events (or a resync) first, then
+ * live events and a periodic heartbeat. The subscription and heartbeat are released once the
+ * signal aborts or the consumer cancels the stream.
+ */
+export function createScoreboardStream({
+  contestId,
+  lastEventId,
+  signal,
+  project = (event) => event,
+}: ScoreboardStreamOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let cleanup: (() => void) | null = null
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup?.()
+        }
+      }
+      const sendEvent = (event: ScoreboardEvent) => send(formatServerSentEvent(project(event)))
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+      // Both run synchronously, so no event can be published between the backlog and the subscription.
+      if (lastEventId !== null) {
+        const missed = readScoreboardEventsSince(contestId, lastEventId)
+        if (missed === null) {
+          // Too far behind (or the server restarted): the client refetches instead.
+          // Carrying the latest id means the next reconnect resumes normally.
+          sendEvent({ type: 'resync', id: latestScoreboardEventId(), contestId, reason: 'missed-events' })
+        } else {
+          missed.forEach(sendEvent)
+        }
+      }
+      const unsubscribe = subscribeScoreboard(contestId, sendEvent)
+
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+        signal.removeEventListener('abort', onAbort)
+        try {
+          controller.close()
+        } catch {
+          // Already closed or cancelled by the consumer.
+        }
+      }
+      const onAbort = () => cleanup?.()
+      if (signal.aborted) {
+        cleanup()
+      } else {
+        signal.addEventListener('abort', onAbort)
+      }
+    },
+    cancel() {
+      cleanup?.()
+    },
+  })
+}
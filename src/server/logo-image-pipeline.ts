@@ -0,0 +1,239 @@
+import sharp from 'sharp'
+
+import type { LogoRenditionFormat } from '../lib/logo-utils'
+import { sanitizeSvg, SvgSanitizationError } from './svg-sanitizer'
+
+/**
+ * Validates uploaded logo artwork and renders the files we actually serve. Uploads are sniffed
+ * by magic bytes rather than trusted by declared type, size- and dimension-checked, fully
+ * decoded to catch truncated or corrupt files, and re-encoded so stored images carry no
+ * metadata. Nothing here touches the disk; data-store writes the results.
+ */
+
+export type LogoImageType = 'png' | 'jpeg' | 'gif' | 'webp' | 'svg'
+
+export const LOGO_IMAGE_MIME_TYPES: Record<LogoImageType, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+}
+
+const DEFAULT_MAX_LOGO_BYTES = 2 * 1024 * 1024
+export const MAX_LOGO_DIMENSION = 4096
+export const MIN_LOGO_DIMENSION = 32
+/** Longest edge of the normalized primary image. */
+export const NORMALIZED_LOGO_DIMENSION = 1024
+/** Longest edge of the WebP thumbnails served to cards and the vote page. */
+export const LOGO_THUMBNAIL_SIZES = [96, 256, 512] as const
+
+/** Upload size cap in bytes, from `LOGO_MAX_UPLOAD_BYTES` (default 2 MB). */
+export function resolveMaxLogoBytes(): number {
+  const parsed = Number.parseInt(process.env.LOGO_MAX_UPLOAD_BYTES ?? '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_LOGO_BYTES
+}
+
+/**
+ * Served with every logo image. Even sanitized SVGs, and any stored before sanitizing existed,
+ * then render as inert documents when opened directly: no scripts, forms or external loads.
+ */
+export const LOGO_IMAGE_CONTENT_SECURITY_POLICY = "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox"
+
+export function buildLogoImageHeaders(contentType: string, filename: string): Record<string, string> {
+  const safeFilename = filename.replace(/[^\w.-]+/g, '-') || 'logo'
+  return {
+    'Content-Type': contentType,
+    'Content-Security-Policy': LOGO_IMAGE_CONTENT_SECURITY_POLICY,
+    'Content-Disposition': `inline; filename="${safeFilename}"`,
+    'X-Content-Type-Options': 'nosniff',
+  }
+}
+
+/** Raised for uploads the pipeline refuses; `status` is the HTTP status routes should return. */
+export class LogoImageError extends Error {
+  constructor(
+    message: string,
+    readonly status: 413 | 415 | 422 = 422,
+  ) {
+    super(message)
+    this.name = 'LogoImageError'
+  }
+}
+
+const SVG_PROLOGUE = /^(?:<\?xml[^>]*\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>|\s)*<svg[\s>]/i
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte)
+}
+
+/** Identifies an image by its leading bytes; null when it is none of the accepted types. */
+export function sniffLogoImageType(buffer: Buffer): LogoImageType | null {
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'png'
+  }
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return 'jpeg'
+  }
+  const ascii = buffer.subarray(0, 12).toString('latin1')
+  if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) {
+    return 'gif'
+  }
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') {
+    return 'webp'
+  }
+  const head = buffer.subarray(0, 4096).toString('utf-8').replace(/^\uFEFF/, '')
+  if (SVG_PROLOGUE.test(head)) {
+    return 'svg'
+  }
+  return null
+}
+
+function normalizeDeclaredType(mimeType: string): LogoImageType | null {
+  const lower = mimeType.trim().toLowerCase()
+  if (lower === 'image/jpg') {
+    return 'jpeg'
+  }
+  const entry = Object.entries(LOGO_IMAGE_MIME_TYPES).find(([, mime]) => mime === lower)
+  return entry ? (entry[0] as LogoImageType) : null
+}
+
+export interface ProcessedLogoFile {
+  format: LogoRenditionFormat
+  width: number
+  height: number
+  data: Buffer
+}
+
+export interface ProcessedLogoImage {
+  /** Type detected from the upload's bytes. */
+  sourceType: LogoImageType
+  /** File served by default: a normalized PNG, or the SVG itself for vector uploads. */
+  primary: ProcessedLogoFile
+  /** Smaller or alternative encodings, widest first. */
+  renditions: ProcessedLogoFile[]
+}
+
+function openImage(buffer: Buffer, type: LogoImageType, density?: number) {
+  return sharp(buffer, {
+    failOn: 'error',
+    limitInputPixels: MAX_LOGO_DIMENSION * MAX_LOGO_DIMENSION,
+    ...(type === 'svg' && density ? { density } : {}),
+  })
+}
+
+async function render(
+  buffer: Buffer,
+  type: LogoImageType,
+  format: 'png' | 'webp',
+  maxDimension: number,
+  density?: number,
+): Promise<ProcessedLogoFile> {
+  const pipeline = openImage(buffer, type, density)
+    .rotate()
+    .resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true })
+  const encoded = format === 'png' ? pipeline.png({ compressionLevel: 9 }) : pipeline.webp({ quality: 85 })
+  const { data, info } = await encoded.toBuffer({ resolveWithObject: true })
+  return { format, width: info.width, height: info.height, data }
+}
+
+/**
+ * Runs an upload through validation and rendering. Throws LogoImageError for anything the
+ * pipeline refuses: oversized, unrecognised, mislabelled, animated, corrupt or out-of-range
+ * images, and SVGs the sanitizer cannot parse.
+ */
+export async function processLogoImage(
+  upload: Buffer,
+  options: { declaredMimeType?: string | null } = {},
+): Promise<ProcessedLogoImage> {
+  if (upload.length === 0) {
+    throw new LogoImageError('Logo image is empty.')
+  }
+  const maxBytes = resolveMaxLogoBytes()
+  if (upload.length > maxBytes) {
+    throw new LogoImageError(`Logo images must be ${Math.floor(maxBytes / 1024)} KB or smaller.`, 413)
+  }
+
+  const sourceType = sniffLogoImageType(upload)
+  if (!sourceType) {
+    throw new LogoImageError('Unsupported image type. Upload a PNG, JPEG, GIF, WebP or SVG file.', 415)
+  }
+  if (options.declaredMimeType) {
+    const declared = normalizeDeclaredType(options.declaredMimeType)
+    if (declared !== sourceType) {
+      throw new LogoImageError(
+        `Image content is ${LOGO_IMAGE_MIME_TYPES[sourceType]} but was uploaded as ${options.declaredMimeType}.`,
+        415,
+      )
+    }
+  }
+
+  // SVGs are rebuilt from an allowlist before anything (including librsvg) reads them.
+  let buffer = upload
+  if (sourceType === 'svg') {
+    try {
+      buffer = Buffer.from(sanitizeSvg(upload.toString('utf-8')), 'utf-8')
+    } catch (error) {
+      if (error instanceof SvgSanitizationError) {
+        throw new LogoImageError(error.message)
+      }
+      throw error
+    }
+  }
+
+  let metadata: sharp.Metadata
+  try {
+    metadata = await openImage(buffer, sourceType).metadata()
+  } catch {
+    throw new LogoImageError('Logo image is corrupt or could not be decoded.')
+  }
+  if ((metadata.pages ?? 1) > 1) {
+    throw new LogoImageError('Animated images are not supported. Upload a still image.')
+  }
+  const width = metadata.autoOrient?.width ?? metadata.width ?? 0
+  const height = metadata.autoOrient?.height ?? metadata.height ?? 0
+  if (width === 0 || height === 0) {
+    throw new LogoImageError('Logo image is corrupt or could not be decoded.')
+  }
+  // Vector artwork scales freely, so pixel limits only apply to raster uploads.
+  if (sourceType !== 'svg') {
+    if (width > MAX_LOGO_DIMENSION || height > MAX_LOGO_DIMENSION) {
+      throw new LogoImageError(`Logo images must be at most ${MAX_LOGO_DIMENSION}×${MAX_LOGO_DIMENSION} pixels.`)
+    }
+    if (width < MIN_LOGO_DIMENSION || height < MIN_LOGO_DIMENSION) {
+      throw new LogoImageError(`Logo images must be at least ${MIN_LOGO_DIMENSION}×${MIN_LOGO_DIMENSION} pixels.`)
+    }
+  }
+
+  // SVGs are rasterized at whatever density yields the normalized size, rather than at their
+  // intrinsic size (often tiny, sometimes huge).
+  const density =
+    sourceType === 'svg'
+      ? Math.min(2400, Math.max(1, (72 * NORMALIZED_LOGO_DIMENSION) / Math.max(width, height)))
+      : undefined
+
+  let normalizedPng: ProcessedLogoFile
+  let renditions: ProcessedLogoFile[]
+  try {
+    normalizedPng = await render(buffer, sourceType, 'png', NORMALIZED_LOGO_DIMENSION, density)
+    const longestEdge = Math.max(normalizedPng.width, normalizedPng.height)
+    const thumbnailSizes = LOGO_THUMBNAIL_SIZES.filter((size) => size < longestEdge)
+    renditions = [
+      await render(buffer, sourceType, 'webp', NORMALIZED_LOGO_DIMENSION, density),
+      ...(await Promise.all(
+        [...thumbnailSizes].reverse().map((size) => render(buffer, sourceType, 'webp', size, density)),
+      )),
+    ]
+  } catch {
+    throw new LogoImageError('Logo image is corrupt or could not be decoded.')
+  }
+
+  if (sourceType === 'svg') {
+    return {
+      sourceType,
+      primary: { format: 'svg', width, height, data: buffer },
+      renditions: [normalizedPng, ...renditions],
+    }
+  }
+  return { sourceType, primary: normalizedPng, renditions }
+}
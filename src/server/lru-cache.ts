@@ -0,0 +1,50 @@
+/**
+ * Small least-recently-used cache on top of Map's insertion order: reads move an entry to the
+ * back, and inserting past `capacity` drops the entry at the front.
+ */
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, V>()
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error('LRU cache capacity must be a positive integer.')
+    }
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key)
+  }
+
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) {
+      return undefined
+    }
+    const value = this.entries.get(key) as V
+    this.entries.delete(key)
+    this.entries.set(key, value)
+    return value
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key)
+    this.entries.set(key, value)
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next()
+      if (!oldest.done) {
+        this.entries.delete(oldest.value)
+      }
+    }
+  }
+
+  delete(key: K): boolean {
+    return this.entries.delete(key)
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+}
@@ -0,0 +1,195 @@
+import { promises as fs } from 'node:fs'
+
+import { DEFAULT_CONTEST_ID } from '../lib/contest-utils'
+import { diffJsonDocuments } from './backup-browser'
+import { resolveJsonBackupPolicy, resolveJsonDocumentPath } from './json-storage'
+import { writeJsonWithBackup } from './persistence-utils'
+import { STORAGE_DOCUMENTS, type StorageDocument } from './storage-adapter'
+
+/** One recorded schema change. Steps are pure so they can be previewed without writing. */
+export interface MigrationStep {
+  from: number
+  to: number
+  description: string
+  migrate(document: Record<string, unknown>): Record<string, unknown>
+}
+
+export interface MigrationPlan {
+  document: StorageDocument
+  fromVersion: number
+  toVersion: number
+  steps: Array<Pick<MigrationStep, 'from' | 'to' | 'description'>>
+}
+
+export interface MigrationReport extends MigrationPlan {
+  /** Number of fields the migration changes; 0 when the file is already current. */
+  changedFields: number
+  applied: boolean
+}
+
+export class SchemaVersionError extends Error {
+  constructor(document: StorageDocument, version: number, supported: number) {
+    super(
+      `${document} data uses schema version ${version}, but this server only understands up to ${supported}. Upgrade the server before using this data.`,
+    )
+    this.name = 'SchemaVersionError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function mapLogos(
+  document: Record<string, unknown>,
+  fn: (logo: Record<string, unknown>) => Record<string, unknown>,
+): Record<string, unknown> {
+  const logos = Array.isArray(document.logos) ? document.logos : []
+  return { ...document, logos: logos.map((logo) => (isRecord(logo) ? fn(logo) : logo)) }
+}
+
+/**
+ * Ordered `vN -> vN+1` steps per runtime document. Bump a store's schema version only
+ * together with a new step here; the last step's `to` is the current version.
+ */
+export const MIGRATIONS: Record<StorageDocument, MigrationStep[]> = {
+  logos: [
+    {
+      from: 1,
+      to: 2,
+      description: 'Assign logos without a contest to the default contest.',
+      migrate: (document) =>
+        mapLogos(document, (logo) =>
+          typeof logo.contestId === 'string' && logo.contestId.trim()
+            ? logo
+            : { ...logo, contestId: DEFAULT_CONTEST_ID },
+        ),
+    },
+    {
+      from: 2,
+      to: 3,
+      description: 'Add ownership, soft-delete and stored-asset fields to every logo.',
+      migrate: (document) =>
+        mapLogos(document, (logo) => ({
+          ...logo,
+          ownerAlias: logo.ownerAlias ?? null,
+          assetPath: logo.assetPath ?? null,
+          removedAt: logo.removedAt ?? null,
+          removedBy: logo.removedBy ?? null,
+        })),
+    },
+  ],
+  votes: [
+    {
+      from: 1,
+      to: 2,
+      description: 'Move the single Elo state under the default contest.',
+      migrate: (document) => {
+        const updatedAt = typeof document.updatedAt === 'string' ? document.updatedAt : new Date().toISOString()
+        return {
+          contests: {
+            [DEFAULT_CONTEST_ID]: { state: document.state ?? document, updatedAt },
+          },
+          updatedAt,
+        }
+      },
+    },
+  ],
+  contests: [],
+}
+
+export function currentSchemaVersion(document: StorageDocument): number {
+  return MIGRATIONS[document].at(-1)?.to ?? 1
+}
+
+/** Files written before versioning was introduced count as version 1. */
+export function readSchemaVersion(data: unknown): number {
+  return isRecord(data) && typeof data.version === 'number' ? data.version : 1
+}
+
+export function planMigration(document: StorageDocument, data: unknown): MigrationPlan {
+  const fromVersion = readSchemaVersion(data)
+  const toVersion = currentSchemaVersion(document)
+  if (fromVersion > toVersion) {
+    throw new SchemaVersionError(document, fromVersion, toVersion)
+  }
+  return {
+    document,
+    fromVersion,
+    toVersion,
+    steps: MIGRATIONS[document]
+      .filter((step) => step.from >= fromVersion && step.to <= toVersion)
+      .map(({ from, to, description }) => ({ from, to, description })),
+  }
+}
+
+/**
+ * Runs every pending step for a document and stamps the current version. Throws
+ * `SchemaVersionError` for data written by a newer release.
+ */
+export function applyMigrations(document: StorageDocument, data: unknown): Record<string, unknown> {
+  const { fromVersion, toVersion } = planMigration(document, data)
+  let next: Record<string, unknown> = isRecord(data) ? data : {}
+  for (const step of MIGRATIONS[document]) {
+    if (step.from >= fromVersion && step.to <= toVersion) {
+      next = { ...step.migrate(next), version: step.to }
+    }
+  }
+  return fromVersion === toVersion ? next : { ...next, version: toVersion }
+}
+
+async function readJsonFile(document: StorageDocument): Promise<unknown | null> {
+  try {
+    return JSON.parse(await fs.readFile(resolveJsonDocumentPath(document), 'utf-8')) as unknown
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Checks every JSON data file and, unless `dryRun` is set, migrates the ones that are behind.
+ * Both the original file and the migrated result are written through `writeJsonWithBackup`
+ * with a forced snapshot, so the pre-migration data stays restorable from the backups folder.
+ */
+export async function runPendingMigrations(options: { dryRun?: boolean } = {}): Promise<MigrationReport[]> {
+  const reports: MigrationReport[] = []
+
+  for (const document of STORAGE_DOCUMENTS) {
+    const original = await readJsonFile(document)
+    if (original === null) {
+      continue
+    }
+
+    const plan = planMigration(document, original)
+    if (plan.steps.length === 0 && plan.fromVersion === plan.toVersion) {
+      reports.push({ ...plan, changedFields: 0, applied: false })
+      continue
+    }
+
+    const migrated = applyMigrations(document, original)
+    const report: MigrationReport = {
+      ...plan,
+      changedFields: diffJsonDocuments(original, migrated).length,
+      applied: false,
+    }
+
+    if (!options.dryRun) {
+      const filePath = resolveJsonDocumentPath(document)
+      const policy = resolveJsonBackupPolicy(document)
+      if (policy) {
+        await writeJsonWithBackup({ filePath, data: original, ...policy, forceBackup: true })
+        await writeJsonWithBackup({ filePath, data: migrated, ...policy, forceBackup: true })
+      } else {
+        await fs.writeFile(filePath, `${JSON.stringify(migrated, null, 2)}\n`, 'utf-8')
+      }
+      report.applied = true
+    }
+
+    reports.push(report)
+  }
+
+  return reports
+}
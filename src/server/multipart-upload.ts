@@ -0,0 +1,317 @@
+import type { FileHandle } from 'node:fs/promises'
+import { promises as fs } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+/**
+ * Streaming reader for `multipart/form-data` uploads. The file part is written to a temporary
+ * file as it arrives and its size cap is enforced mid-stream, so an upload is never held in
+ * memory whole and oversized bodies are cut off early. Text fields are buffered under a small
+ * cap. Callers must `cleanup()` once they are done with the file.
+ */
+
+export class MultipartUploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 413 | 415 = 400,
+  ) {
+    super(message)
+    this.name = 'MultipartUploadError'
+  }
+}
+
+export interface MultipartFile {
+  fieldName: string
+  filename: string
+  /** Content type the client declared for the part, if any. */
+  contentType: string | null
+  path: string
+  size: number
+}
+
+export interface MultipartUpload {
+  fields: Record<string, string>
+  file: MultipartFile | null
+  cleanup: () => Promise<void>
+}
+
+export interface MultipartUploadOptions {
+  /** Form field holding the file; file parts under other names are discarded. */
+  fileField: string
+  maxFileBytes: number
+  /** Combined cap on text fields (default 64 KB). */
+  maxFieldBytes?: number
+}
+
+const MAX_HEADER_BYTES = 8 * 1024
+const DEFAULT_MAX_FIELD_BYTES = 64 * 1024
+const CRLF = Buffer.from('\r\n')
+const HEADER_END = Buffer.from('\r\n\r\n')
+
+export function isMultipartRequest(request: Request): boolean {
+  return /^multipart\/form-data\b/i.test(request.headers.get('content-type') ?? '')
+}
+
+export function readMultipartBoundary(contentType: string | null): string | null {
+  const match = /^multipart\/form-data\s*;.*?\bboundary=(?:"([^"]+)"|([^\s;]+))/i.exec(contentType ?? '')
+  const boundary = match?.[1] ?? match?.[2] ?? null
+  return boundary && boundary.length <= 70 ? boundary : null
+}
+
+interface PartHeaders {
+  name: string | null
+  filename: string | null
+  contentType: string | null
+}
+
+function parsePartHeaders(raw: string): PartHeaders {
+  const headers: PartHeaders = { name: null, filename: null, contentType: null }
+  for (const line of raw.split('\r\n')) {
+    const separator = line.indexOf(':')
+    if (separator === -1) {
+      continue
+    }
+    const key = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+    if (key === 'content-type') {
+      headers.contentType = value || null
+    } else if (key === 'content-disposition') {
+      for (const param of value.matchAll(/;\s*([\w*-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g)) {
+        const paramValue = param[2] !== undefined ? param[2].replace(/\\(.)/g, '$1') : (param[3] ?? '').trim()
+        const paramName = param[1]!.toLowerCase()
+        if (paramName === 'name') {
+          headers.name = paramValue
+        } else if (paramName === 'filename') {
+          headers.filename = paramValue
+        }
+      }
+    }
+  }
+  return headers
+}
+
+function uploadTooLarge(options: MultipartUploadOptions): MultipartUploadError {
+  return new MultipartUploadError(`Uploads must be ${Math.floor(options.maxFileBytes / 1024)} KB or smaller.`, 413)
+}
+
+type ParserState = 'preamble' | 'boundary' | 'headers' | 'body' | 'done'
+
+type ActivePart =
+  | { kind: 'file'; handle: FileHandle; file: MultipartFile }
+  | { kind: 'field'; name: string; chunks: Buffer[] }
+  | { kind: 'skip' }
+
+async function parseParts(
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+  directory: string,
+  options: MultipartUploadOptions,
+  limits: { maxFieldBytes: number; maxBodyBytes: number },
+): Promise<{ fields: Record<string, string>; file: MultipartFile | null }> {
+  const delimiter = Buffer.from(`\r\n--${boundary}`)
+  const fields: Record<string, string> = {}
+  let file: MultipartFile | null = null
+  let fieldBytes = 0
+  let bodyBytes = 0
+  let part: ActivePart | null = null
+  let state = 'preamble' as ParserState
+  // The body opens with a boundary rather than a CRLF; prefixing one lets every boundary be
+  // matched by the same delimiter.
+  let buffer: Buffer = CRLF
+
+  const openPart = async (headers: PartHeaders): Promise<ActivePart> => {
+    if (!headers.name) {
+      throw new MultipartUploadError('Multipart part is missing a field name.')
+    }
+    if (headers.filename === null) {
+      return { kind: 'field', name: headers.name, chunks: [] }
+    }
+    if (headers.name !== options.fileField) {
+      return { kind: 'skip' }
+    }
+    if (file) {
+      throw new MultipartUploadError('Only one file can be uploaded at a time.')
+    }
+    const filePath = path.join(directory, 'upload')
+    file = {
+      fieldName: headers.name,
+      filename: headers.filename,
+      contentType: headers.contentType,
+      path: filePath,
+      size: 0,
+    }
+    return { kind: 'file', handle: await fs.open(filePath, 'w'), file }
+  }
+
+  const writePart = async (chunk: Buffer) => {
+    if (!part || chunk.length === 0) {
+      return
+    }
+    if (part.kind === 'file') {
+      part.file.size += chunk.length
+      if (part.file.size > options.maxFileBytes) {
+        throw uploadTooLarge(options)
+      }
+      await part.handle.write(chunk)
+    } else if (part.kind === 'field') {
+      fieldBytes += chunk.length
+      if (fieldBytes > limits.maxFieldBytes) {
+        throw new MultipartUploadError('Form fields are too large.', 413)
+      }
+      part.chunks.push(Buffer.from(chunk))
+    }
+  }
+
+  const finishPart = async () => {
+    const finished = part
+    part = null
+    if (finished?.kind === 'file') {
+      await finished.handle.close()
+      // An empty file input still sends a part; treat it as no file at all.
+      if (finished.file.size === 0 && !finished.file.filename) {
+        file = null
+      }
+    } else if (finished?.kind === 'field') {
+      fields[finished.name] = Buffer.concat(finished.chunks).toString('utf-8')
+    }
+  }
+
+  // Consumes what it can from `buffer`; false once more input is needed.
+  const advance = async (): Promise<boolean> => {
+    switch (state) {
+      case 'preamble': {
+        const index = buffer.indexOf(delimiter)
+        if (index === -1) {
+          buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1))
+          return false
+        }
+        buffer = buffer.subarray(index + delimiter.length)
+        state = 'boundary'
+        return true
+      }
+      case 'boundary': {
+        let offset = 0
+        while (buffer[offset] === 0x20 || buffer[offset] === 0x09) {
+          offset += 1
+        }
+        if (buffer.length < offset + 2) {
+          return false
+        }
+        const marker = buffer.subarray(offset, offset + 2).toString('latin1')
+        if (marker === '--') {
+          state = 'done'
+          return false
+        }
+        if (marker !== '\r\n') {
+          throw new MultipartUploadError('Malformed multipart boundary.')
+        }
+        // Keep the CRLF so a part without headers still ends at HEADER_END.
+        buffer = buffer.subarray(offset)
+        state = 'headers'
+        return true
+      }
+      case 'headers': {
+        const index = buffer.indexOf(HEADER_END)
+        if (index === -1) {
+          if (buffer.length > MAX_HEADER_BYTES) {
+            throw new MultipartUploadError('Multipart part headers are too large.')
+          }
+          return false
+        }
+        const headers = parsePartHeaders(buffer.subarray(CRLF.length, index).toString('utf-8'))
+        buffer = buffer.subarray(index + HEADER_END.length)
+        part = await openPart(headers)
+        state = 'body'
+        return true
+      }
+      case 'body': {
+        const index = buffer.indexOf(delimiter)
+        if (index === -1) {
+          // Hold back a possible partial delimiter at the end of the chunk.
+          const safeLength = buffer.length - delimiter.length + 1
+          if (safeLength > 0) {
+            await writePart(buffer.subarray(0, safeLength))
+            buffer = buffer.subarray(safeLength)
+          }
+          return false
+        }
+        await writePart(buffer.subarray(0, index))
+        buffer = buffer.subarray(index + delimiter.length)
+        await finishPart()
+        state = 'boundary'
+        return true
+      }
+      default:
+        return false
+    }
+  }
+
+  const reader = body.getReader()
+  try {
+    while (state !== 'done') {
+      const { value, done } = await reader.read()
+      if (done) {
+        break
+      }
+      // Counts every byte read, including discarded parts and bodies sent without a length.
+      bodyBytes += value.length
+      if (bodyBytes > limits.maxBodyBytes) {
+        throw uploadTooLarge(options)
+      }
+      buffer = buffer.length > 0 ? Buffer.concat([buffer, value]) : Buffer.from(value)
+      while (await advance()) {
+        // Keep consuming until the buffer needs more input.
+      }
+    }
+  } finally {
+    const unfinished = part as ActivePart | null
+    if (unfinished?.kind === 'file') {
+      await unfinished.handle.close().catch(() => {})
+    }
+    // Stops reading once the closing boundary is seen, or after an error mid-body.
+    await reader.cancel().catch(() => {})
+  }
+
+  if (state !== 'done') {
+    throw new MultipartUploadError('Upload ended before the multipart body was complete.')
+  }
+  return { fields, file }
+}
+
+/**
+ * Reads a multipart request body, streaming the `fileField` part to a temporary directory.
+ * Throws MultipartUploadError for malformed or oversized bodies; nothing is left on disk then.
+ */
+export async function receiveMultipartUpload(
+  request: Request,
+  options: MultipartUploadOptions,
+): Promise<MultipartUpload> {
+  const boundary = readMultipartBoundary(request.headers.get('content-type'))
+  if (!boundary) {
+    throw new MultipartUploadError('Expected a multipart/form-data body with a boundary.', 415)
+  }
+  if (!request.body) {
+    throw new MultipartUploadError('Upload body is empty.')
+  }
+
+  const maxFieldBytes = options.maxFieldBytes ?? DEFAULT_MAX_FIELD_BYTES
+  // Part headers and boundaries add a little on top of the payload itself.
+  const maxBodyBytes = options.maxFileBytes + maxFieldBytes + 4 * MAX_HEADER_BYTES
+  const declaredLength = Number.parseInt(request.headers.get('content-length') ?? '', 10)
+  if (Number.isFinite(declaredLength) && declaredLength > maxBodyBytes) {
+    throw uploadTooLarge(options)
+  }
+
+  const directory = await fs.mkdtemp(path.join(tmpdir(), 'logo-upload-'))
+  const cleanup = () => fs.rm(directory, { recursive: true, force: true })
+  try {
+    const { fields, file } = await parseParts(request.body, boundary, directory, options, {
+      maxFieldBytes,
+      maxBodyBytes,
+    })
+    return { fields, file, cleanup }
+  } catch (error) {
+    await cleanup()
+    throw error
+  }
+}
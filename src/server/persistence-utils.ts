@@ -53,7 +53,7 @@ function parseBackupTimestamp(fileName: string): number | null {
   return null
 }
 
-async function atomicWrite(filePath: string, payload: string): Promise<void> {
+export async function atomicWrite(filePath: string, payload: string): Promise<void> {
   const tempPath = `${filePath}.${randomUUID()}.tmp`
   await fs.writeFile(tempPath, payload, 'utf-8')
 
@@ -184,6 +184,90 @@ export async function writeJsonWithBackup({
   return backupPath
 }
 
+export interface BackupFileInfo {
+  fileName: string
+  size: number
+  createdAt: string
+}
+
+// Backups are named `<timestamp>-<uuid>.json`; anything else (or a path) is rejected so
+// admin requests cannot reach outside the backup folder.
+const BACKUP_FILE_NAME = /^[\w-]+\.json$/
+
+export function isBackupFileName(fileName: string): boolean {
+  return BACKUP_FILE_NAME.test(fileName)
+}
+
+function resolveBackupFile(backupRoot: string, prefix: string, fileName: string): string {
+  if (!isBackupFileName(fileName)) {
+    throw new Error(`Invalid backup file name "${fileName}".`)
+  }
+  return path.join(backupRoot, prefix, fileName)
+}
+
+/** Lists the backups for a prefix, newest first. */
+export async function listBackups(prefix: string): Promise<BackupFileInfo[]> {
+  const backupDir = path.join(await ensureBackupDir(), prefix)
+  const entries = await fs.readdir(backupDir, { withFileTypes: true }).catch(() => [])
+  const files = await Promise.all(
+    entries
+      .filter((entry) => entry.isFile() && isBackupFileName(entry.name))
+      .map(async (entry) => {
+        const stats = await fs.stat(path.join(backupDir, entry.name)).catch(() => null)
+        if (!stats) {
+          return null
+        }
+        const timestamp = parseBackupTimestamp(entry.name) ?? stats.mtimeMs
+        return { fileName: entry.name, size: stats.size, timestamp }
+      }),
+  )
+
+  return files
+    .filter((file): file is { fileName: string; size: number; timestamp: number } => file !== null)
+    .sort((a, b) => b.timestamp - a.timestamp || b.fileName.localeCompare(a.fileName))
+    .map(({ fileName, size, timestamp }) => ({
+      fileName,
+      size,
+      createdAt: new Date(timestamp).toISOString(),
+    }))
+}
+
+/** Returns the raw contents of one backup; throws ENOENT when it does not exist. */
+export async function readBackup(prefix: string, fileName: string): Promise<string> {
+  return fs.readFile(resolveBackupFile(await ensureBackupDir(), prefix, fileName), 'utf-8')
+}
+
+/**
+ * Restores a chosen backup over `destination`. The live file is snapshotted first (unless
+ * it is missing), so a restore can itself be undone from the backup list.
+ */
+export async function restoreBackup(
+  prefix: string,
+  fileName: string,
+  destination: string,
+): Promise<{ safetyBackup: string | null }> {
+  const payload = await readBackup(prefix, fileName)
+  JSON.parse(payload)
+
+  let safetyBackup: string | null = null
+  const backupDir = path.join(await ensureBackupDir(), prefix)
+  await fs.mkdir(backupDir, { recursive: true })
+  const now = Date.now()
+  const safetyPath = path.join(backupDir, `${now}-${randomUUID()}.json`)
+  try {
+    await fs.copyFile(destination, safetyPath)
+    safetyBackup = path.basename(safetyPath)
+    lastBackupTimestampByPrefix.set(prefix, now)
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'ENOENT') {
+      throw error
+    }
+  }
+
+  await atomicWrite(destination, payload)
+  return { safetyBackup }
+}
+
 export async function restoreLatestBackup(prefix: string, destination: string): Promise<boolean> {
   try {
     const backupDir = path.join(await ensureBackupDir(), prefix)
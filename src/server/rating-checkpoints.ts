@@ -0,0 +1,237 @@
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import type { EloState, MatchHistoryEntry } from '../lib/elo-engine'
+import type { LogoEntry } from '../lib/logo-utils'
+import { normalizeRatingSettings, type RatingSettings } from '../lib/rating-engines'
+import type { VoteAuditEvent, VotesVoidedEvent } from './audit-log'
+import { atomicWrite } from './persistence-utils'
+import { ensureDataDir, resolveDataPath } from './storage-utils'
+import type { VoteEventLogPosition } from './vote-event-log'
+
+const CHECKPOINT_FILE = 'rating-checkpoints.json'
+/**
+ * Version 1 stored the full EloState, history included; version 2 stored an event-id digest
+ * that needed the whole log to check. Both are ignored and rebuilt.
+ */
+const CHECKPOINT_FILE_VERSION = 3
+/** Counted match history per contest, one NDJSON file each, oldest first. */
+const HISTORY_DIR = 'rating-checkpoints'
+/** Older checkpoints are kept so one that stops matching (e.g. after a settings change) has a fallback. */
+const MAX_CHECKPOINTS_PER_CONTEST = 8
+const DEFAULT_CHECKPOINT_INTERVAL = 500
+
+/**
+ * Rating table after folding a contest's events up to `logPosition` in the vote event log.
+ * `entries` is the engine output before removed logos are pruned, so replays that resume from
+ * it match a full replay exactly. The counted match history behind it lives in the contest's
+ * history file; the checkpoint records how many of those matches it covers and their digest.
+ */
+export interface RatingCheckpoint {
+  contestId: string
+  createdAt: string
+  /** Contest events folded, for reporting; the replay itself resumes from `logPosition`. */
+  eventOffset: number
+  logPosition: VoteEventLogPosition
+  /** Last folded event in sort order. Resuming is only exact while newer events sort after it. */
+  lastEvent: VoteAuditEvent | null
+  /** Voids among the folded events, which still apply to votes after the checkpoint. */
+  voids: VotesVoidedEvent[]
+  historyLength: number
+  historyDigest: string
+  settingsKey: string
+  logoDigest: string
+  entries: EloState['entries']
+}
+
+export type RatingCheckpointInput = Omit<RatingCheckpoint, 'createdAt' | 'historyLength' | 'historyDigest'> & {
+  /** Every counted match since the contest's last reset, oldest first. */
+  history: MatchHistoryEntry[]
+}
+
+interface CheckpointFile {
+  version: number
+  contests: Record<string, RatingCheckpoint[]>
+  /** Length and digest of each contest's history file, so a newer checkpoint can append to it. */
+  histories: Record<string, { length: number; digest: string }>
+}
+
+export interface CheckpointKeys {
+  settingsKey: string
+  logoDigest: string
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/** Recorded votes between background checkpoints (RATING_CHECKPOINT_INTERVAL, default 500). */
+export function resolveCheckpointInterval(): number {
+  return readPositiveInt(process.env.RATING_CHECKPOINT_INTERVAL, DEFAULT_CHECKPOINT_INTERVAL)
+}
+
+export function resolveCheckpointKeys(settings: Partial<RatingSettings> | null | undefined, logos: LogoEntry[]): CheckpointKeys {
+  const normalized = normalizeRatingSettings(settings)
+  const ids = logos.map((logo) => logo.id).sort()
+  return {
+    settingsKey: `${normalized.algorithm}:${normalized.kFactor}`,
+    logoDigest: createHash('sha256').update(ids.join('\n')).digest('hex'),
+  }
+}
+
+function resolveHistoryPath(contestId: string): string {
+  return resolveDataPath(path.join(HISTORY_DIR, `${encodeURIComponent(contestId)}.ndjson`))
+}
+
+function serializeMatch(match: MatchHistoryEntry): string {
+  return `${JSON.stringify(match)}\n`
+}
+
+/** Digest over the first `offset` serialized matches for each requested offset, in one pass. */
+function digestHistoryPrefixes(lines: string[], offsets: number[]): Map<number, string> {
+  const wanted = new Set(offsets)
+  const digests = new Map<number, string>()
+  const hash = createHash('sha256')
+  if (wanted.has(0)) {
+    digests.set(0, hash.copy().digest('hex'))
+  }
+  lines.forEach((line, index) => {
+    hash.update(line)
+    if (wanted.has(index + 1)) {
+      digests.set(index + 1, hash.copy().digest('hex'))
+    }
+  })
+  return digests
+}
+
+async function readCheckpointFile(): Promise<CheckpointFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(resolveDataPath(CHECKPOINT_FILE), 'utf-8')) as CheckpointFile
+    if (parsed?.version === CHECKPOINT_FILE_VERSION && parsed.contests && typeof parsed.contests === 'object') {
+      return { ...parsed, histories: parsed.histories ?? {} }
+    }
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'ENOENT') {
+      console.warn('Ignoring unreadable rating checkpoints; the next recalculation replays in full.', error)
+    }
+  }
+  return { version: CHECKPOINT_FILE_VERSION, contests: {}, histories: {} }
+}
+
+let queue: Promise<unknown> = Promise.resolve()
+
+/** Read-modify-write of the checkpoint file (and history files), one at a time. */
+function updateCheckpointFile(fn: (file: CheckpointFile) => Promise<CheckpointFile>): Promise<void> {
+  const run = queue.then(async () => {
+    await ensureDataDir()
+    const next = await fn(await readCheckpointFile())
+    await atomicWrite(resolveDataPath(CHECKPOINT_FILE), `${JSON.stringify(next)}\n`)
+  })
+  queue = run.catch(() => {})
+  return run
+}
+
+export async function listRatingCheckpoints(contestId: string): Promise<RatingCheckpoint[]> {
+  return (await readCheckpointFile()).contests[contestId] ?? []
+}
+
+/**
+ * Newest checkpoint taken with the same rating settings and logo set. Whether the log still
+ * continues from it is only known once the events after it are read.
+ */
+export async function findLatestCheckpoint(contestId: string, keys: CheckpointKeys): Promise<RatingCheckpoint | null> {
+  const candidates = (await listRatingCheckpoints(contestId)).filter(
+    (checkpoint) => checkpoint.settingsKey === keys.settingsKey && checkpoint.logoDigest === keys.logoDigest,
+  )
+  return candidates.sort((a, b) => b.logPosition.lines - a.logPosition.lines)[0] ?? null
+}
+
+/**
+ * The counted matches the checkpoint folded, oldest first, or null when the contest's history
+ * file no longer starts with them (it was rewritten by a later replay, or is missing).
+ */
+export async function readCheckpointHistory(checkpoint: RatingCheckpoint): Promise<MatchHistoryEntry[] | null> {
+  let raw: string
+  try {
+    raw = await fs.readFile(resolveHistoryPath(checkpoint.contestId), 'utf-8')
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return checkpoint.historyLength === 0 ? [] : null
+    }
+    throw error
+  }
+
+  const hash = createHash('sha256')
+  const matches: MatchHistoryEntry[] = []
+  for (const line of raw.split('\n')) {
+    if (matches.length === checkpoint.historyLength) break
+    if (!line) continue
+    hash.update(`${line}\n`)
+    matches.push(JSON.parse(line) as MatchHistoryEntry)
+  }
+  if (matches.length !== checkpoint.historyLength || hash.digest('hex') !== checkpoint.historyDigest) {
+    return null
+  }
+  return matches
+}
+
+/**
+ * Stores a checkpoint and the counted history it covers. The history file is appended to when
+ * the new history extends it and rewritten otherwise; checkpoints whose history is no longer a
+ * prefix of it are dropped.
+ */
+export async function recordRatingCheckpoint({ history, ...input }: RatingCheckpointInput): Promise<void> {
+  const { contestId } = input
+  await updateCheckpointFile(async (file) => {
+    const lines = history.map(serializeMatch)
+    const previous = file.histories[contestId] ?? null
+    const existing = (file.contests[contestId] ?? []).filter(
+      (entry) => !(entry.logPosition.lines === input.logPosition.lines && entry.settingsKey === input.settingsKey),
+    )
+    const digests = digestHistoryPrefixes(lines, [
+      lines.length,
+      ...(previous ? [previous.length] : []),
+      ...existing.map((entry) => entry.historyLength),
+    ])
+    const historyDigest = digests.get(lines.length)!
+
+    const historyPath = resolveHistoryPath(contestId)
+    await fs.mkdir(path.dirname(historyPath), { recursive: true })
+    if (previous && previous.length <= lines.length && digests.get(previous.length) === previous.digest) {
+      if (lines.length > previous.length) {
+        await fs.appendFile(historyPath, lines.slice(previous.length).join(''), 'utf-8')
+      }
+    } else {
+      await atomicWrite(historyPath, lines.join(''))
+    }
+
+    const checkpoint: RatingCheckpoint = {
+      ...input,
+      createdAt: new Date().toISOString(),
+      historyLength: lines.length,
+      historyDigest,
+    }
+    const retained = [
+      ...existing.filter((entry) => digests.get(entry.historyLength) === entry.historyDigest),
+      checkpoint,
+    ]
+      .sort((a, b) => a.logPosition.lines - b.logPosition.lines)
+      .slice(-MAX_CHECKPOINTS_PER_CONTEST)
+    return {
+      ...file,
+      contests: { ...file.contests, [contestId]: retained },
+      histories: { ...file.histories, [contestId]: { length: lines.length, digest: historyDigest } },
+    }
+  })
+}
+
+export async function clearRatingCheckpoints(contestId: string): Promise<void> {
+  await updateCheckpointFile(async (file) => {
+    await fs.rm(resolveHistoryPath(contestId), { force: true })
+    const { [contestId]: _removed, ...contests } = file.contests
+    const { [contestId]: _history, ...histories } = file.histories
+    return { ...file, contests, histories }
+  })
+}
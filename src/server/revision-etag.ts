@@ -0,0 +1,19 @@
+/**
+ * Optimistic concurrency for admin edits. A record's `updatedAt` doubles as its revision:
+ * GET and PATCH responses expose it as a strong ETag and PATCH requests may send it back in
+ * `If-Match`, so a stale editor gets a 409 instead of silently overwriting newer changes.
+ */
+export function formatRevisionEtag(updatedAt: string): string {
+  return `"${updatedAt}"`
+}
+
+/** Returns the revision a request expects to modify, or null when it sent no usable `If-Match`. */
+export function readIfMatchRevision(request: Request): string | null {
+  const header = request.headers.get('If-Match')?.trim()
+  if (!header || header === '*') {
+    return null
+  }
+  const first = header.split(',')[0]!.trim().replace(/^W\//, '')
+  const revision = first.replace(/^"(.*)"$/, '$1').trim()
+  return revision || null
+}
@@ -0,0 +1,139 @@
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import { normalizeAlias, type AuthRole, type AuthUser } from '../lib/auth-utils'
+import { ensureDataDir, resolveDataPath } from './storage-utils'
+
+const BUNDLED_ROSTER_PATH = path.resolve(process.cwd(), 'server/data/allowed-users.json')
+const ROSTER_FILE = 'allowed-users.json'
+
+export interface AllowedUserRecord {
+  alias: string
+  email?: string
+  name?: string
+  role?: string
+  logos?: string[]
+  passwordHash?: string | null
+  /** When the password was last set or removed; sessions issued before it are rejected. */
+  passwordChangedAt?: string | null
+}
+
+export interface PublicRosterRecord {
+  alias: string
+  email?: string
+  name?: string
+  role: AuthRole
+  logos: string[]
+  hasPassword: boolean
+}
+
+async function ensureRosterFile(): Promise<string> {
+  await ensureDataDir()
+  const persistedPath = resolveDataPath(ROSTER_FILE)
+  try {
+    await fs.access(persistedPath)
+    return persistedPath
+  } catch {
+    try {
+      const bundled = await fs.readFile(BUNDLED_ROSTER_PATH, 'utf-8')
+      await fs.writeFile(persistedPath, bundled, 'utf-8')
+      return persistedPath
+    } catch (error) {
+      console.warn('Falling back to empty roster; bundled file missing or unreadable.', error)
+    }
+    await fs.writeFile(persistedPath, '[]\n', 'utf-8')
+    return persistedPath
+  }
+}
+
+export async function readRoster(): Promise<AllowedUserRecord[]> {
+  const filePath = await ensureRosterFile()
+  try {
+    const content = await fs.readFile(filePath, 'utf-8')
+    const parsed = JSON.parse(content)
+    if (Array.isArray(parsed)) {
+      return parsed as AllowedUserRecord[]
+    }
+  } catch (error) {
+    console.warn('Failed to read roster file; returning empty roster.', error)
+  }
+  return []
+}
+
+export async function writeRoster(records: AllowedUserRecord[]): Promise<void> {
+  const filePath = await ensureRosterFile()
+  await fs.writeFile(filePath, `${JSON.stringify(records, null, 2)}\n`, 'utf-8')
+}
+
+export function findRosterRecord(
+  records: AllowedUserRecord[],
+  aliasOrEmail: string,
+): AllowedUserRecord | null {
+  const normalizedAlias = normalizeAlias(aliasOrEmail)
+  if (!normalizedAlias) {
+    return null
+  }
+
+  const record = records.find((entry) => {
+    const aliasMatch = normalizeAlias(entry.alias) === normalizedAlias
+    const emailMatch = entry.email ? normalizeAlias(entry.email) === normalizedAlias : false
+    return aliasMatch || emailMatch
+  })
+
+  return record ?? null
+}
+
+export async function findRosterUser(aliasOrEmail: string): Promise<AllowedUserRecord | null> {
+  const records = await readRoster()
+  return findRosterRecord(records, aliasOrEmail)
+}
+
+export function resolveRosterRole(record: AllowedUserRecord): AuthRole {
+  return record.role === 'admin' ? 'admin' : 'member'
+}
+
+export function toPublicRosterRecord(record: AllowedUserRecord): PublicRosterRecord {
+  return {
+    alias: normalizeAlias(record.alias),
+    email: record.email,
+    name: record.name,
+    role: resolveRosterRole(record),
+    logos: Array.isArray(record.logos) ? record.logos : [],
+    hasPassword: Boolean(record.passwordHash),
+  }
+}
+
+export function toAuthUser(record: AllowedUserRecord): AuthUser {
+  const alias = normalizeAlias(record.alias)
+  return {
+    alias,
+    email: record.email ?? `${alias}@microsoft.com`,
+    name: record.name ?? alias,
+    logos: Array.isArray(record.logos) ? record.logos : [],
+    role: resolveRosterRole(record),
+    source: 'alias',
+    hasPassword: Boolean(record.passwordHash),
+  }
+}
+
+/**
+ * Roster hashes keep the historical `SHA-256(<password><alias>)` format so existing
+ * entries continue to work now that verification happens on the server.
+ */
+export function hashPasswordWithAlias(password: string, alias: string): string {
+  return createHash('sha256').update(`${password}${normalizeAlias(alias)}`).digest('hex')
+}
+
+export function verifyRosterPassword(record: AllowedUserRecord, password: string): boolean {
+  if (!record.passwordHash) {
+    return true
+  }
+
+  const expected = Buffer.from(record.passwordHash.trim().toLowerCase(), 'utf-8')
+  const attempt = Buffer.from(hashPasswordWithAlias(password, record.alias), 'utf-8')
+  if (expected.length !== attempt.length) {
+    return false
+  }
+  return timingSafeEqual(expected, attempt)
+}
@@ -0,0 +1,50 @@
+import { randomBytes } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+
+import { ensureDataDir, resolveDataPath } from './storage-utils'
+
+interface ServerSecretOptions {
+  envVar: string
+  fileName: string
+}
+
+const cachedSecrets = new Map<string, Buffer>()
+
+/**
+ * Resolves a server-held secret from the environment, falling back to a generated value
+ * persisted next to the runtime data so it survives restarts of the same deployment.
+ */
+export async function resolveServerSecret({ envVar, fileName }: ServerSecretOptions): Promise<Buffer> {
+  const cached = cachedSecrets.get(fileName)
+  if (cached) {
+    return cached
+  }
+
+  const fromEnv = process.env[envVar]?.trim()
+  if (fromEnv) {
+    const secret = Buffer.from(fromEnv, 'utf-8')
+    cachedSecrets.set(fileName, secret)
+    return secret
+  }
+
+  await ensureDataDir()
+  const secretPath = resolveDataPath(fileName)
+  try {
+    const existing = (await fs.readFile(secretPath, 'utf-8')).trim()
+    if (existing) {
+      const secret = Buffer.from(existing, 'utf-8')
+      cachedSecrets.set(fileName, secret)
+      return secret
+    }
+  } catch (error) {
+    if (!error || typeof error !== 'object' || (error as { code?: string }).code !== 'ENOENT') {
+      console.warn(`Failed to read ${fileName}; generating a new one.`, error)
+    }
+  }
+
+  const generated = randomBytes(32).toString('hex')
+  await fs.writeFile(secretPath, `${generated}\n`, { encoding: 'utf-8', mode: 0o600 })
+  const secret = Buffer.from(generated, 'utf-8')
+  cachedSecrets.set(fileName, secret)
+  return secret
+}
@@ -0,0 +1,155 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+import { normalizeAlias, type AuthUser } from '../lib/auth-utils'
+import { findRosterUser, toAuthUser, type AllowedUserRecord } from './roster-store'
+import { resolveServerSecret } from './server-secrets'
+
+export const SESSION_COOKIE_NAME = 'ces3_session'
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+const SESSION_SECRET_FILE = 'session-secret'
+
+interface SessionPayload {
+  alias: string
+  issuedAt: number
+  expiresAt: number
+}
+
+function resolveSessionSecret(): Promise<Buffer> {
+  return resolveServerSecret({ envVar: 'SESSION_SECRET', fileName: SESSION_SECRET_FILE })
+}
+
+function sign(value: string, secret: Buffer): string {
+  return createHmac('sha256', secret).update(value).digest('base64url')
+}
+
+function parseCookies(header: string | null): Map<string, string> {
+  const cookies = new Map<string, string>()
+  if (!header) {
+    return cookies
+  }
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=')
+    if (separator === -1) {
+      continue
+    }
+    const name = part.slice(0, separator).trim()
+    const value = part.slice(separator + 1).trim()
+    if (name && !cookies.has(name)) {
+      try {
+        cookies.set(name, decodeURIComponent(value))
+      } catch {
+        cookies.set(name, value)
+      }
+    }
+  }
+
+  return cookies
+}
+
+function isSecureRequest(request: Request): boolean {
+  const forwardedProto = request.headers.get('x-forwarded-proto')
+  if (forwardedProto) {
+    return forwardedProto.split(',')[0]?.trim().toLowerCase() === 'https'
+  }
+  try {
+    return new URL(request.url).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function serializeCookie(request: Request, value: string, maxAgeSeconds: number): string {
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${encodeURIComponent(value)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${maxAgeSeconds}`,
+  ]
+  if (isSecureRequest(request)) {
+    attributes.push('Secure')
+  }
+  return attributes.join('; ')
+}
+
+export async function createSessionToken(alias: string, now: number = Date.now()): Promise<string> {
+  const payload: SessionPayload = {
+    alias: normalizeAlias(alias),
+    issuedAt: now,
+    expiresAt: now + SESSION_MAX_AGE_SECONDS * 1000,
+  }
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url')
+  const secret = await resolveSessionSecret()
+  return `${encoded}.${sign(encoded, secret)}`
+}
+
+export async function verifySessionToken(
+  token: string,
+  now: number = Date.now(),
+): Promise<SessionPayload | null> {
+  const [encoded, signature, ...rest] = token.split('.')
+  if (!encoded || !signature || rest.length > 0) {
+    return null
+  }
+
+  const secret = await resolveSessionSecret()
+  const expected = Buffer.from(sign(encoded, secret), 'utf-8')
+  const provided = Buffer.from(signature, 'utf-8')
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as Partial<SessionPayload>
+    const alias = typeof parsed.alias === 'string' ? normalizeAlias(parsed.alias) : ''
+    if (!alias || typeof parsed.expiresAt !== 'number' || parsed.expiresAt <= now) {
+      return null
+    }
+    return {
+      alias,
+      issuedAt: typeof parsed.issuedAt === 'number' ? parsed.issuedAt : 0,
+      expiresAt: parsed.expiresAt,
+    }
+  } catch {
+    return null
+  }
+}
+
+export async function createSessionCookie(request: Request, alias: string): Promise<string> {
+  const token = await createSessionToken(alias)
+  return serializeCookie(request, token, SESSION_MAX_AGE_SECONDS)
+}
+
+export function clearSessionCookie(request: Request): string {
+  return serializeCookie(request, '', 0)
+}
+
+/** Changing or removing a password signs out every session issued before the change. */
+function issuedBeforePasswordChange(session: SessionPayload, record: AllowedUserRecord): boolean {
+  const changedAt = record.passwordChangedAt ? Date.parse(record.passwordChangedAt) : Number.NaN
+  return Number.isFinite(changedAt) && session.issuedAt < changedAt
+}
+
+/**
+ * Resolves the signed-in roster member for a request. The roster is re-read on every
+ * call so role changes, removals and password changes take effect without waiting for
+ * the cookie to expire.
+ */
+export async function getSessionUser(request: Request): Promise<AuthUser | null> {
+  const token = parseCookies(request.headers.get('cookie')).get(SESSION_COOKIE_NAME)
+  if (!token) {
+    return null
+  }
+
+  const session = await verifySessionToken(token)
+  if (!session) {
+    return null
+  }
+
+  const record = await findRosterUser(session.alias)
+  if (!record || issuedBeforePasswordChange(session, record)) {
+    return null
+  }
+  return toAuthUser(record)
+}
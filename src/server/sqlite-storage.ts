@@ -0,0 +1,447 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import type { StorageAdapter, StorageDocument } from './storage-adapter'
+
+type SqliteValue = string | number | null
+
+interface SqliteStatement {
+  run(...params: SqliteValue[]): unknown
+  get(...params: SqliteValue[]): unknown
+  all(...params: SqliteValue[]): unknown[]
+}
+
+/** The subset shared by `bun:sqlite` and `node:sqlite`, so either runtime can host the store. */
+interface SqliteDatabase {
+  exec(sql: string): unknown
+  prepare(sql: string): SqliteStatement
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS documents (
+  name TEXT PRIMARY KEY,
+  meta TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS contests (
+  id TEXT PRIMARY KEY,
+  position INTEGER NOT NULL,
+  slug TEXT NOT NULL,
+  status TEXT NOT NULL,
+  payload TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS contests_slug_idx ON contests (slug);
+CREATE TABLE IF NOT EXISTS logos (
+  id TEXT PRIMARY KEY,
+  position INTEGER NOT NULL,
+  contest_id TEXT NOT NULL,
+  owner_alias TEXT,
+  removed_at TEXT,
+  payload TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS logos_contest_idx ON logos (contest_id);
+CREATE INDEX IF NOT EXISTS logos_owner_idx ON logos (owner_alias);
+CREATE TABLE IF NOT EXISTS contest_votes (
+  contest_id TEXT PRIMARY KEY,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS ratings (
+  contest_id TEXT NOT NULL,
+  logo_id TEXT NOT NULL,
+  rating REAL NOT NULL,
+  payload TEXT NOT NULL,
+  PRIMARY KEY (contest_id, logo_id)
+);
+CREATE INDEX IF NOT EXISTS ratings_logo_idx ON ratings (logo_id);
+CREATE TABLE IF NOT EXISTS matches (
+  contest_id TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  winner_id TEXT NOT NULL,
+  loser_id TEXT NOT NULL,
+  voter_hash TEXT,
+  timestamp INTEGER NOT NULL,
+  winner_version INTEGER,
+  loser_version INTEGER,
+  PRIMARY KEY (contest_id, seq)
+);
+CREATE INDEX IF NOT EXISTS matches_voter_idx ON matches (contest_id, voter_hash);
+CREATE INDEX IF NOT EXISTS matches_winner_idx ON matches (contest_id, winner_id);
+CREATE INDEX IF NOT EXISTS matches_loser_idx ON matches (contest_id, loser_id);
+`
+
+/**
+ * Changes to tables created by an earlier release, in order. `PRAGMA user_version` records how
+ * many have run; fresh databases get the columns from SCHEMA, so each step checks before it
+ * alters anything.
+ */
+const SCHEMA_MIGRATIONS: Array<(db: SqliteDatabase) => void> = [
+  // Artwork version each voter was shown.
+  (db) => {
+    addColumnIfMissing(db, 'matches', 'winner_version', 'INTEGER')
+    addColumnIfMissing(db, 'matches', 'loser_version', 'INTEGER')
+  },
+]
+
+const MATCH_COLUMNS = 'winner_id, loser_id, voter_hash, timestamp, winner_version, loser_version'
+
+interface MatchRow {
+  winner_id: string
+  loser_id: string
+  voter_hash: string | null
+  timestamp: number
+  winner_version: number | null
+  loser_version: number | null
+}
+
+interface StoredMatch {
+  winnerId: string
+  loserId: string
+  voterHash: string | null
+  timestamp: number
+  winnerVersion: number | null
+  loserVersion: number | null
+}
+
+function addColumnIfMissing(db: SqliteDatabase, table: string, column: string, type: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
+  if (!columns.some((entry) => entry.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`)
+  }
+}
+
+function migrateSchema(db: SqliteDatabase) {
+  const row = db.prepare('PRAGMA user_version').get() as { user_version: number } | undefined
+  for (let version = Number(row?.user_version ?? 0); version < SCHEMA_MIGRATIONS.length; version += 1) {
+    db.exec('BEGIN IMMEDIATE')
+    try {
+      SCHEMA_MIGRATIONS[version]!(db)
+      db.exec(`PRAGMA user_version = ${version + 1}`)
+      db.exec('COMMIT')
+    } catch (error) {
+      db.exec('ROLLBACK')
+      throw error
+    }
+  }
+}
+
+async function openDatabase(filePath: string): Promise<SqliteDatabase> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  // Resolved at runtime so bundlers and type-checking don't require either driver.
+  if (process.versions.bun) {
+    const driver = 'bun:sqlite'
+    const { Database } = await import(/* @vite-ignore */ driver)
+    return new Database(filePath, { create: true }) as SqliteDatabase
+  }
+  const driver = 'node:sqlite'
+  try {
+    const { DatabaseSync } = await import(/* @vite-ignore */ driver)
+    return new DatabaseSync(filePath) as SqliteDatabase
+  } catch (error) {
+    throw new Error(
+      `DATA_STORE=sqlite needs Bun or a Node.js release with node:sqlite (${(error as Error).message}).`,
+    )
+  }
+}
+
+function toRecordArray(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+    : []
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+function asVersion(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null
+}
+
+function readMatch(value: unknown): StoredMatch | null {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+  const record = value as Record<string, unknown>
+  if (typeof record.winnerId !== 'string' || typeof record.loserId !== 'string') {
+    return null
+  }
+  return {
+    winnerId: record.winnerId,
+    loserId: record.loserId,
+    voterHash: asString(record.voterHash),
+    timestamp: typeof record.timestamp === 'number' ? record.timestamp : Date.now(),
+    winnerVersion: asVersion(record.winnerVersion),
+    loserVersion: asVersion(record.loserVersion),
+  }
+}
+
+function sameMatch(row: MatchRow | null | undefined, match: StoredMatch | undefined): boolean {
+  return Boolean(
+    row &&
+      match &&
+      row.winner_id === match.winnerId &&
+      row.loser_id === match.loserId &&
+      row.voter_hash === match.voterHash &&
+      Number(row.timestamp) === match.timestamp &&
+      (row.winner_version ?? null) === match.winnerVersion &&
+      (row.loser_version ?? null) === match.loserVersion,
+  )
+}
+
+/**
+ * SQLite-backed store. Documents are split into indexed tables (contests, logos, per-contest
+ * ratings and match history) and every operation runs inside a serialized transaction, so
+ * concurrent votes cannot overwrite each other.
+ */
+export async function createSqliteStorageAdapter(filePath: string): Promise<StorageAdapter> {
+  const db = await openDatabase(filePath)
+  db.exec('PRAGMA journal_mode = WAL')
+  db.exec('PRAGMA busy_timeout = 5000')
+  db.exec(SCHEMA)
+  migrateSchema(db)
+
+  const transactionScope = new AsyncLocalStorage<boolean>()
+  let queue: Promise<unknown> = Promise.resolve()
+
+  // One connection is shared by every request, so transactions are queued in-process and
+  // BEGIN IMMEDIATE guards against other processes using the same database file.
+  function exclusive<T>(fn: () => Promise<T>, options: { write: boolean }): Promise<T> {
+    if (transactionScope.getStore()) {
+      return fn()
+    }
+    const run = queue.then(() =>
+      transactionScope.run(true, async () => {
+        if (!options.write) {
+          return fn()
+        }
+        db.exec('BEGIN IMMEDIATE')
+        try {
+          const result = await fn()
+          db.exec('COMMIT')
+          return result
+        } catch (error) {
+          db.exec('ROLLBACK')
+          throw error
+        }
+      }),
+    )
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  function readMeta(name: StorageDocument): Record<string, unknown> | null {
+    const row = db.prepare('SELECT meta FROM documents WHERE name = ?').get(name) as
+      | { meta: string }
+      | null
+      | undefined
+    return row ? (JSON.parse(row.meta) as Record<string, unknown>) : null
+  }
+
+  function writeMeta(name: StorageDocument, meta: Record<string, unknown>) {
+    db.prepare(
+      'INSERT INTO documents (name, meta) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET meta = excluded.meta',
+    ).run(name, JSON.stringify(meta))
+  }
+
+  function payloads(sql: string, ...params: SqliteValue[]): unknown[] {
+    return (db.prepare(sql).all(...params) as Array<{ payload: string }>).map(
+      (row) => JSON.parse(row.payload) as unknown,
+    )
+  }
+
+  function readVotes(meta: Record<string, unknown>) {
+    const contests: Record<string, unknown> = {}
+    const rows = db.prepare('SELECT contest_id, updated_at FROM contest_votes').all() as Array<{
+      contest_id: string
+      updated_at: string
+    }>
+    for (const row of rows) {
+      const entries: Record<string, unknown> = {}
+      const ratingRows = db
+        .prepare('SELECT logo_id, payload FROM ratings WHERE contest_id = ? ORDER BY rowid')
+        .all(row.contest_id) as Array<{ logo_id: string; payload: string }>
+      for (const rating of ratingRows) {
+        entries[rating.logo_id] = JSON.parse(rating.payload)
+      }
+      const history = (
+        db
+          .prepare(`SELECT ${MATCH_COLUMNS} FROM matches WHERE contest_id = ? ORDER BY seq DESC`)
+          .all(row.contest_id) as MatchRow[]
+      ).map((match) => ({
+        winnerId: match.winner_id,
+        loserId: match.loser_id,
+        timestamp: Number(match.timestamp),
+        voterHash: match.voter_hash,
+        ...(match.winner_version != null ? { winnerVersion: Number(match.winner_version) } : {}),
+        ...(match.loser_version != null ? { loserVersion: Number(match.loser_version) } : {}),
+      }))
+      contests[row.contest_id] = { state: { entries, history }, updatedAt: row.updated_at }
+    }
+    return { ...meta, contests }
+  }
+
+  function writeMatches(contestId: string, history: StoredMatch[]) {
+    // Stored oldest-first so a new vote usually appends a single row. Anything else (a reset,
+    // a replay, or the history cap trimming old votes) rewrites the contest's rows.
+    const ordered = [...history].reverse()
+    const count = Number(
+      (db.prepare('SELECT COUNT(*) AS count FROM matches WHERE contest_id = ?').get(contestId) as {
+        count: number
+      }).count,
+    )
+    const select = db.prepare(`SELECT ${MATCH_COLUMNS} FROM matches WHERE contest_id = ? AND seq = ?`)
+    const canAppend =
+      count === 0 ||
+      (ordered.length >= count &&
+        sameMatch(select.get(contestId, 0) as MatchRow | null, ordered[0]) &&
+        sameMatch(select.get(contestId, count - 1) as MatchRow | null, ordered[count - 1]))
+
+    let start = count
+    if (!canAppend) {
+      db.prepare('DELETE FROM matches WHERE contest_id = ?').run(contestId)
+      start = 0
+    }
+
+    const insert = db.prepare(
+      `INSERT INTO matches (contest_id, seq, ${MATCH_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    for (let seq = start; seq < ordered.length; seq += 1) {
+      const match = ordered[seq]!
+      insert.run(
+        contestId,
+        seq,
+        match.winnerId,
+        match.loserId,
+        match.voterHash,
+        match.timestamp,
+        match.winnerVersion,
+        match.loserVersion,
+      )
+    }
+  }
+
+  function writeVotes(data: Record<string, unknown>) {
+    const contests =
+      data.contests && typeof data.contests === 'object'
+        ? (data.contests as Record<string, { state?: { entries?: unknown; history?: unknown }; updatedAt?: unknown }>)
+        : {}
+
+    const existing = db.prepare('SELECT contest_id FROM contest_votes').all() as Array<{ contest_id: string }>
+    for (const { contest_id: contestId } of existing) {
+      if (!(contestId in contests)) {
+        db.prepare('DELETE FROM contest_votes WHERE contest_id = ?').run(contestId)
+        db.prepare('DELETE FROM ratings WHERE contest_id = ?').run(contestId)
+        db.prepare('DELETE FROM matches WHERE contest_id = ?').run(contestId)
+      }
+    }
+
+    for (const [contestId, contestState] of Object.entries(contests)) {
+      db.prepare(
+        'INSERT INTO contest_votes (contest_id, updated_at) VALUES (?, ?) ON CONFLICT(contest_id) DO UPDATE SET updated_at = excluded.updated_at',
+      ).run(contestId, asString(contestState?.updatedAt) ?? new Date().toISOString())
+
+      db.prepare('DELETE FROM ratings WHERE contest_id = ?').run(contestId)
+      const entries =
+        contestState?.state?.entries && typeof contestState.state.entries === 'object'
+          ? (contestState.state.entries as Record<string, { rating?: unknown }>)
+          : {}
+      const insertRating = db.prepare(
+        'INSERT INTO ratings (contest_id, logo_id, rating, payload) VALUES (?, ?, ?, ?)',
+      )
+      for (const [logoId, entry] of Object.entries(entries)) {
+        const rating = typeof entry?.rating === 'number' ? entry.rating : 0
+        insertRating.run(contestId, logoId, rating, JSON.stringify(entry))
+      }
+
+      const history = Array.isArray(contestState?.state?.history)
+        ? contestState.state.history.map(readMatch).filter((match): match is StoredMatch => Boolean(match))
+        : []
+      writeMatches(contestId, history)
+    }
+  }
+
+  function replaceRows(
+    table: 'logos' | 'contests',
+    records: Array<Record<string, unknown>>,
+    insert: (record: Record<string, unknown>, position: number) => void,
+  ) {
+    db.prepare(`DELETE FROM ${table}`).run()
+    records.forEach((record, position) => insert(record, position))
+  }
+
+  function splitMeta(data: unknown, listKey: string): Record<string, unknown> {
+    const record = data && typeof data === 'object' ? (data as Record<string, unknown>) : {}
+    const { [listKey]: _list, ...meta } = record
+    return meta
+  }
+
+  return {
+    backend: 'sqlite',
+    readDocument(name) {
+      return exclusive(async () => {
+        const meta = readMeta(name)
+        if (!meta) {
+          return null
+        }
+        switch (name) {
+          case 'logos':
+            return { ...meta, logos: payloads('SELECT payload FROM logos ORDER BY position') }
+          case 'contests':
+            return { ...meta, contests: payloads('SELECT payload FROM contests ORDER BY position') }
+          case 'votes':
+            return readVotes(meta)
+        }
+      }, { write: false })
+    },
+    writeDocument(name, data) {
+      return exclusive(async () => {
+        const record = data && typeof data === 'object' ? (data as Record<string, unknown>) : {}
+        switch (name) {
+          case 'logos': {
+            const insert = db.prepare(
+              'INSERT INTO logos (id, position, contest_id, owner_alias, removed_at, payload) VALUES (?, ?, ?, ?, ?, ?)',
+            )
+            replaceRows('logos', toRecordArray(record.logos), (logo, position) => {
+              insert.run(
+                String(logo.id),
+                position,
+                String(logo.contestId ?? ''),
+                asString(logo.ownerAlias),
+                asString(logo.removedAt),
+                JSON.stringify(logo),
+              )
+            })
+            writeMeta(name, splitMeta(record, 'logos'))
+            break
+          }
+          case 'contests': {
+            const insert = db.prepare(
+              'INSERT INTO contests (id, position, slug, status, payload) VALUES (?, ?, ?, ?, ?)',
+            )
+            replaceRows('contests', toRecordArray(record.contests), (contest, position) => {
+              insert.run(
+                String(contest.id),
+                position,
+                String(contest.slug ?? contest.id),
+                String(contest.status ?? 'draft'),
+                JSON.stringify(contest),
+              )
+            })
+            writeMeta(name, splitMeta(record, 'contests'))
+            break
+          }
+          case 'votes':
+            writeVotes(record)
+            writeMeta(name, splitMeta(record, 'contests'))
+            break
+        }
+      }, { write: true })
+    },
+    // A single connection can only hold one transaction, so SQLite serializes all of them.
+    transaction(_documents, fn) {
+      return exclusive(fn, { write: true })
+    },
+    // Rows are only replaced inside committed transactions, so there is no torn file to restore.
+    restoreLatestBackup: async () => false,
+  }
+}
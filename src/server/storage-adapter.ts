@@ -0,0 +1,173 @@
+import { createJsonStorageAdapter } from './json-storage'
+import { runPendingMigrations } from './migrations'
+import { createSqliteStorageAdapter } from './sqlite-storage'
+import { resolveDataPath } from './storage-utils'
+
+export type StorageBackend = 'json' | 'sqlite'
+
+/** Runtime documents persisted by the data and contest stores. */
+export type StorageDocument = 'logos' | 'votes' | 'contests'
+
+export interface StorageWriteOptions {
+  forceBackup?: boolean
+}
+
+/** Lock order for transactions; acquiring documents in a fixed order rules out deadlocks. */
+export const STORAGE_DOCUMENTS: readonly StorageDocument[] = ['contests', 'logos', 'votes']
+
+/**
+ * Raised when a write was based on a stale revision (`If-Match` no longer matches the
+ * record's `updatedAt`). Routes map it to 409 so editors reload instead of overwriting.
+ */
+export class ConcurrentUpdateError extends Error {
+  constructor(message = 'This record was changed by someone else. Reload it and try again.') {
+    super(message)
+    this.name = 'ConcurrentUpdateError'
+  }
+}
+
+export interface RevisionOptions {
+  /** `updatedAt` the caller last saw; the write is rejected when the record has moved on. */
+  expectedUpdatedAt?: string | null
+}
+
+export function assertExpectedRevision(currentUpdatedAt: string, options: RevisionOptions = {}) {
+  if (options.expectedUpdatedAt && options.expectedUpdatedAt !== currentUpdatedAt) {
+    throw new ConcurrentUpdateError()
+  }
+}
+
+/**
+ * Persistence behind `data-store.ts` and `contest-store.ts`. Documents keep the shape of the
+ * original JSON files so both backends can be swapped without touching the stores' logic.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend
+  /**
+   * Returns the stored document, or null when it has never been written. Throws when the
+   * stored content cannot be parsed.
+   */
+  readDocument(name: StorageDocument): Promise<unknown | null>
+  writeDocument(name: StorageDocument, data: unknown, options?: StorageWriteOptions): Promise<void>
+  /**
+   * Runs `fn` as one unit of work over the listed documents, serialized against other
+   * transactions on the same documents. Nested calls join the outer transaction, so store
+   * functions can be composed freely.
+   */
+  transaction<T>(documents: readonly StorageDocument[], fn: () => Promise<T>): Promise<T>
+  /** Restores the newest backup of a document after a failed read; false if none was usable. */
+  restoreLatestBackup(name: StorageDocument): Promise<boolean>
+}
+
+const DEFAULT_SQLITE_FILE = 'badge-arena.sqlite'
+
+let adapterPromise: Promise<StorageAdapter> | null = null
+
+type DocumentChangeListener = (name: StorageDocument) => void
+
+const documentChangeListeners = new Set<DocumentChangeListener>()
+
+/**
+ * Registers a callback run whenever a document may have changed: after every write, restore
+ * and transaction touching it (committed or not). Stores use it to drop caches derived from a
+ * document, whichever module wrote it. Returns a function that unregisters the callback.
+ */
+export function onDocumentChange(listener: DocumentChangeListener): () => void {
+  documentChangeListeners.add(listener)
+  return () => {
+    documentChangeListeners.delete(listener)
+  }
+}
+
+function notifyDocumentChange(name: StorageDocument) {
+  for (const listener of documentChangeListeners) {
+    try {
+      listener(name)
+    } catch (error) {
+      console.error(`Document change listener failed for ${name}`, error)
+    }
+  }
+}
+
+function withChangeNotifications(adapter: StorageAdapter): StorageAdapter {
+  return {
+    backend: adapter.backend,
+    readDocument: (name) => adapter.readDocument(name),
+    async writeDocument(name, data, options) {
+      try {
+        await adapter.writeDocument(name, data, options)
+      } finally {
+        notifyDocumentChange(name)
+      }
+    },
+    async transaction(documents, fn) {
+      try {
+        return await adapter.transaction(documents, fn)
+      } finally {
+        // Writes inside a rolled-back transaction were visible while it ran.
+        documents.forEach(notifyDocumentChange)
+      }
+    },
+    async restoreLatestBackup(name) {
+      const restored = await adapter.restoreLatestBackup(name)
+      if (restored) {
+        notifyDocumentChange(name)
+      }
+      return restored
+    },
+  }
+}
+
+export function resolveStorageBackend(value: string | undefined = process.env.DATA_STORE): StorageBackend {
+  const normalized = value?.trim().toLowerCase()
+  if (!normalized || normalized === 'json') {
+    return 'json'
+  }
+  if (normalized === 'sqlite') {
+    return 'sqlite'
+  }
+  throw new Error(`Unsupported DATA_STORE "${value}". Use "json" or "sqlite".`)
+}
+
+export function resolveSqlitePath(): string {
+  return process.env.SQLITE_PATH?.trim() || resolveDataPath(DEFAULT_SQLITE_FILE)
+}
+
+/**
+ * Startup check for the JSON backend: files written by an older release are upgraded (with a
+ * backup of the original) before any store reads them. Data from a newer release rejects, so
+ * the server refuses to run rather than downgrade it.
+ */
+async function migrateJsonDocuments(): Promise<void> {
+  for (const report of await runPendingMigrations()) {
+    if (report.applied) {
+      console.info(
+        `Migrated ${report.document} data from schema v${report.fromVersion} to v${report.toVersion} (${report.changedFields} field changes).`,
+      )
+    }
+  }
+}
+
+export function getStorageAdapter(): Promise<StorageAdapter> {
+  if (!adapterPromise) {
+    const backend = resolveStorageBackend()
+    adapterPromise =
+      backend === 'sqlite'
+        ? createSqliteStorageAdapter(resolveSqlitePath())
+        : migrateJsonDocuments().then(() => createJsonStorageAdapter())
+    adapterPromise = adapterPromise.then(withChangeNotifications)
+    adapterPromise.catch(() => {
+      adapterPromise = null
+    })
+  }
+  return adapterPromise
+}
+
+/** Runs `fn` inside a storage transaction on the configured adapter. */
+export async function withStorageTransaction<T>(
+  documents: readonly StorageDocument[],
+  fn: () => Promise<T>,
+): Promise<T> {
+  const storage = await getStorageAdapter()
+  return storage.transaction(documents, fn)
+}
@@ -0,0 +1,223 @@
+/**
+ * Allowlist sanitizer for uploaded SVG logos. The markup is tokenized and rebuilt from the
+ * elements and attributes a static vector logo needs; everything else is dropped: scripts,
+ * event handlers, foreignObject, animation (which can rewrite hrefs), stylesheets, external
+ * references and DOCTYPE/entity declarations. Malformed markup is rejected rather than
+ * repaired, so what we store is exactly what we checked.
+ */
+
+export class SvgSanitizationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SvgSanitizationError'
+  }
+}
+
+const ALLOWED_ELEMENTS = new Set(
+  [
+    'svg', 'g', 'defs', 'title', 'desc', 'symbol', 'use', 'path', 'rect', 'circle', 'ellipse',
+    'line', 'polyline', 'polygon', 'text', 'tspan', 'textPath', 'linearGradient',
+    'radialGradient', 'stop', 'clipPath', 'mask', 'pattern', 'marker', 'image', 'filter',
+    'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feDropShadow',
+    'feFlood', 'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feMerge',
+    'feMergeNode', 'feMorphology', 'feOffset',
+  ].map((name) => name.toLowerCase()),
+)
+
+/** Dropped but their children kept, so linked or switched artwork still renders. */
+const UNWRAPPED_ELEMENTS = new Set(['a', 'switch'])
+
+const ALLOWED_NAMESPACED_ATTRIBUTES = new Set(['xlink:href', 'xml:space', 'xmlns:xlink'])
+const HREF_ATTRIBUTES = new Set(['href', 'xlink:href'])
+const ATTRIBUTE_NAME = /^[a-zA-Z_][\w.-]*(?::[a-zA-Z_][\w.-]*)?$/
+const SAFE_IMAGE_DATA_URL = /^data:image\/(?:png|jpeg|gif|webp);base64,[a-z0-9+/=\s]+$/i
+const PREDEFINED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (_, entity: string) => {
+    if (entity.startsWith('#')) {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X' ? Number.parseInt(entity.slice(2), 16) : Number(entity.slice(1))
+      if (!Number.isFinite(codePoint) || codePoint < 0 || codePoint > 0x10ffff) {
+        throw new SvgSanitizationError('SVG contains an invalid character reference.')
+      }
+      return String.fromCodePoint(codePoint)
+    }
+    const decoded = PREDEFINED_ENTITIES[entity.toLowerCase()]
+    if (decoded === undefined) {
+      throw new SvgSanitizationError(`SVG uses an undeclared entity (&${entity};).`)
+    }
+    return decoded
+  })
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;')
+}
+
+/** Lowercased with whitespace and control characters removed, as browsers read URL schemes. */
+function compact(value: string): string {
+  return value.replace(/[\s\u0000-\u001f]+/g, '').toLowerCase()
+}
+
+function isSafeStyle(value: string): boolean {
+  const normalized = compact(value).replace(/\\/g, '')
+  if (/@import|expression\(|javascript:|behavior:|-moz-binding/.test(normalized)) {
+    return false
+  }
+  // Only same-document references such as fill: url(#gradient).
+  return [...normalized.matchAll(/url\(([^)]*)\)/g)].every((match) => /^['"]?#/.test(match[1] ?? ''))
+}
+
+function sanitizeAttribute(element: string, name: string, rawValue: string): string | null {
+  const lowerName = name.toLowerCase()
+  if (!ATTRIBUTE_NAME.test(name) || lowerName.startsWith('on')) {
+    return null
+  }
+  if (lowerName.includes(':') && !ALLOWED_NAMESPACED_ATTRIBUTES.has(lowerName)) {
+    return null
+  }
+
+  const value = decodeEntities(rawValue)
+  if (HREF_ATTRIBUTES.has(lowerName)) {
+    const target = value.trim()
+    if (target.startsWith('#') || (element === 'image' && SAFE_IMAGE_DATA_URL.test(target))) {
+      return target
+    }
+    return null
+  }
+  if (lowerName === 'style' || /url\(/i.test(value)) {
+    return isSafeStyle(value) ? value : null
+  }
+  if (/javascript:|vbscript:|data:/.test(compact(value))) {
+    return null
+  }
+  return value
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/g
+
+function parseAttributes(source: string): Array<[string, string]> {
+  const attributes: Array<[string, string]> = []
+  const seen = new Set<string>()
+  let consumed = ''
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1]!
+    const value = match[2] ?? match[3]
+    if (value === undefined) {
+      throw new SvgSanitizationError(`SVG attribute ${name} has no quoted value.`)
+    }
+    if (seen.has(name)) {
+      throw new SvgSanitizationError(`SVG repeats the ${name} attribute.`)
+    }
+    seen.add(name)
+    attributes.push([name, value])
+    consumed += match[0]
+  }
+  if (consumed.replace(/\s/g, '').length !== source.replace(/\s/g, '').length) {
+    throw new SvgSanitizationError('SVG contains a malformed tag.')
+  }
+  return attributes
+}
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE(?:[^[>]|\[[\s\S]*?\])*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|[^<]+/gi
+
+interface OpenElement {
+  name: string
+  /** False when the element is dropped or unwrapped, so its closing tag is not emitted. */
+  emitted: boolean
+}
+
+/** Returns the sanitized SVG markup, or throws SvgSanitizationError if it cannot be parsed. */
+export function sanitizeSvg(source: string): string {
+  const input = source.replace(/^\uFEFF/, '')
+  const output: string[] = []
+  const stack: OpenElement[] = []
+  // Depth inside a dropped subtree; nothing is emitted while positive.
+  let droppedDepth = 0
+  let sawRoot = false
+  let position = 0
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    if (match.index !== position) {
+      throw new SvgSanitizationError('SVG contains malformed markup.')
+    }
+    position = match.index + match[0].length
+    const token = match[0]
+    const [, cdata, closingName, openingName, attributeSource, selfClosing] = match
+
+    if (closingName !== undefined) {
+      const open = stack.pop()
+      if (!open || open.name !== closingName) {
+        throw new SvgSanitizationError('SVG has mismatched tags.')
+      }
+      if (droppedDepth > 0) {
+        droppedDepth -= 1
+      } else if (open.emitted) {
+        output.push(`</${open.name}>`)
+      }
+      continue
+    }
+
+    if (openingName !== undefined) {
+      const lowerName = openingName.toLowerCase()
+      if (!sawRoot) {
+        if (lowerName !== 'svg') {
+          throw new SvgSanitizationError('SVG root element must be <svg>.')
+        }
+        sawRoot = true
+      } else if (stack.length === 0) {
+        throw new SvgSanitizationError('SVG has content after the root element.')
+      }
+
+      const attributes = parseAttributes(attributeSource ?? '')
+      const isClosed = selfClosing === '/'
+      let emitted = false
+      if (droppedDepth > 0 || (!ALLOWED_ELEMENTS.has(lowerName) && !UNWRAPPED_ELEMENTS.has(lowerName))) {
+        if (!isClosed) droppedDepth += 1
+      } else if (ALLOWED_ELEMENTS.has(lowerName)) {
+        const kept = attributes.flatMap(([name, value]) => {
+          const sanitized = sanitizeAttribute(lowerName, name, value)
+          return sanitized === null ? [] : [` ${name}="${escapeAttribute(sanitized)}"`]
+        })
+        output.push(`<${openingName}${kept.join('')}${isClosed ? '/>' : '>'}`)
+        emitted = true
+      }
+      if (!isClosed) {
+        stack.push({ name: openingName, emitted })
+      }
+      continue
+    }
+
+    if (token.startsWith('<')) {
+      // Comments, processing instructions and DOCTYPEs are dropped; CDATA becomes plain text.
+      if (cdata !== undefined && droppedDepth === 0 && stack.length > 0) {
+        output.push(escapeText(cdata))
+      }
+      continue
+    }
+
+    if (stack.length === 0) {
+      if (token.trim()) {
+        throw new SvgSanitizationError('SVG has text outside the root element.')
+      }
+      continue
+    }
+    if (droppedDepth === 0) {
+      output.push(escapeText(decodeEntities(token)))
+    }
+  }
+
+  if (position !== input.length) {
+    throw new SvgSanitizationError('SVG contains malformed markup.')
+  }
+  if (!sawRoot || stack.length > 0) {
+    throw new SvgSanitizationError('SVG is incomplete.')
+  }
+
+  return `${output.join('')}\n`
+}
@@ -0,0 +1,614 @@
+import { createHash } from 'node:crypto'
+import { createReadStream, createWriteStream, promises as fs } from 'node:fs'
+import path from 'node:path'
+import { createInterface } from 'node:readline'
+import type { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { createGunzip, createGzip } from 'node:zlib'
+
+import { atomicWrite } from './persistence-utils'
+import { ensureDataDir, resolveDataPath } from './storage-utils'
+
+const ACTIVE_LOG = 'vote-events.ndjson'
+const SEGMENT_DIR = 'vote-events'
+const MANIFEST_FILE = 'manifest.json'
+const MANIFEST_VERSION = 1
+/** Held by whichever process (server or `scripts/vote-log.ts`) is writing the log. */
+const LOCK_FILE = 'vote-events.lock'
+const LOCK_RETRY_MS = 20
+const LOCK_TIMEOUT_MS = 10_000
+/** A lock older than this was left by a process that died mid-write. */
+const LOCK_STALE_MS = 60_000
+
+const DEFAULT_MAX_BYTES = 8 * 1024 * 1024
+const DEFAULT_MAX_AGE_DAYS = 30
+
+export interface VoteEventLogConfig {
+  maxBytes: number
+  maxAgeMs: number
+  gzip: boolean
+}
+
+/** A rotated, read-only slice of the log. `sha256` covers the uncompressed contents. */
+export interface VoteEventSegment {
+  fileName: string
+  sequence: number
+  events: number
+  firstEventAt: string | null
+  lastEventAt: string | null
+  lastHash: string | null
+  sha256: string
+  compressed: boolean
+}
+
+/**
+ * Index of rotated segments plus the chain head. `head` is rewritten after every append so a
+ * truncated tail is detectable even though the remaining lines still chain correctly. A crash
+ * between the append and the rewrite leaves events past the head; they are adopted when the
+ * manifest is next loaded (see reconcileHead).
+ */
+export interface VoteEventLogManifest {
+  version: number
+  segments: VoteEventSegment[]
+  head: {
+    events: number
+    lastHash: string | null
+    activeSince: string | null
+  }
+}
+
+export interface VoteEventLine {
+  /** Segment file name, or `vote-events.ndjson` for the active file. */
+  file: string
+  lineNumber: number
+  /** Zero-based position of the line in the whole log, across segments. */
+  index: number
+  text: string
+}
+
+/** A point in the log: how many lines precede it and the chain hash of the last of them. */
+export interface VoteEventLogPosition {
+  lines: number
+  lastHash: string | null
+}
+
+export type VoteEventLogIssueKind =
+  | 'segment-missing'
+  | 'segment-modified'
+  | 'malformed'
+  | 'hash-mismatch'
+  | 'unchained'
+  | 'truncated'
+
+export interface VoteEventLogIssue {
+  kind: VoteEventLogIssueKind
+  file: string
+  lineNumber: number | null
+  message: string
+}
+
+export interface VoteEventLogVerification {
+  ok: boolean
+  segments: number
+  events: number
+  /** Events written before chaining was introduced; they are accepted but not protected. */
+  legacyEvents: number
+  issues: VoteEventLogIssue[]
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export function resolveVoteEventLogConfig(): VoteEventLogConfig {
+  const gzip = process.env.VOTE_EVENT_LOG_GZIP?.trim().toLowerCase()
+  return {
+    maxBytes: readPositiveInt(process.env.VOTE_EVENT_LOG_MAX_BYTES, DEFAULT_MAX_BYTES),
+    maxAgeMs: readPositiveInt(process.env.VOTE_EVENT_LOG_MAX_AGE_DAYS, DEFAULT_MAX_AGE_DAYS) * 24 * 60 * 60_000,
+    gzip: gzip === '1' || gzip === 'true',
+  }
+}
+
+export function resolveVoteEventLogPath(): string {
+  return resolveDataPath(ACTIVE_LOG)
+}
+
+function resolveSegmentPath(fileName: string): string {
+  return path.join(resolveDataPath(SEGMENT_DIR), fileName)
+}
+
+function hashLine(text: string): string {
+  return createHash('sha256').update(text).digest('hex')
+}
+
+function isMissing(error: unknown): boolean {
+  return Boolean(error) && typeof error === 'object' && (error as { code?: string }).code === 'ENOENT'
+}
+
+/** Chain hash of a log line, as carried by the next line's `prevHash`. */
+export function hashVoteEventLine(text: string): string {
+  return hashLine(text)
+}
+
+function readPrevHash(text: string): unknown {
+  try {
+    return (JSON.parse(text) as { prevHash?: unknown }).prevHash
+  } catch {
+    return undefined
+  }
+}
+
+function readOccurredAt(text: string): string | null {
+  try {
+    const parsed = JSON.parse(text) as { occurredAt?: unknown }
+    return typeof parsed.occurredAt === 'string' ? parsed.occurredAt : null
+  } catch {
+    return null
+  }
+}
+
+async function* readLines(filePath: string, compressed: boolean): AsyncGenerator<string> {
+  const file = createReadStream(filePath)
+  let input: Readable = file
+  if (compressed) {
+    // pipe() does not forward errors: a read failure on the file would otherwise be unhandled
+    // and crash the process. Routed into gunzip, it reaches readline and rejects the loop below,
+    // like a corrupt archive does.
+    const gunzip = createGunzip()
+    file.on('error', (error) => gunzip.destroy(error))
+    gunzip.on('error', () => file.destroy())
+    input = file.pipe(gunzip)
+  }
+  const reader = createInterface({ input, crlfDelay: Infinity })
+  try {
+    for await (const line of reader) {
+      if (line.trim()) {
+        yield line
+      }
+    }
+  } finally {
+    reader.close()
+    file.destroy()
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return fs
+    .access(filePath)
+    .then(() => true)
+    .catch(() => false)
+}
+
+let manifestCache: VoteEventLogManifest | null = null
+// Identity of the manifest file the cache was loaded from or written to. Another process
+// (the vote-log CLI) replaces the file atomically, which changes the inode.
+let manifestStamp: string | null = null
+
+async function readManifestStamp(): Promise<string | null> {
+  const stats = await fs.stat(resolveSegmentPath(MANIFEST_FILE)).catch((error: unknown) => {
+    if (isMissing(error)) {
+      return null
+    }
+    throw error
+  })
+  return stats ? `${stats.ino}:${stats.size}:${stats.mtimeMs}` : null
+}
+
+/** Counts the active file when no manifest exists yet, e.g. on a deployment that predates rotation. */
+async function scanActiveHead(): Promise<VoteEventLogManifest['head']> {
+  const head: VoteEventLogManifest['head'] = { events: 0, lastHash: null, activeSince: null }
+  if (!(await fileExists(resolveVoteEventLogPath()))) {
+    return head
+  }
+  for await (const line of readLines(resolveVoteEventLogPath(), false)) {
+    head.events += 1
+    head.lastHash = hashLine(line)
+    head.activeSince ??= readOccurredAt(line)
+  }
+  return head
+}
+
+/**
+ * Appends write the events first and the manifest head second. After a crash between the two,
+ * the active file holds events past the recorded head. When those events chain on from the
+ * head, they were written by that last append, so the head is moved to cover them. Otherwise
+ * the head is left alone, and verification reports the mismatch.
+ */
+async function reconcileHead(manifest: VoteEventLogManifest): Promise<VoteEventLogManifest> {
+  const activePath = resolveVoteEventLogPath()
+  if (!(await fileExists(activePath))) {
+    return manifest
+  }
+  const recordedActive = manifest.head.events - manifest.segments.reduce((total, segment) => total + segment.events, 0)
+  const head = { ...manifest.head }
+  let index = 0
+  for await (const line of readLines(activePath, false)) {
+    index += 1
+    if (index <= recordedActive) {
+      continue
+    }
+    if (readPrevHash(line) !== head.lastHash) {
+      break
+    }
+    head.events += 1
+    head.lastHash = hashLine(line)
+    head.activeSince ??= readOccurredAt(line)
+  }
+  if (head.events === manifest.head.events) {
+    return manifest
+  }
+  console.warn(
+    `Vote event log has ${head.events - manifest.head.events} event(s) past the recorded head, left by an interrupted append; adopting them.`,
+  )
+  return { ...manifest, head }
+}
+
+/** The manifest, re-read whenever another process has rewritten it since it was cached. */
+export async function readVoteEventLogManifest(): Promise<VoteEventLogManifest> {
+  const stamp = await readManifestStamp()
+  if (manifestCache && stamp === manifestStamp) {
+    return manifestCache
+  }
+  manifestStamp = stamp
+  try {
+    const raw = await fs.readFile(resolveSegmentPath(MANIFEST_FILE), 'utf-8')
+    manifestCache = await reconcileHead(JSON.parse(raw) as VoteEventLogManifest)
+  } catch (error) {
+    if (!isMissing(error)) {
+      throw error
+    }
+    manifestCache = { version: MANIFEST_VERSION, segments: [], head: await scanActiveHead() }
+  }
+  return manifestCache
+}
+
+async function writeManifest(manifest: VoteEventLogManifest): Promise<void> {
+  await fs.mkdir(resolveDataPath(SEGMENT_DIR), { recursive: true })
+  await atomicWrite(resolveSegmentPath(MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`)
+  manifestCache = manifest
+  manifestStamp = await readManifestStamp()
+}
+
+/** A read was asked to resume from a position that is no longer on the log (it was replaced or rewritten). */
+export class VoteEventLogPositionError extends Error {
+  constructor(position: VoteEventLogPosition) {
+    super(`Vote event log no longer continues from line ${position.lines}.`)
+    this.name = 'VoteEventLogPositionError'
+  }
+}
+
+export class VoteEventLogLockedError extends Error {
+  constructor() {
+    super('The vote event log is locked by another process; try again once it has finished.')
+    this.name = 'VoteEventLogLockedError'
+  }
+}
+
+/**
+ * Takes the cross-process lock file for the duration of `fn`, so the server and the vote-log
+ * CLI never write the log at the same time. Stale locks from crashed processes are broken.
+ */
+async function withLogLock<T>(fn: () => Promise<T>): Promise<T> {
+  await ensureDataDir()
+  const lockPath = resolveDataPath(LOCK_FILE)
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, `${process.pid}\n`, { encoding: 'utf-8', flag: 'wx' })
+      break
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'EEXIST') {
+        throw error
+      }
+      const stats = await fs.stat(lockPath).catch(() => null)
+      if (stats && Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+        console.warn(`Removing a stale ${LOCK_FILE} left by an interrupted write.`)
+        await fs.rm(lockPath, { force: true })
+        continue
+      }
+      if (Date.now() >= deadline) {
+        throw new VoteEventLogLockedError()
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+    }
+  }
+  try {
+    return await fn()
+  } finally {
+    await fs.rm(lockPath, { force: true })
+  }
+}
+
+let queue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Appends and rotations run one at a time, in this process and across processes, so each
+ * event sees the previous event's hash and the manifest is never rewritten from a stale copy.
+ */
+function serialize<T>(fn: () => Promise<T>): Promise<T> {
+  const locked = () => withLogLock(fn)
+  const run = queue.then(locked, locked)
+  queue = run.catch(() => {})
+  return run
+}
+
+async function rotateActive(manifest: VoteEventLogManifest, config: VoteEventLogConfig): Promise<VoteEventLogManifest> {
+  const activePath = resolveVoteEventLogPath()
+  const stats = await fs.stat(activePath).catch(() => null)
+  if (!stats || stats.size === 0) {
+    return manifest
+  }
+
+  const digest = createHash('sha256')
+  let events = 0
+  let lastEventAt: string | null = null
+  for await (const line of readLines(activePath, false)) {
+    digest.update(`${line}\n`)
+    events += 1
+    lastEventAt = readOccurredAt(line) ?? lastEventAt
+  }
+
+  const sequence = (manifest.segments.at(-1)?.sequence ?? 0) + 1
+  const baseName = `vote-events-${String(sequence).padStart(6, '0')}.ndjson`
+  await fs.mkdir(resolveDataPath(SEGMENT_DIR), { recursive: true })
+  await fs.rename(activePath, resolveSegmentPath(baseName))
+
+  const segment: VoteEventSegment = {
+    fileName: baseName,
+    sequence,
+    events,
+    firstEventAt: manifest.head.activeSince,
+    lastEventAt,
+    lastHash: manifest.head.lastHash,
+    sha256: digest.digest('hex'),
+    compressed: false,
+  }
+  const next: VoteEventLogManifest = {
+    ...manifest,
+    segments: [...manifest.segments, segment],
+    head: { ...manifest.head, activeSince: null },
+  }
+  await writeManifest(next)
+  return config.gzip ? compressSegments(next) : next
+}
+
+async function compressSegments(manifest: VoteEventLogManifest): Promise<VoteEventLogManifest> {
+  let changed = false
+  const segments: VoteEventSegment[] = []
+  for (const segment of manifest.segments) {
+    if (segment.compressed) {
+      segments.push(segment)
+      continue
+    }
+    const source = resolveSegmentPath(segment.fileName)
+    const fileName = `${segment.fileName}.gz`
+    await pipeline(createReadStream(source), createGzip(), createWriteStream(resolveSegmentPath(fileName)))
+    await fs.rm(source)
+    segments.push({ ...segment, fileName, compressed: true })
+    changed = true
+  }
+  if (!changed) {
+    return manifest
+  }
+  const next = { ...manifest, segments }
+  await writeManifest(next)
+  return next
+}
+
+function shouldRotate(manifest: VoteEventLogManifest, size: number, config: VoteEventLogConfig): boolean {
+  if (size >= config.maxBytes) {
+    return true
+  }
+  const since = manifest.head.activeSince ? Date.parse(manifest.head.activeSince) : Number.NaN
+  return Number.isFinite(since) && Date.now() - since >= config.maxAgeMs
+}
+
+async function appendLinked(records: Array<Record<string, unknown>>): Promise<void> {
+  await ensureDataDir()
+  const config = resolveVoteEventLogConfig()
+  let manifest = await readVoteEventLogManifest()
+  const size = (await fs.stat(resolveVoteEventLogPath()).catch(() => null))?.size ?? 0
+  if (size > 0 && shouldRotate(manifest, size, config)) {
+    manifest = await rotateActive(manifest, config)
+  }
+
+  let { events, lastHash, activeSince } = manifest.head
+  let payload = ''
+  for (const record of records) {
+    const { prevHash: _ignored, ...rest } = record
+    const text = JSON.stringify({ ...rest, prevHash: lastHash })
+    payload += `${text}\n`
+    events += 1
+    lastHash = hashLine(text)
+    activeSince ??= readOccurredAt(text)
+  }
+  await fs.appendFile(resolveVoteEventLogPath(), payload, 'utf-8')
+  await writeManifest({ ...manifest, head: { events, lastHash, activeSince } })
+}
+
+/**
+ * Appends one event to the active file, linking it to the previous event with `prevHash`
+ * and rotating the active file into a segment first when it is too large or too old.
+ */
+export function appendVoteEvent(event: object): Promise<void> {
+  return serialize(() => appendLinked([event as Record<string, unknown>]))
+}
+
+/**
+ * Appends already-serialised events from elsewhere (e.g. a bundle merge). Their `prevHash`
+ * is replaced so they join this deployment's chain.
+ */
+export function appendVoteEventLines(lines: string[]): Promise<void> {
+  if (lines.length === 0) {
+    return Promise.resolve()
+  }
+  return serialize(() => appendLinked(lines.map((line) => JSON.parse(line) as Record<string, unknown>)))
+}
+
+/**
+ * Yields every line of the log in order: rotated segments oldest first, then the active file.
+ * With `from`, only the lines after that position are yielded and segments wholly before it
+ * are not opened. The first of them must chain on from `from.lastHash`; if it does not, or the
+ * log is shorter than the position, VoteEventLogPositionError is thrown.
+ */
+export async function* readVoteEventLines(options: { from?: VoteEventLogPosition } = {}): AsyncGenerator<VoteEventLine> {
+  const manifest = await readVoteEventLogManifest()
+  const from = options.from ?? null
+  const skip = from?.lines ?? 0
+  let index = 0
+  let yielded = false
+
+  async function* readFile(file: string, filePath: string, compressed: boolean): AsyncGenerator<VoteEventLine> {
+    let lineNumber = 0
+    for await (const text of readLines(filePath, compressed)) {
+      lineNumber += 1
+      index += 1
+      if (index <= skip) {
+        continue
+      }
+      if (from && !yielded && readPrevHash(text) !== from.lastHash) {
+        throw new VoteEventLogPositionError(from)
+      }
+      yielded = true
+      yield { file, lineNumber, index: index - 1, text }
+    }
+  }
+
+  for (const segment of manifest.segments) {
+    if (index + segment.events <= skip) {
+      index += segment.events
+      continue
+    }
+    yield* readFile(segment.fileName, resolveSegmentPath(segment.fileName), segment.compressed)
+  }
+  if (await fileExists(resolveVoteEventLogPath())) {
+    yield* readFile(ACTIVE_LOG, resolveVoteEventLogPath(), false)
+  }
+  if (from && !yielded && (index < skip || manifest.head.lastHash !== from.lastHash)) {
+    throw new VoteEventLogPositionError(from)
+  }
+}
+
+/** The whole log as ndjson, for exports. */
+export async function readVoteEventLogText(): Promise<string> {
+  let contents = ''
+  for await (const line of readVoteEventLines()) {
+    contents += `${line.text}\n`
+  }
+  return contents
+}
+
+/**
+ * Replaces the log with `contents` verbatim: rotated segments are deleted and the manifest
+ * head is rebuilt from the new active file.
+ */
+export function replaceVoteEventLog(contents: string): Promise<void> {
+  return serialize(async () => {
+    await ensureDataDir()
+    await fs.rm(resolveDataPath(SEGMENT_DIR), { recursive: true, force: true })
+    manifestCache = null
+    manifestStamp = null
+    await fs.writeFile(resolveVoteEventLogPath(), contents, 'utf-8')
+    await writeManifest({ version: MANIFEST_VERSION, segments: [], head: await scanActiveHead() })
+  })
+}
+
+/** Rotates the active file now, regardless of size or age. */
+export function rotateVoteEventLog(): Promise<VoteEventLogManifest> {
+  return serialize(async () => rotateActive(await readVoteEventLogManifest(), resolveVoteEventLogConfig()))
+}
+
+/** Gzips every rotated segment that is still plain text. */
+export function compactVoteEventLog(): Promise<VoteEventLogManifest> {
+  return serialize(async () => compressSegments(await readVoteEventLogManifest()))
+}
+
+/**
+ * Walks every segment and the active file, checking segment checksums against the
+ * manifest, each event's `prevHash` against the previous line, and the final hash and
+ * event count against the manifest head.
+ */
+export async function verifyVoteEventLog(): Promise<VoteEventLogVerification> {
+  const manifest = await readVoteEventLogManifest()
+  const issues: VoteEventLogIssue[] = []
+  let events = 0
+  let legacyEvents = 0
+  let previousHash: string | null = null
+  let chained = false
+
+  const checkLine = (file: string, lineNumber: number, text: string) => {
+    events += 1
+    let parsed: { prevHash?: unknown }
+    try {
+      parsed = JSON.parse(text) as { prevHash?: unknown }
+    } catch {
+      issues.push({ kind: 'malformed', file, lineNumber, message: 'Line is not valid JSON.' })
+      previousHash = hashLine(text)
+      return
+    }
+    if (!('prevHash' in parsed)) {
+      if (chained) {
+        issues.push({ kind: 'unchained', file, lineNumber, message: 'Event without prevHash after the chain started.' })
+      } else {
+        legacyEvents += 1
+      }
+    } else {
+      chained = true
+      if (parsed.prevHash !== previousHash) {
+        issues.push({
+          kind: 'hash-mismatch',
+          file,
+          lineNumber,
+          message: 'prevHash does not match the previous event; an event was edited, removed or inserted.',
+        })
+      }
+    }
+    previousHash = hashLine(text)
+  }
+
+  for (const segment of manifest.segments) {
+    const filePath = resolveSegmentPath(segment.fileName)
+    if (!(await fileExists(filePath))) {
+      issues.push({ kind: 'segment-missing', file: segment.fileName, lineNumber: null, message: 'Segment file is missing.' })
+      continue
+    }
+    const digest = createHash('sha256')
+    let lineNumber = 0
+    for await (const text of readLines(filePath, segment.compressed)) {
+      lineNumber += 1
+      digest.update(`${text}\n`)
+      checkLine(segment.fileName, lineNumber, text)
+    }
+    if (lineNumber !== segment.events || digest.digest('hex') !== segment.sha256) {
+      issues.push({
+        kind: 'segment-modified',
+        file: segment.fileName,
+        lineNumber: null,
+        message: `Segment holds ${lineNumber} events and does not match its recorded checksum (${segment.events} events expected).`,
+      })
+    }
+  }
+
+  if (await fileExists(resolveVoteEventLogPath())) {
+    let lineNumber = 0
+    for await (const text of readLines(resolveVoteEventLogPath(), false)) {
+      lineNumber += 1
+      checkLine(ACTIVE_LOG, lineNumber, text)
+    }
+  }
+
+  if (events !== manifest.head.events || previousHash !== manifest.head.lastHash) {
+    issues.push({
+      kind: 'truncated',
+      file: ACTIVE_LOG,
+      lineNumber: null,
+      message:
+        events < manifest.head.events
+          ? `The log ends at event ${events}, but ${manifest.head.events} events were written; the tail was removed.`
+          : `The last event does not match the recorded head (${events} events found, ${manifest.head.events} written); the tail was rewritten.`,
+    })
+  }
+
+  return { ok: issues.length === 0, segments: manifest.segments.length, events, legacyEvents, issues }
+}
@@ -0,0 +1,264 @@
+import type { MatchHistoryEntry } from '../lib/elo-engine'
+import { logVoteAnomaly, type VoteAnomalyEvent, type VoteAnomalyKind } from './audit-log'
+
+export interface VoteRateLimitConfig {
+  windowMs: number
+  perVoter: number
+  perIp: number
+}
+
+export type VoteRateLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: 'voter' | 'ip'; limit: number; retryAfterSeconds: number }
+
+const DEFAULT_RATE_LIMIT: VoteRateLimitConfig = {
+  windowMs: 60_000,
+  perVoter: 30,
+  perIp: 120,
+}
+
+export const BURST_WINDOW_MS = 60_000
+export const BURST_THRESHOLD = 15
+export const BIAS_SAMPLE_SIZE = 50
+export const BIAS_MIN_VOTES = 8
+export const BIAS_RATIO = 0.8
+const ANOMALY_COOLDOWN_MS = 10 * 60_000
+
+/** Upper bound on tracked limiter keys; past it the least recently active are dropped. */
+export const MAX_RATE_LIMIT_BUCKETS = 50_000
+
+const attempts = new Map<string, number[]>()
+const lastFlagged = new Map<string, number>()
+let lastSweepAt = 0
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export function resolveVoteRateLimitConfig(): VoteRateLimitConfig {
+  return {
+    windowMs: readPositiveInt(process.env.VOTE_RATE_LIMIT_WINDOW_MS, DEFAULT_RATE_LIMIT.windowMs),
+    perVoter: readPositiveInt(process.env.VOTE_RATE_LIMIT_PER_VOTER, DEFAULT_RATE_LIMIT.perVoter),
+    perIp: readPositiveInt(process.env.VOTE_RATE_LIMIT_PER_IP, DEFAULT_RATE_LIMIT.perIp),
+  }
+}
+
+/**
+ * Reverse proxies in front of the server that append to X-Forwarded-For, from
+ * `TRUSTED_PROXY_HOPS` (default 0). With 0 the header is ignored and the socket peer is the
+ * client; 1 suits a single ingress such as Container Apps.
+ */
+export function resolveTrustedProxyHops(): number {
+  const parsed = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0
+}
+
+/**
+ * Address of the connected peer as the server runtime reports it: srvx (the Vite dev server)
+ * and `server/start.js` both set `request.ip`.
+ */
+function readPeerAddress(request: Request): string | null {
+  const ip = (request as Request & { ip?: unknown }).ip
+  return typeof ip === 'string' && ip ? ip : null
+}
+
+/**
+ * Picks the client address from the socket peer followed by X-Forwarded-For, counting
+ * `trustedHops` entries in from the peer. Entries further left were sent by the client and
+ * could be anything, so they are never used; when the chain is shorter than expected the
+ * leftmost (still trusted) entry is taken. Without a known peer the chain cannot be anchored,
+ * so no address is returned.
+ */
+export function resolveClientIp(request: Request, trustedHops: number = resolveTrustedProxyHops()): string | null {
+  const peer = readPeerAddress(request)
+  if (!peer) {
+    return null
+  }
+  const hops = [
+    ...(request.headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    peer,
+  ]
+  return hops[Math.max(0, hops.length - 1 - trustedHops)] ?? null
+}
+
+function recentAttempts(key: string, windowStart: number): number[] {
+  const recent = (attempts.get(key) ?? []).filter((timestamp) => timestamp > windowStart)
+  if (recent.length === 0) {
+    attempts.delete(key)
+  } else {
+    attempts.set(key, recent)
+  }
+  return recent
+}
+
+function sweepExpiredKeys(windowStart: number, now: number) {
+  for (const [key, timestamps] of attempts) {
+    if ((timestamps[timestamps.length - 1] ?? 0) <= windowStart) {
+      attempts.delete(key)
+    }
+  }
+  for (const [key, flaggedAt] of lastFlagged) {
+    if (now - flaggedAt >= ANOMALY_COOLDOWN_MS) {
+      lastFlagged.delete(key)
+    }
+  }
+  lastSweepAt = now
+}
+
+/** Number of voter and IP buckets currently held by the rate limiter. */
+export function countRateLimitBuckets(): number {
+  return attempts.size
+}
+
+/**
+ * Sliding-window limiter held in memory. Only accepted attempts consume quota, so a
+ * client that backs off after a 429 regains capacity as its older votes age out. Keys that
+ * never come back are swept once per window, and the map is capped at MAX_RATE_LIMIT_BUCKETS.
+ */
+export function checkVoteRateLimit(
+  identity: { voterHash: string | null; ip: string | null },
+  config: VoteRateLimitConfig = resolveVoteRateLimitConfig(),
+  now: number = Date.now(),
+): VoteRateLimitResult {
+  const windowStart = now - config.windowMs
+  if (now - lastSweepAt >= config.windowMs || attempts.size > MAX_RATE_LIMIT_BUCKETS) {
+    sweepExpiredKeys(windowStart, now)
+  }
+  const buckets: Array<{ key: string; scope: 'voter' | 'ip'; limit: number }> = []
+  if (identity.voterHash) {
+    buckets.push({ key: `voter:${identity.voterHash}`, scope: 'voter', limit: config.perVoter })
+  }
+  if (identity.ip) {
+    buckets.push({ key: `ip:${identity.ip}`, scope: 'ip', limit: config.perIp })
+  }
+
+  for (const bucket of buckets) {
+    const recent = recentAttempts(bucket.key, windowStart)
+    if (recent.length >= bucket.limit) {
+      const oldest = recent[0] ?? now
+      return {
+        allowed: false,
+        scope: bucket.scope,
+        limit: bucket.limit,
+        retryAfterSeconds: Math.max(1, Math.ceil((oldest + config.windowMs - now) / 1000)),
+      }
+    }
+  }
+
+  for (const bucket of buckets) {
+    // Re-inserting keeps the map ordered by last activity, oldest first.
+    const recent = attempts.get(bucket.key) ?? []
+    attempts.delete(bucket.key)
+    attempts.set(bucket.key, [...recent, now])
+  }
+  for (const key of attempts.keys()) {
+    if (attempts.size <= MAX_RATE_LIMIT_BUCKETS) {
+      break
+    }
+    attempts.delete(key)
+  }
+
+  return { allowed: true }
+}
+
+export function resetVoteGuardState(): void {
+  attempts.clear()
+  lastFlagged.clear()
+  lastSweepAt = 0
+}
+
+export interface DetectedVoteAnomaly {
+  kind: Exclude<VoteAnomalyKind, 'rate-limited'>
+  message: string
+  details: Record<string, string | number>
+}
+
+/**
+ * Heuristics over a voter's retained match history: a burst of votes in a short window,
+ * or a voter whose picks overwhelmingly favour one logo.
+ */
+export function detectVoteAnomalies(
+  history: MatchHistoryEntry[],
+  voterHash: string | null,
+  now: number = Date.now(),
+): DetectedVoteAnomaly[] {
+  if (!voterHash) {
+    return []
+  }
+
+  const voterMatches = history.filter((match) => match.voterHash === voterHash)
+  const anomalies: DetectedVoteAnomaly[] = []
+
+  const burstCount = voterMatches.filter((match) => match.timestamp > now - BURST_WINDOW_MS).length
+  if (burstCount >= BURST_THRESHOLD) {
+    anomalies.push({
+      kind: 'vote-burst',
+      message: `${burstCount} votes within ${Math.round(BURST_WINDOW_MS / 1000)} seconds.`,
+      details: { votes: burstCount, windowMs: BURST_WINDOW_MS },
+    })
+  }
+
+  const sample = [...voterMatches].sort((a, b) => b.timestamp - a.timestamp).slice(0, BIAS_SAMPLE_SIZE)
+  if (sample.length >= BIAS_MIN_VOTES) {
+    const winCounts = new Map<string, number>()
+    for (const match of sample) {
+      winCounts.set(match.winnerId, (winCounts.get(match.winnerId) ?? 0) + 1)
+    }
+    const [topLogoId, topWins] = [...winCounts.entries()].sort((a, b) => b[1] - a[1])[0] ?? ['', 0]
+    const ratio = topWins / sample.length
+    if (topLogoId && ratio >= BIAS_RATIO) {
+      anomalies.push({
+        kind: 'single-logo-bias',
+        message: `Picked the same logo in ${topWins} of ${sample.length} recent votes.`,
+        details: { logoId: topLogoId, wins: topWins, votes: sample.length, ratio: Math.round(ratio * 100) / 100 },
+      })
+    }
+  }
+
+  return anomalies
+}
+
+/**
+ * Appends anomalies to the flag log, skipping repeats of the same kind for the same voter
+ * (or IP) within a cooldown so a sustained burst produces one entry rather than hundreds.
+ */
+export async function flagVoteAnomalies(input: {
+  contestId: string
+  voterHash: string | null
+  ip: string | null
+  anomalies: Array<{ kind: VoteAnomalyKind; message: string; details: Record<string, string | number> }>
+  now?: number
+}): Promise<VoteAnomalyEvent[]> {
+  const now = input.now ?? Date.now()
+  const flagged: VoteAnomalyEvent[] = []
+
+  for (const anomaly of input.anomalies) {
+    const key = `${input.contestId}|${anomaly.kind}|${input.voterHash ?? input.ip ?? 'unknown'}`
+    const previous = lastFlagged.get(key)
+    if (previous !== undefined && now - previous < ANOMALY_COOLDOWN_MS) {
+      continue
+    }
+    lastFlagged.set(key, now)
+
+    try {
+      flagged.push(
+        await logVoteAnomaly({
+          kind: anomaly.kind,
+          contestId: input.contestId,
+          voterHash: input.voterHash,
+          ip: input.ip,
+          message: anomaly.message,
+          details: anomaly.details,
+        }),
+      )
+    } catch (error) {
+      console.error('Failed to write vote anomaly', error)
+    }
+  }
+
+  return flagged
+}
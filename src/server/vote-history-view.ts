@@ -0,0 +1,180 @@
+import {
+  calculateTotalMatches,
+  type EloEntry,
+  type EloState,
+  pickMatchVersions,
+  type MatchHistoryEntry,
+} from '../lib/elo-engine'
+
+/**
+ * Who may see the voter hash on each match: nobody, only the voter themselves, or everyone.
+ * Admins always see full hashes for moderation.
+ */
+export type VoterHashVisibility = 'hidden' | 'self' | 'full'
+
+const DEFAULT_VOTER_HASH_VISIBILITY: VoterHashVisibility = 'self'
+export const DEFAULT_RECENT_MATCHES = 20
+export const MAX_RECENT_MATCHES = 100
+export const DEFAULT_HISTORY_PAGE_SIZE = 50
+export const MAX_HISTORY_PAGE_SIZE = 200
+/** A `since` delta larger than this is cut short; the client should reload instead. */
+export const MAX_DELTA_MATCHES = 500
+
+export function resolveVoterHashVisibility(): VoterHashVisibility {
+  const raw = process.env.VOTE_HISTORY_VOTER_HASHES?.trim().toLowerCase()
+  return raw === 'hidden' || raw === 'self' || raw === 'full' ? raw : DEFAULT_VOTER_HASH_VISIBILITY
+}
+
+export interface HistoryViewer {
+  voterHash: string | null
+  isAdmin: boolean
+}
+
+export function projectMatch(match: MatchHistoryEntry, viewer: HistoryViewer): MatchHistoryEntry {
+  const visibility = viewer.isAdmin ? 'full' : resolveVoterHashVisibility()
+  const visible =
+    visibility === 'full' ||
+    (visibility === 'self' && viewer.voterHash !== null && match.voterHash === viewer.voterHash)
+  return {
+    winnerId: match.winnerId,
+    loserId: match.loserId,
+    timestamp: match.timestamp,
+    voterHash: visible ? match.voterHash : null,
+    ...pickMatchVersions(match.winnerVersion, match.loserVersion),
+  }
+}
+
+export function clampLimit(raw: string | null, fallback: number, max: number): number {
+  const parsed = raw === null ? Number.NaN : Number.parseInt(raw, 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback
+  }
+  return Math.min(parsed, max)
+}
+
+/**
+ * Cursors are `<timestamp>.<skip>`: continue with matches older than `timestamp`, after skipping
+ * the first `skip` matches that share it. Keyed on time rather than an offset, so votes recorded
+ * between page loads do not shift later pages.
+ */
+export function encodeHistoryCursor(timestamp: number, skip: number): string {
+  return `${timestamp}.${skip}`
+}
+
+export function decodeHistoryCursor(cursor: string | null): { timestamp: number; skip: number } | null {
+  if (!cursor) {
+    return null
+  }
+  const match = /^(\d+)\.(\d+)$/.exec(cursor.trim())
+  if (!match) {
+    throw new Error('Invalid history cursor.')
+  }
+  return { timestamp: Number(match[1]), skip: Number(match[2]) }
+}
+
+/**
+ * `since` cursors for deltas share that shape but read from the other end: the client holds
+ * `count` of the matches recorded at `timestamp` and nothing newer. Votes can land in the same
+ * millisecond, so a bare timestamp cannot say which of them are missing. A bare `<timestamp>`
+ * is still accepted and counts as holding every match at it.
+ */
+export function decodeDeltaCursor(cursor: string | null): { timestamp: number; count: number } | null {
+  if (!cursor) {
+    return null
+  }
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(cursor.trim())
+  if (!match) {
+    throw new Error('Invalid since cursor.')
+  }
+  return { timestamp: Number(match[1]), count: match[2] === undefined ? Number.POSITIVE_INFINITY : Number(match[2]) }
+}
+
+export interface HistoryPage {
+  matches: MatchHistoryEntry[]
+  nextCursor: string | null
+}
+
+/** One page of a newest-first history, starting at `cursor` (or the newest match). */
+export function paginateHistory(
+  history: MatchHistoryEntry[],
+  options: { cursor?: string | null; limit: number; viewer: HistoryViewer },
+): HistoryPage {
+  const cursor = decodeHistoryCursor(options.cursor ?? null)
+  let start = 0
+  if (cursor) {
+    let seen = 0
+    start = history.findIndex((match) => {
+      if (match.timestamp < cursor.timestamp) {
+        return true
+      }
+      if (match.timestamp === cursor.timestamp) {
+        seen += 1
+        return seen > cursor.skip
+      }
+      return false
+    })
+    if (start === -1) {
+      start = history.length
+    }
+  }
+
+  const end = Math.min(start + options.limit, history.length)
+  const page = history.slice(start, end)
+  let nextCursor: string | null = null
+  if (end < history.length && page.length > 0) {
+    const lastTimestamp = page[page.length - 1]!.timestamp
+    let runStart = end - 1
+    while (runStart > 0 && history[runStart - 1]!.timestamp === lastTimestamp) {
+      runStart -= 1
+    }
+    nextCursor = encodeHistoryCursor(lastTimestamp, end - runStart)
+  }
+
+  return { matches: page.map((match) => projectMatch(match, options.viewer)), nextCursor }
+}
+
+/** Entries-only view of a contest for the voting client, with a short window of history. */
+export interface CompactVoteState {
+  entries: Record<string, EloEntry>
+  totalMatches: number
+  lastMatchAt: number | null
+  /** Newest first: the latest matches, or with `since`, every match the client lacks. */
+  history: MatchHistoryEntry[]
+  /** Cursor for `/api/votes/history` to continue past `history`; null once it is exhausted. */
+  nextCursor: string | null
+  /** True when a `since` delta exceeded MAX_DELTA_MATCHES and the client should reload. */
+  truncated: boolean
+}
+
+export function buildCompactVoteState(
+  state: EloState,
+  options: { viewer: HistoryViewer; since?: string | null; recent?: number },
+): CompactVoteState {
+  const base = {
+    entries: state.entries,
+    totalMatches: calculateTotalMatches(state.entries),
+    lastMatchAt: state.history[0]?.timestamp ?? null,
+  }
+
+  const since = decodeDeltaCursor(options.since ?? null)
+  if (since) {
+    // Within a millisecond the newest matches come first, so the client's are the run's tail.
+    const sameTime = state.history.filter((match) => match.timestamp === since.timestamp)
+    const newer = [
+      ...state.history.filter((match) => match.timestamp > since.timestamp),
+      ...sameTime.slice(0, Math.max(0, sameTime.length - since.count)),
+    ]
+    return {
+      ...base,
+      history: newer.slice(0, MAX_DELTA_MATCHES).map((match) => projectMatch(match, options.viewer)),
+      nextCursor: null,
+      truncated: newer.length > MAX_DELTA_MATCHES,
+    }
+  }
+
+  const page = paginateHistory(state.history, {
+    limit: options.recent ?? DEFAULT_RECENT_MATCHES,
+    viewer: options.viewer,
+  })
+  return { ...base, history: page.matches, nextCursor: page.nextCursor, truncated: false }
+}
@@ -0,0 +1,51 @@
+import { createHash, createHmac } from 'node:crypto'
+
+import { normalizeAlias, type AuthUser } from '../lib/auth-utils'
+import { resolveServerSecret } from './server-secrets'
+import { getSessionUser } from './session'
+
+const VOTER_HASH_SECRET_FILE = 'voter-hash-secret'
+/** Fixed salt of the hash browsers computed before voter identity moved to the server. */
+const LEGACY_VOTE_HASH_SALT = 'ces3-vote-salt-v1'
+
+/**
+ * Derives the opaque voter hash stored with each match. The HMAC key never leaves the
+ * server, so clients can neither forge another member's hash nor reverse it to an alias.
+ */
+export async function deriveVoterHash(alias: string): Promise<string | null> {
+  const normalizedAlias = normalizeAlias(alias)
+  if (!normalizedAlias) {
+    return null
+  }
+
+  const secret = await resolveServerSecret({
+    envVar: 'VOTER_HASH_SECRET',
+    fileName: VOTER_HASH_SECRET_FILE,
+  })
+  return createHmac('sha256', secret).update(`vote:${normalizedAlias}`).digest('hex')
+}
+
+/**
+ * The hash browsers sent before voter hashes were derived on the server: an unkeyed SHA-256 of
+ * the alias. Matches from back then keep it in history, the archive and the audit log, so
+ * duplicate checks treat it as the same voter rather than rewriting the stored records.
+ */
+export function deriveLegacyVoterHash(alias: string): string | null {
+  const normalizedAlias = normalizeAlias(alias)
+  if (!normalizedAlias) {
+    return null
+  }
+  return createHash('sha256').update(`${normalizedAlias}:${LEGACY_VOTE_HASH_SALT}`).digest('hex')
+}
+
+export async function resolveRequestVoter(
+  request: Request,
+): Promise<{ user: AuthUser; voterHash: string } | null> {
+  const user = await getSessionUser(request)
+  if (!user) {
+    return null
+  }
+
+  const voterHash = await deriveVoterHash(user.alias)
+  return voterHash ? { user, voterHash } : null
+}
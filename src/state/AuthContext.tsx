@@ -5,34 +5,14 @@ import {
   useContext,
   useEffect,
   useMemo,
-  useRef,
   useState,
 } from 'react'
 
-import { hashPasswordWithAlias, normalizeAlias } from '../lib/auth-utils'
+import type { AuthUser } from '../lib/auth-utils'
 
-const STORAGE_KEY = 'ces3-auth-user'
+export type { AuthRole, AuthUser } from '../lib/auth-utils'
 
-type AuthRole = 'admin' | 'member'
-
-export interface AuthUser {
-  alias: string
-  email: string
-  name: string
-  role: AuthRole
-  logos: string[]
-  source: 'alias' | 'admin'
-  hasPassword: boolean
-}
-
-interface AllowedUserRecord {
-  alias: string
-  email?: string
-  name?: string
-  role?: AuthRole
-  logos?: string[]
-  passwordHash?: string | null
-}
+const LEGACY_STORAGE_KEY = 'ces3-auth-user'
 
 type AuthDeniedReason =
   | 'alias-not-found'
@@ -79,94 +59,58 @@ const defaultAuthValue: AuthContextValue = {
 
 const AuthContext = createContext<AuthContextValue>(defaultAuthValue)
 
-function toAuthUser(
-  record: AllowedUserRecord,
-  normalizedAlias: string,
-  source: AuthUser['source'],
-): AuthUser {
-  const alias = record.alias ? normalizeAlias(record.alias) : normalizedAlias
-  const email = record.email ?? `${alias}@microsoft.com`
-  const name = record.name ?? alias
-  const logos = Array.isArray(record.logos) ? record.logos : []
-  const role: AuthRole = record.role === 'admin' ? 'admin' : 'member'
-  const hasPassword = Boolean(record.passwordHash)
-
-  return {
-    alias,
-    email,
-    name,
-    logos,
-    role,
-    source,
-    hasPassword,
-  }
+interface SessionResponse {
+  user?: AuthUser | null
+  reason?: Exclude<AuthDeniedReason, null>
+  alias?: string
+  message?: string
 }
 
-async function fetchAllowedUsers(): Promise<AllowedUserRecord[]> {
-  const response = await fetch('/api/allowed-users', {
+async function fetchSessionUser(): Promise<AuthUser | null> {
+  const response = await fetch('/api/session', {
     headers: {
       Accept: 'application/json',
     },
   })
 
   if (!response.ok) {
-    throw new Error(`Failed to load allowed users (${response.status})`)
+    throw new Error(`Failed to load session (${response.status})`)
   }
 
-  const data = (await response.json()) as AllowedUserRecord[]
-  return Array.isArray(data) ? data : []
+  const data = (await response.json()) as SessionResponse
+  return data.user ?? null
 }
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null)
-  const [loading, setLoading] = useState(false)
+  const [loading, setLoading] = useState(true)
   const [deniedReason, setDeniedReason] = useState<AuthDeniedReason>(null)
-  const allowedUsersRef = useRef<AllowedUserRecord[] | null>(null)
 
   useEffect(() => {
     if (typeof window === 'undefined') return
 
-    const stored = window.localStorage.getItem(STORAGE_KEY)
-    if (!stored) return
+    // Sessions now live in an HTTP-only cookie; drop the pre-cookie client copy.
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY)
 
-    try {
-      const parsed = JSON.parse(stored) as Partial<AuthUser>
-      if (parsed && typeof parsed.alias === 'string' && parsed.alias.trim()) {
-        const normalizedAlias = normalizeAlias(parsed.alias)
-        const sanitized: AuthUser = {
-          alias: normalizedAlias,
-          email: parsed.email ?? `${normalizedAlias}@microsoft.com`,
-          name: parsed.name ?? normalizedAlias,
-          logos: Array.isArray(parsed.logos) ? parsed.logos : [],
-            role: parsed.role === 'admin' ? 'admin' : 'member',
-          source: parsed.source === 'admin' ? 'admin' : 'alias',
-          hasPassword: Boolean(parsed.hasPassword),
+    let cancelled = false
+    fetchSessionUser()
+      .then((sessionUser) => {
+        if (!cancelled) {
+          setUser(sessionUser)
         }
-        setUser(sanitized)
-      }
-    } catch (error) {
-      console.warn('Failed to parse stored auth user', error)
-      window.localStorage.removeItem(STORAGE_KEY)
-    }
-  }, [])
-
-  const persistUser = useCallback((next: AuthUser | null) => {
-    if (typeof window === 'undefined') return
-    if (next) {
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
-    } else {
-      window.localStorage.removeItem(STORAGE_KEY)
-    }
-  }, [])
+      })
+      .catch((error) => {
+        console.warn('Failed to restore session', error)
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      })
 
-  const ensureAllowedUsers = useCallback(async () => {
-    if (allowedUsersRef.current) {
-      return allowedUsersRef.current
+    return () => {
+      cancelled = true
     }
-
-    const records = await fetchAllowedUsers()
-    allowedUsersRef.current = records
-    return records
   }, [])
 
   const loginWithAlias = useCallback<AuthContextValue['loginWithAlias']>(
@@ -175,39 +119,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setDeniedReason(null)
 
       try {
-        const records = await ensureAllowedUsers()
-        const normalizedAlias = normalizeAlias(alias)
-
-        const record = records.find((entry) => {
-          const aliasMatch = normalizeAlias(entry.alias) === normalizedAlias
-          const emailMatch = entry.email
-            ? normalizeAlias(entry.email) === normalizedAlias
-            : false
-          return aliasMatch || emailMatch
+        const response = await fetch('/api/session', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+          },
+          body: JSON.stringify({ alias, password }),
         })
 
-        if (!record) {
-          setDeniedReason('alias-not-found')
-          return { status: 'error', reason: 'alias-not-found' }
-        }
+        const data = (await response.json()) as SessionResponse
 
-        if (record.passwordHash) {
-          if (!password) {
-            setDeniedReason('password-required')
-            return { status: 'password-required', alias: normalizedAlias }
-          }
+        if (response.ok && data.user) {
+          setUser(data.user)
+          return { status: 'success', user: data.user }
+        }
 
-          const attemptHash = await hashPasswordWithAlias(password, normalizedAlias)
-          if (attemptHash !== record.passwordHash) {
-            setDeniedReason('password-invalid')
-            return { status: 'error', reason: 'password-invalid' }
-          }
+        if (data.reason === 'password-required') {
+          setDeniedReason('password-required')
+          return { status: 'password-required', alias: data.alias ?? alias }
         }
 
-        const authUser = toAuthUser(record, normalizedAlias, 'alias')
-        setUser(authUser)
-        persistUser(authUser)
-        return { status: 'success', user: authUser }
+        const reason = data.reason ?? 'network-error'
+        setDeniedReason(reason)
+        return { status: 'error', reason }
       } catch (error) {
         console.error('Alias login failed', error)
         setDeniedReason('network-error')
@@ -216,42 +151,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setLoading(false)
       }
     },
-    [ensureAllowedUsers, persistUser],
+    [],
   )
 
   const logout = useCallback(() => {
     setUser(null)
-    persistUser(null)
     setDeniedReason(null)
-  }, [persistUser])
+    void fetch('/api/session', { method: 'DELETE' }).catch((error) => {
+      console.error('Failed to end session', error)
+    })
+  }, [])
 
   const clearDeniedReason = useCallback(() => {
     setDeniedReason(null)
   }, [])
 
   const refreshRoster = useCallback(async () => {
-    allowedUsersRef.current = null
-    const records = await ensureAllowedUsers()
-
-    if (!user) {
-      return
-    }
-
-    const normalizedAlias = normalizeAlias(user.alias)
-    const record = records.find((entry) => {
-      const aliasMatch = normalizeAlias(entry.alias) === normalizedAlias
-      const emailMatch = entry.email
-        ? normalizeAlias(entry.email) === normalizedAlias
-        : false
-      return aliasMatch || emailMatch
-    })
-
-    if (record) {
-      const refreshedUser = toAuthUser(record, normalizedAlias, user.source)
-      setUser(refreshedUser)
-      persistUser(refreshedUser)
-    }
-  }, [ensureAllowedUsers, persistUser, user])
+    const sessionUser = await fetchSessionUser()
+    setUser(sessionUser)
+  }, [])
 
   const value = useMemo<AuthContextValue>(() => {
     const isAuthenticated = Boolean(user)
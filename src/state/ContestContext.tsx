@@ -9,6 +9,9 @@ import {
 } from 'react'
 
 import type { ContestStatus, ContestWithMetrics } from '../lib/contest-utils'
+import type { HistoryRetention } from '../lib/history-retention'
+import type { RatingSettings } from '../lib/rating-engines'
+import { subscribeScoreboardStream, type ScoreboardMatchEvent } from '../lib/scoreboard-stream'
 
 interface ContestSummary extends ContestWithMetrics {
   isActive: boolean
@@ -20,6 +23,33 @@ function normalizeContestSummary(contest: ContestSummary): ContestSummary {
     leaderboard: Array.isArray(contest.leaderboard) ? contest.leaderboard : [],
     lastMatchAt: contest.lastMatchAt ?? null,
     championInsights: contest.championInsights ?? null,
+    championSignificance: contest.championSignificance ?? null,
+  }
+}
+
+/** Folds a streamed vote into a contest summary; bootstrapped intervals wait for the next refresh. */
+function applyLiveMatch(contest: ContestSummary, event: ScoreboardMatchEvent): ContestSummary {
+  const changes = new Map(event.changes.map((change) => [change.logoId, change.entry]))
+  const leaderboard = contest.leaderboard
+    .map((entry) => {
+      const next = changes.get(entry.logoId)
+      return next
+        ? {
+            ...entry,
+            rating: next.rating,
+            deviation: next.deviation ?? null,
+            wins: next.wins,
+            losses: next.losses,
+            matches: next.matches,
+          }
+        : entry
+    })
+    .sort((a, b) => b.rating - a.rating)
+  return {
+    ...contest,
+    matchCount: event.totalMatches,
+    lastMatchAt: new Date(event.match.timestamp).toISOString(),
+    leaderboard,
   }
 }
 
@@ -33,6 +63,8 @@ interface ContestCreateInput {
   endsAt?: string | null
   votingOpen?: boolean
   setActive?: boolean
+  rating?: Partial<RatingSettings>
+  historyRetention?: Partial<HistoryRetention>
 }
 
 interface ContestUpdateInput extends Partial<ContestCreateInput> {
@@ -59,6 +91,39 @@ interface ContestContextValue {
     contestId: string,
     options?: { dryRun?: boolean },
   ) => Promise<ContestEloRecalculationResponse>
+  fetchVoteAnomalies: (contestId: string) => Promise<ContestVoteAnomaly[]>
+  verifyContestReplay: (
+    contestId: string,
+    options?: { start?: boolean },
+  ) => Promise<ContestReplayVerification | null>
+  listContestVotes: (contestId: string, options?: { voterHash?: string | null }) => Promise<ContestVoteRecord[]>
+  voidContestVotes: (
+    contestId: string,
+    input: { eventIds?: string[]; voterHash?: string | null; reason: string; dryRun?: boolean },
+  ) => Promise<ContestVoteModerationResponse>
+}
+
+export interface ContestVoteRecord {
+  eventId: string
+  occurredAt: string
+  voterHash: string | null
+  winnerId: string
+  winnerName: string
+  loserId: string
+  loserName: string
+  voided: boolean
+  voidReason: string | null
+}
+
+export interface ContestVoteAnomaly {
+  id: string
+  kind: 'rate-limited' | 'vote-burst' | 'single-logo-bias'
+  occurredAt: string
+  contestId: string
+  voterHash: string | null
+  ip: string | null
+  message: string
+  details: Record<string, string | number>
 }
 
 export interface ContestEloRecalculationDifference {
@@ -82,6 +147,20 @@ export interface ContestEloRecalculationSummary {
   changedCount: number
   changesDetected: boolean
   lastMatchAt: string | null
+  totalEvents: number
+  /** Event offset of the rating checkpoint the replay resumed from; null for a full replay. */
+  resumedFromEvent: number | null
+}
+
+export interface ContestReplayVerification {
+  contestId: string
+  status: 'running' | 'completed' | 'failed'
+  startedAt: string
+  finishedAt: string | null
+  totalEvents: number
+  checkpointOffset: number | null
+  drift: ContestEloRecalculationDifference[]
+  error: string | null
 }
 
 export interface ContestEloRecalculationResponse {
@@ -94,6 +173,11 @@ export interface ContestEloRecalculationResponse {
   contest?: ContestSummary
 }
 
+export interface ContestVoteModerationResponse extends ContestEloRecalculationResponse {
+  voidedCount: number
+  voidedEventIds: string[]
+}
+
 const STORAGE_KEY = 'ces3-current-contest'
 
 const ContestContext = createContext<ContestContextValue | undefined>(undefined)
@@ -119,7 +203,7 @@ async function fetchJson<T>(input: RequestInfo, init?: RequestInit): Promise<T>
     } catch (error) {
       // ignore
     }
-    throw new Error(message || 'Request failed')
+    throw Object.assign(new Error(message || 'Request failed'), { status: response.status })
   }
   return (await response.json()) as T
 }
@@ -258,6 +342,7 @@ export function ContestProvider({ children }: { children: ReactNode }) {
         endsAt: input.endsAt,
         votingOpen: input.votingOpen,
         setActive: input.setActive,
+        rating: input.rating,
       }
 
       const data = await fetchJson<ContestResponse>('/api/contests', {
@@ -292,10 +377,13 @@ export function ContestProvider({ children }: { children: ReactNode }) {
     async (contestId, input) => {
       try {
         const payload: ContestUpdateInput = { ...input }
+        const known = contests.find((entry) => entry.id === contestId)
         const data = await fetchJson<ContestResponse>(`/api/contests/${encodeURIComponent(contestId)}`, {
           method: 'PATCH',
           headers: {
             'Content-Type': 'application/json',
+            // Lets the server reject the edit with 409 if another admin saved in the meantime.
+            ...(known ? { 'If-Match': `"${known.updatedAt}"` } : {}),
           },
           body: JSON.stringify(payload),
         })
@@ -318,10 +406,13 @@ export function ContestProvider({ children }: { children: ReactNode }) {
         return null
       } catch (error) {
         console.error('Failed to update contest', error)
+        if ((error as { status?: number }).status === 409) {
+          await loadContests()
+        }
         throw error
       }
     },
-    [],
+    [contests, loadContests],
   )
 
   const resetContestVotesMutation = useCallback<ContestContextValue['resetContestVotes']>(
@@ -388,6 +479,68 @@ export function ContestProvider({ children }: { children: ReactNode }) {
     [],
   )
 
+  const fetchVoteAnomalies = useCallback<ContestContextValue['fetchVoteAnomalies']>(
+    async (contestId) => {
+      const data = await fetchJson<{ anomalies?: ContestVoteAnomaly[] }>(
+        `/api/contests/${encodeURIComponent(contestId)}/anomalies`,
+      )
+      return Array.isArray(data.anomalies) ? data.anomalies : []
+    },
+    [],
+  )
+
+  const verifyContestReplay = useCallback<ContestContextValue['verifyContestReplay']>(
+    async (contestId, options) => {
+      const data = await fetchJson<{ verification?: ContestReplayVerification | null }>(
+        `/api/contests/${encodeURIComponent(contestId)}/replay-verification`,
+        options?.start ? { method: 'POST' } : undefined,
+      )
+      return data.verification ?? null
+    },
+    [],
+  )
+
+  const listContestVotes = useCallback<ContestContextValue['listContestVotes']>(
+    async (contestId, options) => {
+      const query = options?.voterHash ? `?voterHash=${encodeURIComponent(options.voterHash)}` : ''
+      const data = await fetchJson<{ votes?: ContestVoteRecord[] }>(
+        `/api/contests/${encodeURIComponent(contestId)}/moderation${query}`,
+      )
+      return Array.isArray(data.votes) ? data.votes : []
+    },
+    [],
+  )
+
+  const voidContestVotes = useCallback<ContestContextValue['voidContestVotes']>(
+    async (contestId, input) => {
+      const data = await fetchJson<ContestVoteModerationResponse>(
+        `/api/contests/${encodeURIComponent(contestId)}/moderation`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(input),
+        },
+      )
+
+      const normalizedContest = data.contest ? normalizeContestSummary(data.contest) : undefined
+
+      if (!data.dryRun && normalizedContest) {
+        setContests((prev) => {
+          const filtered = prev.filter((entry) => entry.id !== normalizedContest.id)
+          return [...filtered, normalizedContest].sort((a, b) => a.title.localeCompare(b.title))
+        })
+      }
+
+      return {
+        ...data,
+        contest: normalizedContest,
+      }
+    },
+    [],
+  )
+
   const { activeContest, selectedContest } = useMemo(() => {
     const active = activeContestId ? contests.find((contest) => contest.id === activeContestId) ?? null : null
     const selected = selectedContestId
@@ -398,6 +551,22 @@ export function ContestProvider({ children }: { children: ReactNode }) {
 
   const liveContest = activeContest && activeContest.isActive && activeContest.votingOpen ? activeContest : null
   const hasLiveContest = Boolean(liveContest)
+  const liveContestId = liveContest?.id ?? null
+
+  useEffect(() => {
+    if (!liveContestId) {
+      return
+    }
+    return subscribeScoreboardStream(liveContestId, (event) => {
+      if (event.type === 'match') {
+        setContests((prev) =>
+          prev.map((contest) => (contest.id === event.contestId ? applyLiveMatch(contest, event) : contest)),
+        )
+        return
+      }
+      void loadContests()
+    })
+  }, [liveContestId, loadContests])
 
   const value = useMemo<ContestContextValue>(
     () => ({
@@ -417,6 +586,10 @@ export function ContestProvider({ children }: { children: ReactNode }) {
       updateContest: updateContestMutation,
       resetContestVotes: resetContestVotesMutation,
       recalculateContestElo,
+      fetchVoteAnomalies,
+      verifyContestReplay,
+      listContestVotes,
+      voidContestVotes,
     }),
     [
       activeContest,
@@ -424,6 +597,7 @@ export function ContestProvider({ children }: { children: ReactNode }) {
       contests,
       createContest,
       error,
+      fetchVoteAnomalies,
       loading,
       recalculateContestElo,
       refresh,
@@ -435,6 +609,9 @@ export function ContestProvider({ children }: { children: ReactNode }) {
       resetContestVotesMutation,
       liveContest,
       hasLiveContest,
+      listContestVotes,
+      verifyContestReplay,
+      voidContestVotes,
     ],
   )
 
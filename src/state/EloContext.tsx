@@ -1,4 +1,4 @@
-import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
 
 import {
   createEmptyEntry,
@@ -9,16 +9,31 @@ import {
   type MatchHistoryEntry,
   type Matchup,
 } from '../lib/elo-engine'
-import { type LogoEntry } from '../lib/logo-utils'
+import { getLogoVersion, type LogoEntry } from '../lib/logo-utils'
+import {
+  applyScoreboardMatch,
+  buildDeltaCursor,
+  mergeVoteDelta,
+  subscribeScoreboardStream,
+} from '../lib/scoreboard-stream'
 import { useLogoLibrary } from './LogoLibraryContext'
 import { useContest } from './ContestContext'
+import { useAuth } from './AuthContext'
 
 interface EloContextValue {
   ratings: Record<string, EloEntry>
   rankings: Array<{ logo: LogoEntry; entry: EloEntry; rank: number }>
   recentHistory: MatchHistoryEntry[]
+  /** True while older matches remain on the server beyond `recentHistory`. */
+  hasOlderMatches: boolean
+  loadOlderMatches: () => Promise<void>
   currentMatchup: Matchup | null
-  selectWinner: (winnerId: string, loserId: string, voterHash: string | null) => Promise<void>
+  /** True when the signed-in voter has already judged every available pair. */
+  matchupsExhausted: boolean
+  viewerVoterHash: string | null
+  /** Rating change per logo from the most recent live update, cleared after a few seconds. */
+  liveRatingDeltas: Record<string, number>
+  selectWinner: (winnerId: string, loserId: string) => Promise<void>
   skipMatchup: () => void
 }
 
@@ -29,6 +44,88 @@ const EMPTY_STATE: EloState = {
   history: [],
 }
 
+/** How long a live rating change stays highlighted on the scoreboard. */
+const LIVE_DELTA_TTL_MS = 4000
+
+/** Compact response from `/api/votes`: entries plus a short, newest-first window of history. */
+interface VoteStateResponse {
+  entries?: Record<string, EloEntry>
+  history?: MatchHistoryEntry[]
+  nextCursor?: string | null
+  truncated?: boolean
+  viewerVoterHash?: string | null
+}
+
+interface VoteHistoryPageResponse {
+  matches?: MatchHistoryEntry[]
+  nextCursor?: string | null
+}
+
+async function fetchVoteState(contestId: string, since: string | null = null): Promise<VoteStateResponse> {
+  const query = `contestId=${encodeURIComponent(contestId)}${since === null ? '' : `&since=${encodeURIComponent(since)}`}`
+  const response = await fetch(`/api/votes?${query}`, {
+    headers: {
+      Accept: 'application/json',
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to load vote state (${response.status})`)
+  }
+
+  return (await response.json()) as VoteStateResponse
+}
+
+function toEloState(data: VoteStateResponse): EloState {
+  return { entries: data.entries ?? {}, history: data.history ?? [] }
+}
+
+interface NextMatchupResponse {
+  matchup?: Matchup | null
+  exhausted?: boolean
+}
+
+/**
+ * Matchups come from the server so every client shares the same selection strategy and
+ * never shows a voter a pair they already judged.
+ */
+async function fetchNextMatchup(
+  contestId: string,
+  logos: LogoEntry[],
+  previous: Matchup | null,
+): Promise<{ matchup: Matchup | null; exhausted: boolean }> {
+  try {
+    const query = previous
+      ? `?skip=${encodeURIComponent(`${previous.primary.id},${previous.challenger.id}`)}`
+      : ''
+    const response = await fetch(`/api/contests/${encodeURIComponent(contestId)}/next-matchup${query}`, {
+      headers: {
+        Accept: 'application/json',
+      },
+    })
+    if (!response.ok) {
+      throw new Error(`Failed to load next matchup (${response.status})`)
+    }
+
+    const data = (await response.json()) as NextMatchupResponse
+    if (!data.matchup) {
+      return { matchup: null, exhausted: Boolean(data.exhausted) }
+    }
+    // Prefer the client's logo objects so image URLs and metadata stay consistent.
+    const logoIndex = new Map(logos.map((logo) => [logo.id, logo]))
+    return {
+      matchup: {
+        primary: logoIndex.get(data.matchup.primary.id) ?? data.matchup.primary,
+        challenger: logoIndex.get(data.matchup.challenger.id) ?? data.matchup.challenger,
+      },
+      exhausted: false,
+    }
+  } catch (error) {
+    console.error('Failed to load next matchup', error)
+    return { matchup: null, exhausted: false }
+  }
+}
+
 function buildLogosKey(logos: LogoEntry[]): string {
   return logos
     .map((logo) => logo.id)
@@ -39,15 +136,41 @@ function buildLogosKey(logos: LogoEntry[]): string {
 export function EloProvider({ children }: { children: React.ReactNode }) {
   const { logos } = useLogoLibrary()
   const { liveContest } = useContest()
+  const { user } = useAuth()
   const contestId = liveContest?.id ?? null
+  const viewerAlias = user?.alias ?? null
   const [state, setState] = useState<EloState>(EMPTY_STATE)
   const [currentMatchup, setCurrentMatchup] = useState<Matchup | null>(null)
+  const [matchupsExhausted, setMatchupsExhausted] = useState(false)
+  const [viewerVoterHash, setViewerVoterHash] = useState<string | null>(null)
+  const [liveRatingDeltas, setLiveRatingDeltas] = useState<Record<string, number>>({})
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null)
+  const sinceCursorRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    sinceCursorRef.current = buildDeltaCursor(state.history)
+  }, [state.history])
 
   const logosKey = useMemo(() => buildLogosKey(logos), [logos])
 
+  const loadNextMatchup = useCallback(
+    async (previous: Matchup | null = null) => {
+      if (!contestId) {
+        setCurrentMatchup(logos.length >= 2 ? produceMatchup(logos, state.entries, previous) : null)
+        return
+      }
+      const next = await fetchNextMatchup(contestId, logos, previous)
+      setCurrentMatchup(next.matchup)
+      setMatchupsExhausted(next.exhausted)
+    },
+    [contestId, logos, state.entries],
+  )
+
   useEffect(() => {
     setState(EMPTY_STATE)
+    setHistoryCursor(null)
     setCurrentMatchup(null)
+    setMatchupsExhausted(false)
   }, [contestId])
 
   useEffect(() => {
@@ -56,10 +179,12 @@ export function EloProvider({ children }: { children: React.ReactNode }) {
       if (ensured === prev) {
         return prev
       }
-      setCurrentMatchup(logos.length >= 2 ? produceMatchup(logos, ensured.entries) : null)
+      if (!contestId) {
+        setCurrentMatchup(logos.length >= 2 ? produceMatchup(logos, ensured.entries) : null)
+      }
       return ensured
     })
-  }, [logos])
+  }, [contestId, logos])
 
   useEffect(() => {
     if (!contestId) {
@@ -79,79 +204,172 @@ export function EloProvider({ children }: { children: React.ReactNode }) {
 
     async function loadVotes(currentContestId: string) {
       try {
-        const query = `contestId=${encodeURIComponent(currentContestId)}`
-        const response = await fetch(`/api/votes?${query}`, {
-          headers: {
-            Accept: 'application/json',
-          },
-        })
-
-        if (!response.ok) {
-          throw new Error(`Failed to load vote state (${response.status})`)
-        }
-
-        const data = (await response.json()) as { state?: EloState }
-        const rawState = data.state ?? EMPTY_STATE
-        const ensured = ensureEntries(rawState, logos)
+        const data = await fetchVoteState(currentContestId)
+        const ensured = ensureEntries(toEloState(data), logos)
 
         if (!cancelled) {
           setState(ensured)
-          setCurrentMatchup(logos.length >= 2 ? produceMatchup(logos, ensured.entries) : null)
+          setHistoryCursor(data.nextCursor ?? null)
+          setViewerVoterHash(data.viewerVoterHash ?? null)
         }
       } catch (error) {
         console.error('Failed to load vote state', error)
         if (!cancelled) {
-          const ensured = ensureEntries(EMPTY_STATE, logos)
-          setState(ensured)
-          setCurrentMatchup(logos.length >= 2 ? produceMatchup(logos, ensured.entries) : null)
+          setState(ensureEntries(EMPTY_STATE, logos))
         }
       }
     }
 
+    async function loadInitialMatchup(currentContestId: string) {
+      const next = await fetchNextMatchup(currentContestId, logos, null)
+      if (!cancelled) {
+        setCurrentMatchup(next.matchup)
+        setMatchupsExhausted(next.exhausted)
+      }
+    }
+
     void loadVotes(activeContestId)
+    void loadInitialMatchup(activeContestId)
+
+    return () => {
+      cancelled = true
+    }
+  }, [contestId, logosKey, logos, viewerAlias])
+
+  // Other voters' votes arrive over the contest stream, so standings stay current without polling.
+  useEffect(() => {
+    if (!contestId) {
+      return
+    }
+
+    let cancelled = false
+    let clearTimer: ReturnType<typeof setTimeout> | null = null
+    const unsubscribe = subscribeScoreboardStream(contestId, (event) => {
+      if (event.contestId !== contestId) {
+        return
+      }
+      if (event.type === 'match') {
+        setState((prev) => ensureEntries(applyScoreboardMatch(prev, event), logos))
+        setLiveRatingDeltas(
+          Object.fromEntries(
+            event.changes.map((change) => [change.logoId, change.entry.rating - change.ratingBefore]),
+          ),
+        )
+        if (clearTimer) {
+          clearTimeout(clearTimer)
+        }
+        clearTimer = setTimeout(() => setLiveRatingDeltas({}), LIVE_DELTA_TTL_MS)
+        return
+      }
+      // After a dropped connection only the missed matches are fetched; anything that rewrote
+      // history (reset, void, replay) needs a full reload.
+      const since = event.reason === 'missed-events' ? sinceCursorRef.current : null
+      void (async () => {
+        try {
+          let data = await fetchVoteState(contestId, since)
+          if (since !== null && data.truncated) {
+            data = await fetchVoteState(contestId)
+          }
+          if (cancelled) {
+            return
+          }
+          if (since !== null && !data.truncated) {
+            setState((prev) => ensureEntries(mergeVoteDelta(prev, toEloState(data)), logos))
+          } else {
+            setState(ensureEntries(toEloState(data), logos))
+            setHistoryCursor(data.nextCursor ?? null)
+          }
+        } catch (error) {
+          console.error('Failed to resync vote state', error)
+        }
+      })()
+    })
 
     return () => {
       cancelled = true
+      if (clearTimer) {
+        clearTimeout(clearTimer)
+      }
+      setLiveRatingDeltas({})
+      unsubscribe()
     }
-  }, [contestId, logosKey, logos])
+  }, [contestId, logos])
 
   const selectWinner = useCallback(
-    async (winnerId: string, loserId: string, voterHash: string | null) => {
+    async (winnerId: string, loserId: string) => {
       if (!contestId) {
         console.warn('No contest selected; skip recording vote.')
         return
       }
       const activeContestId = contestId
+      // Record which artwork the voter actually saw, in case a logo's image changed mid-session.
+      const shown = [currentMatchup?.primary, currentMatchup?.challenger]
+      const versionOf = (logoId: string) => {
+        const logo = shown.find((entry) => entry?.id === logoId)
+        return logo ? getLogoVersion(logo) : null
+      }
       try {
         const response = await fetch(`/api/votes?contestId=${encodeURIComponent(activeContestId)}`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ winnerId, loserId, voterHash, contestId: activeContestId }),
+          body: JSON.stringify({
+            winnerId,
+            loserId,
+            contestId: activeContestId,
+            winnerVersion: versionOf(winnerId),
+            loserVersion: versionOf(loserId),
+          }),
         })
 
+        if (response.status === 409) {
+          // Already judged this pair; move on rather than leaving the voter stuck.
+          await loadNextMatchup(currentMatchup)
+          return
+        }
+
         if (!response.ok) {
           throw new Error(`Failed to record vote (${response.status})`)
         }
 
-        const data = (await response.json()) as { state?: EloState }
-        const rawState = data.state ?? EMPTY_STATE
-        const ensured = ensureEntries(rawState, logos)
-        setState(ensured)
-        setCurrentMatchup(logos.length >= 2 ? produceMatchup(logos, ensured.entries) : null)
+        // The response carries fresh entries and just this vote's match.
+        const data = (await response.json()) as VoteStateResponse
+        setState((prev) => ensureEntries(mergeVoteDelta(prev, toEloState(data)), logos))
+        setViewerVoterHash(data.viewerVoterHash ?? null)
+        await loadNextMatchup(null)
       } catch (error) {
         console.error('Failed to record vote', error)
       }
     },
-    [contestId, logos],
+    [contestId, currentMatchup, loadNextMatchup, logos],
   )
 
+  const loadOlderMatches = useCallback(async () => {
+    if (!contestId || !historyCursor) {
+      return
+    }
+    try {
+      const query = `contestId=${encodeURIComponent(contestId)}&cursor=${encodeURIComponent(historyCursor)}`
+      const response = await fetch(`/api/votes/history?${query}`, {
+        headers: {
+          Accept: 'application/json',
+        },
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to load vote history (${response.status})`)
+      }
+      const data = (await response.json()) as VoteHistoryPageResponse
+      setState((prev) => mergeVoteDelta(prev, { history: data.matches ?? [] }))
+      setHistoryCursor(data.nextCursor ?? null)
+    } catch (error) {
+      console.error('Failed to load vote history', error)
+    }
+  }, [contestId, historyCursor])
+
   const skipMatchup = useCallback(() => {
-    setCurrentMatchup((previous) =>
-      logos.length >= 2 ? produceMatchup(logos, state.entries, previous) : null,
-    )
-  }, [logos, state.entries])
+    void loadNextMatchup(currentMatchup)
+  }, [currentMatchup, loadNextMatchup])
 
   const rankings = useMemo(() => {
     return logos
@@ -165,11 +383,28 @@ export function EloProvider({ children }: { children: React.ReactNode }) {
       ratings: state.entries,
       rankings,
       recentHistory: state.history,
+      hasOlderMatches: historyCursor !== null,
+      loadOlderMatches,
       currentMatchup,
+      matchupsExhausted,
+      viewerVoterHash,
+      liveRatingDeltas,
       selectWinner,
       skipMatchup,
     }),
-    [currentMatchup, rankings, selectWinner, skipMatchup, state.entries, state.history],
+    [
+      currentMatchup,
+      historyCursor,
+      liveRatingDeltas,
+      loadOlderMatches,
+      matchupsExhausted,
+      rankings,
+      selectWinner,
+      skipMatchup,
+      state.entries,
+      state.history,
+      viewerVoterHash,
+    ],
   )
 
   return <EloContext.Provider value={value}>{children}</EloContext.Provider>
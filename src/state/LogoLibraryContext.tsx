@@ -23,13 +23,22 @@ export type { LogoEntry, SubmitLogoInput, UpdateLogoInput } from '../lib/logo-ut
 
 const seedLogos = sortLogos(logoCatalog.map((logo) => createCatalogEntry(logo)))
 
+/** Logo submission with the artwork as a file, uploaded as multipart/form-data. */
+export type LogoUploadInput = Omit<SubmitLogoInput, 'image'> & { file: File }
+
+export interface LogoUploadOptions {
+  /** Called with the fraction of the request body sent so far, 0–1. */
+  onProgress?: (fraction: number) => void
+}
+
 interface LogoLibraryContextValue {
   contestId: string | null
   loading: boolean
   logos: LogoEntry[]
   allLogos: LogoEntry[]
   getLogoById: (id: string) => LogoEntry | undefined
-  submitLogo: (input: SubmitLogoInput) => Promise<LogoEntry>
+  submitLogo: (input: LogoUploadInput, options?: LogoUploadOptions) => Promise<LogoEntry>
+  replaceLogoImage: (id: string, file: File, options?: LogoUploadOptions) => Promise<LogoEntry>
   assignOwner: (id: string, ownerAlias: string | null) => void
   updateLogoDetails: (id: string, updates: UpdateLogoInput) => Promise<LogoEntry>
   removeLogo: (id: string, removedBy: string | null) => Promise<void>
@@ -57,6 +66,43 @@ async function readLogosFromServer(contestId: string, signal?: AbortSignal): Pro
   return sortLogos(entries)
 }
 
+/**
+ * Sends a form with XMLHttpRequest, which (unlike fetch) reports upload progress. Resolves with
+ * the status and parsed JSON body for any response, leaving error handling to the caller.
+ */
+function sendLogoForm(
+  method: 'POST' | 'PUT',
+  url: string,
+  body: FormData,
+  options: LogoUploadOptions & { ifMatch?: string } = {},
+): Promise<{ status: number; payload: { logo?: LogoEntry; message?: string } }> {
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest()
+    request.open(method, url)
+    request.setRequestHeader('Accept', 'application/json')
+    if (options.ifMatch) {
+      request.setRequestHeader('If-Match', options.ifMatch)
+    }
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        options.onProgress?.(event.loaded / event.total)
+      }
+    }
+    request.onload = () => {
+      let payload: { logo?: LogoEntry; message?: string } = {}
+      try {
+        payload = JSON.parse(request.responseText) as typeof payload
+      } catch {
+        // Non-JSON error pages fall back to a status-based message.
+      }
+      resolve({ status: request.status, payload })
+    }
+    request.onerror = () => reject(new Error('Upload failed. Check your connection and try again.'))
+    request.onabort = () => reject(new Error('Upload was cancelled.'))
+    request.send(body)
+  })
+}
+
 export function LogoLibraryProvider({ children }: { children: ReactNode }) {
   const { liveContest } = useContest()
   const contestId = liveContest?.id ?? null
@@ -135,50 +181,92 @@ export function LogoLibraryProvider({ children }: { children: ReactNode }) {
   }, [contestId, fetchAndStoreLogos])
 
   const submitLogo = useCallback(
-    async (input: SubmitLogoInput): Promise<LogoEntry> => {
+    async (input: LogoUploadInput, options?: LogoUploadOptions): Promise<LogoEntry> => {
       if (!contestId) {
         throw new Error('No contest selected for submission.')
       }
 
-      const response = await fetch('/api/logos', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ ...input, contestId: input.contestId ?? contestId }),
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to submit logo (${response.status})`)
+      // Text fields go first so the server has them before the file streams in.
+      const body = new FormData()
+      body.set('contestId', input.contestId ?? contestId)
+      body.set('name', input.name)
+      if (input.description) {
+        body.set('description', input.description)
+      }
+      if (input.ownerAlias) {
+        body.set('ownerAlias', input.ownerAlias)
       }
+      body.set('image', input.file)
 
-      const data = (await response.json()) as { logo?: LogoEntry }
-      if (!data.logo) {
+      const { status, payload } = await sendLogoForm('POST', '/api/logos', body, options)
+      if (status < 200 || status >= 300) {
+        // Rejected images come back with a reason (too large, animated, wrong type…) worth showing.
+        throw new Error(payload.message ?? `Failed to submit logo (${status})`)
+      }
+      if (!payload.logo) {
         throw new Error('Server did not return a logo entry.')
       }
 
+      const created = payload.logo
       setAllLogos((prev) => {
-        const filtered = prev.filter((logo) => logo.id !== data.logo!.id)
-        return sortLogos([...filtered, data.logo!])
+        const filtered = prev.filter((logo) => logo.id !== created.id)
+        return sortLogos([...filtered, created])
       })
 
-      return data.logo
+      return created
     },
     [contestId],
   )
 
+  const replaceLogoImage = useCallback(
+    async (id: string, file: File, options?: LogoUploadOptions): Promise<LogoEntry> => {
+      if (!contestId) {
+        throw new Error('No contest selected while replacing artwork.')
+      }
+
+      const known = allLogos.find((logo) => logo.id === id)
+      const body = new FormData()
+      body.set('image', file)
+
+      const { status, payload } = await sendLogoForm(
+        'PUT',
+        `/api/logos/${encodeURIComponent(id)}/image?contestId=${encodeURIComponent(contestId)}`,
+        body,
+        { ...options, ifMatch: known ? `"${known.updatedAt}"` : undefined },
+      )
+
+      if (status === 409 && payload.logo) {
+        const current = payload.logo
+        setAllLogos((prev) => sortLogos(prev.map((logo) => (logo.id === current.id ? current : logo))))
+      }
+      if (status < 200 || status >= 300) {
+        throw new Error(payload.message ?? `Failed to replace artwork (${status})`)
+      }
+      if (!payload.logo) {
+        throw new Error('Server did not return an updated logo entry.')
+      }
+
+      const updated = payload.logo
+      setAllLogos((prev) => sortLogos(prev.map((logo) => (logo.id === updated.id ? updated : logo))))
+      return updated
+    },
+    [allLogos, contestId],
+  )
+
   const updateLogoDetails = useCallback(
     async (id: string, updates: UpdateLogoInput): Promise<LogoEntry> => {
       if (!contestId) {
         throw new Error('No contest selected while updating logo.')
       }
 
+      const known = allLogos.find((logo) => logo.id === id)
       const response = await fetch(
         `/api/logos/${encodeURIComponent(id)}?contestId=${encodeURIComponent(contestId)}`,
         {
           method: 'PATCH',
           headers: {
             'Content-Type': 'application/json',
+            ...(known ? { 'If-Match': `"${known.updatedAt}"` } : {}),
           },
           body: JSON.stringify(updates),
         },
@@ -194,6 +282,12 @@ export function LogoLibraryProvider({ children }: { children: ReactNode }) {
         }
       }
 
+      if (response.status === 409 && payload.logo) {
+        // Someone else saved first: show their version so the editor can re-apply changes.
+        const current = payload.logo
+        setAllLogos((prev) => sortLogos(prev.map((logo) => (logo.id === current.id ? current : logo))))
+      }
+
       if (!response.ok) {
         throw new Error(payload.message ?? `Failed to update logo (${response.status})`)
       }
@@ -209,7 +303,7 @@ export function LogoLibraryProvider({ children }: { children: ReactNode }) {
 
       return payload.logo
     },
-    [contestId],
+    [allLogos, contestId],
   )
 
   const assignOwner = useCallback(
@@ -285,6 +379,7 @@ export function LogoLibraryProvider({ children }: { children: ReactNode }) {
       allLogos,
       getLogoById,
       submitLogo,
+      replaceLogoImage,
       assignOwner,
       updateLogoDetails,
       removeLogo,
@@ -304,6 +399,7 @@ export function LogoLibraryProvider({ children }: { children: ReactNode }) {
       updateLogoDetails,
       refresh,
       removeLogo,
+      replaceLogoImage,
       submitLogo,
     ],
   )